@@ -19,14 +19,19 @@ import Appearance from "@/pages/appearance";
 import Chef from "@/pages/chef";
 import InventoryManagement from "@/pages/inventory-management";
 import Printer from "@/pages/printer";
+import Pos from "@/pages/pos";
 import Layout from "@/components/layout";
 import { useAuth, AuthProvider } from "@/lib/auth";
+import { useRealtimeQuerySync } from "@/hooks/useRealtimeEvents";
 import React from "react";
 
 function ProtectedRoute({
   component: Component,
+  fullScreen = false,
 }: {
   component: React.ComponentType;
+  // Render without the sidebar and header, e.g. the POS screen
+  fullScreen?: boolean;
 }) {
   const { user, isLoading } = useAuth();
 
@@ -42,6 +47,10 @@ function ProtectedRoute({
     return <Login />;
   }
 
+  if (fullScreen) {
+    return <Component />;
+  }
+
   return (
     <Layout>
       <Component />
@@ -159,6 +168,10 @@ function Router() {
         path="/printer"
         component={() => <ProtectedRoute component={Printer} />}
       />
+      <Route
+        path="/pos"
+        component={() => <ProtectedRoute component={Pos} fullScreen />}
+      />
       <Route
         path="/chef"
         component={() => <ProtectedRoute component={ChefGuard} />}
@@ -169,10 +182,17 @@ function Router() {
   );
 }
 
+// Wires real-time hub events into the query cache for every page
+function RealtimeSync() {
+  useRealtimeQuerySync();
+  return null;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
+        <RealtimeSync />
         <TooltipProvider>
           <Toaster />
           <Router />
@@ -52,7 +52,11 @@ const itemSchema = z.object({
   categoryId: z.number().min(1, "Category is required"),
   unit: z.string().min(1, "Unit is required"),
   reorderLevel: z.number().min(0, "Reorder level must be at least 0").multipleOf(0.001, "Reorder level can have up to 3 decimal places"),
+  parLevel: z.number().min(0, "Par level must be at least 0").multipleOf(0.001, "Par level can have up to 3 decimal places").optional(),
   defaultSupplierId: z.number().optional(),
+}).refine((data) => data.parLevel === undefined || data.parLevel >= data.reorderLevel, {
+  message: "Par level can't be below the reorder level",
+  path: ["parLevel"],
 });
 
 type ItemFormData = z.infer<typeof itemSchema>;
@@ -64,6 +68,7 @@ interface InventoryItem {
   categoryName: string;
   unit: string;
   reorderLevel: number;
+  parLevel?: number | null;
   defaultSupplierName: string | null;
 }
 
@@ -142,6 +147,7 @@ export default function AddInventoryItemModal({
         categoryId: item.categoryId || 0,
         unit: item.unit,
         reorderLevel: item.reorderLevel,
+        parLevel: item.parLevel ?? undefined,
         defaultSupplierId: item.defaultSupplierId,
       });
     } else if (open && !item) {
@@ -150,13 +156,14 @@ export default function AddInventoryItemModal({
         categoryId: 0,
         unit: "",
         reorderLevel: 0,
+        parLevel: undefined,
         defaultSupplierId: undefined,
       });
     }
   }, [item, open, form]);
 
   const createItemMutation = useMutation({
-    mutationFn: (data: { name: string; categoryId: number; branchId: number; unit: string; reorderLevel: number; defaultSupplierId?: number }) => 
+    mutationFn: (data: { name: string; categoryId: number; branchId: number; unit: string; reorderLevel: number; parLevel?: number; defaultSupplierId?: number }) => 
       inventoryApi.createInventoryItem(data),
     onSuccess: () => {
       toast({
@@ -164,6 +171,7 @@ export default function AddInventoryItemModal({
         description: "Item created successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["inventory-items", branchId] });
+      queryClient.invalidateQueries({ queryKey: ["inventory-items-simple", branchId] });
       queryClient.invalidateQueries({ queryKey: ["inventory-stock", branchId] });
       queryClient.invalidateQueries({ queryKey: ["inventory-low-stock", branchId] });
       onSuccess?.();
@@ -180,7 +188,7 @@ export default function AddInventoryItemModal({
   });
 
   const updateItemMutation = useMutation({
-    mutationFn: ({ id, data }: { id: number; data: { name: string; categoryId: number; unit: string; reorderLevel: number; defaultSupplierId?: number } }) => 
+    mutationFn: ({ id, data }: { id: number; data: { name: string; categoryId: number; unit: string; reorderLevel: number; parLevel?: number; defaultSupplierId?: number } }) => 
       inventoryApi.updateInventoryItem(id, data),
     onSuccess: () => {
       toast({
@@ -188,6 +196,7 @@ export default function AddInventoryItemModal({
         description: "Item updated successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["inventory-items", branchId] });
+      queryClient.invalidateQueries({ queryKey: ["inventory-items-simple", branchId] });
       queryClient.invalidateQueries({ queryKey: ["inventory-stock", branchId] });
       queryClient.invalidateQueries({ queryKey: ["inventory-low-stock", branchId] });
       onSuccess?.();
@@ -212,6 +221,7 @@ export default function AddInventoryItemModal({
           categoryId: data.categoryId,
           unit: data.unit,
           reorderLevel: data.reorderLevel,
+          parLevel: data.parLevel,
           defaultSupplierId: data.defaultSupplierId || undefined,
         },
       });
@@ -222,6 +232,7 @@ export default function AddInventoryItemModal({
         branchId,
         unit: data.unit,
         reorderLevel: data.reorderLevel,
+        parLevel: data.parLevel,
         defaultSupplierId: data.defaultSupplierId || undefined,
       });
     }
@@ -354,6 +365,26 @@ export default function AddInventoryItemModal({
             )}
           </div>
 
+          <div>
+            <Label htmlFor="parLevel">Par Level (Optional)</Label>
+            <Input
+              id="parLevel"
+              type="number"
+              step="0.001"
+              {...form.register("parLevel", {
+                setValueAs: (value) => (value === "" || value === null ? undefined : Number(value)),
+              })}
+              placeholder="Stock to order back up to"
+              data-testid="input-par-level"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Suggested purchase orders top stock back up to this level. Defaults to twice the reorder level.
+            </p>
+            {form.formState.errors.parLevel && (
+              <p className="text-sm text-red-600 mt-1">{form.formState.errors.parLevel.message}</p>
+            )}
+          </div>
+
           <div>
             <Label htmlFor="defaultSupplierId">Default Supplier (Optional)</Label>
             <Select
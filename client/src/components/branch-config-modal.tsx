@@ -44,6 +44,11 @@ const branchConfigSchema = z.object({
   minNoticeMinutes: z.preprocess(v => v === '' || v == null ? undefined : Number(v), z.number().min(0).optional()),
   maxGuestsPerReservation: z.preprocess(v => v === '' || v == null ? undefined : Number(v), z.number().min(1).optional()),
   holdTimeMinutes: z.preprocess(v => v === '' || v == null ? undefined : Number(v), z.number().min(0).optional()),
+
+  // Kitchen Stage Targets
+  newStageMinutes: z.preprocess(v => v === '' || v == null ? undefined : Number(v), z.number().min(1).optional()),
+  preparingStageMinutes: z.preprocess(v => v === '' || v == null ? undefined : Number(v), z.number().min(1).optional()),
+  readyStageMinutes: z.preprocess(v => v === '' || v == null ? undefined : Number(v), z.number().min(1).optional()),
 });
 
 type BranchConfigData = z.infer<typeof branchConfigSchema>;
@@ -68,6 +73,9 @@ interface BranchConfigResponse {
   taxPercentage: number;
   taxAppliedType: number;
   maxDiscountAmount: number;
+  newStageMinutes?: number | null;
+  preparingStageMinutes?: number | null;
+  readyStageMinutes?: number | null;
 }
 
 interface BranchConfigModalProps {
@@ -113,6 +121,11 @@ export default function BranchConfigModal({ open, onClose, branch }: BranchConfi
       minNoticeMinutes: undefined,
       maxGuestsPerReservation: undefined,
       holdTimeMinutes: undefined,
+
+      // Kitchen stage targets are not tracked until set
+      newStageMinutes: undefined,
+      preparingStageMinutes: undefined,
+      readyStageMinutes: undefined,
     },
   });
 
@@ -214,6 +227,9 @@ export default function BranchConfigModal({ open, onClose, branch }: BranchConfi
           minNoticeMinutes: configData.minNoticeMinutes ?? undefined,
           maxGuestsPerReservation: configData.maxGuestsPerReservation ?? undefined,
           holdTimeMinutes: configData.holdTimeMinutes ?? undefined,
+          newStageMinutes: configData.newStageMinutes ?? undefined,
+          preparingStageMinutes: configData.preparingStageMinutes ?? undefined,
+          readyStageMinutes: configData.readyStageMinutes ?? undefined,
         }, { keepDirtyValues: true });
 
         hasLoadedRef.current = true;
@@ -278,6 +294,10 @@ export default function BranchConfigModal({ open, onClose, branch }: BranchConfi
         MaxDiscountAmount: data.maxDiscountAmount,
         // Remove the camelCase version to avoid duplication
         maxDiscountAmount: undefined,
+        // null clears a stage target; undefined would be left out of the request
+        newStageMinutes: data.newStageMinutes ?? null,
+        preparingStageMinutes: data.preparingStageMinutes ?? null,
+        readyStageMinutes: data.readyStageMinutes ?? null,
       };
 
       await branchApi.updateBranchConfiguration(branch.id, apiData);
@@ -980,6 +1000,56 @@ export default function BranchConfigModal({ open, onClose, branch }: BranchConfi
               </Card>
             )}
 
+            {/* Kitchen Stage Targets */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Kitchen Stage Targets</CardTitle>
+                <p className="text-xs text-muted-foreground">
+                  Minutes an order may spend in each stage before the order timeline flags it. Leave empty to not track a stage.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {([
+                    { name: "newStageMinutes", label: "New", testId: "input-new-stage-minutes" },
+                    { name: "preparingStageMinutes", label: "Preparing", testId: "input-preparing-stage-minutes" },
+                    { name: "readyStageMinutes", label: "Ready", testId: "input-ready-stage-minutes" },
+                  ] as const).map((stage) => (
+                    <FormField
+                      key={stage.name}
+                      control={form.control}
+                      name={stage.name}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{stage.label} (minutes)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              {...field}
+                              value={field.value ?? ''}
+                              onChange={(e) => field.onChange(e.target.value)}
+                              onBlur={(e) => {
+                                const value = e.target.value;
+                                if (value === '') {
+                                  field.onChange(''); // Keep empty string for clearing
+                                } else {
+                                  const numValue = parseInt(value);
+                                  field.onChange(!isNaN(numValue) && numValue >= 1 ? numValue : undefined);
+                                }
+                              }}
+                              placeholder="Not tracked"
+                              data-testid={stage.testId}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
             <Separator />
 
             {/* Action Buttons */}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Monitor } from "lucide-react";
+import {
+  BrowserPrintSettings as BrowserPrintSettingsValue,
+  getBrowserPrintSettings,
+  isBluetoothPrintingSupported,
+  saveBrowserPrintSettings,
+} from "@/utils/printBrowserReceipt";
+
+export default function BrowserPrintSettings() {
+  const [settings, setSettings] = useState<BrowserPrintSettingsValue>(getBrowserPrintSettings);
+  const bluetoothSupported = isBluetoothPrintingSupported();
+
+  // Small device-level toggles, so changes apply immediately
+  const updateSettings = (changes: Partial<BrowserPrintSettingsValue>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveBrowserPrintSettings(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Monitor className="h-5 w-5" />
+          Browser Printing
+        </CardTitle>
+        <CardDescription>
+          Print receipts through the browser (any installed printer or Save as PDF) when no Bluetooth printer is connected
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!bluetoothSupported && (
+          <p className="text-sm text-amber-600" data-testid="text-bluetooth-unsupported">
+            This browser does not support Web Bluetooth. Receipts will print through the browser dialog.
+          </p>
+        )}
+
+        <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
+          <div>
+            <Label htmlFor="browser-auto-print" className="font-medium">Auto-print new orders</Label>
+            <p className="text-xs text-muted-foreground">
+              Open the print dialog when an order arrives and no Bluetooth printer is set up
+            </p>
+          </div>
+          <Switch
+            id="browser-auto-print"
+            checked={settings.autoPrint}
+            onCheckedChange={(autoPrint) => updateSettings({ autoPrint })}
+            data-testid="switch-browser-auto-print"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label>Paper size</Label>
+          <Select
+            value={String(settings.paperWidth)}
+            onValueChange={(value) =>
+              updateSettings({ paperWidth: value === "a4" ? "a4" : (Number(value) as 58 | 80) })
+            }
+          >
+            <SelectTrigger className="w-40" data-testid="select-browser-paper-width">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="58">58mm roll</SelectItem>
+              <SelectItem value="80">80mm roll</SelectItem>
+              <SelectItem value="a4">A4 / Letter</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { CheckCircle2, Printer, X, XCircle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DetailedOrder } from "@/types/schema";
+import { OrderStatusType } from "@/utils/kitchenDisplay";
+import { CANCELLATION_REASONS, getLifecycleState, requiresReason } from "@/utils/orderLifecycle";
+import {
+  BulkOrderResult,
+  BulkProgress,
+  bulkReprintAction,
+  createBulkStatusAction,
+  runBulkOrderAction,
+} from "@/utils/bulkOrderActions";
+import { ORDER_EXPORT_COLUMNS } from "@/utils/orderExport";
+import { ExportContext } from "@/utils/tableExport";
+import { ExportMenu } from "@/components/export-menu";
+
+interface BulkOrderActionsProps {
+  selectedOrders: DetailedOrder[];
+  statusTypes: OrderStatusType[];
+  onSelectionChange: (orders: DetailedOrder[]) => void;
+  // Called after a bulk status update so the list can refresh
+  onStatusUpdated?: () => void;
+  exportContext?: ExportContext;
+}
+
+interface BulkRun {
+  title: string;
+  progress: BulkProgress;
+  results?: BulkOrderResult[];
+}
+
+export function BulkOrderActions({
+  selectedOrders,
+  statusTypes,
+  onSelectionChange,
+  onStatusUpdated,
+  exportContext,
+}: BulkOrderActionsProps) {
+  const [targetStatusId, setTargetStatusId] = useState<string>("");
+  const [reasonCode, setReasonCode] = useState<string>("");
+  const [run, setRun] = useState<BulkRun | null>(null);
+
+  const targetStatus = statusTypes.find(status => status.id.toString() === targetStatusId);
+  const needsReason = !!targetStatus && requiresReason(getLifecycleState(targetStatus.name));
+  const isRunning = !!run && !run.results;
+
+  const start = async (
+    title: string,
+    action: (order: DetailedOrder) => Promise<void>,
+  ): Promise<BulkOrderResult[]> => {
+    const orders = [...selectedOrders];
+    setRun({ title, progress: { completed: 0, total: orders.length } });
+    const results = await runBulkOrderAction(orders, action, progress =>
+      setRun(current => (current ? { ...current, progress } : current)),
+    );
+    setRun(current => (current ? { ...current, results } : current));
+    return results;
+  };
+
+  const handleApplyStatus = async () => {
+    if (!targetStatus || (needsReason && !reasonCode)) return;
+
+    const results = await start(
+      `Updating ${selectedOrders.length} orders to ${targetStatus.name}`,
+      createBulkStatusAction(targetStatus, statusTypes, {
+        reasonCode,
+        source: "Bulk status update via restaurant management",
+      }),
+    );
+
+    if (results.some(result => result.success)) {
+      onStatusUpdated?.();
+    }
+    setTargetStatusId("");
+    setReasonCode("");
+  };
+
+  const handleReprint = () => {
+    start(`Reprinting ${selectedOrders.length} receipts`, bulkReprintAction);
+  };
+
+  const closeSummary = () => {
+    const failedIds = new Set(
+      (run?.results || []).filter(result => !result.success).map(result => result.orderId),
+    );
+    setRun(null);
+    // Keep only the failures selected so they can be retried
+    onSelectionChange(selectedOrders.filter(order => failedIds.has(order.id)));
+  };
+
+  if (selectedOrders.length === 0 && !run) return null;
+
+  const succeeded = run?.results?.filter(result => result.success) || [];
+  const failed = run?.results?.filter(result => !result.success) || [];
+
+  return (
+    <>
+      <div
+        className="flex flex-wrap items-center gap-2 rounded-lg border border-green-200 bg-green-50 px-4 py-3"
+        data-testid="bulk-order-actions"
+      >
+        <span className="text-sm font-medium text-gray-800 mr-2" data-testid="text-selected-count">
+          {selectedOrders.length} selected
+        </span>
+
+        <Select value={targetStatusId} onValueChange={setTargetStatusId}>
+          <SelectTrigger className="w-44 bg-white" data-testid="select-bulk-status">
+            <SelectValue placeholder="Set status..." />
+          </SelectTrigger>
+          <SelectContent>
+            {statusTypes.map(status => (
+              <SelectItem key={status.id} value={status.id.toString()}>
+                {status.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {needsReason && (
+          <Select value={reasonCode} onValueChange={setReasonCode}>
+            <SelectTrigger className="w-48 bg-white" data-testid="select-bulk-cancel-reason">
+              <SelectValue placeholder="Cancellation reason" />
+            </SelectTrigger>
+            <SelectContent>
+              {CANCELLATION_REASONS.map(reason => (
+                <SelectItem key={reason.code} value={reason.code}>
+                  {reason.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <Button
+          size="sm"
+          className="bg-green-500 hover:bg-green-600"
+          disabled={!targetStatus || (needsReason && !reasonCode) || isRunning}
+          onClick={handleApplyStatus}
+          data-testid="button-bulk-apply-status"
+        >
+          Apply
+        </Button>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <Button
+            size="sm"
+            variant="outline"
+            className="bg-white"
+            disabled={isRunning}
+            onClick={handleReprint}
+            data-testid="button-bulk-reprint"
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            Reprint
+          </Button>
+          <ExportMenu
+            fileName="orders-selection"
+            sheetName="Orders"
+            columns={ORDER_EXPORT_COLUMNS}
+            rows={selectedOrders}
+            context={exportContext}
+            className="bg-white"
+            disabled={isRunning}
+            data-testid="button-bulk-export"
+          />
+          <Button
+            size="sm"
+            variant="ghost"
+            disabled={isRunning}
+            onClick={() => onSelectionChange([])}
+            data-testid="button-bulk-clear"
+          >
+            <X className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={!!run} onOpenChange={(open) => !open && !isRunning && closeSummary()}>
+        <DialogContent className="sm:max-w-[480px]" data-testid="bulk-progress-dialog">
+          <DialogHeader>
+            <DialogTitle>{run?.title}</DialogTitle>
+            <DialogDescription>
+              {isRunning
+                ? `Processing ${run?.progress.completed} of ${run?.progress.total}...`
+                : `${succeeded.length} succeeded, ${failed.length} failed`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {run && (
+            <div className="space-y-4">
+              <Progress
+                value={run.progress.total ? (run.progress.completed / run.progress.total) * 100 : 0}
+                data-testid="bulk-progress"
+              />
+
+              {run.results && (
+                <div className="max-h-64 overflow-y-auto divide-y rounded border" data-testid="bulk-results">
+                  {run.results.map(result => (
+                    <div
+                      key={result.orderId}
+                      className="flex items-start gap-2 px-3 py-2 text-sm"
+                      data-testid={`bulk-result-${result.orderId}`}
+                    >
+                      {result.success ? (
+                        <CheckCircle2 className="w-4 h-4 mt-0.5 text-green-600 shrink-0" />
+                      ) : (
+                        <XCircle className="w-4 h-4 mt-0.5 text-red-600 shrink-0" />
+                      )}
+                      <div>
+                        <p className="font-medium">{result.orderNumber}</p>
+                        {result.error && <p className="text-xs text-red-600">{result.error}</p>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  disabled={isRunning}
+                  onClick={closeSummary}
+                  data-testid="button-bulk-close"
+                >
+                  Close
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,8 +1,8 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { X, Plus, Minus, Printer, ShoppingCart, Search } from "lucide-react";
+import { X, Plus, Minus, Printer, ShoppingCart, Search, AlertTriangle } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -19,7 +19,25 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Checkbox } from "@/components/ui/checkbox";
-import { apiRepository } from "@/lib/apiRepository";
+import { apiRepository, ordersApi } from "@/lib/apiRepository";
+import { bluetoothPrinterService } from "@/services/bluetoothPrinterService";
+import {
+  OrderItemSelection,
+  buildOrderLinesPayload,
+  calculateDiscountedPrice,
+  calculateItemPrice,
+  calculateOrderTotals,
+} from "@/utils/orderCart";
+import { REORDER_ISSUE_LABELS, ReorderIssue, buildReorder } from "@/utils/reorder";
+import { OrderStatusType } from "@/utils/kitchenDisplay";
+import { adjustInventoryDepletion } from "@/utils/inventoryDepletion";
+import {
+  buildOrderDelta,
+  describeOrderDelta,
+  logOrderModification,
+  priceModifiedCart,
+  printModifiedKitchenTicket,
+} from "@/utils/orderModification";
 import type {
   CustomerMenuItem,
   CustomerDeal,
@@ -36,6 +54,7 @@ import type {
   CreateOrderPickupDetails,
   CreateOrderDeliveryDetails,
   OrderType,
+  DetailedOrder,
 } from "@/types/schema";
 
 interface LocationData {
@@ -43,21 +62,17 @@ interface LocationData {
   name: string;
 }
 
-interface OrderItemSelection {
-  type: 'menuItem' | 'deal';
-  item: CustomerMenuItem | CustomerDeal;
-  quantity: number;
-  selectedVariation?: number;
-  selectedModifiers: CreateOrderItemModifier[];
-  selectedCustomizations: CreateOrderItemCustomization[];
-  price: number;
-}
-
 interface CreateOrderModalProps {
   isOpen: boolean;
   onClose: () => void;
   branchId: number;
   onOrderCreated?: (order: CreateOrderResponse) => void;
+  // Past order whose items pre-populate the cart
+  reorderFrom?: DetailedOrder | null;
+  // Open order being edited in place instead of creating a new one
+  modifyOrder?: DetailedOrder | null;
+  statusTypes?: OrderStatusType[];
+  onOrderModified?: (order: DetailedOrder) => void;
 }
 
 export default function CreateOrderModal({
@@ -65,6 +80,10 @@ export default function CreateOrderModal({
   onClose,
   branchId,
   onOrderCreated,
+  reorderFrom,
+  modifyOrder,
+  statusTypes = [],
+  onOrderModified,
 }: CreateOrderModalProps) {
   const { toast } = useToast();
   const [orderItems, setOrderItems] = useState<OrderItemSelection[]>([]);
@@ -92,6 +111,10 @@ export default function CreateOrderModal({
   const [deliveryTime, setDeliveryTime] = useState<string>("");
   const [showDeliveryForm, setShowDeliveryForm] = useState(true);
   const [showPickupForm, setShowPickupForm] = useState(true);
+  const [reorderIssues, setReorderIssues] = useState<ReorderIssue[]>([]);
+  const [appliedReorderId, setAppliedReorderId] = useState<number | null>(null);
+  // The modified order's lines as first loaded, to diff the edited cart against
+  const [originalItems, setOriginalItems] = useState<OrderItemSelection[]>([]);
 
   // Reset form visibility when order type changes
   useEffect(() => {
@@ -193,60 +216,39 @@ export default function CreateOrderModal({
     enabled: isOpen,
   });
 
-  // Calculate discounted price
-  const calculateDiscountedPrice = (originalPrice: number, discount: any) => {
-    if (!discount) return originalPrice;
-    const discountAmount = (originalPrice * discount.value) / 100;
-    return originalPrice - discountAmount;
-  };
+  // Order whose lines fill the cart: the one being modified, or the one being reordered
+  const sourceOrder = modifyOrder || reorderFrom;
 
-  // Calculate item price with modifiers and customizations
-  const calculateItemPrice = (
-    item: CustomerMenuItem | CustomerDeal,
-    type: 'menuItem' | 'deal',
-    selectedVariation?: number,
-    selectedModifiers: CreateOrderItemModifier[] = [],
-    selectedCustomizations: CreateOrderItemCustomization[] = []
-  ): number => {
-    let basePrice = 0;
-
-    if (type === 'menuItem') {
-      const menuItem = item as CustomerMenuItem;
-      const variation = menuItem.variations.find(v => v.id === selectedVariation) || menuItem.variations[0];
-      basePrice = variation?.price || 0;
-
-      // Add modifier prices
-      selectedModifiers.forEach(mod => {
-        const modifier = menuItem.modifiers.find(m => m.id === mod.modifierId);
-        if (modifier) {
-          basePrice += modifier.price * mod.quantity;
-        }
-      });
-
-      // Add customization prices
-      selectedCustomizations.forEach(cust => {
-        const customization = menuItem.customizations.find(c => c.id === cust.customizationId);
-        if (customization) {
-          const option = customization.options.find(o => o.id === cust.optionId);
-          if (option) {
-            basePrice += option.price;
-          }
-        }
-      });
-
-      // Apply discount
-      if (menuItem.discount) {
-        basePrice = calculateDiscountedPrice(basePrice, menuItem.discount);
-      }
-    } else if (type === 'deal') {
-      const deal = item as CustomerDeal;
-      basePrice = deal.discount 
-        ? calculateDiscountedPrice(deal.price, deal.discount)
-        : deal.price;
+  // Pre-populate the cart once the current menu is loaded, checking every line against it
+  useEffect(() => {
+    if (!isOpen || !sourceOrder) {
+      setAppliedReorderId(null);
+      return;
     }
-
-    return basePrice;
-  };
+    if (!menuData || appliedReorderId === sourceOrder.id) return;
+
+    const draft = buildReorder(sourceOrder, menuData, { keepPrices: !!modifyOrder });
+    setOrderItems(draft.items);
+    setOriginalItems(modifyOrder ? draft.items : []);
+    setReorderIssues(draft.issues);
+    setOrderType(draft.orderType);
+    setSelectedLocation(draft.locationId);
+    setSpecialInstructions(draft.specialInstruction);
+    setSelectedAllergens(
+      (allergens || [])
+        .filter((allergen) => draft.allergenNames.some((name) => name.toLowerCase() === allergen.name.toLowerCase()))
+        .map((allergen) => allergen.id),
+    );
+    setPickupName(draft.customerName);
+    setPickupPhone(draft.customerPhone);
+    setPickupInstruction(draft.pickupInstruction);
+    setDeliveryFullName(draft.customerName);
+    setDeliveryPhone(draft.customerPhone);
+    setDeliveryAddress(draft.deliveryAddress);
+    setDeliveryInstruction(draft.deliveryInstruction);
+    setTipAmount(modifyOrder ? modifyOrder.tipAmount || 0 : 0);
+    setAppliedReorderId(sourceOrder.id);
+  }, [isOpen, sourceOrder, modifyOrder, menuData, allergens, appliedReorderId]);
 
   // Add menu item to order - opens customization modal
   const addMenuItem = (item: CustomerMenuItem) => {
@@ -300,9 +302,10 @@ export default function CreateOrderModal({
 
   // Update item quantity
   const updateQuantity = (index: number, delta: number) => {
-    const newItems = [...orderItems];
-    newItems[index].quantity = Math.max(1, newItems[index].quantity + delta);
-    setOrderItems(newItems);
+    // Copy the line: the original lines of a modified order share these objects
+    setOrderItems(
+      orderItems.map((item, i) => (i === index ? { ...item, quantity: Math.max(1, item.quantity + delta) } : item)),
+    );
   };
 
   // Remove item
@@ -310,70 +313,20 @@ export default function CreateOrderModal({
     setOrderItems(orderItems.filter((_, i) => i !== index));
   };
 
-  // Calculate order totals
-  const calculateTotals = () => {
-    const subTotal = orderItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-    
-    const config = branchConfig || {};
-    const discountPercentage = config.discountPercentage || 0;
-    const serviceChargePercentage = config.serviceChargePercentage || 0;
-    const taxPercentage = config.taxPercentage || 0;
-    const isDiscountOnTotal = config.isDiscountOnTotal !== false;
-
-    let discountAmount = 0;
-    let taxableAmount = subTotal;
-
-    if (isDiscountOnTotal && discountPercentage > 0) {
-      discountAmount = (subTotal * discountPercentage) / 100;
-      taxableAmount = subTotal - discountAmount;
-    }
-
-    const taxAmount = (taxableAmount * taxPercentage) / 100;
-    const serviceCharges = (taxableAmount * serviceChargePercentage) / 100;
-
-    if (!isDiscountOnTotal && discountPercentage > 0) {
-      discountAmount = (taxAmount * discountPercentage) / 100;
-    }
-
-    const totalAmount = taxableAmount + taxAmount + serviceCharges + tipAmount - (isDiscountOnTotal ? 0 : discountAmount);
+  // A modified order keeps the prices its lines were ordered at; only added units use today's prices
+  const pricedItems = useMemo(
+    () => (modifyOrder ? priceModifiedCart(originalItems, orderItems) : orderItems),
+    [modifyOrder, originalItems, orderItems],
+  );
 
-    return {
-      subTotal,
-      discountAmount,
-      taxAmount,
-      serviceCharges,
-      tipAmount,
-      totalAmount,
-    };
-  };
+  // Calculate order totals
+  const calculateTotals = () => calculateOrderTotals(pricedItems, branchConfig || {}, tipAmount);
 
   // Create order mutation
   const createOrderMutation = useMutation({
     mutationFn: async () => {
-      // Process menu items
-      const menuItemsPayload = orderItems
-        .filter(item => item.type === 'menuItem')
-        .map(item => {
-          const menuItem = item.item as CustomerMenuItem;
-          return {
-            menuItemId: menuItem.menuItemId,
-            variantId: item.selectedVariation || menuItem.variations[0].id,
-            quantity: item.quantity,
-            modifiers: item.selectedModifiers,
-            customizations: item.selectedCustomizations,
-          };
-        });
-
-      // Process deals/packages
-      const orderPackagesPayload = orderItems
-        .filter(item => item.type === 'deal')
-        .map(item => {
-          const deal = item.item as CustomerDeal;
-          return {
-            menuPackageId: deal.dealId,
-            quantity: item.quantity,
-          };
-        });
+      const { orderItems: menuItemsPayload, orderPackages: orderPackagesPayload } =
+        buildOrderLinesPayload(orderItems);
 
       // Build delivery details if order type is Delivery
       let deliveryDetails: CreateOrderDeliveryDetails | null = null;
@@ -458,6 +411,7 @@ export default function CreateOrderModal({
         setDeliveryAddress("");
         setDeliveryInstruction("");
         setDeliveryTime("");
+        setReorderIssues([]);
       }
     },
     onError: (error: any) => {
@@ -469,6 +423,78 @@ export default function CreateOrderModal({
     },
   });
 
+  // Modify order mutation - replaces the lines of the open order and sends the changes to the kitchen
+  const orderDelta = useMemo(
+    () => (modifyOrder ? buildOrderDelta(originalItems, orderItems) : []),
+    [modifyOrder, originalItems, orderItems],
+  );
+  // Lines that can't be rebuilt from today's menu would be dropped from the order
+  const blockingIssues = modifyOrder ? reorderIssues.filter((issue) => issue.type !== "repriced") : [];
+
+  const modifyOrderMutation = useMutation({
+    mutationFn: async () => {
+      if (!modifyOrder) throw new Error("No order to modify");
+      const totals = calculateTotals();
+      const updated = await ordersApi.updateOrderItems(modifyOrder.id, {
+        orderId: modifyOrder.id,
+        ...buildOrderLinesPayload(orderItems),
+        specialInstruction: specialInstructions,
+        allergenIds: selectedAllergens,
+        ...totals,
+      });
+
+      try {
+        await logOrderModification(modifyOrder, statusTypes, orderDelta);
+      } catch (error) {
+        // The order itself is saved; a missing history entry shouldn't undo that
+        console.error("[Order Modification] ❌ Failed to log change in status history:", error);
+      }
+
+      // Orders that already depleted stock are charged or credited for the changed lines
+      const depletion = await adjustInventoryDepletion({ ...modifyOrder, ...updated }, "Modified");
+      if (depletion.status === "failed") {
+        toast({
+          title: "Stock Not Updated",
+          description: depletion.error,
+          variant: "destructive",
+        });
+      }
+
+      if (bluetoothPrinterService.getConnectionStatus()) {
+        const result = await printModifiedKitchenTicket({ ...modifyOrder, ...updated }, orderDelta);
+        if (!result.success) {
+          toast({
+            title: "Kitchen Ticket Failed",
+            description: result.error || "Failed to print modified kitchen ticket",
+            variant: "destructive",
+          });
+        }
+      }
+
+      return updated;
+    },
+    onSuccess: (updated) => {
+      toast({
+        title: "Order Modified",
+        description: describeOrderDelta(orderDelta),
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/branch/${branchId}`] });
+      queryClient.invalidateQueries({ queryKey: ["orders", branchId] });
+      onOrderModified?.(updated);
+      onClose();
+      setOrderItems([]);
+      setOriginalItems([]);
+      setReorderIssues([]);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to modify order",
+        variant: "destructive",
+      });
+    },
+  });
+
   const totals = calculateTotals();
   const currency = branch?.currency || menuData?.currency || "PKR";
 
@@ -502,7 +528,13 @@ export default function CreateOrderModal({
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-[95vw] w-full h-[90vh] max-h-[90vh] p-0">
         <DialogHeader className="px-6 pt-6 pb-4">
-          <DialogTitle className="text-2xl font-bold">Create Order</DialogTitle>
+          <DialogTitle className="text-2xl font-bold">
+            {modifyOrder
+              ? `Modify Order #${modifyOrder.orderNumber}`
+              : reorderFrom
+                ? `Reorder #${reorderFrom.orderNumber}`
+                : "Create Order"}
+          </DialogTitle>
         </DialogHeader>
 
         <div className="flex flex-1 overflow-hidden">
@@ -512,7 +544,11 @@ export default function CreateOrderModal({
               {/* Order Type Selection */}
               <div>
                 <label className="text-sm font-medium mb-2 block">Order Type</label>
-                <Select value={orderType.toString()} onValueChange={(val) => setOrderType(parseInt(val))}>
+                <Select
+                  value={orderType.toString()}
+                  onValueChange={(val) => setOrderType(parseInt(val))}
+                  disabled={!!modifyOrder}
+                >
                   <SelectTrigger data-testid="select-order-type">
                     <SelectValue />
                   </SelectTrigger>
@@ -681,6 +717,40 @@ export default function CreateOrderModal({
             </div>
 
             <ScrollArea className="flex-1 px-6 py-4">
+              {/* Reorder check against the current menu */}
+              {sourceOrder && reorderIssues.length > 0 && (
+                <Card className="mb-4 border-amber-300 bg-amber-50" data-testid="reorder-issues">
+                  <CardContent className="p-3 space-y-2">
+                    <h4 className="font-semibold text-sm flex items-center gap-2 text-amber-800">
+                      <AlertTriangle className="w-4 h-4" />
+                      {modifyOrder
+                        ? `${reorderIssues.length} line${reorderIssues.length === 1 ? "" : "s"} changed on the menu`
+                        : `${reorderIssues.length} change${reorderIssues.length === 1 ? "" : "s"} since order #${sourceOrder.orderNumber}`}
+                    </h4>
+                    {blockingIssues.length > 0 && (
+                      <p className="text-xs text-amber-800" data-testid="text-modify-blocked">
+                        These lines can't be kept on the order as it is. Cancel the order and create a new one to change it.
+                      </p>
+                    )}
+                    {reorderIssues.map((issue, index) => (
+                      <div key={index} className="text-xs" data-testid={`reorder-issue-${index}`}>
+                        <div className="flex items-center gap-2">
+                          <Badge variant={issue.type === "repriced" ? "outline" : "destructive"} className="text-[10px]">
+                            {REORDER_ISSUE_LABELS[issue.type]}
+                          </Badge>
+                          <span className="font-medium">{issue.name}</span>
+                        </div>
+                        <p className="text-muted-foreground mt-0.5">
+                          {issue.type === "repriced" && issue.previousPrice !== undefined && issue.currentPrice !== undefined
+                            ? `${currency} ${issue.previousPrice.toFixed(2)} → ${currency} ${issue.currentPrice.toFixed(2)}`
+                            : issue.message}
+                        </p>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Delivery Details Form/Summary */}
               {orderType === 1 && (
                 <div className="mb-4">
@@ -892,7 +962,7 @@ export default function CreateOrderModal({
                               </Button>
                             </div>
                             <span className="font-semibold" data-testid={`item-total-${index}`}>
-                              {currency} {(orderItem.price * orderItem.quantity).toFixed(2)}
+                              {currency} {(pricedItems[index].price * orderItem.quantity).toFixed(2)}
                             </span>
                           </div>
                         </CardContent>
@@ -991,14 +1061,30 @@ export default function CreateOrderModal({
                 <span data-testid="text-total">{currency} {totals.totalAmount.toFixed(2)}</span>
               </div>
 
-              <Button
-                className="w-full mt-4"
-                onClick={() => createOrderMutation.mutate()}
-                disabled={orderItems.length === 0 || createOrderMutation.isPending}
-                data-testid="button-create-order"
-              >
-                {createOrderMutation.isPending ? "Creating..." : "Create Order"}
-              </Button>
+              {modifyOrder ? (
+                <Button
+                  className="w-full mt-4"
+                  onClick={() => modifyOrderMutation.mutate()}
+                  disabled={
+                    orderItems.length === 0 ||
+                    orderDelta.length === 0 ||
+                    blockingIssues.length > 0 ||
+                    modifyOrderMutation.isPending
+                  }
+                  data-testid="button-save-order-changes"
+                >
+                  {modifyOrderMutation.isPending ? "Saving..." : "Save Changes"}
+                </Button>
+              ) : (
+                <Button
+                  className="w-full mt-4"
+                  onClick={() => createOrderMutation.mutate()}
+                  disabled={orderItems.length === 0 || createOrderMutation.isPending}
+                  data-testid="button-create-order"
+                >
+                  {createOrderMutation.isPending ? "Creating..." : "Create Order"}
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -1035,7 +1121,7 @@ interface MenuItemCustomizationModalProps {
   currency: string;
 }
 
-function MenuItemCustomizationModal({
+export function MenuItemCustomizationModal({
   isOpen,
   onClose,
   menuItem,
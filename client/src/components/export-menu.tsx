@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Download, FileSpreadsheet, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "@/hooks/use-toast";
+import {
+  EXPORT_FORMAT_LABELS,
+  ExportColumn,
+  ExportContext,
+  ExportFormat,
+  PageFetcher,
+  exportRows,
+  fetchAllPages,
+} from "@/utils/tableExport";
+
+interface ExportMenuProps<T> {
+  // Base file name, e.g. "orders"; the date and extension are appended
+  fileName: string;
+  sheetName: string;
+  columns: ExportColumn<T>[];
+  // Loads one page with the table's active filters; every page is exported
+  fetchPage?: PageFetcher<T>;
+  // Rows already in memory, e.g. a bulk selection; used instead of fetchPage
+  rows?: T[];
+  context?: ExportContext;
+  label?: string;
+  disabled?: boolean;
+  className?: string;
+  "data-testid"?: string;
+}
+
+export function ExportMenu<T>({
+  fileName,
+  sheetName,
+  columns,
+  fetchPage,
+  rows,
+  context,
+  label = "Export",
+  disabled,
+  className,
+  "data-testid": testId = "button-export",
+}: ExportMenuProps<T>) {
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setProgress("Preparing...");
+    try {
+      const exportData = rows
+        ? rows
+        : fetchPage
+          ? await fetchAllPages(fetchPage, (fetched, total) =>
+              setProgress(total ? `${fetched}/${total}` : `${fetched}`),
+            )
+          : [];
+
+      if (exportData.length === 0) {
+        toast({
+          title: "Nothing to Export",
+          description: "There are no rows matching the current filters.",
+        });
+        return;
+      }
+
+      exportRows({ rows: exportData, columns, format, fileName, sheetName, context });
+      toast({
+        title: "Export Ready",
+        description: `${exportData.length} rows exported to ${format.toUpperCase()}.`,
+      });
+    } catch (error: any) {
+      console.error("[Export] ❌ Export failed:", error);
+      toast({
+        title: "Export Failed",
+        description: error?.message || "Failed to export data. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={className}
+          disabled={disabled || progress !== null}
+          data-testid={testId}
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {progress !== null ? `Exporting ${progress}` : label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport("csv")} data-testid={`${testId}-csv`}>
+          <FileText className="w-4 h-4 mr-2" />
+          {EXPORT_FORMAT_LABELS.csv}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("xlsx")} data-testid={`${testId}-xlsx`}>
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          {EXPORT_FORMAT_LABELS.xlsx}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,348 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, subDays, addDays } from "date-fns";
+import { ClipboardList } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { inventoryApi } from "@/lib/apiRepository";
+import { formatCurrency } from "@/lib/currencyUtils";
+import { PaginationResponse } from "@/types/pagination";
+import { InventoryItemSimple } from "@/types/schema";
+import { fetchAllPages } from "@/utils/tableExport";
+import { buildIngredientCosts } from "@/utils/recipeCosting";
+import {
+  LowStockEntry,
+  SuggestedPurchaseLine,
+  SupplierOption,
+  buildPurchaseSuggestions,
+  fetchOnOrderQuantities,
+  groupPurchaseSuggestions,
+} from "@/utils/purchaseOrderSuggestions";
+
+interface GeneratePurchaseOrdersModalProps {
+  open: boolean;
+  onClose: () => void;
+  branchId: number;
+  currency?: string;
+  onSuccess: () => void;
+}
+
+// Last purchase prices are looked up over this many days of receipts
+const PRICE_LOOKBACK_DAYS = 90;
+
+export default function GeneratePurchaseOrdersModal({
+  open,
+  onClose,
+  branchId,
+  currency = "USD",
+  onSuccess,
+}: GeneratePurchaseOrdersModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [lines, setLines] = useState<SuggestedPurchaseLine[]>([]);
+  const [excludedIds, setExcludedIds] = useState<Set<number>>(new Set());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [pricesFrom] = useState(() => format(subDays(new Date(), PRICE_LOOKBACK_DAYS), "yyyy-MM-dd"));
+  const [pricesTo] = useState(() => format(addDays(new Date(), 1), "yyyy-MM-dd"));
+
+  const { data: lowStock, isLoading: isLoadingLowStock } = useQuery({
+    queryKey: ["inventory-low-stock", branchId, "all"],
+    queryFn: () =>
+      fetchAllPages<LowStockEntry>(
+        async (pageNumber, pageSize) =>
+          (await inventoryApi.getInventoryLowStockByBranch(branchId, {
+            PageNumber: pageNumber,
+            PageSize: pageSize,
+            SortBy: "itemName",
+            IsAscending: true,
+          })) as PaginationResponse<LowStockEntry>,
+      ),
+    enabled: !!branchId && open,
+  });
+
+  const { data: items, isLoading: isLoadingItems } = useQuery({
+    queryKey: ["inventory-items-simple", branchId],
+    queryFn: async () => (await inventoryApi.getInventoryItemsSimpleByBranch(branchId)) as InventoryItemSimple[],
+    enabled: !!branchId && open,
+  });
+
+  const { data: suppliersData, isLoading: isLoadingSuppliers } = useQuery({
+    queryKey: ["inventory-suppliers", branchId],
+    queryFn: async () =>
+      (await inventoryApi.getInventorySuppliers(branchId)) as PaginationResponse<SupplierOption> | SupplierOption[],
+    enabled: !!branchId && open,
+  });
+  const suppliers: SupplierOption[] = useMemo(
+    () => (Array.isArray(suppliersData) ? suppliersData : suppliersData?.items || []),
+    [suppliersData],
+  );
+
+  const { data: movements, isLoading: isLoadingPrices } = useQuery({
+    queryKey: ["inventory-stock-movements", branchId, pricesFrom, pricesTo],
+    queryFn: () =>
+      fetchAllPages((pageNumber, pageSize) =>
+        inventoryApi.getInventoryStockMovementsByBranch(branchId, pricesFrom, pricesTo, {
+          PageNumber: pageNumber,
+          PageSize: pageSize,
+          SortBy: "createdAt",
+          IsAscending: true,
+        }),
+      ),
+    enabled: !!branchId && open,
+  });
+
+  // Stock already on its way, so running this again before a delivery doesn't order it twice
+  const { data: onOrder, isLoading: isLoadingOnOrder, error: onOrderError } = useQuery({
+    queryKey: ["purchase-orders", branchId, "on-order"],
+    queryFn: () => fetchOnOrderQuantities(branchId),
+    enabled: !!branchId && open,
+  });
+
+  const isLoading = isLoadingLowStock || isLoadingItems || isLoadingSuppliers || isLoadingPrices || isLoadingOnOrder;
+
+  // Start from fresh suggestions each time the modal opens
+  useEffect(() => {
+    if (!open || isLoading || onOrderError) return;
+    setLines(
+      buildPurchaseSuggestions(lowStock || [], items || [], suppliers, buildIngredientCosts(movements || []), onOrder),
+    );
+    setExcludedIds(new Set());
+  }, [open, isLoading, lowStock, items, suppliers, movements, onOrder, onOrderError]);
+
+  const updateLine = (inventoryItemId: number, changes: Partial<SuggestedPurchaseLine>) =>
+    setLines((current) =>
+      current.map((line) => (line.inventoryItemId === inventoryItemId ? { ...line, ...changes } : line)),
+    );
+
+  const toggleLine = (inventoryItemId: number, included: boolean) =>
+    setExcludedIds((current) => {
+      const next = new Set(current);
+      if (included) next.delete(inventoryItemId);
+      else next.add(inventoryItemId);
+      return next;
+    });
+
+  const includedLines = lines.filter((line) => !excludedIds.has(line.inventoryItemId));
+  const orders = groupPurchaseSuggestions(
+    includedLines.filter((line) => line.quantity >= 1),
+    suppliers,
+  );
+  const unassignedLines = lines.filter((line) => line.supplierId === null);
+  const hasInvalidQuantity = includedLines.some((line) => line.supplierId !== null && !(line.quantity >= 1));
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    const orderDate = new Date().toISOString();
+    const failed: typeof orders = [];
+
+    for (const order of orders) {
+      try {
+        await inventoryApi.createPurchaseOrder({
+          supplierId: order.supplierId,
+          branchId,
+          orderDate,
+          status: 0, // Draft
+          items: order.lines.map((line) => ({
+            inventoryItemId: line.inventoryItemId,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice || 0,
+          })),
+        });
+      } catch (error: any) {
+        console.error(`Failed to create purchase order for ${order.supplierName}:`, error);
+        failed.push(order);
+      }
+    }
+
+    setIsSubmitting(false);
+    queryClient.invalidateQueries({ queryKey: ["purchase-orders", branchId] });
+
+    const created = orders.length - failed.length;
+    if (failed.length > 0) {
+      toast({
+        title: created > 0 ? "Some Purchase Orders Failed" : "Error",
+        description: `Could not create orders for ${failed.map((order) => order.supplierName).join(", ")}.${created > 0 ? ` ${created} draft order(s) were created.` : ""}`,
+        variant: "destructive",
+      });
+      // Keep the failed suppliers' lines so they can be retried
+      setLines((current) =>
+        current.filter((line) => failed.some((order) => order.supplierId === line.supplierId)),
+      );
+      if (created > 0) onSuccess();
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: `${created} draft purchase order${created === 1 ? "" : "s"} created for review`,
+    });
+    onSuccess();
+    onClose();
+  };
+
+  const renderLine = (line: SuggestedPurchaseLine) => {
+    const included = !excludedIds.has(line.inventoryItemId);
+    return (
+      <div
+        key={line.inventoryItemId}
+        className={`grid grid-cols-12 gap-2 items-center py-2 ${included ? "" : "opacity-50"}`}
+        data-testid={`suggestion-row-${line.inventoryItemId}`}
+      >
+        <div className="col-span-4 flex items-center gap-2">
+          <Checkbox
+            checked={included}
+            onCheckedChange={(checked) => toggleLine(line.inventoryItemId, checked === true)}
+            data-testid={`checkbox-suggestion-${line.inventoryItemId}`}
+          />
+          <div>
+            <p className="text-sm font-medium">{line.itemName}</p>
+            <p className="text-xs text-gray-500">
+              {line.currentStock} / par {line.parLevel} {line.unit}
+              {line.onOrderQuantity > 0 && `, ${line.onOrderQuantity} on order`}
+            </p>
+          </div>
+        </div>
+        <Input
+          type="number"
+          min={1}
+          className="col-span-2"
+          value={Number.isNaN(line.quantity) ? "" : line.quantity}
+          onChange={(e) => updateLine(line.inventoryItemId, { quantity: parseFloat(e.target.value) })}
+          disabled={!included}
+          data-testid={`input-suggestion-quantity-${line.inventoryItemId}`}
+        />
+        <div className="col-span-2">
+          <Input
+            type="number"
+            step="0.01"
+            min={0}
+            value={line.unitPrice ?? ""}
+            placeholder="0.00"
+            onChange={(e) =>
+              updateLine(line.inventoryItemId, {
+                unitPrice: e.target.value === "" ? null : parseFloat(e.target.value),
+              })
+            }
+            disabled={!included}
+            data-testid={`input-suggestion-price-${line.inventoryItemId}`}
+          />
+        </div>
+        <div className="col-span-4">
+          <Select
+            value={line.supplierId?.toString() || ""}
+            onValueChange={(value) => updateLine(line.inventoryItemId, { supplierId: parseInt(value) })}
+            disabled={!included}
+          >
+            <SelectTrigger data-testid={`select-suggestion-supplier-${line.inventoryItemId}`}>
+              <SelectValue placeholder="Select supplier" />
+            </SelectTrigger>
+            <SelectContent>
+              {suppliers.map((supplier) => (
+                <SelectItem key={supplier.id} value={supplier.id.toString()}>
+                  {supplier.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    );
+  };
+
+  const groupedLines = groupPurchaseSuggestions(lines, suppliers);
+
+  return (
+    <Dialog open={open} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center justify-center w-12 h-12 rounded-full bg-green-100">
+              <ClipboardList className="w-6 h-6 text-green-600" />
+            </div>
+            <div>
+              <DialogTitle className="text-lg font-semibold">Generate Purchase Orders</DialogTitle>
+              <DialogDescription className="text-sm text-gray-600">
+                Low-stock items topped up to their par level, less what open orders will bring, at the last purchase price; one draft order per supplier
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 4 }, (_, i) => (
+              <div key={i} className="h-10 bg-gray-200 rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : onOrderError ? (
+          <p className="text-center py-8 text-red-600">
+            Failed to load open purchase orders: {(onOrderError as Error).message}
+          </p>
+        ) : lines.length === 0 ? (
+          <p className="text-center py-8 text-gray-500">No low-stock items need reordering</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-12 gap-2 text-sm font-medium text-gray-700">
+              <p className="col-span-4">Item</p>
+              <p className="col-span-2">Quantity</p>
+              <p className="col-span-2">Unit Price</p>
+              <p className="col-span-4">Supplier</p>
+            </div>
+
+            {groupedLines.map((group) => {
+              const order = orders.find((entry) => entry.supplierId === group.supplierId);
+              return (
+                <div key={group.supplierId} className="border rounded-lg p-3" data-testid={`suggestion-group-${group.supplierId}`}>
+                  <div className="flex justify-between items-center border-b pb-2">
+                    <p className="font-medium">{group.supplierName}</p>
+                    <p className="text-sm text-gray-600">
+                      {order ? `${order.lines.length} item(s), ${formatCurrency(order.total, currency)}` : "Skipped"}
+                    </p>
+                  </div>
+                  <div className="divide-y">{group.lines.map(renderLine)}</div>
+                </div>
+              );
+            })}
+
+            {unassignedLines.length > 0 && (
+              <div className="border border-amber-200 rounded-lg p-3" data-testid="suggestion-group-unassigned">
+                <div className="border-b pb-2">
+                  <p className="font-medium">No default supplier</p>
+                  <p className="text-xs text-gray-500">Choose a supplier to include these items</p>
+                </div>
+                <div className="divide-y">{unassignedLines.map(renderLine)}</div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            disabled={isSubmitting}
+            data-testid="button-cancel-generate"
+          >
+            Cancel
+          </Button>
+          <Button
+            className="bg-green-500 hover:bg-green-600"
+            onClick={handleCreate}
+            disabled={isSubmitting || isLoading || !!onOrderError || orders.length === 0 || hasInvalidQuantity}
+            data-testid="button-create-draft-orders"
+          >
+            {isSubmitting
+              ? "Creating..."
+              : `Create ${orders.length} Draft Order${orders.length === 1 ? "" : "s"}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
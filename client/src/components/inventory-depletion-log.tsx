@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, subDays, addDays } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { inventoryApi } from "@/lib/apiRepository";
+import { DEFAULT_PAGINATION_CONFIG } from "@/types/pagination";
+import { InventoryDepletionSettings } from "@/types/schema";
+import {
+  DEFAULT_INVENTORY_DEPLETION_SETTINGS,
+  DEPLETION_TRIGGER_LABELS,
+  DepletionTriggerState,
+  inventoryDepletionSettingsQuery,
+  saveInventoryDepletionSettings,
+} from "@/utils/inventoryDepletion";
+
+interface InventoryDepletionLogProps {
+  branchId: number;
+}
+
+export default function InventoryDepletionLog({ branchId }: InventoryDepletionLogProps) {
+  const { toast } = useToast();
+  const [fromDate, setFromDate] = useState(() => format(subDays(new Date(), 7), "yyyy-MM-dd"));
+  const [toDate, setToDate] = useState(() => format(addDays(new Date(), 1), "yyyy-MM-dd"));
+  const [page, setPage] = useState(1);
+  const [perPage, setPerPage] = useState(DEFAULT_PAGINATION_CONFIG.defaultPageSize);
+  const [orderSearch, setOrderSearch] = useState("");
+
+  const { data: depletionsData, isLoading } = useQuery({
+    queryKey: ["inventory-depletions", branchId, fromDate, toDate, page, perPage, orderSearch],
+    queryFn: async () =>
+      await inventoryApi.getInventoryDepletionsByBranch(branchId, fromDate, toDate, {
+        PageNumber: page,
+        PageSize: perPage,
+        SortBy: "createdAt",
+        IsAscending: false,
+        SearchTerm: orderSearch,
+      }),
+    enabled: !!branchId,
+  });
+  const depletions = Array.isArray(depletionsData) ? depletionsData : depletionsData?.items || [];
+  const hasNextPage = depletions.length === perPage;
+
+  const { data: settings = DEFAULT_INVENTORY_DEPLETION_SETTINGS, isLoading: isLoadingSettings } = useQuery({
+    ...inventoryDepletionSettingsQuery(branchId),
+    enabled: !!branchId,
+  });
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: (next: InventoryDepletionSettings) => saveInventoryDepletionSettings(branchId, next),
+    onSuccess: (saved) => {
+      toast({
+        title: "Depletion Settings Saved",
+        description: saved.enabled
+          ? `Stock will be depleted ${DEPLETION_TRIGGER_LABELS[saved.triggerState].toLowerCase()}.`
+          : "Orders will no longer deplete stock automatically.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save depletion settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateSettings = (changes: Partial<InventoryDepletionSettings>) =>
+    saveSettingsMutation.mutate({ ...settings, ...changes });
+  const isSettingsDisabled = isLoadingSettings || saveSettingsMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg border p-4 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <p className="font-medium">Deplete stock from recipes</p>
+          <p className="text-sm text-gray-500">
+            Deducts each order's recipe ingredients from stock once it reaches the selected status, and returns
+            them if the order is cancelled or changed afterwards. Applies to every device of this branch, but only to
+            status changes made in this app; orders moved by the server or another app don't deplete stock.
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <Select
+            value={settings.triggerState}
+            onValueChange={(value) => updateSettings({ triggerState: value as DepletionTriggerState })}
+            disabled={!settings.enabled || isSettingsDisabled}
+          >
+            <SelectTrigger className="w-56" data-testid="select-depletion-trigger">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DEPLETION_TRIGGER_LABELS) as DepletionTriggerState[]).map((state) => (
+                <SelectItem key={state} value={state}>
+                  {DEPLETION_TRIGGER_LABELS[state]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => updateSettings({ enabled })}
+            disabled={isSettingsDisabled}
+            data-testid="switch-depletion-enabled"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 items-center">
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium">From:</label>
+          <Input
+            type="date"
+            value={fromDate}
+            onChange={(e) => {
+              setFromDate(e.target.value);
+              setPage(1);
+            }}
+            className="w-40"
+            data-testid="input-depletion-from-date"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium">To:</label>
+          <Input
+            type="date"
+            value={toDate}
+            onChange={(e) => {
+              setToDate(e.target.value);
+              setPage(1);
+            }}
+            className="w-40"
+            data-testid="input-depletion-to-date"
+          />
+        </div>
+        <Input
+          value={orderSearch}
+          onChange={(e) => {
+            setOrderSearch(e.target.value);
+            setPage(1);
+          }}
+          placeholder="Order number..."
+          className="w-48"
+          data-testid="input-depletion-search"
+        />
+      </div>
+
+      <div className="bg-white rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Order</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Stock Used</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }, (_, i) => (
+                <TableRow key={`loading-${i}`}>
+                  {Array.from({ length: 4 }, (_, j) => (
+                    <TableCell key={j}>
+                      <div className="h-4 bg-gray-200 rounded animate-pulse"></div>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : depletions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-8 text-gray-500">
+                  No depletions recorded
+                </TableCell>
+              </TableRow>
+            ) : (
+              depletions.map((depletion) => (
+                <TableRow key={depletion.id} data-testid={`depletion-row-${depletion.id}`}>
+                  <TableCell>{new Date(depletion.createdAt).toLocaleString()}</TableCell>
+                  <TableCell className="font-medium">#{depletion.orderNumber}</TableCell>
+                  <TableCell>{depletion.orderStatus}</TableCell>
+                  <TableCell>
+                    <div className="space-y-0.5 text-sm">
+                      {depletion.lines.map((line) => (
+                        <div key={line.inventoryItemId} className="flex justify-between gap-4 max-w-sm">
+                          <span className="text-gray-600">{line.inventoryItemName}</span>
+                          <span className="text-red-600 whitespace-nowrap">
+                            -{line.quantity} {line.unit}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="flex items-center justify-between p-4 border-t bg-gray-50">
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600">Show result:</span>
+            <Select
+              value={perPage.toString()}
+              onValueChange={(value) => {
+                setPerPage(Number(value));
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-20" data-testid="select-depletion-per-page">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEFAULT_PAGINATION_CONFIG.pageSizeOptions.map((pageSize) => (
+                  <SelectItem key={pageSize} value={pageSize.toString()}>
+                    {pageSize}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(Math.max(1, page - 1))}
+              disabled={page === 1}
+              data-testid="button-depletion-prev-page"
+            >
+              Previous
+            </Button>
+            <span className="text-sm text-gray-600">Page {page}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={!hasNextPage}
+              data-testid="button-depletion-next-page"
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
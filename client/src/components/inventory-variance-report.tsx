@@ -0,0 +1,247 @@
+import { Fragment, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays, addDays } from "date-fns";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ExportMenu } from "@/components/export-menu";
+import { inventoryApi } from "@/lib/apiRepository";
+import { formatCurrency } from "@/lib/currencyUtils";
+import { ExportColumn, ExportContext, fetchAllPages } from "@/utils/tableExport";
+import {
+  InventoryVarianceRow,
+  MOVEMENT_TYPE_LABELS,
+  buildVarianceReport,
+} from "@/utils/inventoryVariance";
+
+interface InventoryVarianceReportProps {
+  branchId: number;
+  currency?: string;
+  exportContext?: ExportContext;
+}
+
+const VARIANCE_EXPORT_COLUMNS: ExportColumn<InventoryVarianceRow>[] = [
+  { header: "Item Name", value: (row) => row.itemName },
+  { header: "Unit", value: (row) => row.unit },
+  { header: "Opening", type: "number", value: (row) => row.openingStock },
+  { header: "Received", type: "number", value: (row) => row.received },
+  { header: "Wasted", type: "number", value: (row) => row.wasted },
+  { header: "Recipe Usage", type: "number", value: (row) => row.used },
+  { header: "Expected Closing", type: "number", value: (row) => row.expectedClosing },
+  { header: "Counted Closing", type: "number", value: (row) => row.countedClosing },
+  { header: "Counted At", type: "datetime", value: (row) => row.countedAt },
+  { header: "Variance", type: "number", value: (row) => row.variance },
+  { header: "Unit Cost", type: "currency", value: (row) => row.unitCost },
+  { header: "Variance Value", type: "currency", value: (row) => row.varianceValue },
+];
+
+export default function InventoryVarianceReport({
+  branchId,
+  currency = "USD",
+  exportContext,
+}: InventoryVarianceReportProps) {
+  const [fromDate, setFromDate] = useState(() => format(subDays(new Date(), 7), "yyyy-MM-dd"));
+  const [toDate, setToDate] = useState(() => format(addDays(new Date(), 1), "yyyy-MM-dd"));
+  const [expandedItemId, setExpandedItemId] = useState<number | null>(null);
+
+  const { data: movements = [], isLoading, error } = useQuery({
+    queryKey: ["inventory-stock-movements", branchId, fromDate, toDate],
+    queryFn: () =>
+      fetchAllPages((pageNumber, pageSize) =>
+        inventoryApi.getInventoryStockMovementsByBranch(branchId, fromDate, toDate, {
+          PageNumber: pageNumber,
+          PageSize: pageSize,
+          SortBy: "createdAt",
+          IsAscending: true,
+        }),
+      ),
+    enabled: !!branchId && !!fromDate && !!toDate,
+  });
+
+  const report = useMemo(() => buildVarianceReport(movements), [movements]);
+  const formatPrice = (value: number) => formatCurrency(value, currency);
+
+  const varianceClass = (value: number | null) =>
+    value === null || value === 0 ? "text-gray-500" : value < 0 ? "text-red-600 font-medium" : "text-green-600";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center gap-4">
+        <div className="flex gap-4 items-center">
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium">From:</label>
+            <Input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-40"
+              data-testid="input-variance-from-date"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium">To:</label>
+            <Input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-40"
+              data-testid="input-variance-to-date"
+            />
+          </div>
+        </div>
+        <ExportMenu
+          fileName="inventory-variance"
+          sheetName="Variance"
+          columns={VARIANCE_EXPORT_COLUMNS}
+          rows={report.rows}
+          context={exportContext}
+          disabled={report.rows.length === 0}
+          data-testid="button-export-variance"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-500">Items counted</p>
+            <p className="text-2xl font-semibold" data-testid="text-variance-counted">
+              {report.countedItems} / {report.rows.length}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-500">Shrinkage at cost</p>
+            <p className="text-2xl font-semibold text-red-600" data-testid="text-variance-shrinkage">
+              {formatPrice(report.shrinkageValue)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-500">Net variance at cost</p>
+            <p
+              className={`text-2xl font-semibold ${varianceClass(report.netVarianceValue)}`}
+              data-testid="text-variance-net"
+            >
+              {formatPrice(report.netVarianceValue)}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Expected closing = opening stock + received − wasted − recipe usage, up to each item's last stock count in the
+        period. Negative variance means stock is missing. Click an item to see its movements.
+      </p>
+
+      <div className="bg-white rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item Name</TableHead>
+              <TableHead className="text-right">Opening</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead className="text-right">Wasted</TableHead>
+              <TableHead className="text-right">Recipe Usage</TableHead>
+              <TableHead className="text-right">Expected</TableHead>
+              <TableHead className="text-right">Counted</TableHead>
+              <TableHead className="text-right">Variance</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }, (_, i) => (
+                <TableRow key={`loading-${i}`}>
+                  {Array.from({ length: 9 }, (_, j) => (
+                    <TableCell key={j}>
+                      <div className="h-4 bg-gray-200 rounded animate-pulse"></div>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center py-8 text-red-600">
+                  Failed to load stock movements
+                </TableCell>
+              </TableRow>
+            ) : report.rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center py-8 text-gray-500">
+                  No stock movements in this period
+                </TableCell>
+              </TableRow>
+            ) : (
+              report.rows.map((row) => {
+                const expanded = expandedItemId === row.inventoryItemId;
+                return (
+                  <Fragment key={row.inventoryItemId}>
+                    <TableRow
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => setExpandedItemId(expanded ? null : row.inventoryItemId)}
+                      data-testid={`variance-row-${row.inventoryItemId}`}
+                    >
+                      <TableCell className="font-medium">
+                        <span className="flex items-center gap-1">
+                          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          {row.itemName}
+                          <span className="text-xs text-gray-500">({row.unit})</span>
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">{row.openingStock}</TableCell>
+                      <TableCell className="text-right">{row.received}</TableCell>
+                      <TableCell className="text-right">{row.wasted}</TableCell>
+                      <TableCell className="text-right">{row.used}</TableCell>
+                      <TableCell className="text-right">{row.expectedClosing}</TableCell>
+                      <TableCell className="text-right">
+                        {row.countedClosing === null ? <Badge variant="secondary">Not counted</Badge> : row.countedClosing}
+                      </TableCell>
+                      <TableCell className={`text-right ${varianceClass(row.variance)}`}>
+                        {row.variance === null ? "-" : row.variance > 0 ? `+${row.variance}` : row.variance}
+                      </TableCell>
+                      <TableCell className={`text-right ${varianceClass(row.varianceValue)}`}>
+                        {row.varianceValue === null ? "-" : formatPrice(row.varianceValue)}
+                      </TableCell>
+                    </TableRow>
+                    {expanded && (
+                      <TableRow data-testid={`variance-movements-${row.inventoryItemId}`}>
+                        <TableCell colSpan={9} className="bg-gray-50">
+                          <div className="space-y-1 text-sm pl-5">
+                            {row.movements.map((movement) => (
+                              <div key={movement.id} className="grid grid-cols-5 gap-4">
+                                <span className="text-gray-600">{new Date(movement.createdAt).toLocaleString()}</span>
+                                <span>{MOVEMENT_TYPE_LABELS[movement.movementType]}</span>
+                                <span className="text-gray-600 truncate">{movement.reference || "-"}</span>
+                                <span className={`text-right ${varianceClass(movement.quantity)}`}>
+                                  {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                                </span>
+                                <span className="text-right text-gray-600">
+                                  {movement.stockAfter} {row.unit}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,436 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Maximize2, Minimize2, RefreshCw, X, Clock, AlertTriangle, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ordersApi } from "@/lib/apiRepository";
+import { depleteInventoryForStatus } from "@/utils/inventoryDepletion";
+import { buildRecallComment, getOrderLifecycleState, getRecallTransition } from "@/utils/orderLifecycle";
+import type { DetailedOrder } from "@/types/schema";
+import { EMPTY_ORDER_FILTERS } from "@/types/orderFilters";
+import { parseUtcDate } from "@/utils/dateTimeUtils";
+import { fetchAllPages } from "@/utils/tableExport";
+import {
+  KITCHEN_LANES,
+  DEFAULT_COMPLETION_MINUTES,
+  KitchenLane,
+  OrderStatusType,
+  TicketAgeState,
+  getKitchenLane,
+  getLaneForStatusName,
+  getNextStatusId,
+  getTicketAgeMinutes,
+  getTicketAgeState,
+  formatTicketAge,
+} from "@/utils/kitchenDisplay";
+
+interface KitchenDisplayBoardProps {
+  branchId: number;
+  orderStatusTypes: OrderStatusType[];
+  onClose: () => void;
+}
+
+const LANE_ACTION_LABELS: Record<KitchenLane, string> = {
+  new: "Start",
+  preparing: "Ready",
+  ready: "Bump",
+};
+
+const AGE_STATE_STYLES: Record<TicketAgeState, string> = {
+  ok: "bg-slate-700",
+  warning: "bg-amber-500",
+  late: "bg-red-600",
+};
+
+export default function KitchenDisplayBoard({
+  branchId,
+  orderStatusTypes,
+  onClose,
+}: KitchenDisplayBoardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const boardRef = useRef<HTMLDivElement>(null);
+
+  const [now, setNow] = useState(Date.now());
+  const [selectedOrderId, setSelectedOrderId] = useState<number | null>(null);
+  const [updatingOrderIds, setUpdatingOrderIds] = useState<number[]>([]);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  // Only statuses that belong on a lane are loaded, so closed orders never crowd out open tickets
+  const openStatusIds = useMemo(
+    () => orderStatusTypes.filter(status => getLaneForStatusName(status.name) !== null).map(status => status.id),
+    [orderStatusTypes],
+  );
+
+  const kdsQueryKey = useMemo(
+    () => [`/api/orders/branch/${branchId}`, "kitchen-display", openStatusIds],
+    [branchId, openStatusIds],
+  );
+
+  const { data: openOrders, isLoading, refetch } = useQuery({
+    queryKey: kdsQueryKey,
+    queryFn: async (): Promise<DetailedOrder[]> => {
+      const orders = await fetchAllPages<DetailedOrder>(async (pageNumber, pageSize) => {
+        const result = await ordersApi.getOrdersByBranch(
+          branchId,
+          pageNumber,
+          pageSize,
+          "createdAt",
+          true,
+          { ...EMPTY_ORDER_FILTERS, statusIds: openStatusIds },
+        );
+        if (!result) {
+          throw new Error("No data returned from orders API");
+        }
+        return result;
+      });
+
+      // Oldest orders first so the longest-waiting tickets lead each lane
+      return orders.sort(
+        (a, b) => parseUtcDate(a.createdAt).getTime() - parseUtcDate(b.createdAt).getTime(),
+      );
+    },
+    enabled: !!branchId && openStatusIds.length > 0,
+    staleTime: 60 * 1000,
+  });
+
+  // Tick every second to drive ticket timers
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Track browser fullscreen state (Esc exits fullscreen natively)
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      setIsFullscreen(document.fullscreenElement === boardRef.current);
+    };
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    return () => {
+      document.removeEventListener("fullscreenchange", handleFullscreenChange);
+    };
+  }, []);
+
+  const toggleFullscreen = useCallback(async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await boardRef.current?.requestFullscreen?.();
+      }
+    } catch (error) {
+      console.warn('[KDS] Fullscreen not available:', error);
+    }
+  }, []);
+
+  const lanes = useMemo(() => {
+    const grouped: Record<KitchenLane, DetailedOrder[]> = { new: [], preparing: [], ready: [] };
+    (openOrders || []).forEach(order => {
+      const lane = getKitchenLane(order, orderStatusTypes);
+      if (lane) grouped[lane].push(order);
+    });
+    return grouped;
+  }, [openOrders, orderStatusTypes]);
+
+  // Flattened lane order used for keyboard navigation
+  const ticketOrder = useMemo(
+    () => KITCHEN_LANES.flatMap(lane => lanes[lane.id].map(order => ({ order, lane: lane.id }))),
+    [lanes],
+  );
+
+  // Keep a valid selection as tickets move or leave the board
+  useEffect(() => {
+    if (ticketOrder.length === 0) {
+      setSelectedOrderId(null);
+    } else if (!ticketOrder.some(ticket => ticket.order.id === selectedOrderId)) {
+      setSelectedOrderId(ticketOrder[0].order.id);
+    }
+  }, [ticketOrder, selectedOrderId]);
+
+  const moveTicket = useCallback(
+    async (order: DetailedOrder, lane: KitchenLane, direction: "forward" | "back") => {
+      // Recalls only take the backward steps the order lifecycle allows, and say so in the status log
+      const recall = direction === "back" ? getRecallTransition(order, orderStatusTypes) : null;
+      const statusId =
+        direction === "forward" ? getNextStatusId(lane, orderStatusTypes) : recall?.statusType.id ?? null;
+
+      if (!statusId) {
+        if (direction === "forward") {
+          toast({
+            title: "Status Not Available",
+            description: "No matching order status is configured for this step.",
+            variant: "destructive",
+          });
+        }
+        return;
+      }
+
+      setUpdatingOrderIds(prev => [...prev, order.id]);
+      try {
+        const result = await ordersApi.updateOrderStatus(
+          order.id,
+          statusId,
+          recall
+            ? buildRecallComment(getOrderLifecycleState(order, orderStatusTypes), recall.state, "kitchen display")
+            : "Status updated via kitchen display",
+        );
+        const statusName =
+          result?.orderStatus || orderStatusTypes.find(status => status.id === statusId)?.name || order.orderStatus;
+
+        queryClient.setQueryData<DetailedOrder[]>(kdsQueryKey, (old) =>
+          old?.map(item => (item.id === order.id ? { ...item, orderStatus: statusName } : item)),
+        );
+        queryClient.invalidateQueries({ queryKey: [`/api/orders/branch/${branchId}`] });
+        // Failures are logged; the kitchen shouldn't be interrupted over stock
+        void depleteInventoryForStatus(order, statusName);
+      } catch (error) {
+        console.error('[KDS] Failed to update order status:', error);
+        toast({
+          title: "Update Failed",
+          description: `Could not update order ${order.orderNumber}. Please try again.`,
+          variant: "destructive",
+        });
+      } finally {
+        setUpdatingOrderIds(prev => prev.filter(id => id !== order.id));
+      }
+    },
+    [orderStatusTypes, queryClient, kdsQueryKey, branchId, toast],
+  );
+
+  // Keyboard shortcuts: arrows select, Enter/Space bump, Backspace recall, F fullscreen, Esc exit
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return;
+
+      const index = ticketOrder.findIndex(ticket => ticket.order.id === selectedOrderId);
+      const selected = index >= 0 ? ticketOrder[index] : null;
+
+      switch (event.key) {
+        case "ArrowRight":
+        case "ArrowDown":
+          if (ticketOrder.length > 0) {
+            event.preventDefault();
+            setSelectedOrderId(ticketOrder[Math.min(ticketOrder.length - 1, index + 1)].order.id);
+          }
+          break;
+        case "ArrowLeft":
+        case "ArrowUp":
+          if (ticketOrder.length > 0) {
+            event.preventDefault();
+            setSelectedOrderId(ticketOrder[Math.max(0, index - 1)].order.id);
+          }
+          break;
+        case "Enter":
+        case " ":
+          if (selected && !updatingOrderIds.includes(selected.order.id)) {
+            event.preventDefault();
+            moveTicket(selected.order, selected.lane, "forward");
+          }
+          break;
+        case "Backspace":
+          if (selected && !updatingOrderIds.includes(selected.order.id)) {
+            event.preventDefault();
+            moveTicket(selected.order, selected.lane, "back");
+          }
+          break;
+        case "f":
+        case "F":
+          event.preventDefault();
+          toggleFullscreen();
+          break;
+        case "Escape":
+          if (!document.fullscreenElement) {
+            onClose();
+          }
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [ticketOrder, selectedOrderId, updatingOrderIds, moveTicket, toggleFullscreen, onClose]);
+
+  const renderTicket = (order: DetailedOrder, lane: KitchenLane) => {
+    const ageMinutes = getTicketAgeMinutes(order, now);
+    const ageState = getTicketAgeState(order, now);
+    const target = order.completionTimeMinutes > 0 ? order.completionTimeMinutes : DEFAULT_COMPLETION_MINUTES;
+    const isSelected = order.id === selectedOrderId;
+    const isUpdating = updatingOrderIds.includes(order.id);
+
+    return (
+      <div
+        key={order.id}
+        className={`rounded-lg overflow-hidden bg-white text-gray-900 shadow ${isSelected ? "ring-4 ring-blue-400" : ""}`}
+        onClick={() => setSelectedOrderId(order.id)}
+        data-testid={`kds-ticket-${order.id}`}
+      >
+        <div className={`flex items-center justify-between px-3 py-2 text-white ${AGE_STATE_STYLES[ageState]}`}>
+          <div>
+            <div className="text-lg font-bold" data-testid={`kds-ticket-number-${order.id}`}>
+              #{order.orderNumber}
+            </div>
+            <div className="text-xs opacity-90">
+              {order.orderType}
+              {order.locationName ? ` • ${order.locationName}` : ""}
+            </div>
+          </div>
+          <div className="text-right">
+            <div className="flex items-center gap-1 text-lg font-mono font-bold" data-testid={`kds-ticket-timer-${order.id}`}>
+              <Clock className="w-4 h-4" />
+              {formatTicketAge(ageMinutes)}
+            </div>
+            <div className="text-xs opacity-90">Target {target} min</div>
+          </div>
+        </div>
+
+        <div className="px-3 py-2 space-y-2">
+          {(order.orderItems || []).map(item => (
+            <div key={`item-${item.id}`}>
+              <div className="font-semibold">
+                <span className="mr-1">{item.quantity}x</span>
+                {item.itemName}
+                {item.variantName && <span className="text-gray-600"> ({item.variantName})</span>}
+              </div>
+              {(item.orderItemModifiers || []).map(modifier => (
+                <div key={`modifier-${modifier.id}`} className="ml-5 text-sm text-gray-700">
+                  + {modifier.modifierName}
+                  {modifier.quantity > 1 && ` (x${modifier.quantity})`}
+                </div>
+              ))}
+              {(item.orderItemCustomizations || []).map(custom => (
+                <div key={`custom-${custom.id}`} className="ml-5 text-sm italic text-gray-700">
+                  * {custom.customizationName}: {custom.optionName}
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {(order.orderPackages || []).map(pkg => (
+            <div key={`package-${pkg.id}`}>
+              <div className="font-semibold">
+                <span className="mr-1">{pkg.quantity}x</span>
+                [DEAL] {pkg.packageName}
+              </div>
+              {(pkg.orderPackageItems || []).map(pkgItem => (
+                <div key={`package-item-${pkgItem.id}`} className="ml-5 text-sm text-gray-700">
+                  - {pkgItem.quantity > 1 ? `${pkgItem.quantity}x ` : ""}
+                  {pkgItem.itemName}
+                  {pkgItem.variantName && ` (${pkgItem.variantName})`}
+                </div>
+              ))}
+              {(pkg.orderPackageSubItems || []).map(subItem => (
+                <div key={`package-sub-${subItem.id}`} className="ml-5 text-sm text-gray-700">
+                  - {subItem.quantity > 1 ? `${subItem.quantity}x ` : ""}
+                  {subItem.subItemName}
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {order.allergens && order.allergens.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 pt-1" data-testid={`kds-ticket-allergens-${order.id}`}>
+              <AlertTriangle className="w-4 h-4 text-red-600" />
+              {order.allergens.map((allergen, index) => (
+                <Badge key={index} className="bg-red-100 text-red-800 hover:bg-red-100">
+                  {allergen}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {order.specialInstruction && order.specialInstruction.trim() !== "" && (
+            <div className="rounded bg-yellow-100 px-2 py-1 text-sm text-yellow-900" data-testid={`kds-ticket-instructions-${order.id}`}>
+              <span className="font-semibold">Note: </span>
+              {order.specialInstruction}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2 px-3 pb-3">
+          {lane !== "new" && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isUpdating}
+              onClick={(e) => {
+                e.stopPropagation();
+                moveTicket(order, lane, "back");
+              }}
+              data-testid={`kds-recall-${order.id}`}
+            >
+              <Undo2 className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            className="flex-1 bg-green-500 hover:bg-green-600 text-white"
+            disabled={isUpdating}
+            onClick={(e) => {
+              e.stopPropagation();
+              setSelectedOrderId(order.id);
+              moveTicket(order, lane, "forward");
+            }}
+            data-testid={`kds-advance-${order.id}`}
+          >
+            {isUpdating ? "Updating..." : LANE_ACTION_LABELS[lane]}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={boardRef}
+      className="fixed inset-0 z-50 flex flex-col bg-gray-900 text-white"
+      data-testid="kitchen-display-board"
+    >
+      {/* Board Header */}
+      <div className="flex items-center justify-between px-6 py-3 border-b border-gray-700">
+        <div>
+          <h1 className="text-2xl font-bold">Kitchen Display</h1>
+          <p className="text-xs text-gray-400">
+            ←/→ select • Enter bump • Backspace recall • F fullscreen • Esc exit
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="mr-4 font-mono text-xl" data-testid="kds-clock">
+            {new Date(now).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })}
+          </span>
+          <Button variant="secondary" size="sm" onClick={() => refetch()} data-testid="kds-refresh">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+          <Button variant="secondary" size="sm" onClick={toggleFullscreen} data-testid="kds-fullscreen">
+            {isFullscreen ? <Minimize2 className="w-4 h-4" /> : <Maximize2 className="w-4 h-4" />}
+          </Button>
+          <Button variant="secondary" size="sm" onClick={onClose} data-testid="kds-exit">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Lanes */}
+      <div className="grid flex-1 grid-cols-3 gap-4 overflow-hidden p-4">
+        {KITCHEN_LANES.map(lane => (
+          <div key={lane.id} className="flex flex-col overflow-hidden rounded-lg bg-gray-800" data-testid={`kds-lane-${lane.id}`}>
+            <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700">
+              <h2 className="text-lg font-semibold">{lane.title}</h2>
+              <Badge variant="secondary">{lanes[lane.id].length}</Badge>
+            </div>
+            <div className="flex-1 space-y-3 overflow-y-auto p-3">
+              {isLoading ? (
+                <div className="text-center text-gray-400 py-8">Loading tickets...</div>
+              ) : lanes[lane.id].length === 0 ? (
+                <div className="text-center text-gray-500 py-8">No tickets</div>
+              ) : (
+                lanes[lane.id].map(order => renderTicket(order, lane.id))
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChefHat, Plus, Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { bluetoothPrinterService } from "@/services/bluetoothPrinterService";
+import {
+  KitchenStation,
+  KitchenTicketSettings,
+  createKitchenStationId,
+  getKitchenTicketSettings,
+  saveKitchenTicketSettings,
+} from "@/utils/kitchenStations";
+
+// Select value for stations that follow the kitchen ticket routing rules
+const ROUTED_PROFILE = "routed";
+
+// Categories are edited as a comma separated list
+interface StationDraft extends Omit<KitchenStation, "categoryNames"> {
+  categories: string;
+}
+
+const toDraft = (station: KitchenStation): StationDraft => ({
+  id: station.id,
+  name: station.name,
+  isDefault: station.isDefault,
+  printerProfileId: station.printerProfileId,
+  categories: station.categoryNames.join(", "),
+});
+
+export default function KitchenStationSettings() {
+  const [printerProfiles, setPrinterProfiles] = useState(() => bluetoothPrinterService.getProfiles());
+  const [autoPrint, setAutoPrint] = useState(() => getKitchenTicketSettings().autoPrint);
+  const [stations, setStations] = useState<StationDraft[]>(() =>
+    getKitchenTicketSettings().stations.map(toDraft),
+  );
+
+  // Profiles are managed on the same page, so keep the picker current
+  useEffect(() => {
+    const handleProfilesChange = () => setPrinterProfiles(bluetoothPrinterService.getProfiles());
+    bluetoothPrinterService.onProfilesChange(handleProfilesChange);
+    return () => {
+      bluetoothPrinterService.offProfilesChange(handleProfilesChange);
+    };
+  }, []);
+
+  const updateStation = (id: string, changes: Partial<StationDraft>) => {
+    setStations(prev => prev.map(station => (station.id === id ? { ...station, ...changes } : station)));
+  };
+
+  const handleAddStation = () => {
+    setStations(prev => [
+      ...prev,
+      { id: createKitchenStationId(), name: "", categories: "", isDefault: prev.length === 0 },
+    ]);
+  };
+
+  const handleRemoveStation = (id: string) => {
+    setStations(prev => prev.filter(station => station.id !== id));
+  };
+
+  const handleSetDefault = (id: string) => {
+    setStations(prev => prev.map(station => ({ ...station, isDefault: station.id === id })));
+  };
+
+  const handleSave = () => {
+    if (stations.some(station => !station.name.trim())) {
+      toast({
+        title: "Station Name Required",
+        description: "Give every kitchen station a name before saving.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const settings: KitchenTicketSettings = {
+      autoPrint,
+      stations: stations.map(station => ({
+        id: station.id,
+        name: station.name.trim(),
+        isDefault: station.isDefault,
+        printerProfileId: station.printerProfileId,
+        categoryNames: station.categories
+          .split(",")
+          .map(name => name.trim())
+          .filter(Boolean),
+      })),
+    };
+
+    saveKitchenTicketSettings(settings);
+    toast({
+      title: "Kitchen Stations Saved",
+      description: settings.stations.length > 0
+        ? `${settings.stations.length} station(s) configured`
+        : "All items will print on a single kitchen ticket",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ChefHat className="h-5 w-5" />
+          Kitchen Tickets
+        </CardTitle>
+        <CardDescription>
+          Price-free tickets for the kitchen, split by station using menu categories
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
+          <div>
+            <Label htmlFor="kitchen-auto-print" className="font-medium">Auto-print kitchen tickets</Label>
+            <p className="text-xs text-muted-foreground">Print station tickets when a new order arrives</p>
+          </div>
+          <Switch
+            id="kitchen-auto-print"
+            checked={autoPrint}
+            onCheckedChange={setAutoPrint}
+            data-testid="switch-kitchen-auto-print"
+          />
+        </div>
+
+        {stations.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-kitchen-stations">
+            No stations configured. Every item prints on one kitchen ticket.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {stations.map(station => (
+              <div
+                key={station.id}
+                className="grid gap-2 md:grid-cols-[1fr_2fr_1fr_auto_auto] items-center"
+                data-testid={`kitchen-station-${station.id}`}
+              >
+                <Input
+                  placeholder="Station (e.g. Grill)"
+                  value={station.name}
+                  onChange={(e) => updateStation(station.id, { name: e.target.value })}
+                  data-testid={`input-station-name-${station.id}`}
+                />
+                <Input
+                  placeholder="Menu categories, comma separated"
+                  value={station.categories}
+                  onChange={(e) => updateStation(station.id, { categories: e.target.value })}
+                  data-testid={`input-station-categories-${station.id}`}
+                />
+                <Select
+                  value={station.printerProfileId || ROUTED_PROFILE}
+                  onValueChange={(value) =>
+                    updateStation(station.id, {
+                      printerProfileId: value === ROUTED_PROFILE ? undefined : value,
+                    })
+                  }
+                >
+                  <SelectTrigger data-testid={`select-station-printer-${station.id}`}>
+                    <SelectValue placeholder="Printer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ROUTED_PROFILE}>Routing rules</SelectItem>
+                    {printerProfiles.map(profile => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant={station.isDefault ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => handleSetDefault(station.id)}
+                  title="Receives deals and uncategorised items"
+                  data-testid={`button-station-default-${station.id}`}
+                >
+                  {station.isDefault ? "Default" : "Make Default"}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemoveStation(station.id)}
+                  data-testid={`button-remove-station-${station.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <Button variant="outline" size="sm" onClick={handleAddStation} data-testid="button-add-station">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Station
+          </Button>
+          <Button size="sm" onClick={handleSave} data-testid="button-save-stations">
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
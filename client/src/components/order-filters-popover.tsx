@@ -0,0 +1,225 @@
+import { useEffect, useState } from 'react';
+import { Check, Filter, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { OrderType } from '@/types/schema';
+import {
+  OrderFilters,
+  ORDER_TYPE_LABELS,
+  countActiveOrderFilters,
+} from '@/types/orderFilters';
+import { OrderStatusType } from '@/utils/kitchenDisplay';
+
+interface OrderFiltersPopoverProps {
+  filters: OrderFilters;
+  onApply: (filters: OrderFilters) => void;
+  statusTypes: OrderStatusType[];
+  locations?: Array<{ id: number; name: string }>;
+}
+
+const ANY = 'any';
+
+const toggleValue = <T,>(values: T[], value: T, checked: boolean): T[] =>
+  checked ? [...values.filter(item => item !== value), value] : values.filter(item => item !== value);
+
+const parseAmount = (value: string): number | undefined =>
+  value === '' || isNaN(Number(value)) ? undefined : Number(value);
+
+export function OrderFiltersPopover({ filters, onApply, statusTypes, locations = [] }: OrderFiltersPopoverProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<OrderFilters>(filters);
+
+  // Start from the applied filters each time the popover opens
+  useEffect(() => {
+    if (isOpen) setDraft(filters);
+  }, [isOpen, filters]);
+
+  const activeCount = countActiveOrderFilters(filters);
+
+  const update = (changes: Partial<OrderFilters>) => setDraft(current => ({ ...current, ...changes }));
+
+  const handleApply = () => {
+    onApply(draft);
+    setIsOpen(false);
+  };
+
+  const handleClear = () => {
+    onApply({ searchTerm: filters.searchTerm, statusIds: [], orderTypes: [] });
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-order-filters">
+          <Filter className={`w-4 h-4 mr-2 ${activeCount > 0 ? 'text-green-500' : ''}`} />
+          Filters
+          {activeCount > 0 && (
+            <Badge className="ml-2 bg-green-500 hover:bg-green-500 px-1.5" data-testid="badge-active-filters">
+              {activeCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0" data-testid="order-filters-popover">
+        <div className="p-3 space-y-4 max-h-[70vh] overflow-y-auto">
+          <div className="font-medium text-gray-900 text-sm border-b border-gray-100 pb-2">
+            Filter Orders
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-gray-500 uppercase">Status</p>
+            <div className="grid grid-cols-2 gap-2">
+              {statusTypes.map(status => (
+                <label key={status.id} className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                  <Checkbox
+                    checked={draft.statusIds.includes(status.id)}
+                    onCheckedChange={(checked) =>
+                      update({ statusIds: toggleValue(draft.statusIds, status.id, checked === true) })
+                    }
+                    className="data-[state=checked]:bg-green-600 data-[state=checked]:border-green-600"
+                    data-testid={`filter-status-${status.id}`}
+                  />
+                  <span>{status.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-gray-500 uppercase">Order Type</p>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(ORDER_TYPE_LABELS).map(Number) as OrderType[]).map(type => (
+                <label key={type} className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                  <Checkbox
+                    checked={draft.orderTypes.includes(type)}
+                    onCheckedChange={(checked) =>
+                      update({ orderTypes: toggleValue(draft.orderTypes, type, checked === true) })
+                    }
+                    className="data-[state=checked]:bg-green-600 data-[state=checked]:border-green-600"
+                    data-testid={`filter-type-${type}`}
+                  />
+                  <span>{ORDER_TYPE_LABELS[type]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-gray-500 uppercase">Created (branch time)</p>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="date"
+                value={draft.createdFrom || ''}
+                max={draft.createdTo}
+                onChange={(e) => update({ createdFrom: e.target.value || undefined })}
+                data-testid="filter-created-from"
+              />
+              <Input
+                type="date"
+                value={draft.createdTo || ''}
+                min={draft.createdFrom}
+                onChange={(e) => update({ createdTo: e.target.value || undefined })}
+                data-testid="filter-created-to"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-gray-500 uppercase">Total</p>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="number"
+                min={0}
+                placeholder="Min"
+                value={draft.minTotal ?? ''}
+                onChange={(e) => update({ minTotal: parseAmount(e.target.value) })}
+                data-testid="filter-min-total"
+              />
+              <Input
+                type="number"
+                min={0}
+                placeholder="Max"
+                value={draft.maxTotal ?? ''}
+                onChange={(e) => update({ maxTotal: parseAmount(e.target.value) })}
+                data-testid="filter-max-total"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-gray-500 uppercase">Payment</p>
+              <Select
+                value={draft.paymentState || ANY}
+                onValueChange={(value) =>
+                  update({ paymentState: value === ANY ? undefined : (value as OrderFilters['paymentState']) })
+                }
+              >
+                <SelectTrigger data-testid="filter-payment">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="paid">Paid</SelectItem>
+                  <SelectItem value="unpaid">Unpaid</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-gray-500 uppercase">Table</p>
+              <Select
+                value={draft.locationId?.toString() || ANY}
+                onValueChange={(value) => update({ locationId: value === ANY ? undefined : Number(value) })}
+              >
+                <SelectTrigger data-testid="filter-location">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id.toString()}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end space-x-2 p-3 border-t border-gray-100">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleClear}
+            className="text-gray-600 border-gray-300 hover:bg-gray-50"
+            data-testid="button-clear-order-filters"
+          >
+            <X className="w-3 h-3 mr-1" />
+            Clear
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleApply}
+            className="bg-green-600 hover:bg-green-700 text-white"
+            data-testid="button-apply-order-filters"
+          >
+            <Check className="w-3 h-3 mr-1" />
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
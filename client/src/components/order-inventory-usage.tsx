@@ -0,0 +1,89 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Package } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DetailedOrder } from "@/types/schema";
+import {
+  DEPLETION_TRIGGER_LABELS,
+  branchRecipesQuery,
+  calculateOrderDepletion,
+  inventoryDepletionSettingsQuery,
+} from "@/utils/inventoryDepletion";
+
+interface OrderInventoryUsageProps {
+  order: DetailedOrder;
+}
+
+export function OrderInventoryUsage({ order }: OrderInventoryUsageProps) {
+  // Recipes are loaded on demand: every recipe is a separate request
+  const [expanded, setExpanded] = useState(false);
+  const { data: settings } = useQuery(inventoryDepletionSettingsQuery(order.branchId));
+
+  const { data: recipes, isLoading, error } = useQuery({
+    ...branchRecipesQuery(order.branchId),
+    enabled: expanded,
+  });
+
+  const depletion = useMemo(
+    () => (recipes ? calculateOrderDepletion(order, recipes) : null),
+    [order, recipes],
+  );
+
+  return (
+    <div data-testid="order-inventory-usage">
+      <div className="flex justify-between items-center">
+        <p className="text-xs font-semibold text-gray-700">Inventory Usage</p>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => setExpanded(!expanded)}
+          data-testid="button-toggle-inventory-usage"
+        >
+          <Package className="w-3 h-3 mr-1" />
+          {expanded ? "Hide" : "Preview"}
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        {!settings
+          ? "Loading depletion settings..."
+          : settings.enabled
+            ? `Stock is depleted ${DEPLETION_TRIGGER_LABELS[settings.triggerState].toLowerCase()}.`
+            : "Automatic depletion is off for this branch."}
+      </p>
+
+      {expanded && (
+        <div className="mt-2 space-y-1">
+          {isLoading ? (
+            <div className="h-4 bg-gray-200 rounded animate-pulse"></div>
+          ) : error ? (
+            <p className="text-xs text-red-600">Could not load recipes</p>
+          ) : depletion && depletion.lines.length === 0 ? (
+            <p className="text-xs text-gray-500" data-testid="text-no-inventory-usage">
+              No recipes match the items on this order.
+            </p>
+          ) : (
+            depletion?.lines.map((line) => (
+              <div
+                key={line.inventoryItemId}
+                className="flex justify-between text-sm"
+                title={line.sources.join(", ")}
+                data-testid={`inventory-usage-${line.inventoryItemId}`}
+              >
+                <span className="text-gray-600 truncate mr-2">{line.inventoryItemName}</span>
+                <span className="text-gray-900 whitespace-nowrap">
+                  {line.quantity} {line.unit}
+                </span>
+              </div>
+            ))
+          )}
+          {depletion && depletion.unmatched.length > 0 && (
+            <p className="text-xs text-amber-700" data-testid="text-unmatched-recipes">
+              No recipe for: {depletion.unmatched.join(", ")}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
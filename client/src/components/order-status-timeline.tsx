@@ -0,0 +1,87 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, Clock } from "lucide-react";
+import { branchApi } from "@/lib/apiRepository";
+import { BranchConfiguration, DetailedOrder } from "@/types/schema";
+import { OrderStatusType } from "@/utils/kitchenDisplay";
+import { buildOrderTimeline, formatDuration, getStageTargets } from "@/utils/orderTimeline";
+
+interface OrderStatusTimelineProps {
+  order: DetailedOrder;
+  // Branch timezone for timestamps
+  timeZone?: string;
+  statusTypes?: OrderStatusType[];
+}
+
+export function OrderStatusTimeline({ order, timeZone, statusTypes = [] }: OrderStatusTimelineProps) {
+  // Stage targets are part of the branch configuration
+  const { data: branchConfig } = useQuery({
+    queryKey: ["branchConfiguration", order.branchId],
+    queryFn: async () => (await branchApi.getBranchConfiguration(order.branchId)) as BranchConfiguration,
+    enabled: !!order.branchId,
+  });
+
+  const timeline = useMemo(
+    () => buildOrderTimeline(order, { timeZone, statusTypes, stageTargets: getStageTargets(branchConfig) }),
+    [order, timeZone, statusTypes, branchConfig],
+  );
+
+  if (timeline.steps.length === 0) {
+    return (
+      <p className="text-xs text-gray-500" data-testid="text-no-status-history">
+        No status changes recorded yet.
+      </p>
+    );
+  }
+
+  return (
+    <div data-testid="order-status-timeline">
+      <div className="flex justify-between items-center mb-3">
+        <p className="text-xs font-semibold text-gray-700">Status Timeline</p>
+        <p
+          className={`text-xs ${timeline.completedLate ? "text-red-600 font-semibold" : "text-gray-500"}`}
+          data-testid="text-timeline-total"
+        >
+          <Clock className="inline w-3 h-3 mr-1" />
+          {formatDuration(timeline.totalMinutes)} total · target {timeline.targetMinutes}m
+        </p>
+      </div>
+
+      <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+        {timeline.steps.map((step, index) => (
+          <li key={index} className="ml-4" data-testid={`timeline-step-${index}`}>
+            <span
+              className={`absolute -left-[7px] mt-1 h-3 w-3 rounded-full border-2 border-white ${
+                step.exceededTarget ? "bg-red-500" : index === timeline.steps.length - 1 ? "bg-blue-600" : "bg-gray-400"
+              }`}
+            />
+            <div className="flex justify-between gap-2">
+              <p className="text-sm font-medium text-gray-900">{step.status}</p>
+              {step.elapsedMinutes !== undefined && (
+                <span
+                  className={`text-xs whitespace-nowrap ${step.exceededTarget ? "text-red-600 font-semibold" : "text-gray-500"}`}
+                  title={step.targetMinutes !== undefined ? `Target ${formatDuration(step.targetMinutes)}` : undefined}
+                  data-testid={`timeline-step-${index}-elapsed`}
+                >
+                  {step.exceededTarget && <AlertTriangle className="inline w-3 h-3 mr-1" />}
+                  +{formatDuration(step.elapsedMinutes)}
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">{step.changedAtLabel}</p>
+            {step.comment && (
+              <p className="text-xs text-gray-600 italic mt-1" data-testid={`timeline-step-${index}-comment`}>
+                "{step.comment}"
+              </p>
+            )}
+            {step.exceededTarget && step.targetMinutes !== undefined && (
+              <p className="text-xs text-red-600 mt-1">
+                Exceeded the {formatDuration(step.targetMinutes)} target for the previous step
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { signalRService } from "@/services/signalRService";
 import { toast } from "@/hooks/use-toast";
 import { apiRepository } from "@/lib/apiRepository";
 import { DetailedOrder } from "@/types/schema";
+import { getReceiptTemplate } from "@/utils/receiptLayout";
 import {
   Dialog,
   DialogContent,
@@ -49,10 +50,12 @@ export default function PrinterModal({ open, onOpenChange, onConnectionChange }:
   }, [logs]);
 
   useEffect(() => {
-    const handleConnectionChange = (connected: boolean) => {
+    // This modal manages the default printer profile
+    const handleConnectionChange = (connected: boolean, profileId: string) => {
+      if (profileId !== bluetoothPrinterService.getDefaultProfile()?.id) return;
       setIsConnected(connected);
       if (connected) {
-        setDeviceName(bluetoothPrinterService.getDeviceName());
+        setDeviceName(bluetoothPrinterService.getDeviceName(profileId));
       } else {
         setDeviceName("");
       }
@@ -60,7 +63,7 @@ export default function PrinterModal({ open, onOpenChange, onConnectionChange }:
 
     // Set initial status when modal opens
     if (open) {
-      const connected = bluetoothPrinterService.getConnectionStatus();
+      const connected = bluetoothPrinterService.getConnectionStatus(bluetoothPrinterService.getDefaultProfile()?.id);
       setIsConnected(connected);
       if (connected) {
         setDeviceName(bluetoothPrinterService.getDeviceName());
@@ -127,7 +130,7 @@ export default function PrinterModal({ open, onOpenChange, onConnectionChange }:
           tax: order.taxAmount,
           total: order.totalAmount,
           branchName: order.branchName
-        });
+        }, { template: getReceiptTemplate(order.branchId) });
 
         if (printResult.success) {
           addLog('success', `Receipt printed successfully for ${payload.orderNumber}`);
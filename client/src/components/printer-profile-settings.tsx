@@ -0,0 +1,565 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Bluetooth, Plus, Route, Settings2, Trash2, Printer as PrinterIcon } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  bluetoothPrinterService,
+  PAPER_WIDTH_COLUMNS,
+  PaperWidth,
+  PrintDocumentType,
+  PrinterProfile,
+  PrinterRoutingRule,
+  PrinterServiceUuids,
+} from "@/services/bluetoothPrinterService";
+import {
+  DEFAULT_NETWORK_PRINTER_PORT,
+  DEFAULT_PRINTER_BRIDGE_URL,
+  networkPrinterTransport,
+} from "@/services/networkPrinterTransport";
+import { PRINTER_TRANSPORT_LABELS, PrinterTransportType } from "@/services/printerTransport";
+import { OrderType } from "@/types/schema";
+import {
+  ESC_POS_CODE_PAGES,
+  RECEIPT_COLUMN_OPTIONS,
+  ReceiptColumns,
+  resolveEscPosCodePage,
+} from "@/utils/receiptLayout";
+
+type LogFn = (type: 'info' | 'success' | 'error' | 'warning', message: string) => void;
+
+// Select value for rules that apply to every order type
+const ANY_ORDER_TYPE = "any";
+
+// Select value for profiles that use the paper width's standard line length
+const AUTO_COLUMNS = "auto";
+
+export const DOCUMENT_TYPE_LABELS: Record<PrintDocumentType, string> = {
+  'receipt': 'Customer receipt',
+  'kitchen-ticket': 'Kitchen ticket',
+  'end-of-day-report': 'End-of-day report',
+};
+
+const ORDER_TYPE_OPTIONS = [
+  { value: OrderType[OrderType.DineIn], label: 'Dine In' },
+  { value: OrderType[OrderType.TakeAway], label: 'Takeaway' },
+  { value: OrderType[OrderType.Delivery], label: 'Delivery' },
+];
+
+// UUID pairs are edited one per line as "service:characteristic"
+const formatServiceUuids = (uuids: PrinterServiceUuids[]): string =>
+  uuids.map(pair => `${pair.serviceUuid}:${pair.characteristicUuid}`).join("\n");
+
+const parseServiceUuids = (text: string): PrinterServiceUuids[] | null => {
+  const lines = text.split("\n").map(line => line.trim()).filter(Boolean);
+  const pairs = lines.map(line => {
+    const [serviceUuid, characteristicUuid] = line.split(":").map(part => part.trim().toLowerCase());
+    return serviceUuid && characteristicUuid ? { serviceUuid, characteristicUuid } : null;
+  });
+  return pairs.every(Boolean) ? (pairs as PrinterServiceUuids[]) : null;
+};
+
+// Re-render whenever profiles, rules or connections change
+const usePrinterProfiles = () => {
+  const [profiles, setProfiles] = useState<PrinterProfile[]>(() => bluetoothPrinterService.getProfiles());
+  const [rules, setRules] = useState<PrinterRoutingRule[]>(() => bluetoothPrinterService.getRoutingRules());
+  const [, setConnectionVersion] = useState(0);
+
+  useEffect(() => {
+    const handleProfilesChange = () => {
+      setProfiles(bluetoothPrinterService.getProfiles());
+      setRules(bluetoothPrinterService.getRoutingRules());
+    };
+    const handleConnectionChange = () => setConnectionVersion(version => version + 1);
+
+    bluetoothPrinterService.onProfilesChange(handleProfilesChange);
+    bluetoothPrinterService.onConnectionChange(handleConnectionChange);
+    return () => {
+      bluetoothPrinterService.offProfilesChange(handleProfilesChange);
+      bluetoothPrinterService.offConnectionChange(handleConnectionChange);
+    };
+  }, []);
+
+  return { profiles, rules };
+};
+
+// Address of the local WebSocket-to-TCP bridge used by network printers
+function PrinterBridgeSettings({ onLog }: { onLog: LogFn }) {
+  const [bridgeUrl, setBridgeUrl] = useState(() => networkPrinterTransport.getBridgeUrl());
+  const isBridgeConnected = networkPrinterTransport.isBridgeConnected();
+
+  const handleSave = () => {
+    networkPrinterTransport.setBridgeUrl(bridgeUrl);
+    setBridgeUrl(networkPrinterTransport.getBridgeUrl());
+    onLog('info', `Printer bridge address set to ${networkPrinterTransport.getBridgeUrl()}`);
+  };
+
+  return (
+    <div className="p-4 border rounded-lg space-y-2" data-testid="printer-bridge-settings">
+      <div className="flex items-center gap-2">
+        <div className={`h-3 w-3 rounded-full ${isBridgeConnected ? 'bg-green-500' : 'bg-gray-400'}`}></div>
+        <span className="text-sm font-medium">Printer bridge</span>
+        <span className="text-xs text-muted-foreground">
+          {isBridgeConnected ? 'Connected' : 'Not connected'}
+        </span>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          className="font-mono text-sm"
+          value={bridgeUrl}
+          placeholder={DEFAULT_PRINTER_BRIDGE_URL}
+          onChange={(e) => setBridgeUrl(e.target.value)}
+          data-testid="input-printer-bridge-url"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleSave}
+          disabled={bridgeUrl === networkPrinterTransport.getBridgeUrl()}
+          data-testid="button-save-printer-bridge-url"
+        >
+          Save
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Run <code>BRIDGE_ALLOWED_ORIGINS={window.location.origin} node printer-bridge/printer-bridge.mjs</code> on a
+        computer on the same network as the printers.
+      </p>
+    </div>
+  );
+}
+
+export function PrinterProfilesCard({ onLog }: { onLog: LogFn }) {
+  const { profiles } = usePrinterProfiles();
+  const [connectingId, setConnectingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [uuidDrafts, setUuidDrafts] = useState<Record<string, string>>({});
+
+  const handleAddProfile = () => {
+    const profile = bluetoothPrinterService.addProfile(`Printer ${profiles.length + 1}`);
+    onLog('info', `Added printer profile "${profile.name}"`);
+  };
+
+  const handleConnect = async (profile: PrinterProfile) => {
+    setConnectingId(profile.id);
+    onLog('info', `Attempting to connect "${profile.name}"...`);
+
+    const result = await bluetoothPrinterService.connect(profile.id);
+
+    if (result.success) {
+      onLog('success', `Connected "${profile.name}" to ${result.deviceName || 'Bluetooth Printer'}`);
+      toast({
+        title: "Printer Connected",
+        description: `${profile.name} is using ${result.deviceName}`,
+      });
+    } else {
+      onLog('error', `Connection failed: ${result.error || 'Unknown error'}`);
+      toast({
+        title: "Connection Failed",
+        description: result.error || "Failed to connect to printer",
+        variant: "destructive",
+      });
+    }
+
+    setConnectingId(null);
+  };
+
+  const handleDisconnect = async (profile: PrinterProfile) => {
+    await bluetoothPrinterService.disconnect(profile.id);
+    onLog('info', `Disconnected "${profile.name}"`);
+    toast({
+      title: "Printer Disconnected",
+      description: `${profile.name} has been disconnected`,
+    });
+  };
+
+  // A profile only talks to one printer, so drop the old link before switching transport
+  const handleTransportChange = async (profile: PrinterProfile, transport: PrinterTransportType) => {
+    if ((profile.transport || "bluetooth") === transport) return;
+    await bluetoothPrinterService.disconnect(profile.id);
+    bluetoothPrinterService.updateProfile(profile.id, { transport });
+    onLog('info', `"${profile.name}" now prints via ${PRINTER_TRANSPORT_LABELS[transport]}`);
+  };
+
+  const handleRemove = async (profile: PrinterProfile) => {
+    await bluetoothPrinterService.removeProfile(profile.id);
+    onLog('warning', `Removed printer profile "${profile.name}"`);
+  };
+
+  const handleSaveUuids = (profile: PrinterProfile) => {
+    const draft = uuidDrafts[profile.id];
+    if (draft === undefined) return;
+
+    const serviceUuids = parseServiceUuids(draft);
+    if (!serviceUuids || serviceUuids.length === 0) {
+      toast({
+        title: "Invalid Service UUIDs",
+        description: "Enter one service:characteristic pair per line.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    bluetoothPrinterService.updateProfile(profile.id, { serviceUuids });
+    setUuidDrafts(prev => {
+      const { [profile.id]: _, ...rest } = prev;
+      return rest;
+    });
+    onLog('info', `Updated service UUIDs for "${profile.name}"`);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Bluetooth className="h-5 w-5" />
+            Printer Profiles
+          </CardTitle>
+          <CardDescription>
+            Connect one Bluetooth thermal printer per profile, e.g. front counter and kitchen
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleAddProfile} data-testid="button-add-printer-profile">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Profile
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {profiles.length === 0 && (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-printer-profiles">
+            No printers yet. Add a profile and connect a printer to get started.
+          </p>
+        )}
+
+        {profiles.map(profile => {
+          const isConnected = bluetoothPrinterService.getConnectionStatus(profile.id);
+          return (
+            <div key={profile.id} className="p-4 bg-muted rounded-lg space-y-3" data-testid={`printer-profile-${profile.id}`}>
+              <div className="flex flex-wrap items-center gap-3">
+                <div className={`h-3 w-3 rounded-full ${isConnected ? 'bg-green-500' : 'bg-gray-400'} animate-pulse`}></div>
+                <Input
+                  className="w-48 bg-background"
+                  value={profile.name}
+                  onChange={(e) => bluetoothPrinterService.updateProfile(profile.id, { name: e.target.value })}
+                  data-testid={`input-profile-name-${profile.id}`}
+                />
+                <Select
+                  value={profile.transport || "bluetooth"}
+                  onValueChange={(value) => handleTransportChange(profile, value as PrinterTransportType)}
+                >
+                  <SelectTrigger className="w-36 bg-background" data-testid={`select-transport-${profile.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PRINTER_TRANSPORT_LABELS) as PrinterTransportType[]).map(transport => (
+                      <SelectItem key={transport} value={transport}>
+                        {PRINTER_TRANSPORT_LABELS[transport]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {profile.transport === "network" ? (
+                  <div className="flex items-center gap-1 flex-1 min-w-[12rem]">
+                    <Input
+                      className="bg-background"
+                      placeholder="Printer IP, e.g. 192.168.1.50"
+                      value={profile.networkHost || ""}
+                      onChange={(e) => bluetoothPrinterService.updateProfile(profile.id, { networkHost: e.target.value })}
+                      data-testid={`input-network-host-${profile.id}`}
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      max={65535}
+                      className="w-24 bg-background"
+                      title="TCP port"
+                      value={profile.networkPort || DEFAULT_NETWORK_PRINTER_PORT}
+                      onChange={(e) =>
+                        bluetoothPrinterService.updateProfile(profile.id, {
+                          networkPort: Math.min(65535, Math.max(1, Number(e.target.value) || DEFAULT_NETWORK_PRINTER_PORT)),
+                        })
+                      }
+                      data-testid={`input-network-port-${profile.id}`}
+                    />
+                  </div>
+                ) : (
+                  <span className="text-sm text-muted-foreground flex-1 min-w-[8rem]">
+                    {isConnected
+                      ? bluetoothPrinterService.getDeviceName(profile.id)
+                      : profile.deviceName
+                        ? `${profile.deviceName} (reconnect needed)`
+                        : 'No device'}
+                  </span>
+                )}
+                <Select
+                  value={String(profile.paperWidth)}
+                  onValueChange={(value) =>
+                    bluetoothPrinterService.updateProfile(profile.id, { paperWidth: Number(value) as PaperWidth })
+                  }
+                >
+                  <SelectTrigger className="w-24 bg-background" data-testid={`select-paper-width-${profile.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="58">58mm</SelectItem>
+                    <SelectItem value="80">80mm</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={profile.columns ? String(profile.columns) : AUTO_COLUMNS}
+                  onValueChange={(value) =>
+                    bluetoothPrinterService.updateProfile(profile.id, {
+                      columns: value === AUTO_COLUMNS ? undefined : (Number(value) as ReceiptColumns),
+                    })
+                  }
+                >
+                  <SelectTrigger className="w-28 bg-background" title="Characters per line" data-testid={`select-columns-${profile.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_COLUMNS}>Auto ({PAPER_WIDTH_COLUMNS[profile.paperWidth]})</SelectItem>
+                    {RECEIPT_COLUMN_OPTIONS.map(columns => (
+                      <SelectItem key={columns} value={String(columns)}>
+                        {columns} cols
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={String(resolveEscPosCodePage(profile.codePage))}
+                  onValueChange={(value) =>
+                    bluetoothPrinterService.updateProfile(profile.id, { codePage: Number(value) })
+                  }
+                >
+                  <SelectTrigger className="w-48 bg-background" title="ESC/POS code page" data-testid={`select-code-page-${profile.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ESC_POS_CODE_PAGES.map(codePage => (
+                      <SelectItem key={codePage.value} value={String(codePage.value)}>
+                        {codePage.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant={profile.isDefault ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => bluetoothPrinterService.updateProfile(profile.id, { isDefault: true })}
+                  data-testid={`button-default-profile-${profile.id}`}
+                >
+                  {profile.isDefault ? "Default" : "Make Default"}
+                </Button>
+                {isConnected ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDisconnect(profile)}
+                    data-testid={`button-disconnect-profile-${profile.id}`}
+                  >
+                    Disconnect
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    onClick={() => handleConnect(profile)}
+                    disabled={connectingId !== null}
+                    data-testid={`button-connect-profile-${profile.id}`}
+                  >
+                    <PrinterIcon className="mr-2 h-4 w-4" />
+                    {connectingId === profile.id ? 'Connecting...' : 'Connect'}
+                  </Button>
+                )}
+                {profile.transport !== "network" && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setExpandedId(expandedId === profile.id ? null : profile.id)}
+                    title="Service UUIDs"
+                    data-testid={`button-profile-advanced-${profile.id}`}
+                  >
+                    <Settings2 className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(profile)}
+                  data-testid={`button-remove-profile-${profile.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {expandedId === profile.id && profile.transport !== "network" && (
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    Service and write characteristic UUIDs, one <code>service:characteristic</code> pair per line.
+                    Changes apply the next time this printer connects.
+                  </p>
+                  <Textarea
+                    className="font-mono text-xs bg-background"
+                    rows={3}
+                    value={uuidDrafts[profile.id] ?? formatServiceUuids(profile.serviceUuids)}
+                    onChange={(e) => setUuidDrafts(prev => ({ ...prev, [profile.id]: e.target.value }))}
+                    data-testid={`textarea-service-uuids-${profile.id}`}
+                  />
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      onClick={() => handleSaveUuids(profile)}
+                      disabled={uuidDrafts[profile.id] === undefined}
+                      data-testid={`button-save-uuids-${profile.id}`}
+                    >
+                      Save UUIDs
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {profiles.some(profile => profile.transport === "network") && <PrinterBridgeSettings onLog={onLog} />}
+
+        <div className="p-4 bg-blue-50 dark:bg-blue-950 rounded-lg border border-blue-200 dark:border-blue-800">
+          <p className="text-sm text-blue-800 dark:text-blue-200">
+            <strong>Note:</strong> Make sure your Bluetooth printer is turned on and in pairing mode before connecting.
+            Network printers are reached through the local printer bridge on their raw port (usually 9100).
+            This feature works best with ESC/POS compatible thermal printers.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function PrinterRoutingRulesCard() {
+  const { profiles, rules } = usePrinterProfiles();
+
+  const updateRule = (ruleId: string, changes: Partial<PrinterRoutingRule>) => {
+    bluetoothPrinterService.setRoutingRules(
+      rules.map(rule => (rule.id === ruleId ? { ...rule, ...changes } : rule)),
+    );
+  };
+
+  const handleAddRule = () => {
+    if (profiles.length === 0) return;
+    bluetoothPrinterService.setRoutingRules([
+      ...rules,
+      {
+        id: `rule-${Date.now()}`,
+        documentType: 'receipt',
+        profileId: profiles[0].id,
+      },
+    ]);
+  };
+
+  const handleRemoveRule = (ruleId: string) => {
+    bluetoothPrinterService.setRoutingRules(rules.filter(rule => rule.id !== ruleId));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Route className="h-5 w-5" />
+            Routing Rules
+          </CardTitle>
+          <CardDescription>
+            Choose which printer handles each document; unmatched documents use the default profile
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleAddRule}
+          disabled={profiles.length === 0}
+          data-testid="button-add-routing-rule"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Rule
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-routing-rules">
+            No rules. Everything prints on the default profile.
+          </p>
+        ) : (
+          rules.map(rule => (
+            <div key={rule.id} className="grid gap-2 grid-cols-[1fr_1fr_1fr_auto] items-center" data-testid={`routing-rule-${rule.id}`}>
+              <Select
+                value={rule.documentType}
+                onValueChange={(value) => updateRule(rule.id, { documentType: value as PrintDocumentType })}
+              >
+                <SelectTrigger data-testid={`select-rule-document-${rule.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DOCUMENT_TYPE_LABELS) as PrintDocumentType[]).map(documentType => (
+                    <SelectItem key={documentType} value={documentType}>
+                      {DOCUMENT_TYPE_LABELS[documentType]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={rule.orderType || ANY_ORDER_TYPE}
+                onValueChange={(value) =>
+                  updateRule(rule.id, { orderType: value === ANY_ORDER_TYPE ? undefined : value })
+                }
+              >
+                <SelectTrigger data-testid={`select-rule-order-type-${rule.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_ORDER_TYPE}>Any order type</SelectItem>
+                  {ORDER_TYPE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={rule.profileId}
+                onValueChange={(value) => updateRule(rule.id, { profileId: value })}
+              >
+                <SelectTrigger data-testid={`select-rule-profile-${rule.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map(profile => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemoveRule(rule.id)}
+                data-testid={`button-remove-rule-${rule.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
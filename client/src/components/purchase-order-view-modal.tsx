@@ -11,13 +11,31 @@ import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { inventoryApi } from "@/lib/apiRepository";
+import { PurchaseOrderItem } from "@/types/schema";
+import {
+  PURCHASE_ORDER_STATUS,
+  canReceivePurchaseOrder,
+  getOutstandingQuantity,
+  purchaseOrderStatusMap,
+} from "@/utils/purchaseOrderReceiving";
 
 const receiveOrderSchema = z.object({
   items: z.array(z.object({
     purchaseOrderItemId: z.number(),
+    outstandingQuantity: z.number(),
     receivedQuantity: z.coerce.number().min(0, "Received quantity must be 0 or greater"),
+    actualUnitPrice: z.coerce.number().min(0, "Unit price must be 0 or greater"),
+    notes: z.string().optional(),
+  }).refine((item) => item.receivedQuantity <= item.outstandingQuantity, {
+    message: "More than outstanding",
+    path: ["receivedQuantity"],
   })),
+  closeRemaining: z.boolean(),
+}).refine((data) => data.closeRemaining || data.items.some((item) => item.receivedQuantity > 0), {
+  message: "Enter a received quantity, or close the order to write off what's outstanding",
+  path: ["items"],
 });
 
 type ReceiveOrderFormData = z.infer<typeof receiveOrderSchema>;
@@ -29,12 +47,17 @@ interface PurchaseOrderViewModalProps {
   onSuccess: () => void;
 }
 
-const purchaseOrderStatusMap: { [key: number]: { label: string; variant: "default" | "secondary" | "outline" | "destructive" } } = {
-  0: { label: "Draft", variant: "secondary" },
-  1: { label: "Ordered", variant: "default" },
-  2: { label: "Received", variant: "outline" },
-  3: { label: "Cancelled", variant: "destructive" },
-};
+// Receive form rows for the lines still waiting on stock
+const toReceiveItems = (items: PurchaseOrderItem[]) =>
+  items
+    .filter((item) => getOutstandingQuantity(item) > 0)
+    .map((item) => ({
+      purchaseOrderItemId: item.id,
+      outstandingQuantity: getOutstandingQuantity(item),
+      receivedQuantity: getOutstandingQuantity(item),
+      actualUnitPrice: item.unitPrice,
+      notes: "",
+    }));
 
 export default function PurchaseOrderViewModal({ 
   open, 
@@ -47,7 +70,7 @@ export default function PurchaseOrderViewModal({
   const [showReceiveForm, setShowReceiveForm] = useState(false);
 
   // Fetch purchase order details
-  const { data: orderDetails, isLoading } = useQuery<any>({
+  const { data: orderDetails, isLoading } = useQuery({
     queryKey: ["purchase-order", orderId],
     queryFn: async () => await inventoryApi.getPurchaseOrderById(orderId),
     enabled: !!orderId && open,
@@ -56,10 +79,8 @@ export default function PurchaseOrderViewModal({
   const form = useForm<ReceiveOrderFormData>({
     resolver: zodResolver(receiveOrderSchema),
     defaultValues: {
-      items: orderDetails?.items?.map((item: any) => ({
-        purchaseOrderItemId: item.id,
-        receivedQuantity: item.quantity - item.receivedQuantity,
-      })) || [],
+      items: toReceiveItems(orderDetails?.items || []),
+      closeRemaining: false,
     },
   });
 
@@ -72,10 +93,8 @@ export default function PurchaseOrderViewModal({
   useEffect(() => {
     if (orderDetails?.items) {
       form.reset({
-        items: orderDetails.items.map((item: any) => ({
-          purchaseOrderItemId: item.id,
-          receivedQuantity: item.quantity - item.receivedQuantity,
-        })),
+        items: toReceiveItems(orderDetails.items),
+        closeRemaining: false,
       });
     }
   }, [orderDetails]);
@@ -83,22 +102,42 @@ export default function PurchaseOrderViewModal({
   // Receive mutation
   const receiveMutation = useMutation({
     mutationFn: async (data: ReceiveOrderFormData) => {
-      await inventoryApi.receivePurchaseOrder(orderId, data.items);
+      await inventoryApi.receivePurchaseOrder(
+        orderId,
+        data.items.map((item) => {
+          const orderedPrice = orderDetails?.items.find((entry) => entry.id === item.purchaseOrderItemId)?.unitPrice;
+          return {
+            purchaseOrderItemId: item.purchaseOrderItemId,
+            receivedQuantity: item.receivedQuantity,
+            actualUnitPrice: item.actualUnitPrice !== orderedPrice ? item.actualUnitPrice : undefined,
+            notes: item.notes?.trim() || undefined,
+          };
+        }),
+        { closeRemaining: data.closeRemaining },
+      );
     },
-    onSuccess: () => {
+    onSuccess: (_, data) => {
+      const backOrdered = data.items.filter((item) => item.receivedQuantity < item.outstandingQuantity).length;
       toast({
         title: "Success",
-        description: "Purchase order received successfully",
+        description:
+          backOrdered > 0 && !data.closeRemaining
+            ? `Delivery received, ${backOrdered} item(s) back-ordered`
+            : "Purchase order received successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["purchase-order", orderId] });
       if (orderDetails?.branchId) {
         queryClient.invalidateQueries({ queryKey: ["purchase-orders", orderDetails.branchId] });
         queryClient.invalidateQueries({ queryKey: ["inventory-stock", orderDetails.branchId] });
         queryClient.invalidateQueries({ queryKey: ["inventory-low-stock", orderDetails.branchId] });
+        queryClient.invalidateQueries({ queryKey: ["inventory-stock-movements", orderDetails.branchId] });
+        queryClient.invalidateQueries({ queryKey: ["purchase-order-receipts", orderDetails.branchId] });
       } else {
         queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
         queryClient.invalidateQueries({ queryKey: ["inventory-stock"] });
         queryClient.invalidateQueries({ queryKey: ["inventory-low-stock"] });
+        queryClient.invalidateQueries({ queryKey: ["inventory-stock-movements"] });
+        queryClient.invalidateQueries({ queryKey: ["purchase-order-receipts"] });
       }
       onSuccess();
       setShowReceiveForm(false);
@@ -166,8 +205,11 @@ export default function PurchaseOrderViewModal({
     return null;
   }
 
-  const canReceive = orderDetails.status === 0 || orderDetails.status === 1; // Draft or Ordered
-  const canCancel = orderDetails.status === 0 || orderDetails.status === 1; // Draft or Ordered
+  const canReceive = canReceivePurchaseOrder(orderDetails.status);
+  const canCancel =
+    orderDetails.status === PURCHASE_ORDER_STATUS.draft || orderDetails.status === PURCHASE_ORDER_STATUS.ordered;
+  const isPartiallyReceived = orderDetails.status === PURCHASE_ORDER_STATUS.partiallyReceived;
+  const closeRemaining = form.watch("closeRemaining");
 
   return (
     <Dialog open={open} onOpenChange={(open) => !open && onClose()}>
@@ -219,16 +261,22 @@ export default function PurchaseOrderViewModal({
                     <TableHead>Quantity</TableHead>
                     <TableHead>Unit Price</TableHead>
                     <TableHead>Received</TableHead>
+                    {isPartiallyReceived && <TableHead>Back-ordered</TableHead>}
                     <TableHead>Total</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {orderDetails.items.map((item: any) => (
+                  {orderDetails.items.map((item) => (
                     <TableRow key={item.id}>
                       <TableCell className="font-medium">{item.itemName}</TableCell>
                       <TableCell>{item.quantity}</TableCell>
                       <TableCell>{item.unitPrice.toFixed(2)}</TableCell>
                       <TableCell>{item.receivedQuantity}</TableCell>
+                      {isPartiallyReceived && (
+                        <TableCell className={getOutstandingQuantity(item) > 0 ? "text-amber-700 font-medium" : ""}>
+                          {getOutstandingQuantity(item)}
+                        </TableCell>
+                      )}
                       <TableCell>{item.total.toFixed(2)}</TableCell>
                     </TableRow>
                   ))}
@@ -242,37 +290,117 @@ export default function PurchaseOrderViewModal({
               <form onSubmit={form.handleSubmit(onSubmitReceive)} className="space-y-4">
                 <div>
                   <h3 className="font-semibold mb-2">Receive Items</h3>
-                  <div className="space-y-2">
-                    {fields.map((field, index) => (
-                      <div key={field.id} className="flex items-center gap-2">
-                        <span className="flex-1 text-sm">
-                          {orderDetails.items[index]?.itemName}
-                        </span>
-                        <FormField
-                          control={form.control}
-                          name={`items.${index}.receivedQuantity`}
-                          render={({ field }) => (
-                            <FormItem className="w-32">
-                              <FormControl>
-                                <Input
-                                  type="number"
-                                  placeholder="Qty"
-                                  {...field}
-                                  data-testid={`input-received-${index}`}
-                                />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-                        <span className="text-sm text-gray-600 w-20">
-                          / {orderDetails.items[index]?.quantity}
-                        </span>
-                      </div>
-                    ))}
+                  <div className="grid grid-cols-12 gap-2 mb-2 text-sm font-medium text-gray-700">
+                    <p className="col-span-3">Item</p>
+                    <p className="col-span-2">Received</p>
+                    <p className="col-span-2">Invoice Price</p>
+                    <p className="col-span-5">Notes</p>
+                  </div>
+                  <div className="space-y-3">
+                    {fields.map((field, index) => {
+                      const orderItem = orderDetails.items.find((item) => item.id === field.purchaseOrderItemId);
+                      const received = Number(form.watch(`items.${index}.receivedQuantity`)) || 0;
+                      const invoicePrice = Number(form.watch(`items.${index}.actualUnitPrice`));
+                      const shortBy = Math.round((field.outstandingQuantity - received) * 1000) / 1000;
+                      const priceChange = orderItem ? Math.round((invoicePrice - orderItem.unitPrice) * 100) / 100 : 0;
+                      return (
+                        <div key={field.id} className="grid grid-cols-12 gap-2 items-start">
+                          <div className="col-span-3 text-sm">
+                            <p className="font-medium">{orderItem?.itemName}</p>
+                            <p className="text-xs text-gray-500">{field.outstandingQuantity} outstanding</p>
+                          </div>
+                          <FormField
+                            control={form.control}
+                            name={`items.${index}.receivedQuantity`}
+                            render={({ field }) => (
+                              <FormItem className="col-span-2">
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="0.001"
+                                    placeholder="Qty"
+                                    {...field}
+                                    data-testid={`input-received-${index}`}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                                {shortBy > 0 && (
+                                  <p className="text-xs text-amber-700">
+                                    Short {shortBy}, {closeRemaining ? "written off" : "back-ordered"}
+                                  </p>
+                                )}
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`items.${index}.actualUnitPrice`}
+                            render={({ field }) => (
+                              <FormItem className="col-span-2">
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="0.01"
+                                    placeholder="Price"
+                                    {...field}
+                                    data-testid={`input-actual-price-${index}`}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                                {priceChange !== 0 && !Number.isNaN(priceChange) && (
+                                  <p className={`text-xs ${priceChange > 0 ? "text-red-600" : "text-green-600"}`}>
+                                    {priceChange > 0 ? "+" : ""}
+                                    {priceChange.toFixed(2)} vs ordered
+                                  </p>
+                                )}
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name={`items.${index}.notes`}
+                            render={({ field }) => (
+                              <FormItem className="col-span-5">
+                                <FormControl>
+                                  <Input
+                                    placeholder="e.g. damaged case, substitute brand"
+                                    {...field}
+                                    data-testid={`input-receive-notes-${index}`}
+                                  />
+                                </FormControl>
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      );
+                    })}
                   </div>
+                  {(form.formState.errors.items?.message || form.formState.errors.items?.root?.message) && (
+                    <p className="text-sm text-red-600 mt-2">
+                      {form.formState.errors.items?.message || form.formState.errors.items?.root?.message}
+                    </p>
+                  )}
                 </div>
 
+                <FormField
+                  control={form.control}
+                  name="closeRemaining"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          data-testid="checkbox-close-remaining"
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">
+                        Close the order and write off anything not delivered instead of back-ordering it
+                      </FormLabel>
+                    </FormItem>
+                  )}
+                />
+
                 <div className="flex justify-end gap-3 pt-4 border-t">
                   <Button
                     type="button"
@@ -321,7 +449,7 @@ export default function PurchaseOrderViewModal({
                   data-testid="button-receive-order"
                 >
                   <Check className="w-4 h-4 mr-2" />
-                  Receive Order
+                  {isPartiallyReceived ? "Receive Back-order" : "Receive Order"}
                 </Button>
               )}
             </div>
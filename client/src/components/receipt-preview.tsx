@@ -0,0 +1,65 @@
+import { useMemo } from "react";
+import { QrCode } from "lucide-react";
+import {
+  ReceiptColumns,
+  ReceiptData,
+  ReceiptTemplate,
+  layoutReceipt,
+} from "@/utils/receiptLayout";
+
+interface ReceiptPreviewProps {
+  template: ReceiptTemplate;
+  data: ReceiptData;
+  columns: ReceiptColumns;
+}
+
+const ALIGN_CLASSES = {
+  left: "text-left",
+  center: "text-center",
+  right: "text-right",
+} as const;
+
+// Renders the same line model the printer receives, one monospace character per column
+// Large text doubles the font size, matching the printer's double width and height
+export default function ReceiptPreview({ template, data, columns }: ReceiptPreviewProps) {
+  const lines = useMemo(() => layoutReceipt(template, data, columns), [template, data, columns]);
+
+  return (
+    <div
+      className="mx-auto bg-white text-black font-mono text-xs leading-snug p-3 shadow-inner border rounded"
+      style={{ width: `calc(${columns}ch + 1.5rem)` }}
+      data-testid="receipt-preview"
+    >
+      {lines.map((line, index) => {
+        if (line.kind === "image") {
+          return (
+            <img key={index} src={line.dataUrl} alt="Receipt logo" className="mx-auto max-w-full grayscale" />
+          );
+        }
+
+        if (line.kind === "qr") {
+          return (
+            <div key={index} className="flex flex-col items-center py-1">
+              <div
+                className="flex items-center justify-center border-2 border-black"
+                style={{ width: `${line.size * 0.75}rem`, height: `${line.size * 0.75}rem` }}
+              >
+                <QrCode className="h-3/4 w-3/4" />
+              </div>
+              <span className="text-[10px]">{line.content}</span>
+            </div>
+          );
+        }
+
+        return (
+          <div
+            key={index}
+            className={`whitespace-pre ${ALIGN_CLASSES[line.align]} ${line.bold ? "font-bold" : ""} ${line.large ? "text-2xl leading-tight" : line.tall ? "text-base leading-tight" : ""} ${line.reverse ? "bg-black text-white" : ""}`}
+          >
+            {line.text || " "}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
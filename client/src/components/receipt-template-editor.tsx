@@ -0,0 +1,381 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Plus, ReceiptText, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import ReceiptPreview from "@/components/receipt-preview";
+import {
+  RECEIPT_BLOCK_LABELS,
+  RECEIPT_COLUMN_OPTIONS,
+  ReceiptAlign,
+  ReceiptBlock,
+  ReceiptBlockType,
+  ReceiptColumns,
+  ReceiptTemplate,
+  SAMPLE_RECEIPT_DATA,
+  createReceiptBlock,
+  getReceiptTemplate,
+  prepareLogoDataUrl,
+  resetReceiptTemplate,
+  saveReceiptTemplate,
+} from "@/utils/receiptLayout";
+
+// Option changes for any one block type
+type BlockChanges = {
+  [K in ReceiptBlockType]: Partial<Omit<Extract<ReceiptBlock, { type: K }>, "id" | "type">>;
+}[ReceiptBlockType];
+
+// Templates are edited for the branch in the URL, or as the device default
+const getUrlBranchId = (): number | undefined => {
+  const value = new URLSearchParams(window.location.search).get("branchId");
+  return value ? parseInt(value, 10) : undefined;
+};
+
+export default function ReceiptTemplateEditor() {
+  const [branchId] = useState(getUrlBranchId);
+  const [template, setTemplate] = useState<ReceiptTemplate>(() => getReceiptTemplate(branchId));
+  const [previewColumns, setPreviewColumns] = useState<ReceiptColumns>(48);
+  const [newBlockType, setNewBlockType] = useState<ReceiptBlockType>("text");
+
+  const updateBlock = (id: string, changes: BlockChanges) => {
+    setTemplate(prev => ({
+      ...prev,
+      blocks: prev.blocks.map(block => (block.id === id ? ({ ...block, ...changes } as ReceiptBlock) : block)),
+    }));
+  };
+
+  const moveBlock = (index: number, offset: number) => {
+    setTemplate(prev => {
+      const blocks = [...prev.blocks];
+      const target = index + offset;
+      if (target < 0 || target >= blocks.length) return prev;
+      [blocks[index], blocks[target]] = [blocks[target], blocks[index]];
+      return { ...prev, blocks };
+    });
+  };
+
+  const removeBlock = (id: string) => {
+    setTemplate(prev => ({ ...prev, blocks: prev.blocks.filter(block => block.id !== id) }));
+  };
+
+  const addBlock = () => {
+    setTemplate(prev => ({ ...prev, blocks: [...prev.blocks, createReceiptBlock(newBlockType)] }));
+  };
+
+  const handleLogoUpload = async (id: string, file?: File) => {
+    if (!file) return;
+    try {
+      updateBlock(id, { imageDataUrl: await prepareLogoDataUrl(file) });
+    } catch (error: any) {
+      toast({
+        title: "Logo Upload Failed",
+        description: error.message || "Could not read the image",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = () => {
+    try {
+      saveReceiptTemplate(template, branchId);
+      toast({
+        title: "Receipt Template Saved",
+        description: branchId !== undefined
+          ? `Receipts for branch ${branchId} will use this layout`
+          : "Receipts will use this layout on this device",
+      });
+    } catch (error: any) {
+      // Large logos can exceed the localStorage quota
+      toast({
+        title: "Save Failed",
+        description: error.message || "Could not save the receipt template",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleReset = () => {
+    resetReceiptTemplate(branchId);
+    setTemplate(getReceiptTemplate(branchId));
+    toast({
+      title: "Receipt Template Reset",
+      description: branchId !== undefined
+        ? "This branch now uses the default layout"
+        : "Receipts now use the standard layout",
+    });
+  };
+
+  const renderBlockOptions = (block: ReceiptBlock) => {
+    switch (block.type) {
+      case "logo":
+        return (
+          <div className="flex items-center gap-3">
+            {block.imageDataUrl && (
+              <img src={block.imageDataUrl} alt="Logo" className="h-10 bg-white rounded border" />
+            )}
+            <Input
+              type="file"
+              accept="image/*"
+              className="bg-background"
+              onChange={(e) => handleLogoUpload(block.id, e.target.files?.[0])}
+              data-testid={`input-logo-${block.id}`}
+            />
+          </div>
+        );
+      case "header":
+        return (
+          <div className="flex flex-wrap items-center gap-3">
+            <Input
+              className="flex-1 min-w-[10rem] bg-background"
+              placeholder="Branch name"
+              value={block.text || ""}
+              onChange={(e) => updateBlock(block.id, { text: e.target.value || undefined })}
+              data-testid={`input-header-text-${block.id}`}
+            />
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`header-large-${block.id}`}
+                checked={block.large}
+                onCheckedChange={(large) => updateBlock(block.id, { large })}
+              />
+              <Label htmlFor={`header-large-${block.id}`}>Large</Label>
+            </div>
+          </div>
+        );
+      case "text":
+        return (
+          <div className="space-y-2">
+            <Textarea
+              className="bg-background"
+              rows={2}
+              value={block.text}
+              onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+              data-testid={`input-text-${block.id}`}
+            />
+            <div className="flex items-center gap-3">
+              <Select
+                value={block.align}
+                onValueChange={(align) => updateBlock(block.id, { align: align as ReceiptAlign })}
+              >
+                <SelectTrigger className="w-28 bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="left">Left</SelectItem>
+                  <SelectItem value="center">Center</SelectItem>
+                  <SelectItem value="right">Right</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`text-bold-${block.id}`}
+                  checked={block.bold}
+                  onCheckedChange={(bold) => updateBlock(block.id, { bold })}
+                />
+                <Label htmlFor={`text-bold-${block.id}`}>Bold</Label>
+              </div>
+            </div>
+          </div>
+        );
+      case "divider":
+        return (
+          <Select
+            value={block.char}
+            onValueChange={(char) => updateBlock(block.id, { char: char as "=" | "-" })}
+          >
+            <SelectTrigger className="w-28 bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="=">Double (=)</SelectItem>
+              <SelectItem value="-">Single (-)</SelectItem>
+            </SelectContent>
+          </Select>
+        );
+      case "orderInfo":
+      case "items": {
+        const toggles = block.type === "orderInfo"
+          ? [
+              { key: "showDate", label: "Date", checked: block.showDate },
+              { key: "showOrderType", label: "Order type", checked: block.showOrderType },
+              { key: "showLocation", label: "Location", checked: block.showLocation },
+            ]
+          : [
+              { key: "showModifiers", label: "Modifiers", checked: block.showModifiers },
+              { key: "showCustomizations", label: "Customizations", checked: block.showCustomizations },
+              { key: "showPackageItems", label: "Deal contents", checked: block.showPackageItems },
+            ];
+        return (
+          <div className="flex flex-wrap gap-4">
+            {toggles.map(toggle => (
+              <div key={toggle.key} className="flex items-center gap-2">
+                <Switch
+                  id={`${toggle.key}-${block.id}`}
+                  checked={toggle.checked}
+                  onCheckedChange={(checked) => updateBlock(block.id, { [toggle.key]: checked })}
+                />
+                <Label htmlFor={`${toggle.key}-${block.id}`}>{toggle.label}</Label>
+              </div>
+            ))}
+          </div>
+        );
+      }
+      case "qrCode":
+        return (
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`qr-size-${block.id}`}>Module size</Label>
+            <Input
+              id={`qr-size-${block.id}`}
+              type="number"
+              min={1}
+              max={16}
+              className="w-20 bg-background"
+              value={block.size}
+              onChange={(e) => updateBlock(block.id, { size: Math.min(16, Math.max(1, Number(e.target.value) || 1)) })}
+              data-testid={`input-qr-size-${block.id}`}
+            />
+          </div>
+        );
+      case "footer":
+        return (
+          <Textarea
+            className="bg-background"
+            rows={2}
+            value={block.text}
+            onChange={(e) => updateBlock(block.id, { text: e.target.value })}
+            data-testid={`input-footer-${block.id}`}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ReceiptText className="h-5 w-5" />
+          Receipt Layout
+        </CardTitle>
+        <CardDescription>
+          {branchId !== undefined
+            ? `Customize the customer receipt for branch ${branchId}`
+            : "Customize the customer receipt printed on this device"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-6 lg:grid-cols-[3fr_2fr]">
+          <div className="space-y-3">
+            {template.blocks.map((block, index) => (
+              <div key={block.id} className="p-3 bg-muted rounded-lg space-y-2" data-testid={`receipt-block-${block.id}`}>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{RECEIPT_BLOCK_LABELS[block.type]}</span>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === 0}
+                      onClick={() => moveBlock(index, -1)}
+                      data-testid={`button-move-up-${block.id}`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={index === template.blocks.length - 1}
+                      onClick={() => moveBlock(index, 1)}
+                      data-testid={`button-move-down-${block.id}`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeBlock(block.id)}
+                      data-testid={`button-remove-block-${block.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {renderBlockOptions(block)}
+              </div>
+            ))}
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Select value={newBlockType} onValueChange={(value) => setNewBlockType(value as ReceiptBlockType)}>
+                  <SelectTrigger className="w-56" data-testid="select-new-block-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RECEIPT_BLOCK_LABELS) as ReceiptBlockType[]).map(type => (
+                      <SelectItem key={type} value={type}>
+                        {RECEIPT_BLOCK_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={addBlock} data-testid="button-add-block">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Block
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleReset} data-testid="button-reset-template">
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Reset
+                </Button>
+                <Button size="sm" onClick={handleSave} data-testid="button-save-template">
+                  Save
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Preview</span>
+              <Select
+                value={String(previewColumns)}
+                onValueChange={(value) => setPreviewColumns(Number(value) as ReceiptColumns)}
+              >
+                <SelectTrigger className="w-36" data-testid="select-preview-columns">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RECEIPT_COLUMN_OPTIONS.map(columns => (
+                    <SelectItem key={columns} value={String(columns)}>
+                      {columns} columns{columns === 32 ? " (58mm)" : columns === 48 ? " (80mm)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="overflow-x-auto">
+              <ReceiptPreview template={template} data={SAMPLE_RECEIPT_DATA} columns={previewColumns} />
+            </div>
+            {template.blocks.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Empty layouts print nothing. Reset to restore the standard receipt.
+              </p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,405 @@
+import { Fragment, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays, addDays } from "date-fns";
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronDown, ChevronRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ExportMenu } from "@/components/export-menu";
+import { apiRepository, inventoryApi, ordersApi } from "@/lib/apiRepository";
+import { formatCurrency } from "@/lib/currencyUtils";
+import { CustomerSearchMenuResponse, DetailedOrder } from "@/types/schema";
+import { EMPTY_ORDER_FILTERS } from "@/types/orderFilters";
+import { ExportColumn, ExportContext, fetchAllPages } from "@/utils/tableExport";
+import { branchRecipesQuery } from "@/utils/inventoryDepletion";
+import {
+  COSTING_METHOD_LABELS,
+  CostingMethod,
+  MENU_ENGINEERING_LABELS,
+  MenuEngineeringClass,
+  RecipeCostingRow,
+  buildIngredientCosts,
+  buildRecipeCostingReport,
+  countVariantSales,
+} from "@/utils/recipeCosting";
+
+interface RecipeCostingReportProps {
+  branchId: number;
+  currency?: string;
+  timeZone?: string;
+  exportContext?: ExportContext;
+}
+
+// Purchase prices are taken from this many days of receipts
+const PURCHASE_LOOKBACK_DAYS = 90;
+
+type SortKey = "name" | "cost" | "price" | "costPercent" | "margin" | "quantitySold" | "totalMargin";
+
+const ENGINEERING_BADGE_CLASSES: Record<MenuEngineeringClass, string> = {
+  star: "bg-green-100 text-green-800 hover:bg-green-100",
+  plowhorse: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  puzzle: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  dog: "bg-red-100 text-red-800 hover:bg-red-100",
+};
+
+const COSTING_EXPORT_COLUMNS: ExportColumn<RecipeCostingRow>[] = [
+  { header: "Recipe", value: (row) => row.name },
+  { header: "Food Cost", type: "currency", value: (row) => row.cost },
+  { header: "Menu Price", type: "currency", value: (row) => row.price },
+  { header: "Cost %", type: "number", value: (row) => row.costPercent },
+  { header: "Margin", type: "currency", value: (row) => row.margin },
+  { header: "Sold", type: "number", value: (row) => row.quantitySold },
+  { header: "Total Margin", type: "currency", value: (row) => row.totalMargin },
+  {
+    header: "Class",
+    value: (row) => (row.engineeringClass ? MENU_ENGINEERING_LABELS[row.engineeringClass].label : ""),
+  },
+  { header: "Missing Prices", value: (row) => row.missingCosts.join(", ") },
+];
+
+export default function RecipeCostingReport({
+  branchId,
+  currency = "USD",
+  timeZone = "UTC",
+  exportContext,
+}: RecipeCostingReportProps) {
+  const [method, setMethod] = useState<CostingMethod>("average");
+  const [salesFrom, setSalesFrom] = useState(() => format(subDays(new Date(), 30), "yyyy-MM-dd"));
+  const [salesTo, setSalesTo] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [classFilter, setClassFilter] = useState<MenuEngineeringClass | "all">("all");
+  const [sortKey, setSortKey] = useState<SortKey>("costPercent");
+  const [sortAscending, setSortAscending] = useState(false);
+  const [expandedRecipeId, setExpandedRecipeId] = useState<number | null>(null);
+
+  const [purchasesFrom] = useState(() => format(subDays(new Date(), PURCHASE_LOOKBACK_DAYS), "yyyy-MM-dd"));
+  const [purchasesTo] = useState(() => format(addDays(new Date(), 1), "yyyy-MM-dd"));
+
+  const { data: recipes = [], isLoading: isLoadingRecipes } = useQuery({
+    ...branchRecipesQuery(branchId),
+    enabled: !!branchId,
+  });
+
+  const { data: movements = [], isLoading: isLoadingPrices } = useQuery({
+    queryKey: ["inventory-stock-movements", branchId, purchasesFrom, purchasesTo],
+    queryFn: () =>
+      fetchAllPages((pageNumber, pageSize) =>
+        inventoryApi.getInventoryStockMovementsByBranch(branchId, purchasesFrom, purchasesTo, {
+          PageNumber: pageNumber,
+          PageSize: pageSize,
+          SortBy: "createdAt",
+          IsAscending: true,
+        }),
+      ),
+    enabled: !!branchId,
+  });
+
+  const { data: menu } = useQuery({
+    queryKey: ["customerSearchMenu", branchId],
+    queryFn: async () => {
+      const response = await apiRepository.call<CustomerSearchMenuResponse>(
+        "getCustomerSearchMenu",
+        "GET",
+        undefined,
+        {},
+        true,
+        { branchId },
+      );
+      if (response.error) throw new Error(response.error);
+      return response.data;
+    },
+    enabled: !!branchId,
+  });
+
+  const { data: orders = [], isLoading: isLoadingSales } = useQuery({
+    queryKey: ["recipe-costing-sales", branchId, salesFrom, salesTo, timeZone],
+    queryFn: () =>
+      fetchAllPages<DetailedOrder>((pageNumber, pageSize) =>
+        ordersApi.getOrdersByBranch(
+          branchId,
+          pageNumber,
+          pageSize,
+          "createdAt",
+          true,
+          { ...EMPTY_ORDER_FILTERS, createdFrom: salesFrom, createdTo: salesTo },
+          timeZone,
+        ),
+      ),
+    enabled: !!branchId && !!salesFrom && !!salesTo,
+  });
+
+  // Some orders carry their status as a status type id
+  const { data: orderStatusTypes = [] } = useQuery({
+    queryKey: ["order-status-types"],
+    queryFn: async (): Promise<Array<{ id: number; name: string }>> => {
+      return await ordersApi.getOrderStatusTypes();
+    },
+    staleTime: 30 * 60 * 1000,
+  });
+
+  const report = useMemo(
+    () =>
+      buildRecipeCostingReport(
+        recipes,
+        buildIngredientCosts(movements),
+        method,
+        countVariantSales(orders, orderStatusTypes),
+        menu || undefined,
+      ),
+    [recipes, movements, method, orders, orderStatusTypes, menu],
+  );
+
+  const rows = useMemo(() => {
+    const filtered =
+      classFilter === "all" ? report.rows : report.rows.filter((row) => row.engineeringClass === classFilter);
+    return [...filtered].sort((a, b) => {
+      const direction = sortAscending ? 1 : -1;
+      if (sortKey === "name") return a.name.localeCompare(b.name) * direction;
+      // Rows without a value (no menu price) always sort last
+      const left = a[sortKey];
+      const right = b[sortKey];
+      if (left === null || right === null) return left === null ? (right === null ? 0 : 1) : -1;
+      return (left - right) * direction;
+    });
+  }, [report, classFilter, sortKey, sortAscending]);
+
+  const classCounts = useMemo(() => {
+    const counts: Record<MenuEngineeringClass, number> = { star: 0, plowhorse: 0, puzzle: 0, dog: 0 };
+    report.rows.forEach((row) => {
+      if (row.engineeringClass) counts[row.engineeringClass]++;
+    });
+    return counts;
+  }, [report]);
+
+  const isLoading = isLoadingRecipes || isLoadingPrices || isLoadingSales;
+  const formatPrice = (value: number) => formatCurrency(value, currency);
+
+  const handleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(key === "name");
+    }
+  };
+
+  const SortableHead = ({ label, column, right = true }: { label: string; column: SortKey; right?: boolean }) => (
+    <TableHead className={right ? "text-right" : undefined}>
+      <button
+        className={`inline-flex items-center gap-1 ${right ? "justify-end w-full" : ""}`}
+        onClick={() => handleSort(column)}
+        data-testid={`sort-costing-${column}`}
+      >
+        {label}
+        {sortKey !== column ? (
+          <ArrowUpDown className="w-3 h-3 text-gray-400" />
+        ) : sortAscending ? (
+          <ArrowUp className="w-3 h-3" />
+        ) : (
+          <ArrowDown className="w-3 h-3" />
+        )}
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div className="flex flex-wrap gap-4 items-center">
+          <Select value={method} onValueChange={(value) => setMethod(value as CostingMethod)}>
+            <SelectTrigger className="w-56" data-testid="select-costing-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {COSTING_METHOD_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium">Sales from:</label>
+            <Input
+              type="date"
+              value={salesFrom}
+              onChange={(e) => setSalesFrom(e.target.value)}
+              className="w-40"
+              data-testid="input-costing-sales-from"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium">To:</label>
+            <Input
+              type="date"
+              value={salesTo}
+              onChange={(e) => setSalesTo(e.target.value)}
+              className="w-40"
+              data-testid="input-costing-sales-to"
+            />
+          </div>
+        </div>
+        <ExportMenu
+          fileName="recipe-costing"
+          sheetName="Food Cost"
+          columns={COSTING_EXPORT_COLUMNS}
+          rows={rows}
+          context={exportContext}
+          disabled={rows.length === 0}
+          data-testid="button-export-costing"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {(Object.keys(MENU_ENGINEERING_LABELS) as MenuEngineeringClass[]).map((key) => (
+          <Card
+            key={key}
+            className={`cursor-pointer ${classFilter === key ? "ring-2 ring-green-500" : ""}`}
+            onClick={() => setClassFilter(classFilter === key ? "all" : key)}
+            data-testid={`card-engineering-${key}`}
+          >
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <Badge className={ENGINEERING_BADGE_CLASSES[key]}>{MENU_ENGINEERING_LABELS[key].label}</Badge>
+                <span className="text-2xl font-semibold">{classCounts[key]}</span>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">{MENU_ENGINEERING_LABELS[key].hint}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Costs use {COSTING_METHOD_LABELS[method].toLowerCase()}s from the last {PURCHASE_LOOKBACK_DAYS} days of
+        purchase receipts. {report.totalSold} units sold in the period; popular items sell at least{" "}
+        {report.popularityThreshold} units and profitable items earn at least {formatPrice(report.averageMargin)} each.
+        {classFilter !== "all" && (
+          <Button variant="link" className="h-auto p-0 ml-2" onClick={() => setClassFilter("all")}>
+            Show all recipes
+          </Button>
+        )}
+      </p>
+
+      <div className="bg-white rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <SortableHead label="Recipe" column="name" right={false} />
+              <SortableHead label="Food Cost" column="cost" />
+              <SortableHead label="Menu Price" column="price" />
+              <SortableHead label="Cost %" column="costPercent" />
+              <SortableHead label="Margin" column="margin" />
+              <SortableHead label="Sold" column="quantitySold" />
+              <SortableHead label="Total Margin" column="totalMargin" />
+              <TableHead>Class</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }, (_, i) => (
+                <TableRow key={`loading-${i}`}>
+                  {Array.from({ length: 8 }, (_, j) => (
+                    <TableCell key={j}>
+                      <div className="h-4 bg-gray-200 rounded animate-pulse"></div>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center py-8 text-gray-500">
+                  No recipes found
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((row) => {
+                const expanded = expandedRecipeId === row.recipeId;
+                return (
+                  <Fragment key={row.recipeId}>
+                    <TableRow
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => setExpandedRecipeId(expanded ? null : row.recipeId)}
+                      data-testid={`costing-row-${row.recipeId}`}
+                    >
+                      <TableCell className="font-medium">
+                        <span className="flex items-center gap-1">
+                          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          {row.name}
+                          {row.type === "subMenuItem" && (
+                            <Badge variant="outline" className="text-[10px]">
+                              Add-on
+                            </Badge>
+                          )}
+                        </span>
+                        {row.missingCosts.length > 0 && (
+                          <p className="text-xs text-amber-700 ml-5">No price for {row.missingCosts.join(", ")}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatPrice(row.cost)}</TableCell>
+                      <TableCell className="text-right">{row.price === null ? "-" : formatPrice(row.price)}</TableCell>
+                      <TableCell
+                        className={`text-right ${row.costPercent !== null && row.costPercent > 35 ? "text-red-600 font-medium" : ""}`}
+                      >
+                        {row.costPercent === null ? "-" : `${row.costPercent}%`}
+                      </TableCell>
+                      <TableCell className="text-right">{row.margin === null ? "-" : formatPrice(row.margin)}</TableCell>
+                      <TableCell className="text-right">{row.type === "variant" ? row.quantitySold : "-"}</TableCell>
+                      <TableCell className="text-right">
+                        {row.totalMargin === null || row.type !== "variant" ? "-" : formatPrice(row.totalMargin)}
+                      </TableCell>
+                      <TableCell>
+                        {row.engineeringClass && (
+                          <Badge
+                            className={ENGINEERING_BADGE_CLASSES[row.engineeringClass]}
+                            title={MENU_ENGINEERING_LABELS[row.engineeringClass].hint}
+                          >
+                            {MENU_ENGINEERING_LABELS[row.engineeringClass].label}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {expanded && (
+                      <TableRow data-testid={`costing-lines-${row.recipeId}`}>
+                        <TableCell colSpan={8} className="bg-gray-50">
+                          <div className="space-y-1 text-sm pl-5">
+                            {row.lines.map((line) => (
+                              <div key={line.inventoryItemId} className="grid grid-cols-4 gap-4 max-w-2xl">
+                                <span>{line.name}</span>
+                                <span className="text-gray-600">
+                                  {line.quantity} {line.unit}
+                                </span>
+                                <span className="text-gray-600">
+                                  {line.unitCost === null ? "No price" : `${formatPrice(line.unitCost)} / ${line.unit}`}
+                                </span>
+                                <span className="text-right">{formatPrice(line.cost)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
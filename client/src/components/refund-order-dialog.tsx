@@ -0,0 +1,348 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Minus, Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { ordersApi } from "@/lib/apiRepository";
+import { formatCurrency } from "@/lib/currencyUtils";
+import { DetailedOrder, OrderRefund, OrderRefundType } from "@/types/schema";
+import {
+  REFUND_REASONS,
+  calculateAmountRefund,
+  calculateItemRefund,
+  getRefundableLines,
+  getRefundableTotal,
+  getRefundReasonLabel,
+  printOrderRefundSlip,
+} from "@/utils/orderRefunds";
+
+interface RefundOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: DetailedOrder | null;
+  onRefunded?: (refund: OrderRefund) => void;
+}
+
+const REFUND_TYPE_LABELS: Record<OrderRefundType, string> = {
+  Items: "Refund items",
+  Amount: "Refund amount",
+};
+
+export function RefundOrderDialog({ open, onOpenChange, order, onRefunded }: RefundOrderDialogProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [refundType, setRefundType] = useState<OrderRefundType>("Items");
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [amount, setAmount] = useState("");
+  const [reasonCode, setReasonCode] = useState("");
+  const [note, setNote] = useState("");
+  const [approvedBy, setApprovedBy] = useState("");
+  const [printSlip, setPrintSlip] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const lines = useMemo(() => (order ? getRefundableLines(order) : []), [order]);
+  const refundable = order ? getRefundableTotal(order) : 0;
+
+  // Start a fresh refund each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setRefundType("Items");
+    setQuantities({});
+    setAmount("");
+    setReasonCode("");
+    setNote("");
+    setApprovedBy(user?.fullName || user?.name || "");
+    setPrintSlip(true);
+  }, [open, user]);
+
+  const currency = order?.currency || "USD";
+  const formatPrice = (value: number) => formatCurrency(value, currency);
+
+  const itemRefund = useMemo(
+    () => (order ? calculateItemRefund(order, quantities) : null),
+    [order, quantities],
+  );
+  const breakdown =
+    refundType === "Items"
+      ? itemRefund?.breakdown
+      : order
+        ? calculateAmountRefund(order, Number(amount) || 0)
+        : undefined;
+
+  const validationError = (() => {
+    if (!breakdown || breakdown.totalAmount <= 0) {
+      return refundType === "Items" ? "Select at least one item to refund" : "Enter an amount to refund";
+    }
+    if (refundType === "Amount" && (Number(amount) || 0) > refundable + 0.005) {
+      return `At most ${formatPrice(refundable)} can be refunded`;
+    }
+    if (!reasonCode) return "Choose a reason for the refund";
+    if (reasonCode === "OTHER" && !note.trim()) return "Describe the reason for the refund";
+    if (!approvedBy.trim()) return "Enter who approved the refund";
+    return null;
+  })();
+
+  const changeQuantity = (key: string, next: number, max: number) =>
+    setQuantities((current) => ({ ...current, [key]: Math.min(max, Math.max(0, next)) }));
+
+  const handleSubmit = async () => {
+    if (!order || !breakdown || validationError) return;
+    setIsSaving(true);
+    try {
+      const label = getRefundReasonLabel(reasonCode);
+      const refund = await ordersApi.createRefund(order.id, {
+        refundType,
+        lines:
+          refundType === "Items"
+            ? (itemRefund?.lines || []).map((line) => ({
+                orderItemId: line.orderItemId,
+                orderPackageId: line.orderPackageId,
+                quantity: line.quantity,
+              }))
+            : [],
+        ...breakdown,
+        reasonCode,
+        reason: note.trim() ? `${label} - ${note.trim()}` : label,
+        approvedBy: approvedBy.trim(),
+      });
+
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/branch/${order.branchId}`] });
+      toast({
+        title: "Refund Recorded",
+        description: `${formatPrice(refund.totalAmount)} refunded on order ${order.orderNumber}.`,
+      });
+
+      if (printSlip) {
+        const result = await printOrderRefundSlip(order, refund);
+        if (!result.success) {
+          toast({
+            title: "Print Failed",
+            description: result.error || "Failed to print refund slip",
+            variant: "destructive",
+          });
+        }
+      }
+
+      onRefunded?.(refund);
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error("[Refund] ❌ Refund failed:", error);
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to record refund",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!order) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="refund-order-dialog">
+        <DialogHeader>
+          <DialogTitle>Refund - Order #{order.orderNumber}</DialogTitle>
+          <DialogDescription>
+            {formatPrice(refundable)} left to refund. Tax, service charge and discount are refunded in proportion;
+            delivery charges and tips are not refunded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={refundType} onValueChange={(value) => setRefundType(value as OrderRefundType)}>
+          <TabsList data-testid="refund-type-tabs">
+            {(Object.keys(REFUND_TYPE_LABELS) as OrderRefundType[]).map((type) => (
+              <TabsTrigger key={type} value={type} data-testid={`refund-type-${type.toLowerCase()}`}>
+                {REFUND_TYPE_LABELS[type]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {refundType === "Items" ? (
+          <div className="space-y-2">
+            {lines.length === 0 && (
+              <p className="text-sm text-gray-500">Every item on this order has already been refunded.</p>
+            )}
+            {lines.map((line) => {
+              const selected = quantities[line.key] || 0;
+              return (
+                <div
+                  key={line.key}
+                  className="flex items-center justify-between gap-3 border border-gray-100 rounded-md p-2"
+                  data-testid={`refund-line-${line.key}`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{line.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {line.quantity} refundable at {formatPrice(line.unitPrice)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => changeQuantity(line.key, selected - 1, line.quantity)}
+                      disabled={selected <= 0}
+                      data-testid={`button-refund-decrease-${line.key}`}
+                    >
+                      <Minus className="w-3 h-3" />
+                    </Button>
+                    <span className="w-6 text-center text-sm font-medium">{selected}</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => changeQuantity(line.key, selected + 1, line.quantity)}
+                      disabled={selected >= line.quantity}
+                      data-testid={`button-refund-increase-${line.key}`}
+                    >
+                      <Plus className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="refund-amount">Amount to refund</Label>
+            <Input
+              id="refund-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              max={refundable}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={refundable.toFixed(2)}
+              data-testid="input-refund-amount"
+            />
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reasonCode} onValueChange={setReasonCode}>
+              <SelectTrigger data-testid="select-refund-reason">
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {REFUND_REASONS.map((reason) => (
+                  <SelectItem key={reason.code} value={reason.code}>
+                    {reason.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="refund-approved-by">Approved by</Label>
+            <Input
+              id="refund-approved-by"
+              value={approvedBy}
+              onChange={(e) => setApprovedBy(e.target.value)}
+              placeholder="Manager name"
+              data-testid="input-refund-approved-by"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="refund-note">Note{reasonCode === "OTHER" ? "" : " (optional)"}</Label>
+          <Textarea
+            id="refund-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            data-testid="input-refund-note"
+          />
+        </div>
+
+        {breakdown && (
+          <div className="space-y-1 text-sm border-t border-gray-100 pt-3" data-testid="refund-breakdown">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Subtotal</span>
+              <span>{formatPrice(breakdown.subTotal)}</span>
+            </div>
+            {breakdown.discountAmount > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Discount</span>
+                <span>-{formatPrice(breakdown.discountAmount)}</span>
+              </div>
+            )}
+            {breakdown.taxAmount > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Tax</span>
+                <span>{formatPrice(breakdown.taxAmount)}</span>
+              </div>
+            )}
+            {breakdown.serviceCharges > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Service charges</span>
+                <span>{formatPrice(breakdown.serviceCharges)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold">
+              <span>Total refund</span>
+              <span className="text-red-600" data-testid="text-refund-total">
+                {formatPrice(breakdown.totalAmount)}
+              </span>
+            </div>
+          </div>
+        )}
+
+        {validationError && (
+          <p className="text-sm text-red-600" data-testid="text-refund-error">
+            {validationError}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <Checkbox
+              checked={printSlip}
+              onCheckedChange={(checked) => setPrintSlip(checked === true)}
+              data-testid="checkbox-refund-print-slip"
+            />
+            <span>Print refund slip</span>
+          </label>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-refund">
+              Cancel
+            </Button>
+            <Button
+              className="bg-red-600 hover:bg-red-700 text-white"
+              onClick={handleSubmit}
+              disabled={!!validationError || isSaving}
+              data-testid="button-confirm-refund"
+            >
+              {isSaving ? "Refunding..." : "Refund"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,620 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowDownToLine, ArrowUpFromLine, Lock, Plus, RefreshCw, Unlock, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { shiftApi } from "@/lib/apiRepository";
+import { formatCurrency } from "@/lib/currencyUtils";
+import { bluetoothPrinterService } from "@/services/bluetoothPrinterService";
+import { Shift, ShiftCashMovementType } from "@/types/schema";
+import { formatExportDateTime } from "@/utils/tableExport";
+import {
+  CASH_MOVEMENT_LABELS,
+  ShiftVarianceState,
+  VARIANCE_STATE_LABELS,
+  fetchShiftOrders,
+  getVarianceState,
+  reconcileShift,
+} from "@/utils/shiftReconciliation";
+
+interface ShiftPanelProps {
+  branchId: number;
+  currency?: string;
+  timeZone?: string;
+}
+
+const HISTORY_PAGE_SIZE = 10;
+
+const VARIANCE_BADGE_CLASSES: Record<ShiftVarianceState, string> = {
+  balanced: "bg-green-100 text-green-800 hover:bg-green-100",
+  over: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  short: "bg-red-100 text-red-800 hover:bg-red-100",
+};
+
+const parseAmount = (value: string): number | undefined =>
+  value === "" || isNaN(Number(value)) || Number(value) < 0 ? undefined : Number(value);
+
+function VarianceBadge({ variance }: { variance: number }) {
+  const state = getVarianceState(variance);
+  return (
+    <Badge className={VARIANCE_BADGE_CLASSES[state]} data-testid="badge-shift-variance">
+      {VARIANCE_STATE_LABELS[state]}
+    </Badge>
+  );
+}
+
+export function ShiftPanel({ branchId, currency = "USD", timeZone = "UTC" }: ShiftPanelProps) {
+  const queryClient = useQueryClient();
+  const formatPrice = (amount: number) => formatCurrency(amount, currency);
+  const formatTime = (utc: string) => formatExportDateTime(utc, timeZone);
+
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [openingNotes, setOpeningNotes] = useState("");
+  const [movementType, setMovementType] = useState<ShiftCashMovementType>("Drop");
+  const [movementAmount, setMovementAmount] = useState("");
+  const [movementReason, setMovementReason] = useState("");
+  const [showCloseDialog, setShowCloseDialog] = useState(false);
+  const [nonCashTotal, setNonCashTotal] = useState("");
+  const [countedCash, setCountedCash] = useState("");
+  const [closingNotes, setClosingNotes] = useState("");
+  const [historyPage, setHistoryPage] = useState(1);
+
+  const {
+    data: currentShift,
+    isLoading: isLoadingShift,
+    error: shiftError,
+  } = useQuery({
+    queryKey: ["/api/Shifts/branch", branchId, "current"],
+    queryFn: () => shiftApi.getCurrentShift(branchId),
+  });
+
+  const {
+    data: shiftOrders = [],
+    isFetching: isFetchingOrders,
+    refetch: refetchShiftOrders,
+  } = useQuery({
+    queryKey: [`/api/orders/branch/${branchId}`, "shift", currentShift?.id],
+    queryFn: () => fetchShiftOrders(branchId, currentShift as Shift, timeZone),
+    enabled: !!currentShift,
+    staleTime: 60 * 1000,
+  });
+
+  const { data: historyResponse, isLoading: isLoadingHistory } = useQuery({
+    queryKey: ["/api/Shifts/branch", branchId, "history", historyPage],
+    queryFn: () => shiftApi.getShiftsByBranch(branchId, historyPage, HISTORY_PAGE_SIZE),
+  });
+
+  // Start the close-out form clean each time it opens
+  useEffect(() => {
+    if (showCloseDialog) {
+      setNonCashTotal("");
+      setCountedCash("");
+      setClosingNotes("");
+      refetchShiftOrders();
+    }
+  }, [showCloseDialog]);
+
+  const reconciliation = useMemo(
+    () =>
+      currentShift
+        ? reconcileShift(currentShift, shiftOrders, {
+            nonCashTotal: parseAmount(nonCashTotal),
+            countedCash: parseAmount(countedCash),
+          })
+        : null,
+    [currentShift, shiftOrders, nonCashTotal, countedCash],
+  );
+
+  const invalidateShifts = () => queryClient.invalidateQueries({ queryKey: ["/api/Shifts/branch", branchId] });
+
+  const kickDrawer = async () => {
+    const result = await bluetoothPrinterService.openCashDrawer();
+    if (!result.success) {
+      toast({
+        title: "Cash Drawer Not Opened",
+        description: result.error || "Failed to open cash drawer",
+        variant: "destructive",
+      });
+    }
+    return result.success;
+  };
+
+  const openShiftMutation = useMutation({
+    mutationFn: () =>
+      shiftApi.openShift({
+        branchId,
+        openingFloat: parseAmount(openingFloat) ?? 0,
+        notes: openingNotes.trim() || undefined,
+      }),
+    onSuccess: async (shift) => {
+      setOpeningFloat("");
+      setOpeningNotes("");
+      invalidateShifts();
+      toast({
+        title: "Shift Opened",
+        description: `Shift started with a float of ${formatPrice(shift.openingFloat)}.`,
+      });
+      await kickDrawer();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to open shift",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cashMovementMutation = useMutation({
+    mutationFn: () =>
+      shiftApi.addCashMovement((currentShift as Shift).id, {
+        type: movementType,
+        amount: parseAmount(movementAmount) ?? 0,
+        reason: movementReason.trim(),
+      }),
+    onSuccess: (movement) => {
+      setMovementAmount("");
+      setMovementReason("");
+      invalidateShifts();
+      toast({
+        title: "Cash Movement Recorded",
+        description: `${CASH_MOVEMENT_LABELS[movement.type]} of ${formatPrice(movement.amount)} recorded.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record cash movement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeShiftMutation = useMutation({
+    mutationFn: () => {
+      if (!currentShift || !reconciliation || reconciliation.variance === undefined) {
+        throw new Error("Enter the counted cash before closing the shift");
+      }
+      return shiftApi.closeShift(currentShift.id, {
+        salesTotal: reconciliation.salesTotal,
+        nonCashTotal: reconciliation.nonCashTotal,
+        expectedCash: reconciliation.expectedCash,
+        countedCash: reconciliation.countedCash ?? 0,
+        variance: reconciliation.variance,
+        notes: closingNotes.trim() || undefined,
+      });
+    },
+    onSuccess: (shift) => {
+      setShowCloseDialog(false);
+      invalidateShifts();
+      const variance = shift.variance ?? reconciliation?.variance ?? 0;
+      const state = getVarianceState(variance);
+      toast({
+        title: "Shift Closed",
+        description:
+          state === "balanced"
+            ? "The drawer balanced."
+            : `The drawer is ${state} by ${formatPrice(Math.abs(variance))}.`,
+        variant: state === "balanced" ? "default" : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to close shift",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isOffBalance = reconciliation?.varianceState !== undefined && reconciliation.varianceState !== "balanced";
+  const canClose =
+    reconciliation?.countedCash !== undefined && (!isOffBalance || closingNotes.trim() !== "");
+  const canRecordMovement = parseAmount(movementAmount) !== undefined && Number(movementAmount) > 0 && movementReason.trim() !== "";
+
+  const history = historyResponse?.items || [];
+
+  return (
+    <div className="space-y-6">
+      {isLoadingShift ? (
+        <div className="p-8 text-center text-gray-500" data-testid="shift-loading">
+          Loading shift...
+        </div>
+      ) : shiftError ? (
+        <div className="p-4 text-sm text-red-600 bg-red-50 rounded-md" data-testid="shift-error">
+          Failed to load shift: {(shiftError as Error).message}
+        </div>
+      ) : !currentShift ? (
+        <Card data-testid="open-shift-card">
+          <CardContent className="p-6 space-y-4">
+            <div className="flex items-center space-x-2">
+              <Wallet className="w-5 h-5 text-green-600" />
+              <h3 className="text-lg font-semibold text-gray-900">No Open Shift</h3>
+            </div>
+            <p className="text-sm text-gray-500">
+              Count the starting cash into the drawer and open a shift. The cash drawer opens automatically.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Opening float"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+                data-testid="input-opening-float"
+              />
+              <Input
+                placeholder="Notes (optional)"
+                value={openingNotes}
+                onChange={(e) => setOpeningNotes(e.target.value)}
+                className="sm:col-span-2"
+                data-testid="input-opening-notes"
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                className="bg-green-500 hover:bg-green-600 text-white"
+                onClick={() => openShiftMutation.mutate()}
+                disabled={parseAmount(openingFloat) === undefined || openShiftMutation.isPending}
+                data-testid="button-open-shift"
+              >
+                <Unlock className="w-4 h-4 mr-2" />
+                {openShiftMutation.isPending ? "Opening..." : "Open Shift"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card data-testid="current-shift-card">
+          <CardContent className="p-6 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <h3 className="text-lg font-semibold text-gray-900">Shift Open</h3>
+                  <Badge className="bg-green-500 hover:bg-green-500">Open</Badge>
+                </div>
+                <p className="text-sm text-gray-500">
+                  Opened {formatTime(currentShift.openedAt)}
+                  {currentShift.username ? ` by ${currentShift.username}` : ""}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => refetchShiftOrders()}
+                  disabled={isFetchingOrders}
+                  data-testid="button-refresh-shift"
+                >
+                  <RefreshCw className={`w-4 h-4 mr-2 ${isFetchingOrders ? "animate-spin" : ""}`} />
+                  Refresh
+                </Button>
+                <Button variant="outline" size="sm" onClick={kickDrawer} data-testid="button-open-drawer">
+                  <Wallet className="w-4 h-4 mr-2" />
+                  Open Drawer
+                </Button>
+                <Button
+                  size="sm"
+                  className="bg-gray-900 hover:bg-gray-800 text-white"
+                  onClick={() => setShowCloseDialog(true)}
+                  data-testid="button-close-shift"
+                >
+                  <Lock className="w-4 h-4 mr-2" />
+                  Close Shift
+                </Button>
+              </div>
+            </div>
+
+            {reconciliation && (
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                {[
+                  { label: "Opening Float", value: formatPrice(reconciliation.openingFloat) },
+                  { label: `Sales (${reconciliation.orderCount})`, value: formatPrice(reconciliation.salesTotal) },
+                  { label: "Cash Drops", value: `-${formatPrice(reconciliation.drops)}` },
+                  { label: "Payouts", value: `-${formatPrice(reconciliation.payouts)}` },
+                  { label: "Pay-ins", value: formatPrice(reconciliation.payIns) },
+                  { label: "Expected (all cash)", value: formatPrice(reconciliation.expectedCash) },
+                ].map((item) => (
+                  <div key={item.label} className="rounded-md border border-gray-200 p-3">
+                    <p className="text-xs text-gray-500">{item.label}</p>
+                    <p className="text-lg font-semibold text-gray-900">{item.value}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <p className="text-xs font-medium text-gray-500 uppercase">Cash Movements</p>
+              <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+                <Select value={movementType} onValueChange={(value) => setMovementType(value as ShiftCashMovementType)}>
+                  <SelectTrigger data-testid="select-movement-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CASH_MOVEMENT_LABELS) as ShiftCashMovementType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {CASH_MOVEMENT_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="Amount"
+                  value={movementAmount}
+                  onChange={(e) => setMovementAmount(e.target.value)}
+                  data-testid="input-movement-amount"
+                />
+                <Input
+                  placeholder="Reason"
+                  value={movementReason}
+                  onChange={(e) => setMovementReason(e.target.value)}
+                  data-testid="input-movement-reason"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => cashMovementMutation.mutate()}
+                  disabled={!canRecordMovement || cashMovementMutation.isPending}
+                  data-testid="button-record-movement"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Record
+                </Button>
+              </div>
+
+              {(currentShift.cashMovements || []).length === 0 ? (
+                <p className="text-sm text-gray-400">No cash movements this shift.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>By</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {currentShift.cashMovements.map((movement) => (
+                      <TableRow key={movement.id} data-testid={`row-movement-${movement.id}`}>
+                        <TableCell>{formatTime(movement.createdAt)}</TableCell>
+                        <TableCell>
+                          <span className="flex items-center">
+                            {movement.type === "PayIn" ? (
+                              <ArrowDownToLine className="w-4 h-4 mr-1 text-green-600" />
+                            ) : (
+                              <ArrowUpFromLine className="w-4 h-4 mr-1 text-red-600" />
+                            )}
+                            {CASH_MOVEMENT_LABELS[movement.type]}
+                          </span>
+                        </TableCell>
+                        <TableCell>{movement.reason}</TableCell>
+                        <TableCell>{movement.username}</TableCell>
+                        <TableCell className="text-right">{formatPrice(movement.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Shift History */}
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-gray-900">Shift History</h3>
+        <div className="bg-white rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Opened</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead>Cashier</TableHead>
+                <TableHead className="text-right">Float</TableHead>
+                <TableHead className="text-right">Expected</TableHead>
+                <TableHead className="text-right">Counted</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoadingHistory ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                    Loading shifts...
+                  </TableCell>
+                </TableRow>
+              ) : history.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                    No shifts yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                history.map((shift) => (
+                  <TableRow key={shift.id} data-testid={`row-shift-${shift.id}`}>
+                    <TableCell>{formatTime(shift.openedAt)}</TableCell>
+                    <TableCell>{shift.closedAt ? formatTime(shift.closedAt) : <Badge className="bg-green-500 hover:bg-green-500">Open</Badge>}</TableCell>
+                    <TableCell>{shift.username}</TableCell>
+                    <TableCell className="text-right">{formatPrice(shift.openingFloat)}</TableCell>
+                    <TableCell className="text-right">
+                      {shift.expectedCash !== null ? formatPrice(shift.expectedCash) : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {shift.countedCash !== null ? formatPrice(shift.countedCash) : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {shift.variance !== null ? (
+                        <span className="inline-flex items-center space-x-2">
+                          <span>{formatPrice(shift.variance)}</span>
+                          <VarianceBadge variance={shift.variance} />
+                        </span>
+                      ) : (
+                        "-"
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        {historyResponse && (historyResponse.hasPrevious || historyResponse.hasNext) && (
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setHistoryPage((page) => page - 1)}
+              disabled={!historyResponse.hasPrevious}
+              data-testid="button-shift-history-previous"
+            >
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setHistoryPage((page) => page + 1)}
+              disabled={!historyResponse.hasNext}
+              data-testid="button-shift-history-next"
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Close Shift Dialog */}
+      <Dialog open={showCloseDialog} onOpenChange={setShowCloseDialog}>
+        <DialogContent className="max-w-lg" data-testid="close-shift-dialog">
+          <DialogHeader>
+            <DialogTitle>Close Shift</DialogTitle>
+            <DialogDescription>
+              Enter the card and other non-cash takings from the payment terminal, then count the drawer.
+            </DialogDescription>
+          </DialogHeader>
+
+          {reconciliation && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-gray-500 uppercase">Non-cash takings</p>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="0.00"
+                    value={nonCashTotal}
+                    onChange={(e) => setNonCashTotal(e.target.value)}
+                    data-testid="input-non-cash-total"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-gray-500 uppercase">Counted cash</p>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="0.00"
+                    value={countedCash}
+                    onChange={(e) => setCountedCash(e.target.value)}
+                    data-testid="input-counted-cash"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1 text-sm rounded-md bg-gray-50 p-3" data-testid="shift-reconciliation">
+                {[
+                  { label: "Opening float", value: formatPrice(reconciliation.openingFloat) },
+                  {
+                    label: `Sales (${reconciliation.orderCount} orders)`,
+                    value: formatPrice(reconciliation.salesTotal),
+                  },
+                  { label: "Non-cash takings", value: `-${formatPrice(reconciliation.nonCashTotal)}` },
+                  { label: "Pay-ins", value: formatPrice(reconciliation.payIns) },
+                  { label: "Cash drops", value: `-${formatPrice(reconciliation.drops)}` },
+                  { label: "Payouts", value: `-${formatPrice(reconciliation.payouts)}` },
+                ].map((row) => (
+                  <div key={row.label} className="flex justify-between">
+                    <span className="text-gray-600">{row.label}</span>
+                    <span>{row.value}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-semibold border-t border-gray-200 pt-1">
+                  <span>Expected cash</span>
+                  <span>{formatPrice(reconciliation.expectedCash)}</span>
+                </div>
+                {reconciliation.variance !== undefined && (
+                  <div className="flex justify-between items-center font-semibold">
+                    <span>Variance</span>
+                    <span className="inline-flex items-center space-x-2">
+                      <span>{formatPrice(reconciliation.variance)}</span>
+                      <VarianceBadge variance={reconciliation.variance} />
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-gray-500 uppercase">
+                  Notes{isOffBalance ? " (required when over or short)" : ""}
+                </p>
+                <Textarea
+                  value={closingNotes}
+                  onChange={(e) => setClosingNotes(e.target.value)}
+                  placeholder={isOffBalance ? "Explain the difference" : "Optional"}
+                  rows={2}
+                  data-testid="input-closing-notes"
+                />
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setShowCloseDialog(false)} data-testid="button-cancel-close-shift">
+                  Cancel
+                </Button>
+                <Button
+                  className="bg-gray-900 hover:bg-gray-800 text-white"
+                  onClick={() => closeShiftMutation.mutate()}
+                  disabled={!canClose || isFetchingOrders || closeShiftMutation.isPending}
+                  data-testid="button-confirm-close-shift"
+                >
+                  <Lock className="w-4 h-4 mr-2" />
+                  {closeShiftMutation.isPending ? "Closing..." : "Close Shift"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Minus, Plus, Printer, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { ordersApi } from "@/lib/apiRepository";
+import { formatCurrency } from "@/lib/currencyUtils";
+import { DetailedOrder, SplitBill } from "@/types/schema";
+import {
+  MAX_SPLIT_COUNT,
+  MIN_SPLIT_COUNT,
+  SPLIT_MODE_LABELS,
+  SPLIT_TYPE_BY_MODE,
+  SplitBillInput,
+  SplitMode,
+  allocateItemSplits,
+  describeItemSplit,
+  getSplitMode,
+  getSplittableItems,
+  printSplitBillReceipt,
+  splitEvenly,
+  validateSplitBills,
+} from "@/utils/splitBills";
+
+interface SplitBillEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: DetailedOrder | null;
+  onSaved?: (splitBills: SplitBill[]) => void;
+}
+
+const resize = <T,>(values: T[], count: number, fill: T): T[] =>
+  Array.from({ length: count }, (_, index) => values[index] ?? fill);
+
+export function SplitBillEditor({ open, onOpenChange, order, onSaved }: SplitBillEditorProps) {
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<SplitMode>("even");
+  const [count, setCount] = useState(MIN_SPLIT_COUNT);
+  const [customAmounts, setCustomAmounts] = useState<string[]>([]);
+  const [mobileNumbers, setMobileNumbers] = useState<string[]>([]);
+  const [assignments, setAssignments] = useState<Record<string, number>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const items = useMemo(() => (order ? getSplittableItems(order) : []), [order]);
+
+  // Start from the order's saved splits each time the editor opens
+  useEffect(() => {
+    if (!open || !order) return;
+    const saved = order.splitBills || [];
+
+    if (saved.length >= MIN_SPLIT_COUNT) {
+      const savedMode = getSplitMode(saved[0].splitType);
+      setMode(savedMode);
+      setCount(saved.length);
+      setCustomAmounts(saved.map((split) => split.price.toFixed(2)));
+      setMobileNumbers(saved.map((split) => split.mobileNumber || ""));
+      // Item splits are saved as labels, so match the items back by name
+      setAssignments(
+        Object.fromEntries(
+          items.map((item) => {
+            const index = saved.findIndex((split) => (split.itemName || "").includes(item.name));
+            return [item.key, Math.max(index, 0)];
+          }),
+        ),
+      );
+    } else {
+      setMode("even");
+      setCount(MIN_SPLIT_COUNT);
+      setCustomAmounts([]);
+      setMobileNumbers([]);
+      setAssignments(Object.fromEntries(items.map((item) => [item.key, 0])));
+    }
+  }, [open, order, items]);
+
+  const total = order?.totalAmount || 0;
+  const currency = order?.currency || "USD";
+  const formatPrice = (amount: number) => formatCurrency(amount, currency);
+
+  const amounts = useMemo(() => {
+    if (!order) return [];
+    switch (mode) {
+      case "even":
+        return splitEvenly(total, count);
+      case "item":
+        return allocateItemSplits(order, assignments, count);
+      case "custom":
+        return resize(customAmounts, count, "").map((value) => Number(value) || 0);
+    }
+  }, [order, mode, count, assignments, customAmounts, total]);
+
+  const splits: SplitBillInput[] = amounts.map((price, index) => ({
+    splitType: SPLIT_TYPE_BY_MODE[mode],
+    price,
+    mobileNumber: (mobileNumbers[index] || "").trim(),
+    itemName: order && mode === "item" ? describeItemSplit(order, assignments, index) : `Share ${index + 1} of ${count}`,
+  }));
+
+  const validationError =
+    validateSplitBills(amounts, total) ||
+    (mode === "item" && splits.some((split) => !split.itemName) ? "Every split needs at least one item" : null);
+  const allocated = amounts.reduce((sum, amount) => sum + amount, 0);
+
+  const changeCount = (next: number) => {
+    const bounded = Math.min(MAX_SPLIT_COUNT, Math.max(MIN_SPLIT_COUNT, next));
+    setCount(bounded);
+    // Items on a removed split move to the first one
+    setAssignments((current) =>
+      Object.fromEntries(Object.entries(current).map(([key, index]) => [key, index < bounded ? index : 0])),
+    );
+  };
+
+  const changeMode = (next: SplitMode) => {
+    // Custom amounts start from the current split so staff only adjust the difference
+    if (next === "custom") {
+      setCustomAmounts(amounts.map((amount) => amount.toFixed(2)));
+    }
+    setMode(next);
+  };
+
+  const saveSplits = async (splitBills: SplitBillInput[]) => {
+    if (!order) return;
+    setIsSaving(true);
+    try {
+      const saved = await ordersApi.updateSplitBills(order.id, splitBills);
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/branch/${order.branchId}`] });
+      toast({
+        title: splitBills.length > 0 ? "Split Bill Saved" : "Split Bill Removed",
+        description:
+          splitBills.length > 0
+            ? `Order ${order.orderNumber} is split into ${splitBills.length} bills.`
+            : `Order ${order.orderNumber} is no longer split.`,
+      });
+      onSaved?.(saved);
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error("[Split Bill] ❌ Save failed:", error);
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to save split bill",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePrint = async (index: number) => {
+    if (!order) return;
+    const result = await printSplitBillReceipt(order, splits[index], index, count);
+    if (!result.success) {
+      toast({
+        title: "Print Failed",
+        description: result.error || "Failed to print split receipt",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!order) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="split-bill-editor">
+        <DialogHeader>
+          <DialogTitle>Split Bill - Order #{order.orderNumber}</DialogTitle>
+          <DialogDescription>
+            Order total {formatPrice(total)}. Splits must add up to the total before they can be saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <Tabs value={mode} onValueChange={(value) => changeMode(value as SplitMode)}>
+            <TabsList data-testid="split-mode-tabs">
+              {(Object.keys(SPLIT_MODE_LABELS) as SplitMode[]).map((splitMode) => (
+                <TabsTrigger key={splitMode} value={splitMode} data-testid={`split-mode-${splitMode}`}>
+                  {SPLIT_MODE_LABELS[splitMode]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600">Splits</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => changeCount(count - 1)}
+              disabled={count <= MIN_SPLIT_COUNT}
+              data-testid="button-split-count-decrease"
+            >
+              <Minus className="w-3 h-3" />
+            </Button>
+            <span className="w-6 text-center font-medium" data-testid="text-split-count">
+              {count}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => changeCount(count + 1)}
+              disabled={count >= MAX_SPLIT_COUNT}
+              data-testid="button-split-count-increase"
+            >
+              <Plus className="w-3 h-3" />
+            </Button>
+          </div>
+        </div>
+
+        {mode === "item" && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-gray-500 uppercase">Assign Items</p>
+            {items.length === 0 ? (
+              <p className="text-sm text-gray-400">This order has no items to assign.</p>
+            ) : (
+              <div className="space-y-2">
+                {items.map((item) => (
+                  <div key={item.key} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-gray-700 flex-1">
+                      {item.quantity}x {item.name}
+                    </span>
+                    <span className="text-gray-500">{formatPrice(item.amount)}</span>
+                    <Select
+                      value={String(assignments[item.key] ?? 0)}
+                      onValueChange={(value) =>
+                        setAssignments((current) => ({ ...current, [item.key]: Number(value) }))
+                      }
+                    >
+                      <SelectTrigger className="w-28" data-testid={`select-split-item-${item.key}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: count }, (_, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            Split {index + 1}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-gray-500">
+              Tax, charges, tips and discounts are shared in proportion to each split's items.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-gray-500 uppercase">Bills</p>
+          {splits.map((split, index) => (
+            <div
+              key={index}
+              className="grid grid-cols-12 items-center gap-2 rounded-md border border-gray-200 p-2"
+              data-testid={`split-row-${index}`}
+            >
+              <div className="col-span-4 text-sm">
+                <p className="font-medium text-gray-900">Split {index + 1}</p>
+                {mode === "item" && (
+                  <p className="text-xs text-gray-500 truncate" title={split.itemName}>
+                    {split.itemName || "No items"}
+                  </p>
+                )}
+              </div>
+              <div className="col-span-3">
+                {mode === "custom" ? (
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={customAmounts[index] ?? ""}
+                    onChange={(e) =>
+                      setCustomAmounts((current) => {
+                        const next = resize(current, count, "");
+                        next[index] = e.target.value;
+                        return next;
+                      })
+                    }
+                    data-testid={`input-split-amount-${index}`}
+                  />
+                ) : (
+                  <span className="text-sm font-semibold" data-testid={`text-split-amount-${index}`}>
+                    {formatPrice(split.price)}
+                  </span>
+                )}
+              </div>
+              <div className="col-span-4">
+                <Input
+                  placeholder="Mobile (optional)"
+                  value={mobileNumbers[index] ?? ""}
+                  onChange={(e) =>
+                    setMobileNumbers((current) => {
+                      const next = resize(current, count, "");
+                      next[index] = e.target.value;
+                      return next;
+                    })
+                  }
+                  data-testid={`input-split-mobile-${index}`}
+                />
+              </div>
+              <div className="col-span-1 flex justify-end">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handlePrint(index)}
+                  disabled={!!validationError}
+                  title="Print this split"
+                  data-testid={`button-print-split-${index}`}
+                >
+                  <Printer className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between text-sm border-t border-gray-100 pt-3">
+          <span className="text-gray-600">Allocated</span>
+          <span
+            className={`font-semibold ${validationError ? "text-red-600" : "text-green-600"}`}
+            data-testid="text-split-allocated"
+          >
+            {formatPrice(allocated)} / {formatPrice(total)}
+          </span>
+        </div>
+        {validationError && (
+          <p className="text-sm text-red-600" data-testid="text-split-error">
+            {validationError}
+          </p>
+        )}
+
+        <div className="flex justify-between gap-2">
+          {(order.splitBills || []).length > 0 ? (
+            <Button
+              variant="outline"
+              className="text-red-600 border-red-200 hover:bg-red-50"
+              onClick={() => saveSplits([])}
+              disabled={isSaving}
+              data-testid="button-remove-split"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Remove Split
+            </Button>
+          ) : (
+            <span />
+          )}
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-split">
+              Cancel
+            </Button>
+            <Button
+              className="bg-green-500 hover:bg-green-600 text-white"
+              onClick={() => saveSplits(splits)}
+              disabled={!!validationError || isSaving}
+              data-testid="button-save-split"
+            >
+              {isSaving ? "Saving..." : "Save Split"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -95,6 +95,9 @@ export default function StockUpdateModal({
       queryClient.invalidateQueries({
         queryKey: ["inventory-low-stock", branchId],
       });
+      queryClient.invalidateQueries({
+        queryKey: ["inventory-stock-movements", branchId],
+      });
       onSuccess();
       onClose();
       form.reset();
@@ -85,6 +85,7 @@ export default function StockWastageModal({
       queryClient.invalidateQueries({ queryKey: ["inventory-wastage", branchId] });
       queryClient.invalidateQueries({ queryKey: ["inventory-stock", branchId] });
       queryClient.invalidateQueries({ queryKey: ["inventory-low-stock", branchId] });
+      queryClient.invalidateQueries({ queryKey: ["inventory-stock-movements", branchId] });
       onSuccess();
       onClose();
       form.reset();
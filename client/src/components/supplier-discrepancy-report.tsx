@@ -0,0 +1,232 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays, addDays } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ExportMenu } from "@/components/export-menu";
+import { inventoryApi } from "@/lib/apiRepository";
+import { formatCurrency } from "@/lib/currencyUtils";
+import { ExportColumn, ExportContext, fetchAllPages } from "@/utils/tableExport";
+import { SupplierDiscrepancy, buildDiscrepancyReport } from "@/utils/purchaseOrderReceiving";
+
+interface SupplierDiscrepancyReportProps {
+  branchId: number;
+  currency?: string;
+  exportContext?: ExportContext;
+}
+
+const DISCREPANCY_EXPORT_COLUMNS: ExportColumn<SupplierDiscrepancy>[] = [
+  { header: "Received At", type: "datetime", value: (line) => line.receivedAt },
+  { header: "Supplier", value: (line) => line.supplierName },
+  { header: "Order ID", value: (line) => line.purchaseOrderId },
+  { header: "Item Name", value: (line) => line.itemName },
+  { header: "Unit", value: (line) => line.unit },
+  { header: "Expected", type: "number", value: (line) => line.expectedQuantity },
+  { header: "Received", type: "number", value: (line) => line.receivedQuantity },
+  { header: "Short", type: "number", value: (line) => line.shortQuantity },
+  { header: "Short Value", type: "currency", value: (line) => line.shortValue },
+  { header: "Ordered Price", type: "currency", value: (line) => line.orderedUnitPrice },
+  { header: "Invoice Price", type: "currency", value: (line) => line.actualUnitPrice },
+  { header: "Price Variance", type: "currency", value: (line) => line.priceVarianceValue },
+  { header: "Notes", value: (line) => line.notes },
+];
+
+export default function SupplierDiscrepancyReport({
+  branchId,
+  currency = "USD",
+  exportContext,
+}: SupplierDiscrepancyReportProps) {
+  const [fromDate, setFromDate] = useState(() => format(subDays(new Date(), 30), "yyyy-MM-dd"));
+  const [toDate, setToDate] = useState(() => format(addDays(new Date(), 1), "yyyy-MM-dd"));
+  const [supplierId, setSupplierId] = useState<number | null>(null);
+
+  const { data: receipts = [], isLoading, error } = useQuery({
+    queryKey: ["purchase-order-receipts", branchId, fromDate, toDate],
+    queryFn: () =>
+      fetchAllPages((pageNumber, pageSize) =>
+        inventoryApi.getPurchaseOrderReceiptsByBranch(branchId, fromDate, toDate, {
+          PageNumber: pageNumber,
+          PageSize: pageSize,
+          SortBy: "receivedAt",
+          IsAscending: false,
+        }),
+      ),
+    enabled: !!branchId && !!fromDate && !!toDate,
+  });
+
+  const report = useMemo(() => buildDiscrepancyReport(receipts), [receipts]);
+  const discrepancies = supplierId === null
+    ? report.discrepancies
+    : report.discrepancies.filter((line) => line.supplierId === supplierId);
+  const formatPrice = (value: number) => formatCurrency(value, currency);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center gap-4">
+        <div className="flex gap-4 items-center">
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium">From:</label>
+            <Input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-40"
+              data-testid="input-discrepancy-from-date"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium">To:</label>
+            <Input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-40"
+              data-testid="input-discrepancy-to-date"
+            />
+          </div>
+        </div>
+        <ExportMenu
+          fileName="supplier-discrepancies"
+          sheetName="Discrepancies"
+          columns={DISCREPANCY_EXPORT_COLUMNS}
+          rows={discrepancies}
+          context={exportContext}
+          disabled={discrepancies.length === 0}
+          data-testid="button-export-discrepancies"
+        />
+      </div>
+
+      <div className="bg-white rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Supplier</TableHead>
+              <TableHead className="text-right">Deliveries</TableHead>
+              <TableHead className="text-right">Fill Rate</TableHead>
+              <TableHead className="text-right">Short Lines</TableHead>
+              <TableHead className="text-right">Short Value</TableHead>
+              <TableHead className="text-right">Price Changes</TableHead>
+              <TableHead className="text-right">Price Variance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 3 }, (_, i) => (
+                <TableRow key={`loading-${i}`}>
+                  {Array.from({ length: 7 }, (_, j) => (
+                    <TableCell key={j}>
+                      <div className="h-4 bg-gray-200 rounded animate-pulse"></div>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-red-600">
+                  Failed to load deliveries
+                </TableCell>
+              </TableRow>
+            ) : report.suppliers.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                  No deliveries received in this period
+                </TableCell>
+              </TableRow>
+            ) : (
+              report.suppliers.map((supplier) => (
+                <TableRow
+                  key={supplier.supplierId}
+                  className={`cursor-pointer hover:bg-gray-50 ${supplierId === supplier.supplierId ? "bg-green-50" : ""}`}
+                  onClick={() => setSupplierId(supplierId === supplier.supplierId ? null : supplier.supplierId)}
+                  data-testid={`discrepancy-supplier-${supplier.supplierId}`}
+                >
+                  <TableCell className="font-medium">{supplier.supplierName}</TableCell>
+                  <TableCell className="text-right">{supplier.deliveries}</TableCell>
+                  <TableCell className={`text-right ${supplier.fillRate < 95 ? "text-red-600 font-medium" : ""}`}>
+                    {supplier.fillRate}%
+                  </TableCell>
+                  <TableCell className="text-right">{supplier.shortShipments}</TableCell>
+                  <TableCell className="text-right">{formatPrice(supplier.shortValue)}</TableCell>
+                  <TableCell className="text-right">{supplier.priceChanges}</TableCell>
+                  <TableCell
+                    className={`text-right ${supplier.priceVarianceValue > 0 ? "text-red-600" : supplier.priceVarianceValue < 0 ? "text-green-600" : ""}`}
+                  >
+                    {formatPrice(supplier.priceVarianceValue)}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Short lines are order lines still missing quantity after their last delivery in this period; the rest is back-ordered or was written off.
+        Price variance is what was invoiced over the ordered price. Click a supplier to filter the deliveries below.
+      </p>
+
+      <div className="bg-white rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Received</TableHead>
+              <TableHead>Supplier</TableHead>
+              <TableHead>Item Name</TableHead>
+              <TableHead className="text-right">Expected</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead className="text-right">Ordered Price</TableHead>
+              <TableHead className="text-right">Invoice Price</TableHead>
+              <TableHead>Notes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!isLoading && discrepancies.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center py-8 text-gray-500">
+                  No short-shipments or price changes
+                </TableCell>
+              </TableRow>
+            ) : (
+              discrepancies.map((line) => (
+                <TableRow key={line.id} data-testid={`discrepancy-row-${line.id}`}>
+                  <TableCell>{new Date(line.receivedAt).toLocaleString()}</TableCell>
+                  <TableCell>
+                    {line.supplierName}
+                    <span className="text-xs text-gray-500 ml-1">PO #{line.purchaseOrderId}</span>
+                  </TableCell>
+                  <TableCell className="font-medium">{line.itemName}</TableCell>
+                  <TableCell className="text-right">
+                    {line.expectedQuantity} {line.unit}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {line.receivedQuantity}
+                    {line.shortQuantity > 0 && (
+                      <Badge variant="destructive" className="ml-2">
+                        -{line.shortQuantity}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatPrice(line.orderedUnitPrice)}</TableCell>
+                  <TableCell
+                    className={`text-right ${line.priceDifference > 0 ? "text-red-600 font-medium" : line.priceDifference < 0 ? "text-green-600" : ""}`}
+                  >
+                    {formatPrice(line.actualUnitPrice)}
+                  </TableCell>
+                  <TableCell className="text-gray-600 max-w-xs truncate">{line.notes || "-"}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { ordersApi } from "@/lib/apiRepository";
+import { DetailedOrder } from "@/types/schema";
+import { OrderStatusType, getOrderStatusName } from "@/utils/kitchenDisplay";
+import { depleteInventoryForStatus } from "@/utils/inventoryDepletion";
+import {
+  CANCELLATION_REASONS,
+  ORDER_STATE_LABELS,
+  buildStatusComment,
+  getAllowedTransitions,
+  getOrderLifecycleState,
+  requiresReason,
+} from "@/utils/orderLifecycle";
+
+interface UpdateOrderStatusDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: DetailedOrder | null;
+  statusTypes: OrderStatusType[];
+  isLoadingStatusTypes?: boolean;
+  statusTypesError?: unknown;
+  // Default comment when the user adds no note, e.g. "Status updated via chef dashboard"
+  source: string;
+  onUpdated?: (order: DetailedOrder) => void;
+}
+
+export function UpdateOrderStatusDialog({
+  open,
+  onOpenChange,
+  order,
+  statusTypes,
+  isLoadingStatusTypes,
+  statusTypesError,
+  source,
+  onUpdated,
+}: UpdateOrderStatusDialogProps) {
+  const [selectedStatusId, setSelectedStatusId] = useState<number | null>(null);
+  const [reasonCode, setReasonCode] = useState<string>("");
+  const [note, setNote] = useState("");
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  // Start clean for every order
+  useEffect(() => {
+    setSelectedStatusId(null);
+    setReasonCode("");
+    setNote("");
+  }, [order?.id, open]);
+
+  const transitions = useMemo(
+    () => (order ? getAllowedTransitions(order, statusTypes) : []),
+    [order, statusTypes],
+  );
+
+  if (!order) return null;
+
+  const currentState = getOrderLifecycleState(order, statusTypes);
+  const selected = transitions.find(transition => transition.statusType.id === selectedStatusId);
+  const needsReason = !!selected && requiresReason(selected.state);
+  const canSubmit = !!selected && (!needsReason || !!reasonCode) && !isUpdating;
+
+  const handleSubmit = async () => {
+    if (!selected || !canSubmit) return;
+
+    setIsUpdating(true);
+    try {
+      await ordersApi.updateOrderStatus(
+        order.id,
+        selected.statusType.id,
+        buildStatusComment(selected.state, { reasonCode, note, source }),
+      );
+
+      const depletion = await depleteInventoryForStatus(order, selected.statusType.name);
+      if (depletion.status === "failed") {
+        toast({
+          title: "Stock Not Updated",
+          description: depletion.error,
+          variant: "destructive",
+        });
+      }
+
+      onUpdated?.(order);
+      onOpenChange(false);
+
+      toast({
+        title: needsReason ? "Order Cancelled" : "Status Updated",
+        description: `Order ${order.orderNumber} is now ${selected.statusType.name}.`,
+      });
+    } catch (error) {
+      console.error("Failed to update order status:", error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to update order status. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]" data-testid="update-order-status-modal">
+        <DialogHeader>
+          <DialogTitle data-testid="modal-title">Update Order Status</DialogTitle>
+          <DialogDescription data-testid="modal-description">
+            Update the status for order {order.orderNumber}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-500">Current Status</span>
+            <Badge variant="outline" data-testid="current-status">
+              {getOrderStatusName(order, statusTypes) || ORDER_STATE_LABELS[currentState]}
+            </Badge>
+          </div>
+
+          {isLoadingStatusTypes ? (
+            <div className="h-10 bg-gray-100 rounded animate-pulse"></div>
+          ) : statusTypesError ? (
+            <div className="text-red-600 text-sm" data-testid="status-error">
+              Error loading status options
+            </div>
+          ) : transitions.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-transitions">
+              {ORDER_STATE_LABELS[currentState]} orders can't be changed.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2" data-testid="status-actions">
+                {transitions.map(({ statusType, state }) => (
+                  <Button
+                    key={statusType.id}
+                    size="sm"
+                    variant={selectedStatusId === statusType.id ? (state === "cancelled" ? "destructive" : "default") : "outline"}
+                    onClick={() => setSelectedStatusId(statusType.id)}
+                    data-testid={`button-status-action-${statusType.id}`}
+                  >
+                    {state === "cancelled" ? "Cancel Order" : `Mark ${statusType.name}`}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Next Status</label>
+                <Select
+                  value={selectedStatusId?.toString() || ""}
+                  onValueChange={(value) => setSelectedStatusId(Number(value))}
+                >
+                  <SelectTrigger data-testid="status-select">
+                    <SelectValue placeholder="Select a status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {transitions.map(({ statusType }) => (
+                      <SelectItem key={statusType.id} value={statusType.id.toString()}>
+                        {statusType.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {needsReason && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">
+                    Cancellation Reason <span className="text-red-500">*</span>
+                  </label>
+                  <Select value={reasonCode} onValueChange={setReasonCode}>
+                    <SelectTrigger data-testid="select-cancel-reason">
+                      <SelectValue placeholder="Select a reason" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CANCELLATION_REASONS.map(reason => (
+                        <SelectItem key={reason.code} value={reason.code}>
+                          {reason.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">
+                  Note {needsReason && reasonCode === "OTHER" ? <span className="text-red-500">*</span> : "(optional)"}
+                </label>
+                <Textarea
+                  rows={2}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder={needsReason ? "Details for the cancellation" : "Add a comment for the status history"}
+                  data-testid="textarea-status-note"
+                />
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center space-x-2 pt-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => onOpenChange(false)}
+              data-testid="button-cancel-status"
+            >
+              Close
+            </Button>
+            <Button
+              className={`flex-1 ${needsReason ? "bg-red-500 hover:bg-red-600" : "bg-green-500 hover:bg-green-600"}`}
+              disabled={!canSubmit || (needsReason && reasonCode === "OTHER" && !note.trim())}
+              onClick={handleSubmit}
+              data-testid="button-update-status"
+            >
+              {isUpdating ? "Updating..." : needsReason ? "Cancel Order" : "Update Status"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,19 @@
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Printer } from "lucide-react";
+import { Printer, RotateCcw, Split } from "lucide-react";
 import { useBranchCurrency } from "@/hooks/useBranchCurrency";
 import { formatCurrency } from "@/lib/currencyUtils";
 import { DetailedOrder } from "@/types/schema";
+import { toast } from "@/hooks/use-toast";
+import { bluetoothPrinterService } from "@/services/bluetoothPrinterService";
+import { printOrderReceipt } from "@/utils/printOrderReceipt";
+import { printBrowserReceipt } from "@/utils/printBrowserReceipt";
+import { printSplitBillReceipt } from "@/utils/splitBills";
+import { canRefundOrder, getRefundedTotal, printOrderRefundSlip } from "@/utils/orderRefunds";
+import { OrderStatusTimeline } from "@/components/order-status-timeline";
+import { OrderInventoryUsage } from "@/components/order-inventory-usage";
+import { OrderStatusType } from "@/utils/kitchenDisplay";
 
 interface ViewOrderReceiptModalProps {
   open: boolean;
@@ -16,6 +25,9 @@ interface ViewOrderReceiptModalProps {
   getPaymentStatus: (order: DetailedOrder) => string;
   formatOrderDate: (date: string) => string;
   formatOrderTime: (date: string) => string;
+  onSplitBill?: (order: DetailedOrder) => void;
+  onRefund?: (order: DetailedOrder) => void;
+  statusTypes?: OrderStatusType[];
 }
 
 export function ViewOrderReceiptModal({
@@ -28,8 +40,11 @@ export function ViewOrderReceiptModal({
   getPaymentStatus,
   formatOrderDate,
   formatOrderTime,
+  onSplitBill,
+  onRefund,
+  statusTypes = [],
 }: ViewOrderReceiptModalProps) {
-  const { formatPrice: formatBranchPrice } = useBranchCurrency();
+  const { formatPrice: formatBranchPrice, branchData } = useBranchCurrency(order?.branchId);
 
   if (!order) return null;
 
@@ -37,6 +52,48 @@ export function ViewOrderReceiptModal({
   const currency = order.currency || 'USD';
   const formatPrice = (amount: number) => formatCurrency(amount, currency);
 
+  // Prefer the connected Bluetooth printer, otherwise use the browser print dialog
+  const handlePrint = async () => {
+    const result = bluetoothPrinterService.getConnectionStatus()
+      ? await printOrderReceipt(order)
+      : await printBrowserReceipt(order);
+
+    if (!result.success) {
+      toast({
+        title: "Print Failed",
+        description: result.error || "Failed to print receipt",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const splitBills = order.splitBills || [];
+
+  const handlePrintSplit = async (index: number) => {
+    const result = await printSplitBillReceipt(order, splitBills[index], index, splitBills.length);
+    if (!result.success) {
+      toast({
+        title: "Print Failed",
+        description: result.error || "Failed to print split receipt",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const refunds = order.refunds || [];
+  const refundedTotal = getRefundedTotal(order);
+
+  const handlePrintRefund = async (index: number) => {
+    const result = await printOrderRefundSlip(order, refunds[index]);
+    if (!result.success) {
+      toast({
+        title: "Print Failed",
+        description: result.error || "Failed to print refund slip",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto p-0" data-testid="view-order-modal">
@@ -311,6 +368,90 @@ export function ViewOrderReceiptModal({
             </div>
           </div>
 
+          {/* Split Bill */}
+          {splitBills.length > 0 && (
+            <div className="border-t border-gray-300 pt-3 mt-4" data-testid="view-order-split-bills">
+              <p className="text-xs font-semibold text-gray-700 mb-2">
+                Split Bill ({splitBills[0].splitType}):
+              </p>
+              <div className="space-y-1">
+                {splitBills.map((split, index) => (
+                  <div key={split.id ?? index} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600 truncate mr-2">
+                      {index + 1}. {[split.itemName, split.mobileNumber].filter(Boolean).join(" - ") || "Share"}
+                    </span>
+                    <span className="flex items-center">
+                      <span className="text-gray-900 font-medium">{formatPrice(split.price)}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="ml-1 h-7 px-2"
+                        onClick={() => handlePrintSplit(index)}
+                        data-testid={`button-print-split-${index}`}
+                      >
+                        <Printer className="w-3 h-3" />
+                      </Button>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Refunds */}
+          {refunds.length > 0 && (
+            <div className="border-t border-gray-300 pt-3 mt-4" data-testid="view-order-refunds">
+              <p className="text-xs font-semibold text-gray-700 mb-2">Refunds:</p>
+              <div className="space-y-2">
+                {refunds.map((refund, index) => (
+                  <div key={refund.id ?? index} className="text-sm" data-testid={`view-order-refund-${index}`}>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-600 truncate mr-2">
+                        {formatOrderDate(refund.createdAt)} {formatOrderTime(refund.createdAt)}
+                      </span>
+                      <span className="flex items-center">
+                        <span className="text-red-600 font-medium">-{formatPrice(refund.totalAmount)}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="ml-1 h-7 px-2"
+                          onClick={() => handlePrintRefund(index)}
+                          data-testid={`button-print-refund-${index}`}
+                        >
+                          <Printer className="w-3 h-3" />
+                        </Button>
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {refund.lines.length > 0
+                        ? refund.lines.map((line) => `${line.quantity}x ${line.name}`).join(", ")
+                        : "Amount refund"}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {refund.reason} · approved by {refund.approvedBy}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-sm font-semibold mt-2">
+                <span className="text-gray-900">NET AFTER REFUNDS</span>
+                <span className="text-gray-900" data-testid="view-order-net-total">
+                  {formatPrice(order.totalAmount - refundedTotal)}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {/* Status Timeline */}
+          <div className="border-t border-gray-300 pt-3 mt-4">
+            <OrderStatusTimeline order={order} timeZone={branchData?.timeZone} statusTypes={statusTypes} />
+          </div>
+
+          {/* Recipe-based stock usage */}
+          <div className="border-t border-gray-300 pt-3 mt-4">
+            <OrderInventoryUsage order={order} />
+          </div>
+
           {/* Receipt Footer */}
           <div className="text-center mt-6 pt-4 border-t-2 border-dashed border-gray-300">
             <p className="text-xs text-gray-500">Thank you for your order!</p>
@@ -322,44 +463,32 @@ export function ViewOrderReceiptModal({
         {/* END View Order Receipt */}
 
         {/* Print Button - Outside receipt content */}
-        <div className="p-4 border-t border-gray-200 bg-gray-50">
+        <div className="p-4 border-t border-gray-200 bg-gray-50 flex gap-2">
+          {onSplitBill && (
+            <Button
+              variant="outline"
+              onClick={() => onSplitBill(order)}
+              className="flex-1"
+              data-testid="button-split-bill"
+            >
+              <Split className="w-4 h-4 mr-2" />
+              {splitBills.length > 0 ? "Edit Split" : "Split Bill"}
+            </Button>
+          )}
+          {onRefund && canRefundOrder(order, statusTypes) && (
+            <Button
+              variant="outline"
+              onClick={() => onRefund(order)}
+              className="flex-1 text-red-600 border-red-200 hover:bg-red-50"
+              data-testid="button-refund-order"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Refund
+            </Button>
+          )}
           <Button 
-            onClick={() => {
-              const printContent = document.getElementById('receipt-content');
-              const printWindow = window.open('', '_blank');
-              if (printContent && printWindow) {
-                printWindow.document.write(`
-                  <html>
-                    <head>
-                      <title>Order Receipt - ${order.orderNumber}</title>
-                      <style>
-                        body { 
-                          font-family: monospace; 
-                          margin: 20px; 
-                          color: #000;
-                          background: white;
-                        }
-                        .receipt-content { 
-                          max-width: 350px; 
-                          margin: 0 auto;
-                          background: white;
-                        }
-                        @media print {
-                          body { margin: 0; }
-                          .receipt-content { max-width: none; }
-                        }
-                      </style>
-                    </head>
-                    <body>
-                      ${printContent.outerHTML}
-                    </body>
-                  </html>
-                `);
-                printWindow.document.close();
-                printWindow.print();
-              }
-            }}
-            className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+            onClick={handlePrint}
+            className="flex-1 bg-blue-600 hover:bg-blue-700 text-white"
             data-testid="button-print-receipt"
           >
             <Printer className="w-4 h-4 mr-2" />
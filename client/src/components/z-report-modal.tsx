@@ -0,0 +1,391 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, FileText, Lock, Printer, RefreshCw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/hooks/use-toast";
+import { ordersApi } from "@/lib/apiRepository";
+import { formatCurrency } from "@/lib/currencyUtils";
+import { bluetoothPrinterService } from "@/services/bluetoothPrinterService";
+import { printBrowserDocument } from "@/utils/printBrowserReceipt";
+import { formatExportDateTime } from "@/utils/tableExport";
+import {
+  ZReportBreakdown,
+  buildZReport,
+  buildZReportHtml,
+  closeZReportShift,
+  fetchZReportOrders,
+  fetchZReportRefunds,
+  getBranchToday,
+  getZReportCloseout,
+  getZReportTitle,
+} from "@/utils/zReport";
+
+interface ZReportModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  branchId: number;
+  branchName?: string;
+  currency?: string;
+  timeZone?: string;
+}
+
+function BreakdownTable({ title, entries, formatPrice }: {
+  title: string;
+  entries: ZReportBreakdown[];
+  formatPrice: (amount: number) => string;
+}) {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-gray-500 uppercase">{title}</p>
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-400">None</p>
+      ) : (
+        <div className="space-y-1">
+          {entries.map((entry) => (
+            <div key={entry.label} className="flex justify-between text-sm">
+              <span className="text-gray-700">
+                {entry.label} <span className="text-gray-400">({entry.count})</span>
+              </span>
+              <span className="font-medium">{formatPrice(entry.total)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ZReportModal({
+  open,
+  onOpenChange,
+  branchId,
+  branchName,
+  currency,
+  timeZone = "UTC",
+}: ZReportModalProps) {
+  const queryClient = useQueryClient();
+  const [businessDate, setBusinessDate] = useState(() => getBranchToday(timeZone));
+  const [isConfirmingClose, setIsConfirmingClose] = useState(false);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  // Open on today's branch day each time
+  useEffect(() => {
+    if (open) setBusinessDate(getBranchToday(timeZone));
+  }, [open, timeZone]);
+
+  useEffect(() => {
+    setIsConfirmingClose(false);
+  }, [branchId, businessDate, open]);
+
+  // Close-outs are shared by every till of the branch
+  const closeoutQueryKey = ["/api/ZReports/branch", branchId, businessDate];
+  const {
+    data: closeout,
+    isFetching: isFetchingCloseout,
+    error: closeoutError,
+  } = useQuery({
+    queryKey: closeoutQueryKey,
+    queryFn: () => getZReportCloseout(branchId, businessDate),
+    enabled: open && !!businessDate,
+  });
+
+  const {
+    data: orders = [],
+    isFetching,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: [`/api/orders/branch/${branchId}`, "z-report", businessDate, timeZone],
+    queryFn: async () => {
+      setProgress("0");
+      try {
+        return await fetchZReportOrders(branchId, businessDate, timeZone, (fetched, total) =>
+          setProgress(total ? `${fetched}/${total}` : `${fetched}`),
+        );
+      } finally {
+        setProgress(null);
+      }
+    },
+    enabled: open && !!businessDate,
+    staleTime: 60 * 1000,
+  });
+
+  // Refunds count on the day they were issued, including those on earlier days' orders
+  const {
+    data: refunds = [],
+    isFetching: isFetchingRefunds,
+    error: refundsError,
+    refetch: refetchRefunds,
+  } = useQuery({
+    queryKey: ["/api/Order/refunds/ByBranch", branchId, businessDate, timeZone],
+    queryFn: () => fetchZReportRefunds(branchId, businessDate, timeZone),
+    enabled: open && !!businessDate,
+    staleTime: 60 * 1000,
+  });
+
+  // Some orders carry their status as a status type id
+  const { data: orderStatusTypes = [] } = useQuery({
+    queryKey: ["order-status-types"],
+    queryFn: async (): Promise<Array<{ id: number; name: string }>> => {
+      return await ordersApi.getOrderStatusTypes();
+    },
+    enabled: open,
+    staleTime: 30 * 60 * 1000,
+  });
+
+  const report = useMemo(
+    () =>
+      buildZReport(orders, { businessDate, timeZone, branchName, currency, statusTypes: orderStatusTypes, refunds }),
+    [orders, businessDate, timeZone, branchName, currency, orderStatusTypes, refunds],
+  );
+
+  const formatPrice = (amount: number) => formatCurrency(amount, report.currency);
+
+  const handlePrint = async () => {
+    setIsPrinting(true);
+    const result = await bluetoothPrinterService.printEndOfDayReport(report, closeout);
+    setIsPrinting(false);
+
+    if (result.success) {
+      toast({
+        title: "Report Printed",
+        description: `${getZReportTitle(closeout)} for ${businessDate} has been printed.`,
+      });
+    } else {
+      toast({
+        title: "Print Failed",
+        description: result.error || "Failed to print end-of-day report",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportPdf = async () => {
+    const result = await printBrowserDocument(buildZReportHtml(report, closeout), "End-of-day report");
+    if (!result.success) {
+      toast({
+        title: "Export Failed",
+        description: result.error || "Failed to open print dialog",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const closeShiftMutation = useMutation({
+    mutationFn: () => closeZReportShift(branchId, report),
+    onSuccess: (closed) => {
+      queryClient.setQueryData(closeoutQueryKey, closed);
+      setIsConfirmingClose(false);
+      toast({
+        title: "Shift Closed",
+        description: `Z-report #${closed.zNumber} recorded for ${businessDate}.`,
+      });
+    },
+    onError: (closeError: Error) => {
+      // Another till may have closed the day in the meantime
+      queryClient.invalidateQueries({ queryKey: closeoutQueryKey });
+      setIsConfirmingClose(false);
+      toast({
+        title: "Close Failed",
+        description: closeError.message || "Failed to close the shift",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const summary: Array<{ label: string; value: string; highlight?: boolean }> = [
+    { label: "Gross Sales", value: formatPrice(report.grossSales) },
+    { label: "Discounts", value: `-${formatPrice(report.discounts)}` },
+    { label: "Tax", value: formatPrice(report.tax) },
+    { label: "Service Charges", value: formatPrice(report.serviceCharges) },
+    { label: "Delivery Charges", value: formatPrice(report.deliveryCharges) },
+    { label: "Tips", value: formatPrice(report.tips) },
+    { label: `Refunds (${report.refunds.count})`, value: `-${formatPrice(report.refunds.total)}` },
+    { label: "Net Sales", value: formatPrice(report.netSales), highlight: true },
+    { label: "Orders", value: String(report.orderCount) },
+    { label: "Average Order", value: formatPrice(report.averageOrder) },
+  ];
+
+  const isBusy = isFetching || isFetchingRefunds || isFetchingCloseout || isPrinting;
+  const loadError = (error || refundsError || closeoutError) as Error | null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" data-testid="z-report-modal">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            End-of-Day Report
+            <Badge
+              className={closeout ? "bg-gray-800 hover:bg-gray-800" : "bg-green-500 hover:bg-green-500"}
+              data-testid="badge-z-report-state"
+            >
+              {closeout ? `Z #${closeout.zNumber}` : "Shift Open"}
+            </Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {report.branchName || "Branch"} - totals for orders created on the selected day ({timeZone})
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="date"
+            value={businessDate}
+            max={getBranchToday(timeZone)}
+            onChange={(e) => e.target.value && setBusinessDate(e.target.value)}
+            className="w-44"
+            data-testid="input-z-report-date"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              refetch();
+              refetchRefunds();
+            }}
+            disabled={isFetching || isFetchingRefunds}
+            data-testid="button-refresh-z-report"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+            {progress !== null ? `Loading ${progress}` : "Refresh"}
+          </Button>
+          {closeout && (
+            <span className="text-sm text-gray-500">
+              Closed {formatExportDateTime(closeout.closedAt, timeZone)}
+            </span>
+          )}
+        </div>
+
+        {loadError ? (
+          <div className="p-4 text-sm text-red-600 bg-red-50 rounded-md" data-testid="z-report-error">
+            Failed to load the report: {loadError.message}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {summary.map((item) => (
+                <div
+                  key={item.label}
+                  className={`rounded-md border p-3 ${item.highlight ? "border-green-500 bg-green-50" : "border-gray-200"}`}
+                >
+                  <p className="text-xs text-gray-500">{item.label}</p>
+                  <p className="text-lg font-semibold text-gray-900">{item.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {report.openOrderCount > 0 && (
+              <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 rounded-md p-3">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                {report.openOrderCount} order(s) for this day are not completed yet.
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+              <BreakdownTable title="Order Types" entries={report.byOrderType} formatPrice={formatPrice} />
+              <BreakdownTable title="Statuses" entries={report.byStatus} formatPrice={formatPrice} />
+              <BreakdownTable
+                title={`Cancellations (${report.cancellations.count})`}
+                entries={report.cancellations.byReason}
+                formatPrice={formatPrice}
+              />
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-gray-500 uppercase">Split Bills</p>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-700">Orders split</span>
+                  <span className="font-medium">{report.splitBills.orderCount}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-700">Bills ({report.splitBills.billCount})</span>
+                  <span className="font-medium">{formatPrice(report.splitBills.total)}</span>
+                </div>
+                {report.splitBills.byType.map((entry) => (
+                  <div key={entry.label} className="flex justify-between text-sm pl-3">
+                    <span className="text-gray-500">
+                      {entry.label} ({entry.count})
+                    </span>
+                    <span>{formatPrice(entry.total)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-gray-500 uppercase">Top Items</p>
+              {report.topItems.length === 0 ? (
+                <p className="text-sm text-gray-400">None</p>
+              ) : (
+                <div className="space-y-1" data-testid="z-report-top-items">
+                  {report.topItems.map((item, index) => (
+                    <div key={item.name} className="flex justify-between text-sm">
+                      <span className="text-gray-700">
+                        {index + 1}. {item.quantity}x {item.name}
+                      </span>
+                      <span className="font-medium">{formatPrice(item.total)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {isConfirmingClose ? (
+          <div className="border-t border-gray-100 pt-4 space-y-3" data-testid="z-report-close-confirm">
+            <p className="text-sm text-gray-700">
+              Close the shift for {businessDate}? This records Z-report totals of{" "}
+              <strong>{formatPrice(report.netSales)}</strong> across {report.orderCount} orders and can't be undone.
+              {report.openOrderCount > 0 && ` ${report.openOrderCount} order(s) are still open.`}
+            </p>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setIsConfirmingClose(false)} data-testid="button-cancel-close-shift">
+                Back
+              </Button>
+              <Button
+                className="bg-gray-900 hover:bg-gray-800 text-white"
+                onClick={() => closeShiftMutation.mutate()}
+                disabled={closeShiftMutation.isPending}
+                data-testid="button-confirm-close-shift"
+              >
+                <Lock className="w-4 h-4 mr-2" />
+                {closeShiftMutation.isPending ? "Closing..." : "Close Shift"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-wrap justify-end gap-2 border-t border-gray-100 pt-4">
+            <Button variant="outline" onClick={handleExportPdf} disabled={isBusy} data-testid="button-z-report-pdf">
+              <FileText className="w-4 h-4 mr-2" />
+              Export PDF
+            </Button>
+            <Button variant="outline" onClick={handlePrint} disabled={isBusy} data-testid="button-z-report-print">
+              <Printer className="w-4 h-4 mr-2" />
+              {isPrinting ? "Printing..." : "Print"}
+            </Button>
+            {!closeout && (
+              <Button
+                className="bg-green-500 hover:bg-green-600 text-white"
+                onClick={() => setIsConfirmingClose(true)}
+                disabled={isBusy || !!loadError}
+                data-testid="button-close-shift"
+              >
+                <Lock className="w-4 h-4 mr-2" />
+                Close Shift
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,41 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'wouter';
+import {
+  OrderFilters,
+  EMPTY_ORDER_FILTERS,
+  countActiveOrderFilters,
+  parseOrderFilters,
+  writeOrderFilters,
+} from '@/types/orderFilters';
+
+/**
+ * Hook to keep order filters in the page URL so filtered views can be shared and survive reloads
+ * @returns Current filters and setters that replace the URL entry rather than pushing history
+ */
+export const useOrderFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = useMemo(() => parseOrderFilters(searchParams), [searchParams]);
+
+  const setFilters = useCallback(
+    (next: OrderFilters) => {
+      setSearchParams(prev => writeOrderFilters(prev, next), { replace: true });
+    },
+    [setSearchParams],
+  );
+
+  const updateFilters = useCallback(
+    (changes: Partial<OrderFilters>) => setFilters({ ...filters, ...changes }),
+    [filters, setFilters],
+  );
+
+  const clearFilters = useCallback(() => setFilters(EMPTY_ORDER_FILTERS), [setFilters]);
+
+  return {
+    filters,
+    setFilters,
+    updateFilters,
+    clearFilters,
+    activeFilterCount: countActiveOrderFilters(filters),
+  };
+};
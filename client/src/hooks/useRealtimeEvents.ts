@@ -0,0 +1,112 @@
+import { useEffect, useRef } from 'react';
+import { useQueryClient, type Query, type QueryClient } from '@tanstack/react-query';
+import {
+  signalRService,
+  REALTIME_EVENTS,
+  type RealtimeEventMap,
+  type RealtimeEventName,
+} from '@/services/signalRService';
+import { registerRealtimeNotifications } from '@/services/realtimeNotifications';
+
+type QueryMatcher = (query: Query) => boolean;
+
+// Matches queries whose first key segment starts with one of the given prefixes
+const keyStartsWith = (...prefixes: string[]): QueryMatcher => (query) => {
+  const head = query.queryKey[0];
+  return typeof head === 'string' && prefixes.some(prefix => head.startsWith(prefix));
+};
+
+// Matches queries keyed as [name, branchId, ...], or any branch when branchId is unknown
+const keyForBranch = (names: string[], branchId?: number): QueryMatcher => (query) => {
+  const [head, second] = query.queryKey;
+  if (typeof head !== 'string' || !names.includes(head)) return false;
+  return branchId === undefined || second === branchId;
+};
+
+const orderQueries = (branchId?: number): QueryMatcher[] => [
+  keyStartsWith(branchId !== undefined ? `/api/orders/branch/${branchId}` : '/api/orders/branch/'),
+  keyForBranch(['orders'], branchId),
+  keyStartsWith('/api/dashboard'),
+];
+
+const reservationQueries = (branchId?: number, reservationId?: number): QueryMatcher[] => [
+  keyStartsWith(branchId !== undefined ? `/api/reservations/branch/${branchId}` : '/api/reservations/branch/'),
+  (query) => query.queryKey[0] === 'reservations',
+  (query) => query.queryKey[0] === 'reservation-detail'
+    && (reservationId === undefined || query.queryKey[1] === reservationId),
+];
+
+const stockQueries = (branchId?: number): QueryMatcher[] => [
+  keyForBranch(['inventory-stock', 'inventory-low-stock', 'inventory-items'], branchId),
+];
+
+// Query families each real-time event makes stale
+const REALTIME_INVALIDATIONS: {
+  [K in RealtimeEventName]: (payload: RealtimeEventMap[K]) => QueryMatcher[];
+} = {
+  OrderCreated: (payload) => orderQueries(payload.branchId),
+  OrderStatusChanged: (payload) => orderQueries(payload.branchId),
+  OrderUpdated: (payload) => orderQueries(payload.branchId),
+  ReservationCreated: (payload) => reservationQueries(payload.branchId),
+  ReservationStatusChanged: (payload) => reservationQueries(payload.branchId, payload.reservationId),
+  StockLow: (payload) => stockQueries(payload.branchId),
+  StockUpdated: (payload) => stockQueries(payload.branchId),
+};
+
+const invalidateMatching = (queryClient: QueryClient, matchers: QueryMatcher[]) => {
+  queryClient.invalidateQueries({
+    predicate: (query) => matchers.some(matches => matches(query)),
+  });
+};
+
+/**
+ * Subscribes a component to a typed real-time event for its lifetime
+ * @param event - Hub event name
+ * @param handler - Called with the event payload; the latest handler is always used
+ * @param enabled - Skip the subscription while false
+ */
+export const useRealtimeEvent = <K extends RealtimeEventName>(
+  event: K,
+  handler: (payload: RealtimeEventMap[K]) => void,
+  enabled: boolean = true,
+) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return signalRService.subscribe(event, (payload) => handlerRef.current(payload));
+  }, [event, enabled]);
+};
+
+/**
+ * Keeps React Query caches in step with real-time events and registers the
+ * default notification side effects. Mount once, inside QueryClientProvider.
+ */
+export const useRealtimeQuerySync = () => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const unsubscribers = REALTIME_EVENTS.map(event =>
+      signalRService.subscribe(event, (payload) => {
+        const getMatchers = REALTIME_INVALIDATIONS[event] as (
+          payload: RealtimeEventMap[typeof event],
+        ) => QueryMatcher[];
+        invalidateMatching(queryClient, getMatchers(payload));
+      }),
+    );
+
+    // Events may have been missed while offline, so refresh everything they cover
+    unsubscribers.push(
+      signalRService.onReconnected(() => {
+        invalidateMatching(queryClient, [...orderQueries(), ...reservationQueries(), ...stockQueries()]);
+      }),
+    );
+
+    unsubscribers.push(registerRealtimeNotifications());
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [queryClient]);
+};
@@ -6,9 +6,33 @@ import {
   Recipe,
   RecipeDetail,
   InsertRecipe,
+  InventoryDepletion,
+  CreateInventoryDepletionRequest,
+  CreateInventoryDepletionAdjustmentRequest,
+  InventoryDepletionSettings,
+  InventoryStockMovement,
+  PurchaseOrderDetail,
+  PurchaseOrderReceiptLine,
+  ReceivePurchaseOrderItem,
   MenuCategory,
+  SplitBill,
+  OrderRefund,
+  CreateOrderRefundRequest,
+  UpdateOrderItemsRequest,
+  Shift,
+  ShiftCashMovement,
+  ShiftCashMovementType,
+  OpenShiftRequest,
+  CloseShiftRequest,
+  ZReportCloseout,
+  CreateZReportCloseoutRequest,
 } from "../types/schema";
 import { PaginationResponse } from "../types/pagination";
+import {
+  OrderFilters,
+  EMPTY_ORDER_FILTERS,
+  appendOrderFilterQuery,
+} from "../types/orderFilters";
 import { signalRService } from "../services/signalRService";
 
 // Generic API Repository with error handling and token management
@@ -482,11 +506,19 @@ export const API_ENDPOINTS = {
   INVENTORY_STOCK_BY_BRANCH: "/api/inventory/branch/{branchId}/stock",
   INVENTORY_STOCK_UPDATE: "/api/inventory/branch/{branchId}/stock/update",
   INVENTORY_LOW_STOCK_BY_BRANCH: "/api/inventory/branch/{branchId}/low-stock",
+  INVENTORY_STOCK_MOVEMENTS_BY_BRANCH:
+    "/api/inventory/branch/{branchId}/stock/movements",
 
   // Inventory Wastage endpoints
   INVENTORY_WASTAGE_CREATE: "/api/inventory/wastage",
   INVENTORY_WASTAGE_BY_BRANCH: "/api/inventory/wastage",
 
+  // Inventory Depletion endpoints
+  INVENTORY_DEPLETIONS: "/api/inventory/depletions",
+  INVENTORY_DEPLETION_BY_ORDER: "/api/inventory/depletions/order/{orderId}",
+  INVENTORY_DEPLETION_ADJUSTMENTS: "/api/inventory/depletions/adjustments",
+  INVENTORY_DEPLETION_SETTINGS: "/api/inventory/branch/{branchId}/depletion-settings",
+
   // Utility Expense endpoints
   UTILITY_EXPENSE_CREATE: "/api/facilityutilityrecords",
   UTILITY_EXPENSE_BY_BRANCH: "/api/facilityutilityrecords/branch/{branchId}",
@@ -500,6 +532,8 @@ export const API_ENDPOINTS = {
   PURCHASE_ORDER_BY_ID: "/api/inventory/purchase-orders/{id}",
   PURCHASE_ORDER_RECEIVE: "/api/inventory/purchase-orders/{id}/receive",
   PURCHASE_ORDER_CANCEL: "/api/inventory/purchase-orders/{id}/cancel",
+  PURCHASE_ORDER_RECEIPTS_BY_BRANCH:
+    "/api/inventory/purchase-orders/branch/{branchId}/receipts",
 
   // Recipe endpoints
   RECIPES: "/api/inventory/recipes",
@@ -511,8 +545,24 @@ export const API_ENDPOINTS = {
   ORDERS: "/api/orders",
   ORDER_BY_ID: "/api/orders/{id}",
   ORDERS_BY_BRANCH: "/api/Order/ByBranch",
+  ORDER_DETAILS_BY_ID: "/api/Order/{id}",
   ordersByBranch: "/api/Order/ByBranch",
   UPDATE_ORDER_STATUS: "/api/Order",
+  ORDER_SPLIT_BILLS: "/api/Order/{id}/split-bills",
+  ORDER_REFUNDS: "/api/Order/{id}/refunds",
+  ORDER_REFUNDS_BY_BRANCH: "/api/Order/refunds/ByBranch/{branchId}",
+  ORDER_ITEMS: "/api/Order/{id}/items",
+
+  // Shift endpoints
+  SHIFTS: "/api/Shifts",
+  SHIFTS_BY_BRANCH: "/api/Shifts/branch/{branchId}",
+  SHIFT_CURRENT: "/api/Shifts/branch/{branchId}/current",
+  SHIFT_CASH_MOVEMENTS: "/api/Shifts/{id}/cash-movements",
+  SHIFT_CLOSE: "/api/Shifts/{id}/close",
+
+  // Z-report close-out endpoints
+  Z_REPORTS: "/api/ZReports",
+  Z_REPORT_BY_DATE: "/api/ZReports/branch/{branchId}/{businessDate}",
 
   // MenuCategory endpoints
   MENU_CATEGORIES: "/api/MenuCategory",
@@ -670,6 +720,22 @@ export const defaultApiConfig: ApiConfig = {
     updateOrderStatus: API_ENDPOINTS.UPDATE_ORDER_STATUS,
     deleteOrder: API_ENDPOINTS.ORDER_BY_ID,
     getOrdersByBranch: API_ENDPOINTS.ORDERS_BY_BRANCH,
+    getOrderDetailsById: API_ENDPOINTS.ORDER_DETAILS_BY_ID,
+    updateOrderSplitBills: API_ENDPOINTS.ORDER_SPLIT_BILLS,
+    createOrderRefund: API_ENDPOINTS.ORDER_REFUNDS,
+    getRefundsByBranch: API_ENDPOINTS.ORDER_REFUNDS_BY_BRANCH,
+    updateOrderItems: API_ENDPOINTS.ORDER_ITEMS,
+
+    // Shift endpoints
+    openShift: API_ENDPOINTS.SHIFTS,
+    getShiftsByBranch: API_ENDPOINTS.SHIFTS_BY_BRANCH,
+    getCurrentShift: API_ENDPOINTS.SHIFT_CURRENT,
+    addShiftCashMovement: API_ENDPOINTS.SHIFT_CASH_MOVEMENTS,
+    closeShift: API_ENDPOINTS.SHIFT_CLOSE,
+
+    // Z-report close-out endpoints
+    createZReportCloseout: API_ENDPOINTS.Z_REPORTS,
+    getZReportCloseout: API_ENDPOINTS.Z_REPORT_BY_DATE,
 
     // MenuCategory endpoints
     getMenuCategories: API_ENDPOINTS.MENU_CATEGORIES,
@@ -741,11 +807,21 @@ export const defaultApiConfig: ApiConfig = {
     getInventoryStockByBranch: API_ENDPOINTS.INVENTORY_STOCK_BY_BRANCH,
     updateInventoryStock: API_ENDPOINTS.INVENTORY_STOCK_UPDATE,
     getInventoryLowStockByBranch: API_ENDPOINTS.INVENTORY_LOW_STOCK_BY_BRANCH,
+    getInventoryStockMovementsByBranch:
+      API_ENDPOINTS.INVENTORY_STOCK_MOVEMENTS_BY_BRANCH,
 
     // Inventory Wastage endpoints
     createInventoryWastage: API_ENDPOINTS.INVENTORY_WASTAGE_CREATE,
     getInventoryWastageByBranch: API_ENDPOINTS.INVENTORY_WASTAGE_BY_BRANCH,
 
+    // Inventory Depletion endpoints
+    createInventoryDepletion: API_ENDPOINTS.INVENTORY_DEPLETIONS,
+    getInventoryDepletionsByBranch: API_ENDPOINTS.INVENTORY_DEPLETIONS,
+    getInventoryDepletionByOrder: API_ENDPOINTS.INVENTORY_DEPLETION_BY_ORDER,
+    createInventoryDepletionAdjustment: API_ENDPOINTS.INVENTORY_DEPLETION_ADJUSTMENTS,
+    getInventoryDepletionSettings: API_ENDPOINTS.INVENTORY_DEPLETION_SETTINGS,
+    updateInventoryDepletionSettings: API_ENDPOINTS.INVENTORY_DEPLETION_SETTINGS,
+
     // Utility Expense endpoints
     createUtilityExpense: API_ENDPOINTS.UTILITY_EXPENSE_CREATE,
     getUtilityExpensesByBranch: API_ENDPOINTS.UTILITY_EXPENSE_BY_BRANCH,
@@ -759,6 +835,8 @@ export const defaultApiConfig: ApiConfig = {
     getPurchaseOrderById: API_ENDPOINTS.PURCHASE_ORDER_BY_ID,
     receivePurchaseOrder: API_ENDPOINTS.PURCHASE_ORDER_RECEIVE,
     cancelPurchaseOrder: API_ENDPOINTS.PURCHASE_ORDER_CANCEL,
+    getPurchaseOrderReceiptsByBranch:
+      API_ENDPOINTS.PURCHASE_ORDER_RECEIPTS_BY_BRANCH,
 
     // Recipe endpoints
     getRecipes: API_ENDPOINTS.RECIPES,
@@ -1858,7 +1936,8 @@ export const ordersApi = {
     pageSize: number = 10,
     sortBy: string = "createdAt",
     isAscending: boolean = false,
-    searchTerm: string = "",
+    filters: OrderFilters = EMPTY_ORDER_FILTERS,
+    timeZone: string = "UTC",
   ) => {
     const params = new URLSearchParams({
       BranchId: branchId.toString(),
@@ -1868,9 +1947,8 @@ export const ordersApi = {
       IsAscending: isAscending.toString(),
     });
 
-    if (searchTerm) {
-      params.append("SearchTerm", searchTerm);
-    }
+    // Status, type, date range, amount, payment and table filters
+    appendOrderFilterQuery(params, filters, timeZone);
 
     // For query parameters, modify the endpoint temporarily
     const originalEndpoint =
@@ -1894,6 +1972,28 @@ export const ordersApi = {
     return response.data;
   },
 
+  // Get full order details (items, packages, history) by order ID
+  getOrderById: async (orderId: number): Promise<DetailedOrder> => {
+    const response = await apiRepository.call<DetailedOrder>(
+      "getOrderDetailsById",
+      "GET",
+      undefined,
+      {},
+      true,
+      { id: orderId },
+    );
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    if (!response.data) {
+      throw new Error("Failed to fetch order details");
+    }
+
+    return response.data;
+  },
+
   // Get order status types from API
   getOrderStatusTypes: async () => {
     const response = await apiRepository.call<
@@ -1928,6 +2028,290 @@ export const ordersApi = {
 
     return response.data;
   },
+
+  // Replace an order's split bills; an empty list removes the split
+  updateSplitBills: async (
+    orderId: number,
+    splitBills: Array<Omit<SplitBill, "id">>,
+  ): Promise<SplitBill[]> => {
+    const response = await apiRepository.call<SplitBill[]>(
+      "updateOrderSplitBills",
+      "PUT",
+      { orderId, splitBills },
+      {},
+      true,
+      { id: orderId },
+    );
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    return response.data || [];
+  },
+
+  // Refund items or an amount on a completed order
+  createRefund: async (
+    orderId: number,
+    refundData: CreateOrderRefundRequest,
+  ): Promise<OrderRefund> => {
+    const response = await apiRepository.call<OrderRefund>(
+      "createOrderRefund",
+      "POST",
+      refundData,
+      {},
+      true,
+      { id: orderId },
+    );
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    if (!response.data) {
+      throw new Error("Failed to record refund");
+    }
+
+    return response.data;
+  },
+
+  // Refunds issued on a branch between two UTC timestamps, whatever day the order was placed
+  getRefundsByBranch: async (
+    branchId: number,
+    from: string,
+    to: string,
+  ): Promise<OrderRefund[]> => {
+    const params = new URLSearchParams({ from: from, to: to });
+
+    const originalEndpoint =
+      apiRepository.getConfig().endpoints["getRefundsByBranch"];
+    apiRepository.updateEndpoint(
+      "getRefundsByBranch",
+      `${originalEndpoint.replace("{branchId}", branchId.toString())}?${params.toString()}`,
+    );
+
+    const response = await apiRepository.call<OrderRefund[]>(
+      "getRefundsByBranch",
+      "GET",
+      undefined,
+      {},
+      true,
+    );
+
+    // Restore original endpoint
+    apiRepository.updateEndpoint("getRefundsByBranch", originalEndpoint);
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    return response.data || [];
+  },
+
+  // Replace the items of an order that is not yet completed
+  updateOrderItems: async (
+    orderId: number,
+    itemsData: UpdateOrderItemsRequest,
+  ): Promise<DetailedOrder> => {
+    const response = await apiRepository.call<DetailedOrder>(
+      "updateOrderItems",
+      "PUT",
+      itemsData,
+      {},
+      true,
+      { id: orderId },
+    );
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    if (!response.data) {
+      throw new Error("Failed to update order items");
+    }
+
+    return response.data;
+  },
+};
+
+// Shift API Helper Functions
+export const shiftApi = {
+  // Open shift for a branch, or null when the drawer is not open
+  getCurrentShift: async (branchId: number): Promise<Shift | null> => {
+    const response = await apiRepository.call<Shift>(
+      "getCurrentShift",
+      "GET",
+      undefined,
+      {},
+      true,
+      { branchId },
+    );
+
+    // No open shift is not an error
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    return response.data || null;
+  },
+
+  // Get shift history by branch with pagination
+  getShiftsByBranch: async (
+    branchId: number,
+    pageNumber: number = 1,
+    pageSize: number = 10,
+  ): Promise<PaginationResponse<Shift> | undefined> => {
+    const params = new URLSearchParams({
+      PageNumber: pageNumber.toString(),
+      PageSize: pageSize.toString(),
+      SortBy: "openedAt",
+      IsAscending: "false",
+    });
+
+    const originalEndpoint =
+      apiRepository.getConfig().endpoints["getShiftsByBranch"];
+    apiRepository.updateEndpoint(
+      "getShiftsByBranch",
+      `${originalEndpoint.replace("{branchId}", branchId.toString())}?${params.toString()}`,
+    );
+
+    const response = await apiRepository.call<PaginationResponse<Shift>>(
+      "getShiftsByBranch",
+      "GET",
+      undefined,
+      {},
+      true,
+    );
+
+    // Restore original endpoint
+    apiRepository.updateEndpoint("getShiftsByBranch", originalEndpoint);
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    return response.data;
+  },
+
+  // Open a shift with the starting float
+  openShift: async (shiftData: OpenShiftRequest): Promise<Shift> => {
+    const response = await apiRepository.call<Shift>(
+      "openShift",
+      "POST",
+      shiftData,
+    );
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    if (!response.data) {
+      throw new Error("Failed to open shift");
+    }
+
+    return response.data;
+  },
+
+  // Record a cash drop, payout or pay-in against an open shift
+  addCashMovement: async (
+    shiftId: number,
+    movement: { type: ShiftCashMovementType; amount: number; reason: string },
+  ): Promise<ShiftCashMovement> => {
+    const response = await apiRepository.call<ShiftCashMovement>(
+      "addShiftCashMovement",
+      "POST",
+      movement,
+      {},
+      true,
+      { id: shiftId },
+    );
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    if (!response.data) {
+      throw new Error("Failed to record cash movement");
+    }
+
+    return response.data;
+  },
+
+  // Close a shift with the counted cash and the reconciliation result
+  closeShift: async (shiftId: number, closeData: CloseShiftRequest): Promise<Shift> => {
+    const response = await apiRepository.call<Shift>(
+      "closeShift",
+      "PUT",
+      closeData,
+      {},
+      true,
+      { id: shiftId },
+    );
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    if (!response.data) {
+      throw new Error("Failed to close shift");
+    }
+
+    return response.data;
+  },
+};
+
+// Z-report close-out API Helper Functions
+export const zReportApi = {
+  // Close-out of a branch day, or null while the day is still open
+  getCloseout: async (
+    branchId: number,
+    businessDate: string,
+  ): Promise<ZReportCloseout | null> => {
+    const response = await apiRepository.call<ZReportCloseout>(
+      "getZReportCloseout",
+      "GET",
+      undefined,
+      {},
+      true,
+      { branchId, businessDate },
+    );
+
+    // A day that was not closed is not an error
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    return response.data || null;
+  },
+
+  // Close a branch day; the API assigns the Z number and rejects a day that is already closed
+  createCloseout: async (
+    closeoutData: CreateZReportCloseoutRequest,
+  ): Promise<ZReportCloseout> => {
+    const response = await apiRepository.call<ZReportCloseout>(
+      "createZReportCloseout",
+      "POST",
+      closeoutData,
+    );
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+
+    if (!response.data) {
+      throw new Error("Failed to close the day");
+    }
+
+    return response.data;
+  },
 };
 
 // Services API Helper Functions
@@ -2610,6 +2994,7 @@ export const inventoryApi = {
     branchId: number;
     unit: string;
     reorderLevel: number;
+    parLevel?: number;
     defaultSupplierId?: number;
   }) => {
     const response = await apiRepository.call(
@@ -2631,6 +3016,7 @@ export const inventoryApi = {
       categoryId: number;
       unit: string;
       reorderLevel: number;
+      parLevel?: number;
       defaultSupplierId?: number;
     },
   ) => {
@@ -2777,6 +3163,54 @@ export const inventoryApi = {
     return response.data || [];
   },
 
+  // Get stock movements (counts, receipts, wastage, depletion) by branch with date filters
+  getInventoryStockMovementsByBranch: async (
+    branchId: number,
+    from: string,
+    to: string,
+    paginationParams?: {
+      PageNumber?: number;
+      PageSize?: number;
+      SortBy?: string;
+      IsAscending?: boolean;
+      SearchTerm?: string;
+    },
+  ): Promise<PaginationResponse<InventoryStockMovement> | InventoryStockMovement[]> => {
+    const params = new URLSearchParams({ from: from, to: to });
+
+    if (paginationParams) {
+      if (paginationParams.PageNumber)
+        params.append("PageNumber", paginationParams.PageNumber.toString());
+      if (paginationParams.PageSize)
+        params.append("PageSize", paginationParams.PageSize.toString());
+      if (paginationParams.SortBy)
+        params.append("SortBy", paginationParams.SortBy);
+      if (paginationParams.IsAscending !== undefined)
+        params.append("IsAscending", paginationParams.IsAscending.toString());
+      if (paginationParams.SearchTerm)
+        params.append("SearchTerm", paginationParams.SearchTerm);
+    }
+
+    const baseEndpoint = "/api/inventory/branch";
+    apiRepository.updateEndpoint(
+      "getInventoryStockMovementsByBranch",
+      `${baseEndpoint}/${branchId}/stock/movements?${params.toString()}`,
+    );
+
+    const response = await apiRepository.call<
+      PaginationResponse<InventoryStockMovement> | InventoryStockMovement[]
+    >("getInventoryStockMovementsByBranch", "GET", undefined, {}, true);
+    apiRepository.updateEndpoint(
+      "getInventoryStockMovementsByBranch",
+      baseEndpoint + "/{branchId}/stock/movements",
+    );
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+    return response.data || [];
+  },
+
   // Create purchase order
   createPurchaseOrder: async (orderData: {
     supplierId: number;
@@ -2829,7 +3263,11 @@ export const inventoryApi = {
     }
     apiRepository.updateEndpoint("getPurchaseOrdersByBranch", endpoint);
 
-    const response = await apiRepository.call(
+    // Listed without their lines; see getPurchaseOrderById
+    const response = await apiRepository.call<
+      | PaginationResponse<Omit<PurchaseOrderDetail, "items">>
+      | Omit<PurchaseOrderDetail, "items">[]
+    >(
       "getPurchaseOrdersByBranch",
       "GET",
       undefined,
@@ -2849,7 +3287,7 @@ export const inventoryApi = {
 
   // Get purchase order by ID
   getPurchaseOrderById: async (orderId: number) => {
-    const response = await apiRepository.call(
+    const response = await apiRepository.call<PurchaseOrderDetail>(
       "getPurchaseOrderById",
       "GET",
       undefined,
@@ -2863,15 +3301,17 @@ export const inventoryApi = {
     return response.data;
   },
 
-  // Receive purchase order
+  // Receive purchase order, in full or in part
+  // closeRemaining writes off anything still outstanding instead of back-ordering it
   receivePurchaseOrder: async (
     orderId: number,
-    items: { purchaseOrderItemId: number; receivedQuantity: number }[],
+    items: ReceivePurchaseOrderItem[],
+    options: { closeRemaining?: boolean } = {},
   ) => {
     const response = await apiRepository.call(
       "receivePurchaseOrder",
       "PUT",
-      { items },
+      { items, closeRemaining: options.closeRemaining || false },
       {},
       true,
       { id: orderId },
@@ -2882,6 +3322,54 @@ export const inventoryApi = {
     return response.data;
   },
 
+  // Get purchase order deliveries by branch with date filters
+  getPurchaseOrderReceiptsByBranch: async (
+    branchId: number,
+    from: string,
+    to: string,
+    paginationParams?: {
+      PageNumber?: number;
+      PageSize?: number;
+      SortBy?: string;
+      IsAscending?: boolean;
+      SearchTerm?: string;
+    },
+  ): Promise<PaginationResponse<PurchaseOrderReceiptLine> | PurchaseOrderReceiptLine[]> => {
+    const params = new URLSearchParams({ from: from, to: to });
+
+    if (paginationParams) {
+      if (paginationParams.PageNumber)
+        params.append("PageNumber", paginationParams.PageNumber.toString());
+      if (paginationParams.PageSize)
+        params.append("PageSize", paginationParams.PageSize.toString());
+      if (paginationParams.SortBy)
+        params.append("SortBy", paginationParams.SortBy);
+      if (paginationParams.IsAscending !== undefined)
+        params.append("IsAscending", paginationParams.IsAscending.toString());
+      if (paginationParams.SearchTerm)
+        params.append("SearchTerm", paginationParams.SearchTerm);
+    }
+
+    const baseEndpoint = "/api/inventory/purchase-orders/branch";
+    apiRepository.updateEndpoint(
+      "getPurchaseOrderReceiptsByBranch",
+      `${baseEndpoint}/${branchId}/receipts?${params.toString()}`,
+    );
+
+    const response = await apiRepository.call<
+      PaginationResponse<PurchaseOrderReceiptLine> | PurchaseOrderReceiptLine[]
+    >("getPurchaseOrderReceiptsByBranch", "GET", undefined, {}, true);
+    apiRepository.updateEndpoint(
+      "getPurchaseOrderReceiptsByBranch",
+      baseEndpoint + "/{branchId}/receipts",
+    );
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+    return response.data || [];
+  },
+
   // Cancel purchase order
   cancelPurchaseOrder: async (orderId: number) => {
     const response = await apiRepository.call(
@@ -2924,7 +3412,7 @@ export const inventoryApi = {
       IsAscending?: boolean;
       SearchTerm?: string;
     },
-  ): Promise<Recipe[]> => {
+  ): Promise<PaginationResponse<Recipe> | Recipe[]> => {
     const params = new URLSearchParams({ branchId: branchId.toString() });
 
     if (paginationParams) {
@@ -2946,13 +3434,13 @@ export const inventoryApi = {
       `${baseEndpoint}?${params.toString()}`,
     );
 
-    const response = await apiRepository.call("getRecipes", "GET");
+    const response = await apiRepository.call<PaginationResponse<Recipe> | Recipe[]>("getRecipes", "GET");
     apiRepository.updateEndpoint("getRecipes", baseEndpoint);
 
     if (response.error) {
       throw new Error(response.error);
     }
-    return (response.data || []) as Recipe[];
+    return response.data || [];
   },
 
   // Get recipe by ID
@@ -3086,6 +3574,154 @@ export const inventoryApi = {
     return response.data || [];
   },
 
+  // Record recipe-based stock consumption for an order
+  createInventoryDepletion: async (
+    depletionData: CreateInventoryDepletionRequest,
+  ): Promise<InventoryDepletion> => {
+    const response = await apiRepository.call<InventoryDepletion>(
+      "createInventoryDepletion",
+      "POST",
+      depletionData,
+    );
+    if (response.error) {
+      throw new Error(response.error);
+    }
+    if (!response.data) {
+      throw new Error("Failed to record inventory depletion");
+    }
+    return response.data;
+  },
+
+  // Stock recorded for an order net of adjustments, or null when it never depleted
+  getInventoryDepletionByOrder: async (orderId: number): Promise<InventoryDepletion | null> => {
+    const response = await apiRepository.call<InventoryDepletion>(
+      "getInventoryDepletionByOrder",
+      "GET",
+      undefined,
+      {},
+      true,
+      { orderId },
+    );
+
+    // Orders that never reached the trigger status have no depletion
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+    return response.data || null;
+  },
+
+  // Correct an order's depletion after it was cancelled or modified
+  createInventoryDepletionAdjustment: async (
+    adjustmentData: CreateInventoryDepletionAdjustmentRequest,
+  ): Promise<InventoryDepletion> => {
+    const response = await apiRepository.call<InventoryDepletion>(
+      "createInventoryDepletionAdjustment",
+      "POST",
+      adjustmentData,
+    );
+    if (response.error) {
+      throw new Error(response.error);
+    }
+    if (!response.data) {
+      throw new Error("Failed to adjust inventory depletion");
+    }
+    return response.data;
+  },
+
+  // Get a branch's automatic depletion settings
+  getInventoryDepletionSettings: async (branchId: number): Promise<InventoryDepletionSettings | null> => {
+    const response = await apiRepository.call<InventoryDepletionSettings>(
+      "getInventoryDepletionSettings",
+      "GET",
+      undefined,
+      {},
+      true,
+      { branchId },
+    );
+
+    // Branches that never saved settings use the defaults
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+    return response.data || null;
+  },
+
+  // Save a branch's automatic depletion settings
+  updateInventoryDepletionSettings: async (
+    branchId: number,
+    settings: InventoryDepletionSettings,
+  ): Promise<InventoryDepletionSettings> => {
+    const response = await apiRepository.call<InventoryDepletionSettings>(
+      "updateInventoryDepletionSettings",
+      "PUT",
+      settings,
+      {},
+      true,
+      { branchId },
+    );
+    if (response.error) {
+      throw new Error(response.error);
+    }
+    return response.data || settings;
+  },
+
+  // Get the depletion log by branch with date filters
+  getInventoryDepletionsByBranch: async (
+    branchId: number,
+    from: string,
+    to: string,
+    paginationParams?: {
+      PageNumber?: number;
+      PageSize?: number;
+      SortBy?: string;
+      IsAscending?: boolean;
+      SearchTerm?: string;
+    },
+  ): Promise<PaginationResponse<InventoryDepletion> | InventoryDepletion[]> => {
+    const params = new URLSearchParams({
+      branchId: branchId.toString(),
+      from: from,
+      to: to,
+    });
+
+    if (paginationParams) {
+      if (paginationParams.PageNumber)
+        params.append("PageNumber", paginationParams.PageNumber.toString());
+      if (paginationParams.PageSize)
+        params.append("PageSize", paginationParams.PageSize.toString());
+      if (paginationParams.SortBy)
+        params.append("SortBy", paginationParams.SortBy);
+      if (paginationParams.IsAscending !== undefined)
+        params.append("IsAscending", paginationParams.IsAscending.toString());
+      if (paginationParams.SearchTerm)
+        params.append("SearchTerm", paginationParams.SearchTerm);
+    }
+
+    const baseEndpoint = "/api/inventory/depletions";
+    apiRepository.updateEndpoint(
+      "getInventoryDepletionsByBranch",
+      `${baseEndpoint}?${params.toString()}`,
+    );
+
+    const response = await apiRepository.call<
+      PaginationResponse<InventoryDepletion> | InventoryDepletion[]
+    >("getInventoryDepletionsByBranch", "GET");
+    apiRepository.updateEndpoint("getInventoryDepletionsByBranch", baseEndpoint);
+
+    if (response.error) {
+      throw new Error(response.error);
+    }
+    return response.data || [];
+  },
+
   // Utility Expense API methods
   createUtilityExpense: async (expenseData: {
     branchId: number;
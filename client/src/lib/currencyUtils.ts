@@ -123,6 +123,37 @@ export const convertLocalDateToUTC = (localDate: string): string => {
   }
 };
 
+/**
+ * Convert a calendar day in the branch timezone to the UTC instant it starts or ends
+ * @param branchDate - Date string in YYYY-MM-DD format, as seen at the branch
+ * @param timezone - Branch timezone
+ * @param endOfDay - Return the last millisecond of the day instead of midnight
+ * @returns UTC ISO string
+ */
+export const convertBranchDateToUTC = (
+  branchDate: string,
+  timezone: string = 'UTC',
+  endOfDay: boolean = false
+): string => {
+  try {
+    const [year, month, day] = branchDate.split('-').map(Number);
+    const wallClock = endOfDay
+      ? Date.UTC(year, month - 1, day, 23, 59, 59, 999)
+      : Date.UTC(year, month - 1, day, 0, 0, 0, 0);
+
+    // Offset of the branch timezone at that moment (DST aware)
+    const instant = new Date(wallClock);
+    const zoned = new Date(instant.toLocaleString('en-US', { timeZone: timezone }));
+    const utc = new Date(instant.toLocaleString('en-US', { timeZone: 'UTC' }));
+    const offset = zoned.getTime() - utc.getTime();
+
+    return new Date(wallClock - offset).toISOString();
+  } catch (error) {
+    console.error('Error converting branch date to UTC:', error);
+    return convertLocalDateToUTC(branchDate);
+  }
+};
+
 /**
  * Convert UTC date back to local date for display
  * @param utcDate - UTC date string
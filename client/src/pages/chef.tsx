@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
@@ -9,9 +9,9 @@ import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger }
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
-import { ChevronDown, ChevronLeft, ChevronRight, Eye, Edit, RefreshCw } from "lucide-react";
+import { ChevronDown, ChevronLeft, ChevronRight, Eye, Edit, RefreshCw, Monitor } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { chefApi, ordersApi, reservationApi } from "@/lib/apiRepository";
+import { chefApi, locationApi, ordersApi, reservationApi } from "@/lib/apiRepository";
 import { useBranchCurrency } from "@/hooks/useBranchCurrency";
 import type { DetailedOrder, Reservation, PaginatedResponse } from "@/types/schema";
 import { PaginationRequest, PaginationResponse, DEFAULT_PAGINATION_CONFIG, buildPaginationQuery } from "@/types/pagination";
@@ -19,6 +19,12 @@ import { SearchTooltip } from "@/components/SearchTooltip";
 import { ViewReservationModal } from "@/components/view-reservation-modal";
 import { AddReservationModal } from "@/components/add-reservation-modal";
 import DeleteConfirmationModal from "@/components/delete-confirmation-modal";
+import KitchenDisplayBoard from "@/components/kitchen-display-board";
+import { UpdateOrderStatusDialog } from "@/components/update-order-status-dialog";
+import { OrderFiltersPopover } from "@/components/order-filters-popover";
+import { ExportMenu } from "@/components/export-menu";
+import { ORDER_EXPORT_COLUMNS, RESERVATION_EXPORT_COLUMNS } from "@/utils/orderExport";
+import { useOrderFilters } from "@/hooks/useOrderFilters";
 
 interface Order {
   id: string;
@@ -42,11 +48,19 @@ const Chef = () => {
   // Tab management
   const [activeMainTab, setActiveMainTab] = useState("orders");
 
+  // Kitchen Display System mode
+  const [isKitchenDisplayOpen, setIsKitchenDisplayOpen] = useState(false);
+
   // Pagination state for orders
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(DEFAULT_PAGINATION_CONFIG.defaultPageSize);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [orderFilter, setOrderFilter] = useState("All Orders");
+  // Order filters live in the URL, shared with the Orders page
+  const { filters: orderFilters, setFilters: setOrderFilters, updateFilters: updateOrderFilters } = useOrderFilters();
+
+  // Reset to page 1 when filters change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [orderFilters]);
 
   // Pagination state for reservations
   const [reservationsCurrentPage, setReservationsCurrentPage] = useState(1);
@@ -57,8 +71,6 @@ const Chef = () => {
   const [selectedOrderId, setSelectedOrderId] = useState<number | null>(null);
   const [isViewOrderModalOpen, setIsViewOrderModalOpen] = useState(false);
   const [isUpdateOrderStatusModalOpen, setIsUpdateOrderStatusModalOpen] = useState(false);
-  const [selectedStatusId, setSelectedStatusId] = useState<number | null>(null);
-  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
 
   // Modal states for reservations
   const [selectedReservationId, setSelectedReservationId] = useState<number | null>(null);
@@ -91,24 +103,25 @@ const Chef = () => {
   }, [chefBranchResponse]);
 
   // Branch currency hook
-  const { formatPrice } = useBranchCurrency(branchId || 0);
+  const { formatPrice, currency, branchData } = useBranchCurrency(branchId || 0);
+
+  // Amounts in branch currency, dates in branch time
+  const exportContext = { currency, timeZone: branchData?.timeZone };
 
   // Query for orders using real API with pagination
   const { data: ordersResponse, isLoading: isLoadingOrders, refetch: refetchOrders } = useQuery({
-    queryKey: [`/api/orders/branch/${branchId}`, currentPage, itemsPerPage, searchTerm, orderFilter],
+    queryKey: [`/api/orders/branch/${branchId}`, currentPage, itemsPerPage, orderFilters, branchData?.timeZone],
     queryFn: async (): Promise<PaginationResponse<DetailedOrder>> => {
       if (!branchId) throw new Error('Branch ID not available');
       
-      // Build search term that includes status filter
-      const effectiveSearchTerm = orderFilter === "All Orders" ? searchTerm : 
-        searchTerm ? `${searchTerm} ${orderFilter}` : orderFilter;
-      
       const result = await ordersApi.getOrdersByBranch(
         branchId,
         currentPage,
         itemsPerPage,
         'createdAt', // Sort by creation date
-        false // Descending order (newest first)
+        false, // Descending order (newest first)
+        orderFilters,
+        branchData?.timeZone
       );
       
       if (!result) {
@@ -253,12 +266,26 @@ const Chef = () => {
   const reservationsHasNext = reservationsPaginationData?.hasNext || false;
   const reservationsHasPrevious = reservationsPaginationData?.hasPrevious || false;
 
-  // Order status filters
-  const statusFilters = useMemo(() => {
-    const baseFilters = ["All Orders"];
-    const dynamicFilters = orderStatusTypes.map(status => status.name);
-    return [...baseFilters, ...dynamicFilters];
-  }, [orderStatusTypes]);
+  // Quick status filter; several statuses picked in the filters popover show as "Custom"
+  const quickStatusFilter = orderFilters.statusIds.length === 0
+    ? 'all'
+    : orderFilters.statusIds.length === 1
+      ? orderFilters.statusIds[0].toString()
+      : 'custom';
+
+  // Tables for the location filter
+  const { data: locations = [] } = useQuery({
+    queryKey: ['tables', 'branch', branchId],
+    queryFn: async (): Promise<Array<{ id: number; name: string }>> => {
+      const response = await locationApi.getLocationsByBranch(branchId!);
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      return response.data as Array<{ id: number; name: string }>;
+    },
+    enabled: activeMainTab === "orders" && !!branchId,
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+  });
 
   // Order action handlers
   const handleViewOrder = (orderId: number) => {
@@ -349,13 +376,35 @@ const Chef = () => {
   return (
     <div className="p-8 space-y-6" data-testid="chef-dashboard">
       {/* Header */}
-      <div className="space-y-2">
-        <h1 className="text-3xl font-bold" data-testid="chef-title">Chef Dashboard</h1>
-        <p className="text-gray-500" data-testid="chef-subtitle">
-          Manage orders and reservations for Branch ID: {branchId}
-        </p>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold" data-testid="chef-title">Chef Dashboard</h1>
+          <p className="text-gray-500" data-testid="chef-subtitle">
+            Manage orders and reservations for Branch ID: {branchId}
+          </p>
+        </div>
+        <Button
+          className="bg-green-500 hover:bg-green-600 text-white"
+          onClick={() => setIsKitchenDisplayOpen(true)}
+          data-testid="button-open-kitchen-display"
+        >
+          <Monitor className="w-4 h-4 mr-2" />
+          Kitchen Display
+        </Button>
       </div>
 
+      {/* Kitchen Display System */}
+      {isKitchenDisplayOpen && (
+        <KitchenDisplayBoard
+          branchId={branchId}
+          orderStatusTypes={orderStatusTypes}
+          onClose={() => {
+            setIsKitchenDisplayOpen(false);
+            refetchOrders();
+          }}
+        />
+      )}
+
       {/* Main Tabs */}
       <Tabs value={activeMainTab} onValueChange={setActiveMainTab} className="space-y-6">
         <TabsList className="grid w-full grid-cols-2">
@@ -369,18 +418,31 @@ const Chef = () => {
             {/* Orders Header with Controls */}
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
               <div className="flex items-center space-x-4">
-                <Select value={orderFilter} onValueChange={setOrderFilter}>
+                <Select
+                  value={quickStatusFilter}
+                  onValueChange={(value) => updateOrderFilters({ statusIds: value === 'all' ? [] : [Number(value)] })}
+                >
                   <SelectTrigger className="w-[200px]" data-testid="select-order-filter">
                     <SelectValue placeholder="Filter by status" />
                   </SelectTrigger>
                   <SelectContent>
-                    {statusFilters.map((filter) => (
-                      <SelectItem key={filter} value={filter}>
-                        {filter}
+                    <SelectItem value="all">All Orders</SelectItem>
+                    {orderStatusTypes.map((status) => (
+                      <SelectItem key={status.id} value={status.id.toString()}>
+                        {status.name}
                       </SelectItem>
                     ))}
+                    {quickStatusFilter === 'custom' && (
+                      <SelectItem value="custom" disabled>Custom</SelectItem>
+                    )}
                   </SelectContent>
                 </Select>
+                <OrderFiltersPopover
+                  filters={orderFilters}
+                  onApply={setOrderFilters}
+                  statusTypes={orderStatusTypes}
+                  locations={locations}
+                />
               </div>
               
               <div className="flex items-center space-x-2">
@@ -393,6 +455,17 @@ const Chef = () => {
                   <RefreshCw className="w-4 h-4 mr-2" />
                   Refresh
                 </Button>
+                <ExportMenu
+                  fileName="orders"
+                  sheetName="Orders"
+                  columns={ORDER_EXPORT_COLUMNS}
+                  fetchPage={(pageNumber, pageSize) =>
+                    ordersApi.getOrdersByBranch(branchId!, pageNumber, pageSize, 'createdAt', false, orderFilters, branchData?.timeZone)
+                  }
+                  context={exportContext}
+                  disabled={!branchId}
+                  data-testid="button-export-orders"
+                />
               </div>
             </div>
 
@@ -406,9 +479,9 @@ const Chef = () => {
                         <span>Orders</span>
                         <SearchTooltip
                           placeholder="Search orders, table..."
-                          onSearch={setSearchTerm}
-                          onClear={() => setSearchTerm('')}
-                          currentValue={searchTerm}
+                          onSearch={(value) => updateOrderFilters({ searchTerm: value })}
+                          onClear={() => updateOrderFilters({ searchTerm: '' })}
+                          currentValue={orderFilters.searchTerm}
                         />
                       </div>
                     </TableHead>
@@ -595,6 +668,17 @@ const Chef = () => {
                   <RefreshCw className="w-4 h-4 mr-2" />
                   Refresh
                 </Button>
+                <ExportMenu
+                  fileName="reservations"
+                  sheetName="Reservations"
+                  columns={RESERVATION_EXPORT_COLUMNS}
+                  fetchPage={(pageNumber, pageSize) =>
+                    reservationApi.getReservationsByBranch(branchId!, pageNumber, pageSize, 'reservationDate', false)
+                  }
+                  context={exportContext}
+                  disabled={!branchId}
+                  data-testid="button-export-reservations"
+                />
               </div>
             </div>
 
@@ -939,116 +1023,22 @@ const Chef = () => {
       )}
 
       {/* Update Order Status Modal */}
-      {selectedOrderId && (
-        <Dialog open={isUpdateOrderStatusModalOpen} onOpenChange={setIsUpdateOrderStatusModalOpen}>
-          <DialogContent className="max-w-md">
-            <DialogHeader>
-              <DialogTitle>Update Order Status</DialogTitle>
-              <DialogDescription>
-                Change the status for order #{paginatedOrders.find(o => o.id === selectedOrderId)?.orderNumber}
-              </DialogDescription>
-            </DialogHeader>
-            
-            {(() => {
-              const selectedOrder = paginatedOrders.find(o => o.id === selectedOrderId);
-              if (!selectedOrder) return null;
-              
-              return (
-                <div className="space-y-4">
-                  <div>
-                    <label className="text-sm font-medium text-gray-500">Current Status</label>
-                    <div className="mt-1">
-                      {getOrderStatusBadge(Number(selectedOrder.orderStatus))}
-                    </div>
-                  </div>
-
-                  <div>
-                    <label className="text-sm font-medium text-gray-500">Select New Status</label>
-                    {isLoadingStatusTypes ? (
-                      <div className="mt-1 p-2 border rounded">Loading status types...</div>
-                    ) : statusTypesError ? (
-                      <div className="mt-1 p-2 border rounded bg-red-50 text-red-600" data-testid="status-error">
-                        Failed to load status options. Please try again.
-                      </div>
-                    ) : (
-                      <Select 
-                        value={selectedStatusId?.toString() || ""} 
-                        onValueChange={(value) => setSelectedStatusId(Number(value))}
-                      >
-                        <SelectTrigger className="mt-1" data-testid="status-select">
-                          <SelectValue placeholder="Select a status" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {orderStatusTypes.map((status) => (
-                            <SelectItem key={status.id} value={status.id.toString()}>
-                              <div className="flex items-center space-x-2">
-                                <span>{status.name}</span>
-                              </div>
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    )}
-                  </div>
-
-                  <div className="flex items-center space-x-2 pt-4">
-                    <Button 
-                      variant="outline" 
-                      className="flex-1"
-                      onClick={() => {
-                        setIsUpdateOrderStatusModalOpen(false);
-                        setSelectedStatusId(null);
-                        setSelectedOrderId(null);
-                      }}
-                      data-testid="button-cancel-status"
-                    >
-                      Cancel
-                    </Button>
-                    <Button 
-                      className="flex-1 bg-green-500 hover:bg-green-600"
-                      disabled={!selectedStatusId || isUpdatingStatus}
-                      onClick={async () => {
-                        if (!selectedStatusId || !selectedOrder) return;
-                        
-                        setIsUpdatingStatus(true);
-                        try {
-                          await ordersApi.updateOrderStatus(selectedOrder.id, selectedStatusId, 'Status updated via chef dashboard');
-                          
-                          // Refresh the orders list to show the updated status
-                          refetchOrders();
-                          
-                          // Close the modal and reset state
-                          setIsUpdateOrderStatusModalOpen(false);
-                          setSelectedStatusId(null);
-                          setSelectedOrderId(null);
-                          
-                          // Show success message
-                          toast({
-                            title: "Status Updated",
-                            description: `Order ${selectedOrder.orderNumber} status has been updated successfully.`,
-                          });
-                        } catch (error) {
-                          console.error('Failed to update order status:', error);
-                          toast({
-                            title: "Update Failed",
-                            description: "Failed to update order status. Please try again.",
-                            variant: "destructive",
-                          });
-                        } finally {
-                          setIsUpdatingStatus(false);
-                        }
-                      }}
-                      data-testid="button-update-status"
-                    >
-                      {isUpdatingStatus ? 'Updating...' : 'Update Status'}
-                    </Button>
-                  </div>
-                </div>
-              );
-            })()}
-          </DialogContent>
-        </Dialog>
-      )}
+      <UpdateOrderStatusDialog
+        open={isUpdateOrderStatusModalOpen}
+        onOpenChange={(open) => {
+          setIsUpdateOrderStatusModalOpen(open);
+          if (!open) setSelectedOrderId(null);
+        }}
+        order={isUpdateOrderStatusModalOpen ? paginatedOrders.find(o => o.id === selectedOrderId) || null : null}
+        statusTypes={orderStatusTypes}
+        isLoadingStatusTypes={isLoadingStatusTypes}
+        statusTypesError={statusTypesError}
+        source="Status updated via chef dashboard"
+        onUpdated={() => {
+          // Refresh the orders list to show the updated status
+          refetchOrders();
+        }}
+      />
     </div>
   );
 };
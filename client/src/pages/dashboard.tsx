@@ -37,7 +37,7 @@ export default function Dashboard() {
   const [selectedPeriod, setSelectedPeriod] = useState<"today" | "this_week" | "this_month">("today");
 
   // Fetch dashboard data
-  const { data: dashboardStats, isLoading: statsLoading } = useQuery({
+  const { data: dashboardStats, isLoading: statsLoading } = useQuery<DashboardStats>({
     queryKey: ['/api/dashboard/stats', selectedPeriod],
     enabled: false
   });
@@ -97,6 +97,10 @@ export default function Dashboard() {
   // Format currency
   const formatCurrency = (amount: number) => `$${(amount / 100).toLocaleString()}`;
 
+  // Revenue is shown net of refunds given in the period
+  const totalRefunds = dashboardStats?.totalRefunds || 0;
+  const netRevenue = dashboardStats ? dashboardStats.totalRevenue - totalRefunds : null;
+
   // Current occupancy percentage
   const currentOccupancy = (occupancyData as any)?.occupancyPercentage || 75;
 
@@ -145,8 +149,17 @@ export default function Dashboard() {
           </CardHeader>
           <CardContent className="relative z-10 pt-0">
             <div className="text-2xl font-bold text-gray-900">
-              {formatCurrency((dashboardStats as any)?.totalRevenue || 85420)}
+              {netRevenue === null ? (
+                <span className="text-gray-400" data-testid="text-revenue-empty">No data</span>
+              ) : (
+                formatCurrency(netRevenue)
+              )}
             </div>
+            {totalRefunds > 0 && (
+              <p className="text-xs text-red-600 mt-1" data-testid="text-total-refunds">
+                after {formatCurrency(totalRefunds)} in refunds
+              </p>
+            )}
             <div className="flex items-center mt-2">
               <TrendingUp className="h-3 w-3 mr-1 text-[#15803d]" />
               <span className="text-xs text-[#15803d] font-medium">+12.5% from last week</span>
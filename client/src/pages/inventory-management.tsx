@@ -11,6 +11,7 @@ import {
   X,
   Package,
   ExternalLink,
+  ClipboardList,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -38,9 +39,14 @@ import SimpleDeleteModal from "@/components/simple-delete-modal";
 import StockUpdateModal from "@/components/stock-update-modal";
 import PurchaseOrderModal from "@/components/purchase-order-modal";
 import PurchaseOrderViewModal from "@/components/purchase-order-view-modal";
+import GeneratePurchaseOrdersModal from "@/components/generate-purchase-orders-modal";
 import RecipeModal from "@/components/recipe-modal";
 import StockWastageModal from "@/components/stock-wastage-modal";
 import UtilityExpenseModal from "@/components/utility-expense-modal";
+import InventoryDepletionLog from "@/components/inventory-depletion-log";
+import InventoryVarianceReport from "@/components/inventory-variance-report";
+import RecipeCostingReport from "@/components/recipe-costing-report";
+import SupplierDiscrepancyReport from "@/components/supplier-discrepancy-report";
 import ViewUtilityExpenseModal from "@/components/view-utility-expense-modal";
 import { Badge } from "@/components/ui/badge";
 import { Recipe, RecipeDetail } from "@/types/schema";
@@ -51,6 +57,10 @@ import {
   PaginationResponse,
 } from "@/types/pagination";
 import { ColumnSearchPopover } from "@/components/ColumnSearchPopover";
+import { ExportMenu } from "@/components/export-menu";
+import { ExportColumn } from "@/utils/tableExport";
+import { purchaseOrderStatusMap } from "@/utils/purchaseOrderReceiving";
+import { getParLevel } from "@/utils/purchaseOrderSuggestions";
 
 interface InventoryCategory {
   id: number;
@@ -75,6 +85,7 @@ interface InventoryItem {
   categoryName: string;
   unit: string;
   reorderLevel: number;
+  parLevel?: number | null;
   defaultSupplierName: string | null;
 }
 
@@ -125,17 +136,58 @@ interface UtilityExpense {
   isActive: boolean;
 }
 
-const purchaseOrderStatusMap: {
-  [key: number]: {
-    label: string;
-    variant: "default" | "secondary" | "outline" | "destructive";
-  };
-} = {
-  0: { label: "Draft", variant: "secondary" },
-  1: { label: "Ordered", variant: "default" },
-  2: { label: "Received", variant: "outline" },
-  3: { label: "Cancelled", variant: "destructive" },
-};
+// Export columns for the paginated tables
+const ITEM_EXPORT_COLUMNS: ExportColumn<InventoryItem>[] = [
+  { header: "Item Name", value: (item) => item.name },
+  { header: "Category", value: (item) => item.categoryName },
+  { header: "Unit", value: (item) => item.unit },
+  { header: "Reorder Level", type: "number", value: (item) => item.reorderLevel },
+  { header: "Par Level", type: "number", value: (item) => item.parLevel ?? null },
+  { header: "Default Supplier", value: (item) => item.defaultSupplierName },
+];
+
+const STOCK_EXPORT_COLUMNS: ExportColumn<StockItem>[] = [
+  { header: "Item Name", value: (item) => item.itemName },
+  { header: "Current Stock", type: "number", value: (item) => item.currentStock },
+  { header: "Unit", value: (item) => item.unit },
+];
+
+const LOW_STOCK_EXPORT_COLUMNS: ExportColumn<LowStockItem>[] = [
+  { header: "Item Name", value: (item) => item.itemName },
+  { header: "Current Stock", type: "number", value: (item) => item.currentStock },
+  { header: "Reorder Level", type: "number", value: (item) => item.reorderLevel },
+  { header: "Unit", value: (item) => item.unit },
+];
+
+const PURCHASE_ORDER_EXPORT_COLUMNS: ExportColumn<PurchaseOrder>[] = [
+  { header: "Order ID", value: (order) => order.id },
+  { header: "Supplier", value: (order) => order.supplierName },
+  { header: "Branch", value: (order) => order.branchName },
+  { header: "Order Date", type: "datetime", value: (order) => order.orderDate },
+  {
+    header: "Status",
+    value: (order) => purchaseOrderStatusMap[order.status]?.label || "Unknown",
+  },
+  { header: "Total", type: "currency", value: (order) => order.totalAmount },
+];
+
+const WASTAGE_EXPORT_COLUMNS: ExportColumn<WastageItem>[] = [
+  { header: "Item Name", value: (item) => item.itemName },
+  { header: "Quantity", type: "number", value: (item) => item.quantity },
+  { header: "Reason", value: (item) => item.reason },
+  { header: "Branch", value: (item) => item.branchName },
+  { header: "Recorded At", type: "datetime", value: (item) => item.createdAt },
+];
+
+const EXPENSE_EXPORT_COLUMNS: ExportColumn<UtilityExpense>[] = [
+  { header: "Utility Type", value: (expense) => expense.utilityType },
+  { header: "Bill Number", value: (expense) => expense.billNumber },
+  { header: "Usage Units", type: "number", value: (expense) => expense.usageUnit },
+  { header: "Unit Cost", type: "currency", value: (expense) => expense.unitCost },
+  { header: "Total Cost", type: "currency", value: (expense) => expense.totalCost },
+  { header: "Billing Start", type: "date", value: (expense) => expense.billingPeriodStart },
+  { header: "Billing End", type: "date", value: (expense) => expense.billingPeriodEnd },
+];
 
 export default function InventoryManagement() {
   const [location, navigate] = useLocation();
@@ -161,6 +213,8 @@ export default function InventoryManagement() {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showStockUpdateModal, setShowStockUpdateModal] = useState(false);
   const [showPurchaseOrderModal, setShowPurchaseOrderModal] = useState(false);
+  const [showGeneratePurchaseOrdersModal, setShowGeneratePurchaseOrdersModal] =
+    useState(false);
   const [showPurchaseOrderViewModal, setShowPurchaseOrderViewModal] =
     useState(false);
   const [showRecipeModal, setShowRecipeModal] = useState(false);
@@ -263,6 +317,12 @@ export default function InventoryManagement() {
     enabled: !!branchId,
   });
 
+  // Amounts in branch currency, dates in branch time
+  const exportContext = {
+    currency: branchData?.currency,
+    timeZone: branchData?.timeZone,
+  };
+
   // Fetch inventory categories (lazy load)
   const {
     data: categoriesData,
@@ -774,7 +834,7 @@ export default function InventoryManagement() {
         className="space-y-6"
       >
         <TabsList
-          className="grid grid-cols-6 w-full"
+          className="grid grid-cols-7 w-full"
           data-testid="inventory-tabs"
         >
           <TabsTrigger
@@ -813,6 +873,12 @@ export default function InventoryManagement() {
           >
             Recipes
           </TabsTrigger>
+          <TabsTrigger
+            value="food-cost"
+            className="data-[state=active]:bg-green-500 data-[state=active]:text-white"
+          >
+            Food Cost
+          </TabsTrigger>
         </TabsList>
 
         {/* Categories Tab */}
@@ -1211,6 +1277,22 @@ export default function InventoryManagement() {
         {/* Items Tab */}
         <TabsContent value="items" className="space-y-6">
           <div className="flex justify-end items-center gap-4">
+            <ExportMenu
+              fileName="inventory-items"
+              sheetName="Inventory Items"
+              columns={ITEM_EXPORT_COLUMNS}
+              fetchPage={async (pageNumber, pageSize) =>
+                (await inventoryApi.getInventoryItemsByBranch(branchId, {
+                  PageNumber: pageNumber,
+                  PageSize: pageSize,
+                  SortBy: "name",
+                  IsAscending: true,
+                  SearchTerm: itemsSearch,
+                })) as PaginationResponse<InventoryItem>
+              }
+              context={exportContext}
+              data-testid="button-export-items"
+            />
             <Button
               className="bg-green-500 hover:bg-green-600 text-white"
               onClick={() => setShowAddItemModal(true)}
@@ -1246,6 +1328,7 @@ export default function InventoryManagement() {
                   <TableHead>Category</TableHead>
                   <TableHead>Unit</TableHead>
                   <TableHead>Reorder Level</TableHead>
+                  <TableHead>Par Level</TableHead>
                   <TableHead>Default Supplier</TableHead>
                   <TableHead className="w-[120px]">Actions</TableHead>
                 </TableRow>
@@ -1272,12 +1355,15 @@ export default function InventoryManagement() {
                       <TableCell>
                         <div className="h-4 bg-gray-200 rounded animate-pulse"></div>
                       </TableCell>
+                      <TableCell>
+                        <div className="h-4 bg-gray-200 rounded animate-pulse"></div>
+                      </TableCell>
                     </TableRow>
                   ))
                 ) : items.length === 0 ? (
                   <TableRow>
                     <TableCell
-                      colSpan={6}
+                      colSpan={7}
                       className="text-center py-8 text-gray-500"
                     >
                       No items found
@@ -1301,6 +1387,13 @@ export default function InventoryManagement() {
                       <TableCell data-testid={`item-reorder-${item.id}`}>
                         {item.reorderLevel}
                       </TableCell>
+                      <TableCell data-testid={`item-par-${item.id}`}>
+                        {item.parLevel ?? (
+                          <span className="text-gray-400">
+                            {getParLevel(item)}
+                          </span>
+                        )}
+                      </TableCell>
                       <TableCell data-testid={`item-supplier-${item.id}`}>
                         {item.defaultSupplierName || "N/A"}
                       </TableCell>
@@ -1426,7 +1519,7 @@ export default function InventoryManagement() {
             className="space-y-6"
           >
             <TabsList
-              className="grid grid-cols-4 w-full"
+              className="grid grid-cols-7 w-full"
               data-testid="stock-sub-tabs"
             >
               <TabsTrigger
@@ -1453,10 +1546,46 @@ export default function InventoryManagement() {
               >
                 Stock Wastage
               </TabsTrigger>
+              <TabsTrigger
+                value="depletion-log"
+                className="data-[state=active]:bg-green-500 data-[state=active]:text-white"
+              >
+                Depletion Log
+              </TabsTrigger>
+              <TabsTrigger
+                value="variance"
+                className="data-[state=active]:bg-green-500 data-[state=active]:text-white"
+              >
+                Variance
+              </TabsTrigger>
+              <TabsTrigger
+                value="discrepancies"
+                className="data-[state=active]:bg-green-500 data-[state=active]:text-white"
+              >
+                Supplier Discrepancies
+              </TabsTrigger>
             </TabsList>
 
             {/* Manage Stock Sub-tab */}
             <TabsContent value="manage-stock" className="space-y-6">
+              <div className="flex justify-end items-center gap-4">
+                <ExportMenu
+                  fileName="inventory-stock"
+                  sheetName="Stock"
+                  columns={STOCK_EXPORT_COLUMNS}
+                  fetchPage={async (pageNumber, pageSize) =>
+                    (await inventoryApi.getInventoryStockByBranch(branchId, {
+                      PageNumber: pageNumber,
+                      PageSize: pageSize,
+                      SortBy: "itemName",
+                      IsAscending: true,
+                      SearchTerm: stockSearch,
+                    })) as PaginationResponse<StockItem>
+                  }
+                  context={exportContext}
+                  data-testid="button-export-stock"
+                />
+              </div>
               <div className="bg-white rounded-lg border">
                 <Table>
                   <TableHeader>
@@ -1643,6 +1772,32 @@ export default function InventoryManagement() {
 
             {/* Low Stock Sub-tab */}
             <TabsContent value="low-stock" className="space-y-6">
+              <div className="flex justify-end items-center gap-4">
+                <ExportMenu
+                  fileName="inventory-low-stock"
+                  sheetName="Low Stock"
+                  columns={LOW_STOCK_EXPORT_COLUMNS}
+                  fetchPage={async (pageNumber, pageSize) =>
+                    (await inventoryApi.getInventoryLowStockByBranch(branchId, {
+                      PageNumber: pageNumber,
+                      PageSize: pageSize,
+                      SortBy: "itemName",
+                      IsAscending: true,
+                      SearchTerm: lowStockSearch,
+                    })) as PaginationResponse<LowStockItem>
+                  }
+                  context={exportContext}
+                  data-testid="button-export-low-stock"
+                />
+                <Button
+                  className="bg-green-500 hover:bg-green-600 text-white"
+                  onClick={() => setShowGeneratePurchaseOrdersModal(true)}
+                  data-testid="button-generate-purchase-orders"
+                >
+                  <ClipboardList className="w-4 h-4 mr-2" />
+                  Generate Purchase Orders
+                </Button>
+              </div>
               <div className="bg-white rounded-lg border">
                 <Table>
                   <TableHeader>
@@ -1813,6 +1968,22 @@ export default function InventoryManagement() {
             {/* Purchase Orders Sub-tab */}
             <TabsContent value="purchase-orders" className="space-y-6">
               <div className="flex justify-end items-center gap-4">
+                <ExportMenu
+                  fileName="purchase-orders"
+                  sheetName="Purchase Orders"
+                  columns={PURCHASE_ORDER_EXPORT_COLUMNS}
+                  fetchPage={async (pageNumber, pageSize) =>
+                    (await inventoryApi.getPurchaseOrdersByBranch(branchId, {
+                      PageNumber: pageNumber,
+                      PageSize: pageSize,
+                      SortBy: "supplierName",
+                      IsAscending: true,
+                      SearchTerm: purchaseOrdersSearch,
+                    })) as PaginationResponse<PurchaseOrder>
+                  }
+                  context={exportContext}
+                  data-testid="button-export-purchase-orders"
+                />
                 <Button
                   className="bg-green-500 hover:bg-green-600 text-white"
                   onClick={() => setShowPurchaseOrderModal(true)}
@@ -2054,14 +2225,37 @@ export default function InventoryManagement() {
                     />
                   </div>
                 </div>
-                <Button
-                  className="bg-red-500 hover:bg-red-600 text-white"
-                  onClick={() => setShowStockWastageModal(true)}
-                  data-testid="button-add-wastage"
-                >
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Wastage
-                </Button>
+                <div className="flex items-center gap-4">
+                  <ExportMenu
+                    fileName="stock-wastage"
+                    sheetName="Wastage"
+                    columns={WASTAGE_EXPORT_COLUMNS}
+                    fetchPage={async (pageNumber, pageSize) =>
+                      (await inventoryApi.getInventoryWastageByBranch(
+                        branchId,
+                        wastageFromDate,
+                        wastageToDate,
+                        {
+                          PageNumber: pageNumber,
+                          PageSize: pageSize,
+                          SortBy: "itemName",
+                          IsAscending: true,
+                          SearchTerm: wastageSearch,
+                        },
+                      )) as PaginationResponse<WastageItem>
+                    }
+                    context={exportContext}
+                    data-testid="button-export-wastage"
+                  />
+                  <Button
+                    className="bg-red-500 hover:bg-red-600 text-white"
+                    onClick={() => setShowStockWastageModal(true)}
+                    data-testid="button-add-wastage"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Wastage
+                  </Button>
+                </div>
               </div>
 
               <div className="bg-white rounded-lg border">
@@ -2231,12 +2425,51 @@ export default function InventoryManagement() {
                 </div>
               </div>
             </TabsContent>
+
+            {/* Depletion Log Sub-tab */}
+            <TabsContent value="depletion-log" className="space-y-6">
+              <InventoryDepletionLog branchId={branchId} />
+            </TabsContent>
+
+            {/* Variance Report Sub-tab */}
+            <TabsContent value="variance" className="space-y-6">
+              <InventoryVarianceReport
+                branchId={branchId}
+                currency={branchData?.currency}
+                exportContext={exportContext}
+              />
+            </TabsContent>
+
+            {/* Supplier Discrepancies Sub-tab */}
+            <TabsContent value="discrepancies" className="space-y-6">
+              <SupplierDiscrepancyReport
+                branchId={branchId}
+                currency={branchData?.currency}
+                exportContext={exportContext}
+              />
+            </TabsContent>
           </Tabs>
         </TabsContent>
 
         {/* Expense Management Tab */}
         <TabsContent value="expense" className="space-y-6">
           <div className="flex justify-end items-center gap-4">
+            <ExportMenu
+              fileName="utility-expenses"
+              sheetName="Utility Expenses"
+              columns={EXPENSE_EXPORT_COLUMNS}
+              fetchPage={async (pageNumber, pageSize) =>
+                (await inventoryApi.getUtilityExpensesByBranch(branchId, {
+                  PageNumber: pageNumber,
+                  PageSize: pageSize,
+                  SortBy: "utilityType",
+                  IsAscending: true,
+                  SearchTerm: expensesSearch,
+                })) as PaginationResponse<UtilityExpense>
+              }
+              context={exportContext}
+              data-testid="button-export-expenses"
+            />
             <Button
               className="bg-orange-500 hover:bg-orange-600 text-white"
               onClick={() => setShowUtilityExpenseModal(true)}
@@ -2667,6 +2900,16 @@ export default function InventoryManagement() {
             </div>
           </div>
         </TabsContent>
+
+        {/* Food Cost Tab */}
+        <TabsContent value="food-cost" className="space-y-6">
+          <RecipeCostingReport
+            branchId={branchId}
+            currency={branchData?.currency}
+            timeZone={branchData?.timeZone}
+            exportContext={exportContext}
+          />
+        </TabsContent>
       </Tabs>
 
       {/* Modals */}
@@ -2807,6 +3050,21 @@ export default function InventoryManagement() {
         />
       )}
 
+      {showGeneratePurchaseOrdersModal && (
+        <GeneratePurchaseOrdersModal
+          open={showGeneratePurchaseOrdersModal}
+          onClose={() => setShowGeneratePurchaseOrdersModal(false)}
+          branchId={branchId}
+          currency={branchData?.currency}
+          onSuccess={() => {
+            refetchPurchaseOrders();
+            queryClient.invalidateQueries({
+              queryKey: ["purchase-orders", branchId],
+            });
+          }}
+        />
+      )}
+
       {showPurchaseOrderViewModal && selectedPurchaseOrder && (
         <PurchaseOrderViewModal
           open={showPurchaseOrderViewModal}
@@ -14,10 +14,17 @@ import {
   Printer,
   Check,
   Bluetooth,
+  ChefHat,
+  ClipboardList,
+  Split,
+  Monitor,
+  Copy,
+  Pencil,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Table,
@@ -65,6 +72,21 @@ import AddTableModal from "@/components/add-table-modal";
 import EditTableModal from "@/components/edit-table-modal";
 import { ViewReservationModal } from "@/components/view-reservation-modal";
 import { ViewOrderReceiptModal } from "@/components/view-order-receipt-modal";
+import { UpdateOrderStatusDialog } from "@/components/update-order-status-dialog";
+import { BulkOrderActions } from "@/components/bulk-order-actions";
+import { OrderFiltersPopover } from "@/components/order-filters-popover";
+import { ExportMenu } from "@/components/export-menu";
+import { ZReportModal } from "@/components/z-report-modal";
+import { ShiftPanel } from "@/components/shift-panel";
+import { SplitBillEditor } from "@/components/split-bill-editor";
+import { RefundOrderDialog } from "@/components/refund-order-dialog";
+import {
+  ORDER_EXPORT_COLUMNS,
+  RESERVATION_EXPORT_COLUMNS,
+} from "@/utils/orderExport";
+import { useOrderFilters } from "@/hooks/useOrderFilters";
+import { getLifecycleState } from "@/utils/orderLifecycle";
+import { canModifyOrder } from "@/utils/orderModification";
 import AddMenuModal from "@/components/add-menu-modal";
 import AddCategoryModal from "@/components/add-category-modal";
 import AddSubMenuModal from "@/components/add-submenu-modal";
@@ -152,6 +174,8 @@ interface LocationApiResponse {
   capacity: number;
 }
 
+const ORDER_STATUS_TABS = ["All Orders", "Preparing", "Delivered", "Cancelled"];
+
 // Extended interface with branch name
 interface TableWithBranchData extends TableData {
   qrCode: string;
@@ -222,15 +246,16 @@ export default function Orders() {
   const { formatPrice: formatBranchPrice, getCurrencySymbol } =
     useBranchCurrency(branchId);
 
-  const [searchTerm, setSearchTerm] = useState("");
-  const [orderFilter, setOrderFilter] = useState("All Orders");
+  // Order filters live in the URL so filtered views can be shared
+  const { filters: orderFilters, setFilters: setOrderFilters, updateFilters: updateOrderFilters } =
+    useOrderFilters();
   const [itemsPerPage, setItemsPerPage] = useState(6);
   const [currentPage, setCurrentPage] = useState(1);
 
   // Reset to page 1 when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, orderFilter, itemsPerPage]);
+  }, [orderFilters, itemsPerPage]);
 
   // Pagination states for different tables
   const [menuCurrentPage, setMenuCurrentPage] = useState(1);
@@ -271,11 +296,13 @@ export default function Orders() {
   const [showAddServicesModal, setShowAddServicesModal] = useState(false);
   const [showPrinterModal, setShowPrinterModal] = useState(false);
   const [isPrinterConnected, setIsPrinterConnected] = useState(false);
+  const [showZReportModal, setShowZReportModal] = useState(false);
 
   // Listen to printer connection status changes
   useEffect(() => {
-    const handleConnectionChange = (connected: boolean) => {
-      setIsPrinterConnected(connected);
+    // Any connected printer profile counts
+    const handleConnectionChange = () => {
+      setIsPrinterConnected(bluetoothPrinterService.getConnectionStatus());
     };
     
     // Set initial status
@@ -341,9 +368,17 @@ export default function Orders() {
   );
   const [showViewOrderModal, setShowViewOrderModal] = useState(false);
   const [showUpdateStatusModal, setShowUpdateStatusModal] = useState(false);
-  const [selectedStatusId, setSelectedStatusId] = useState<number | null>(null);
-  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [showSplitBillModal, setShowSplitBillModal] = useState(false);
+  const [showRefundModal, setShowRefundModal] = useState(false);
+  // Bulk selection, kept across pages until the filters change
+  const [selectedOrdersById, setSelectedOrdersById] = useState<Map<number, DetailedOrder>>(new Map());
+
+  useEffect(() => {
+    setSelectedOrdersById(new Map());
+  }, [orderFilters, branchId]);
   const [showCreateOrderModal, setShowCreateOrderModal] = useState(false);
+  const [reorderSource, setReorderSource] = useState<DetailedOrder | null>(null);
+  const [modifySource, setModifySource] = useState<DetailedOrder | null>(null);
 
   // Get branch details for the current branch
   const { data: branchData } = useQuery<Branch>({
@@ -374,7 +409,8 @@ export default function Orders() {
 
       return response.data as LocationApiResponse[];
     },
-    enabled: activeMainTab === "tables", // LAZY LOADING: Only fetch when tables tab is active
+    // LAZY LOADING: Only fetch when the tables tab or the orders table filter needs it
+    enabled: activeMainTab === "tables" || activeMainTab === "orders",
     staleTime: 5 * 60 * 1000, // Cache for 5 minutes
     retry: 2,
   });
@@ -435,25 +471,18 @@ export default function Orders() {
       `/api/orders/branch/${branchId}`,
       currentPage,
       itemsPerPage,
-      searchTerm,
-      orderFilter,
+      orderFilters,
+      branchData?.timeZone,
     ],
     queryFn: async (): Promise<PaginationResponse<DetailedOrder>> => {
-      // Build search term that includes status filter
-      const effectiveSearchTerm =
-        orderFilter === "All Orders"
-          ? searchTerm
-          : searchTerm
-            ? `${searchTerm} ${orderFilter}`
-            : orderFilter;
-
       const result = await ordersApi.getOrdersByBranch(
         branchId,
         currentPage,
         itemsPerPage,
         "createdAt", // Sort by creation date
         false, // Descending order (newest first)
-        effectiveSearchTerm,
+        orderFilters,
+        branchData?.timeZone,
       );
 
       if (!result) {
@@ -536,6 +565,36 @@ export default function Orders() {
   const hasNext = paginationData?.hasNext || false;
   const hasPrevious = paginationData?.hasPrevious || false;
 
+  // Prefer the freshly fetched copy so bulk actions see the current status
+  const selectedOrders = Array.from(selectedOrdersById.values()).map(
+    (order) => paginatedOrders.find((item) => item.id === order.id) || order,
+  );
+  const allPageOrdersSelected =
+    paginatedOrders.length > 0 &&
+    paginatedOrders.every((order) => selectedOrdersById.has(order.id));
+  const somePageOrdersSelected = paginatedOrders.some((order) =>
+    selectedOrdersById.has(order.id),
+  );
+
+  const toggleOrderSelection = (order: DetailedOrder, checked: boolean) => {
+    setSelectedOrdersById((current) => {
+      const next = new Map(current);
+      if (checked) next.set(order.id, order);
+      else next.delete(order.id);
+      return next;
+    });
+  };
+
+  const togglePageSelection = (checked: boolean) => {
+    setSelectedOrdersById((current) => {
+      const next = new Map(current);
+      paginatedOrders.forEach((order) =>
+        checked ? next.set(order.id, order) : next.delete(order.id),
+      );
+      return next;
+    });
+  };
+
   // Helper functions for getting payment and status from DetailedOrder
   const getPaymentStatus = (order: DetailedOrder) => {
     // Assuming paid if total amount is greater than 0, adjust based on actual API structure
@@ -556,6 +615,29 @@ export default function Orders() {
     return order.orderStatus || "Preparing";
   };
 
+  // Amounts in branch currency, dates in branch time
+  const exportContext = {
+    currency: branchData?.currency,
+    timeZone: branchData?.timeZone,
+  };
+
+  // Status tabs are presets over the status filter
+  const getStatusTabIds = (tab: string) =>
+    tab === "All Orders"
+      ? []
+      : orderStatusTypes
+          .filter((status) => getLifecycleState(status.name) === tab.toLowerCase())
+          .map((status) => status.id);
+
+  const activeStatusTab =
+    ORDER_STATUS_TABS.find((tab) => {
+      const ids = getStatusTabIds(tab);
+      return (
+        ids.length === orderFilters.statusIds.length &&
+        ids.every((id) => orderFilters.statusIds.includes(id))
+      );
+    }) || "";
+
   const getOrderItems = (order: DetailedOrder) => {
     return (order.orderItems?.length || 0) + (order.orderPackages?.length || 0);
   };
@@ -598,12 +680,17 @@ export default function Orders() {
   };
 
   const handlePrintReceipt = async (order: DetailedOrder) => {
+    // Without a connected Bluetooth printer, print through the browser dialog instead
     if (!bluetoothPrinterService.getConnectionStatus()) {
-      toast({
-        title: "Printer Not Connected",
-        description: "Please connect your Bluetooth printer first. Go to /printer page to connect.",
-        variant: "destructive",
-      });
+      const { printBrowserReceipt } = await import('@/utils/printBrowserReceipt');
+      const result = await printBrowserReceipt(order);
+      if (!result.success) {
+        toast({
+          title: "Print Failed",
+          description: result.error || "Failed to open print dialog",
+          variant: "destructive",
+        });
+      }
       return;
     }
 
@@ -632,6 +719,41 @@ export default function Orders() {
     }
   };
 
+  const handlePrintKitchenTicket = async (order: DetailedOrder) => {
+    if (!bluetoothPrinterService.getConnectionStatus()) {
+      toast({
+        title: "Printer Not Connected",
+        description: "Please connect your Bluetooth printer first. Go to /printer page to connect.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const { printKitchenTickets } = await import('@/utils/printKitchenTicket');
+      const result = await printKitchenTickets(order);
+
+      if (result.success) {
+        toast({
+          title: "Kitchen Ticket Printed",
+          description: `Kitchen ticket for order ${order.orderNumber} has been printed successfully.`,
+        });
+      } else {
+        toast({
+          title: "Print Failed",
+          description: result.error || "Failed to print kitchen ticket",
+          variant: "destructive",
+        });
+      }
+    } catch (error: any) {
+      toast({
+        title: "Print Error",
+        description: error.message || "An error occurred while printing",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Query for menu items
   // Query for menu items with real API and pagination support using generic API repository
   // LAZY LOADING: Only fetch when menu tab is active
@@ -1201,15 +1323,26 @@ export default function Orders() {
             Restaurants
           </h1>
         </div>
-        <Button
-          onClick={() => setShowPrinterModal(true)}
-          variant={isPrinterConnected ? "default" : "outline"}
-          className={isPrinterConnected ? "bg-green-500 hover:bg-green-600 text-white" : "border-gray-300"}
-          data-testid="button-printer-connection"
-        >
-          <Bluetooth className="w-4 h-4 mr-2" />
-          {isPrinterConnected ? "Printer Connected" : "Connect Printer"}
-        </Button>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            className="border-gray-300"
+            onClick={() => setShowZReportModal(true)}
+            data-testid="button-end-of-day"
+          >
+            <ClipboardList className="w-4 h-4 mr-2" />
+            End of Day
+          </Button>
+          <Button
+            onClick={() => setShowPrinterModal(true)}
+            variant={isPrinterConnected ? "default" : "outline"}
+            className={isPrinterConnected ? "bg-green-500 hover:bg-green-600 text-white" : "border-gray-300"}
+            data-testid="button-printer-connection"
+          >
+            <Bluetooth className="w-4 h-4 mr-2" />
+            {isPrinterConnected ? "Printer Connected" : "Connect Printer"}
+          </Button>
+        </div>
       </div>
 
       {/* Subscription Management Section */}
@@ -1347,6 +1480,13 @@ export default function Orders() {
           >
             Orders
           </TabsTrigger>
+          <TabsTrigger
+            value="shifts"
+            className="min-w-[80px] bg-gray-100 text-gray-700 data-[state=active]:bg-green-500 data-[state=active]:text-white text-xs sm:text-sm px-2 sm:px-4"
+            data-testid="tab-shifts"
+          >
+            Shifts
+          </TabsTrigger>
           <TabsTrigger
             value="menu"
             className="min-w-[80px] bg-gray-100 text-gray-700 data-[state=active]:bg-green-500 data-[state=active]:text-white text-xs sm:text-sm px-2 sm:px-4"
@@ -1388,37 +1528,119 @@ export default function Orders() {
         <TabsContent value="orders" className="space-y-6">
           {/* Orders Filter Tabs */}
           <div className="flex items-center justify-between">
-            <Tabs value={orderFilter} onValueChange={setOrderFilter}>
-              <TabsList data-testid="order-filter-tabs">
-                <TabsTrigger value="All Orders">All Orders</TabsTrigger>
-                <TabsTrigger value="Preparing">Preparing</TabsTrigger>
-                <TabsTrigger value="Delivered">Delivered</TabsTrigger>
-                <TabsTrigger value="Cancelled">Cancelled</TabsTrigger>
-              </TabsList>
-            </Tabs>
-            <Button
-              className="bg-green-500 hover:bg-green-600 text-white"
-              onClick={() => setShowCreateOrderModal(true)}
-              data-testid="button-create-order"
-            >
-              <Plus className="w-4 h-4 mr-2" />
-              Create Order
-            </Button>
+            <div className="flex items-center space-x-2">
+              <Tabs
+                value={activeStatusTab}
+                onValueChange={(tab) =>
+                  updateOrderFilters({ statusIds: getStatusTabIds(tab) })
+                }
+              >
+                <TabsList data-testid="order-filter-tabs">
+                  {ORDER_STATUS_TABS.map((tab) => (
+                    <TabsTrigger key={tab} value={tab}>
+                      {tab}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+              <OrderFiltersPopover
+                filters={orderFilters}
+                onApply={setOrderFilters}
+                statusTypes={orderStatusTypes}
+                locations={tablesData}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <ExportMenu
+                fileName="orders"
+                sheetName="Orders"
+                columns={ORDER_EXPORT_COLUMNS}
+                fetchPage={(pageNumber, pageSize) =>
+                  ordersApi.getOrdersByBranch(
+                    branchId,
+                    pageNumber,
+                    pageSize,
+                    "createdAt",
+                    false,
+                    orderFilters,
+                    branchData?.timeZone,
+                  )
+                }
+                context={exportContext}
+                data-testid="button-export-orders"
+              />
+              <Button
+                variant="outline"
+                onClick={() => setLocation(`/pos${window.location.search}`)}
+                data-testid="button-pos-mode"
+              >
+                <Monitor className="w-4 h-4 mr-2" />
+                POS Mode
+              </Button>
+              <Button
+                className="bg-green-500 hover:bg-green-600 text-white"
+                onClick={() => {
+                  setReorderSource(null);
+                  setModifySource(null);
+                  setShowCreateOrderModal(true);
+                }}
+                data-testid="button-create-order"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Create Order
+              </Button>
+            </div>
           </div>
 
+          {/* Bulk Actions */}
+          <BulkOrderActions
+            selectedOrders={selectedOrders}
+            statusTypes={orderStatusTypes}
+            onSelectionChange={(orders) =>
+              setSelectedOrdersById(
+                new Map(orders.map((order) => [order.id, order])),
+              )
+            }
+            onStatusUpdated={() => {
+              queryClient.invalidateQueries({
+                queryKey: [`/api/orders/branch/${branchId}`],
+              });
+              refetchOrders();
+            }}
+            exportContext={exportContext}
+          />
+
           {/* Orders Table */}
           <div className="bg-white rounded-lg border">
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={
+                        allPageOrdersSelected
+                          ? true
+                          : somePageOrdersSelected
+                            ? "indeterminate"
+                            : false
+                      }
+                      onCheckedChange={(checked) =>
+                        togglePageSelection(checked === true)
+                      }
+                      aria-label="Select all orders on this page"
+                      data-testid="checkbox-select-all-orders"
+                    />
+                  </TableHead>
                   <TableHead>
                     <div className="flex items-center space-x-2">
                       <span>Orders</span>
                       <SearchTooltip
                         placeholder="Search orders, table..."
-                        onSearch={setSearchTerm}
-                        onClear={() => setSearchTerm("")}
-                        currentValue={searchTerm}
+                        onSearch={(value) =>
+                          updateOrderFilters({ searchTerm: value })
+                        }
+                        onClear={() => updateOrderFilters({ searchTerm: "" })}
+                        currentValue={orderFilters.searchTerm}
                       />
                     </div>
                   </TableHead>
@@ -1459,12 +1681,15 @@ export default function Orders() {
                       <TableCell>
                         <div className="h-4 bg-gray-200 rounded animate-pulse"></div>
                       </TableCell>
+                      <TableCell>
+                        <div className="h-4 bg-gray-200 rounded animate-pulse"></div>
+                      </TableCell>
                     </TableRow>
                   ))
                 ) : paginatedOrders.length === 0 ? (
                   <TableRow>
                     <TableCell
-                      colSpan={6}
+                      colSpan={7}
                       className="text-center py-8 text-gray-500"
                     >
                       No orders found for this branch.
@@ -1476,8 +1701,20 @@ export default function Orders() {
                       <ContextMenuTrigger asChild>
                         <TableRow
                           data-testid={`order-row-${order.id}`}
-                          className="cursor-pointer hover:bg-gray-50"
+                          className={`cursor-pointer hover:bg-gray-50 ${
+                            selectedOrdersById.has(order.id) ? "bg-green-50" : ""
+                          }`}
                         >
+                          <TableCell onClick={(e) => e.stopPropagation()}>
+                            <Checkbox
+                              checked={selectedOrdersById.has(order.id)}
+                              onCheckedChange={(checked) =>
+                                toggleOrderSelection(order, checked === true)
+                              }
+                              aria-label={`Select order ${order.orderNumber}`}
+                              data-testid={`checkbox-select-order-${order.id}`}
+                            />
+                          </TableCell>
                           <TableCell>
                             <div>
                               <div className="font-medium">
@@ -1559,15 +1796,6 @@ export default function Orders() {
                                       onClick={(e) => {
                                         e.stopPropagation();
                                         setSelectedOrder(order);
-                                        // Find the current status ID from orderStatusTypes
-                                        const currentStatus = orderStatusTypes.find(
-                                          (status) =>
-                                            status.name.toLowerCase() ===
-                                            order.orderStatus.toLowerCase(),
-                                        );
-                                        setSelectedStatusId(
-                                          currentStatus?.id || null,
-                                        );
                                         setShowUpdateStatusModal(true);
                                       }}
                                       data-testid={`button-update-order-${order.id}`}
@@ -1604,16 +1832,18 @@ export default function Orders() {
                           <Printer className="w-4 h-4 mr-2" />
                           Print Receipt
                         </ContextMenuItem>
+                        <ContextMenuItem
+                          onClick={() => {
+                            handlePrintKitchenTicket(order);
+                          }}
+                          data-testid={`context-print-kitchen-ticket-${order.id}`}
+                        >
+                          <ChefHat className="w-4 h-4 mr-2" />
+                          Print Kitchen Ticket
+                        </ContextMenuItem>
                         <ContextMenuItem
                           onClick={() => {
                             setSelectedOrder(order);
-                            // Find the current status ID from orderStatusTypes
-                            const currentStatus = orderStatusTypes.find(
-                              (status) =>
-                                status.name.toLowerCase() ===
-                                order.orderStatus.toLowerCase(),
-                            );
-                            setSelectedStatusId(currentStatus?.id || null);
                             setShowUpdateStatusModal(true);
                           }}
                           data-testid={`context-update-status-${order.id}`}
@@ -1621,6 +1851,40 @@ export default function Orders() {
                           <Edit className="w-4 h-4 mr-2" />
                           Update Order Status
                         </ContextMenuItem>
+                        <ContextMenuItem
+                          onClick={() => {
+                            setSelectedOrder(order);
+                            setShowSplitBillModal(true);
+                          }}
+                          data-testid={`context-split-bill-${order.id}`}
+                        >
+                          <Split className="w-4 h-4 mr-2" />
+                          Split Bill
+                        </ContextMenuItem>
+                        {canModifyOrder(order, orderStatusTypes) && (
+                          <ContextMenuItem
+                            onClick={() => {
+                              setReorderSource(null);
+                              setModifySource(order);
+                              setShowCreateOrderModal(true);
+                            }}
+                            data-testid={`context-modify-order-${order.id}`}
+                          >
+                            <Pencil className="w-4 h-4 mr-2" />
+                            Modify Order
+                          </ContextMenuItem>
+                        )}
+                        <ContextMenuItem
+                          onClick={() => {
+                            setModifySource(null);
+                            setReorderSource(order);
+                            setShowCreateOrderModal(true);
+                          }}
+                          data-testid={`context-reorder-${order.id}`}
+                        >
+                          <Copy className="w-4 h-4 mr-2" />
+                          Reorder
+                        </ContextMenuItem>
                       </ContextMenuContent>
                     </ContextMenu>
                   ))
@@ -1692,6 +1956,16 @@ export default function Orders() {
           </div>
         </TabsContent>
 
+        <TabsContent value="shifts" className="space-y-6">
+          {activeMainTab === "shifts" && (
+            <ShiftPanel
+              branchId={branchId}
+              currency={branchData?.currency}
+              timeZone={branchData?.timeZone}
+            />
+          )}
+        </TabsContent>
+
         <TabsContent value="menu" className="space-y-6">
           {/* Menu Filter Tabs */}
           <div className="flex items-center justify-between">
@@ -2410,6 +2684,24 @@ export default function Orders() {
           {/* Reservations Tab Content */}
           <div className="space-y-4">
             {/* Reservations are view-only - no add/edit functionality */}
+            <div className="flex justify-end">
+              <ExportMenu
+                fileName="reservations"
+                sheetName="Reservations"
+                columns={RESERVATION_EXPORT_COLUMNS}
+                fetchPage={(pageNumber, pageSize) =>
+                  reservationApi.getReservationsByBranch(
+                    branchId,
+                    pageNumber,
+                    pageSize,
+                    "createdAt",
+                    false,
+                  )
+                }
+                context={exportContext}
+                data-testid="button-export-reservations"
+              />
+            </div>
 
             {/* Reservations Table */}
             <div className="bg-white rounded-lg border">
@@ -3780,126 +4072,59 @@ export default function Orders() {
         getPaymentStatus={getPaymentStatus}
         formatOrderDate={formatOrderDate}
         formatOrderTime={formatOrderTime}
+        onSplitBill={() => {
+          setShowViewOrderModal(false);
+          setShowSplitBillModal(true);
+        }}
+        onRefund={() => {
+          setShowViewOrderModal(false);
+          setShowRefundModal(true);
+        }}
+        statusTypes={orderStatusTypes}
       />
 
-      {/* Update Order Status Modal */}
-      {showUpdateStatusModal && selectedOrder && (
-        <Dialog
-          open={showUpdateStatusModal}
-          onOpenChange={setShowUpdateStatusModal}
-        >
-          <DialogContent
-            className="sm:max-w-[425px]"
-            data-testid="update-order-status-modal"
-          >
-            <DialogHeader>
-              <DialogTitle data-testid="modal-title">
-                Update Order Status
-              </DialogTitle>
-              <DialogDescription data-testid="modal-description">
-                Update the status for order {selectedOrder.orderNumber}
-              </DialogDescription>
-            </DialogHeader>
-
-            <div className="space-y-4 py-4">
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Select Status</label>
-                {isLoadingStatusTypes ? (
-                  <div className="h-10 bg-gray-100 rounded animate-pulse"></div>
-                ) : statusTypesError ? (
-                  <div className="text-red-600 text-sm">
-                    Error loading status options
-                  </div>
-                ) : (
-                  <Select
-                    value={selectedStatusId?.toString() || ""}
-                    onValueChange={(value) =>
-                      setSelectedStatusId(Number(value))
-                    }
-                  >
-                    <SelectTrigger className="mt-1" data-testid="status-select">
-                      <SelectValue placeholder="Select a status" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {orderStatusTypes.map((status) => (
-                        <SelectItem
-                          key={status.id}
-                          value={status.id.toString()}
-                        >
-                          <div className="flex items-center space-x-2">
-                            <span>{status.name}</span>
-                          </div>
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                )}
-              </div>
-
-              <div className="flex items-center space-x-2 pt-4">
-                <Button
-                  variant="outline"
-                  className="flex-1"
-                  onClick={() => {
-                    setShowUpdateStatusModal(false);
-                    setSelectedStatusId(null);
-                    setSelectedOrder(null);
-                  }}
-                  data-testid="button-cancel-status"
-                >
-                  Cancel
-                </Button>
-                <Button
-                  className="flex-1 bg-green-500 hover:bg-green-600"
-                  disabled={!selectedStatusId || isUpdatingStatus}
-                  onClick={async () => {
-                    if (!selectedStatusId || !selectedOrder) return;
-
-                    setIsUpdatingStatus(true);
-                    try {
-                      await ordersApi.updateOrderStatus(
-                        selectedOrder.id,
-                        selectedStatusId,
-                        "Status updated via restaurant management",
-                      );
-
-                      // Refresh the orders list to show the updated status - use queryClient for better cache consistency
-                      queryClient.invalidateQueries({
-                        queryKey: [`/api/orders/branch/${branchId}`],
-                      });
-                      refetchOrders();
+      {/* Split Bill Editor */}
+      <SplitBillEditor
+        open={showSplitBillModal}
+        onOpenChange={setShowSplitBillModal}
+        order={selectedOrder}
+        onSaved={(splitBills) =>
+          setSelectedOrder((current) => (current ? { ...current, splitBills } : current))
+        }
+      />
 
-                      // Close the modal and reset state
-                      setShowUpdateStatusModal(false);
-                      setSelectedStatusId(null);
-                      setSelectedOrder(null);
+      {/* Refund Dialog */}
+      <RefundOrderDialog
+        open={showRefundModal}
+        onOpenChange={setShowRefundModal}
+        order={selectedOrder}
+        onRefunded={(refund) =>
+          setSelectedOrder((current) =>
+            current ? { ...current, refunds: [...(current.refunds || []), refund] } : current,
+          )
+        }
+      />
 
-                      // Show success message
-                      toast({
-                        title: "Status Updated",
-                        description: `Order ${selectedOrder.orderNumber} status has been updated successfully.`,
-                      });
-                    } catch (error) {
-                      console.error("Failed to update order status:", error);
-                      toast({
-                        title: "Update Failed",
-                        description:
-                          "Failed to update order status. Please try again.",
-                        variant: "destructive",
-                      });
-                    } finally {
-                      setIsUpdatingStatus(false);
-                    }
-                  }}
-                  data-testid="button-update-status"
-                >
-                  {isUpdatingStatus ? "Updating..." : "Update Status"}
-                </Button>
-              </div>
-            </div>
-          </DialogContent>
-        </Dialog>
-      )}
+      {/* Update Order Status Modal */}
+      <UpdateOrderStatusDialog
+        open={showUpdateStatusModal}
+        onOpenChange={(open) => {
+          setShowUpdateStatusModal(open);
+          if (!open) setSelectedOrder(null);
+        }}
+        order={showUpdateStatusModal ? selectedOrder : null}
+        statusTypes={orderStatusTypes}
+        isLoadingStatusTypes={isLoadingStatusTypes}
+        statusTypesError={statusTypesError}
+        source="Status updated via restaurant management"
+        onUpdated={() => {
+          // Refresh the orders list to show the updated status - use queryClient for better cache consistency
+          queryClient.invalidateQueries({
+            queryKey: [`/api/orders/branch/${branchId}`],
+          });
+          refetchOrders();
+        }}
+      />
 
       {/* Change Plan Dialog with Prorated Calculation */}
       <Dialog
@@ -4193,15 +4418,37 @@ export default function Orders() {
         onConnectionChange={(connected) => setIsPrinterConnected(connected)}
       />
 
+      {/* End-of-Day Z-Report Modal */}
+      <ZReportModal
+        open={showZReportModal}
+        onOpenChange={setShowZReportModal}
+        branchId={branchId}
+        branchName={branchData?.name}
+        currency={branchData?.currency}
+        timeZone={branchData?.timeZone}
+      />
+
       {/* Create Order Modal */}
       <CreateOrderModal
         isOpen={showCreateOrderModal}
-        onClose={() => setShowCreateOrderModal(false)}
+        onClose={() => {
+          setShowCreateOrderModal(false);
+          setReorderSource(null);
+          setModifySource(null);
+        }}
         branchId={branchId}
+        reorderFrom={reorderSource}
+        modifyOrder={modifySource}
+        statusTypes={orderStatusTypes}
+        onOrderModified={() => {
+          refetchOrders();
+          setModifySource(null);
+        }}
         onOrderCreated={(order) => {
           // Refresh orders list
           refetchOrders();
           setShowCreateOrderModal(false);
+          setReorderSource(null);
         }}
       />
     </div>
@@ -0,0 +1,1090 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeft,
+  Delete,
+  Minus,
+  PauseCircle,
+  Plus,
+  Printer,
+  RotateCcw,
+  ScanBarcode,
+  Send,
+  ShoppingCart,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRepository, ordersApi } from "@/lib/apiRepository";
+import { formatCurrency } from "@/lib/currencyUtils";
+import { getFullImageUrl } from "@/lib/imageUtils";
+import { MenuItemCustomizationModal } from "@/components/create-order-modal";
+import { bluetoothPrinterService } from "@/services/bluetoothPrinterService";
+import { printOrderReceipt } from "@/utils/printOrderReceipt";
+import { printBrowserReceipt } from "@/utils/printBrowserReceipt";
+import { convertUtcToLocalTime } from "@/utils/dateTimeUtils";
+import {
+  OrderItemSelection,
+  ParkedOrder,
+  addSelectionToCart,
+  buildOrderLinesPayload,
+  calculateDiscountedPrice,
+  calculateItemPrice,
+  calculateOrderTotals,
+  findByPlu,
+  getParkedOrders,
+  getSelectionName,
+  needsCustomization,
+  parkOrder,
+  parsePluEntry,
+  removeParkedOrder,
+} from "@/utils/orderCart";
+import type {
+  Branch,
+  BranchConfiguration,
+  CreateOrderItemCustomization,
+  CreateOrderItemModifier,
+  CreateOrderRequest,
+  CreateOrderResponse,
+  CustomerDeal,
+  CustomerMenuItem,
+  CustomerSearchMenuResponse,
+} from "@/types/schema";
+
+const AUTO_PRINT_KEY = "pos_auto_print";
+
+// Pseudo categories shown ahead of the menu's own
+const ALL_CATEGORY = "__all__";
+const DEALS_CATEGORY = "__deals__";
+
+const ORDER_TYPE_OPTIONS = [
+  { value: 3, label: "Dine In" },
+  { value: 2, label: "Take Away" },
+  { value: 1, label: "Delivery" },
+];
+
+const KEYPAD_KEYS = ["7", "8", "9", "4", "5", "6", "1", "2", "3", "*", "0", "C"];
+
+interface LocationData {
+  id: number;
+  name: string;
+}
+
+// Typing into a field keeps its keys; shortcuts only take the function keys
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable);
+
+export default function Pos() {
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const urlParams = new URLSearchParams(window.location.search);
+  const branchId = parseInt(urlParams.get("branchId") || "1", 10);
+
+  const [cart, setCart] = useState<OrderItemSelection[]>([]);
+  const [selectedLine, setSelectedLine] = useState<number | null>(null);
+  const [category, setCategory] = useState(ALL_CATEGORY);
+  const [search, setSearch] = useState("");
+  const [keypadEntry, setKeypadEntry] = useState("");
+  const [orderType, setOrderType] = useState(3);
+  const [selectedLocation, setSelectedLocation] = useState<number | null>(null);
+  const [customerName, setCustomerName] = useState("");
+  const [customerPhone, setCustomerPhone] = useState("");
+  const [deliveryAddress, setDeliveryAddress] = useState("");
+  const [specialInstruction, setSpecialInstruction] = useState("");
+  const [tipAmount, setTipAmount] = useState(0);
+  const [allergenIds, setAllergenIds] = useState<number[]>([]);
+  const [autoPrint, setAutoPrint] = useState(() => localStorage.getItem(AUTO_PRINT_KEY) !== "false");
+  const [parkedOrders, setParkedOrders] = useState<ParkedOrder[]>(() => getParkedOrders(branchId));
+  const [showRecall, setShowRecall] = useState(false);
+  const [itemToCustomize, setItemToCustomize] = useState<{ item: CustomerMenuItem; quantity: number } | null>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+
+  const { data: branch } = useQuery({
+    queryKey: ["branch", branchId],
+    queryFn: async () => {
+      const response = await apiRepository.call<Branch>(
+        "getBranchById",
+        "GET",
+        undefined,
+        {},
+        true,
+        { id: branchId }
+      );
+      if (response.error) throw new Error(response.error);
+      return response.data;
+    },
+  });
+
+  const { data: branchConfig } = useQuery({
+    queryKey: ["branchConfiguration", branchId],
+    queryFn: async () => {
+      const response = await apiRepository.call<BranchConfiguration>(
+        "getBranchConfiguration",
+        "GET",
+        undefined,
+        {},
+        true,
+        { id: branchId }
+      );
+      if (response.error) throw new Error(response.error);
+      return response.data;
+    },
+  });
+
+  const { data: locations } = useQuery({
+    queryKey: ["locations", branchId],
+    queryFn: async () => {
+      const response = await apiRepository.call<LocationData[]>(
+        "getLocationsByBranch",
+        "GET",
+        undefined,
+        {},
+        true,
+        { branchId }
+      );
+      if (response.error) throw new Error(response.error);
+      return response.data || [];
+    },
+  });
+
+  const { data: menuData, isLoading: isLoadingMenu } = useQuery({
+    queryKey: ["customerSearchMenu", branchId],
+    queryFn: async () => {
+      const response = await apiRepository.call<CustomerSearchMenuResponse>(
+        "getCustomerSearchMenu",
+        "GET",
+        undefined,
+        {},
+        true,
+        { branchId }
+      );
+      if (response.error) throw new Error(response.error);
+      return response.data;
+    },
+    enabled: !!branchId,
+  });
+
+  const { data: allergens } = useQuery({
+    queryKey: ["allergens"],
+    queryFn: async () => {
+      const response = await apiRepository.call<Array<{ id: number; name: string }>>(
+        "getAllergens",
+        "GET"
+      );
+      if (response.error) throw new Error(response.error);
+      return response.data || [];
+    },
+  });
+
+  const currency = branch?.currency || menuData?.currency || "PKR";
+  const formatPrice = (amount: number) => formatCurrency(amount, currency);
+  const totals = calculateOrderTotals(cart, branchConfig || {}, tipAmount);
+
+  const categories = useMemo(
+    () =>
+      Array.from(new Set((menuData?.menuItems || []).map((item) => item.categoryName).filter(Boolean))).sort(),
+    [menuData],
+  );
+
+  const term = search.trim().toLowerCase();
+  const visibleItems = useMemo(
+    () =>
+      category === DEALS_CATEGORY
+        ? []
+        : (menuData?.menuItems || []).filter(
+            (item) =>
+              (category === ALL_CATEGORY || item.categoryName === category) &&
+              (!term || item.name.toLowerCase().includes(term) || String(item.menuItemId) === term),
+          ),
+    [menuData, category, term],
+  );
+  const visibleDeals = useMemo(
+    () =>
+      category === ALL_CATEGORY || category === DEALS_CATEGORY
+        ? (menuData?.deals || []).filter((deal) => !term || deal.name.toLowerCase().includes(term))
+        : [],
+    [menuData, category, term],
+  );
+
+  useEffect(() => {
+    localStorage.setItem(AUTO_PRINT_KEY, String(autoPrint));
+  }, [autoPrint]);
+
+  // Keep the selected line on the cart after lines are removed
+  useEffect(() => {
+    if (selectedLine !== null && selectedLine >= cart.length) {
+      setSelectedLine(cart.length > 0 ? cart.length - 1 : null);
+    }
+  }, [cart.length, selectedLine]);
+
+  // A quantity typed on the keypad before an item is picked applies to that item
+  const takeKeypadQuantity = (): number => {
+    const quantity = /^\d+$/.test(keypadEntry) ? parseInt(keypadEntry, 10) : 1;
+    setKeypadEntry("");
+    return Math.max(1, quantity);
+  };
+
+  const addToCart = (selection: OrderItemSelection) => {
+    const next = addSelectionToCart(cart, selection);
+    setCart(next);
+    // Select the line the item landed on, merged or new
+    setSelectedLine(next.length > cart.length ? next.length - 1 : next.findIndex((line, i) => line !== cart[i]));
+  };
+
+  const addMenuItem = (item: CustomerMenuItem, quantity: number, variationId?: number) => {
+    if (!item.variations || item.variations.length === 0) {
+      toast({
+        title: "No variations available",
+        description: "This item doesn't have any variations to select.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // A scanned variation code or a plain item skips the options dialog
+    if (needsCustomization(item) && !(variationId && item.modifiers.length === 0 && item.customizations.length === 0)) {
+      setItemToCustomize({ item, quantity });
+      return;
+    }
+
+    const selectedVariation = variationId || item.variations[0].id;
+    addToCart({
+      type: "menuItem",
+      item,
+      quantity,
+      selectedVariation,
+      selectedModifiers: [],
+      selectedCustomizations: [],
+      price: calculateItemPrice(item, "menuItem", selectedVariation),
+    });
+  };
+
+  const addDeal = (deal: CustomerDeal, quantity: number) =>
+    addToCart({
+      type: "deal",
+      item: deal,
+      quantity,
+      selectedModifiers: [],
+      selectedCustomizations: [],
+      price: calculateItemPrice(deal, "deal"),
+    });
+
+  const addCustomizedMenuItem = (
+    item: CustomerMenuItem,
+    selectedVariation: number,
+    selectedModifiers: CreateOrderItemModifier[],
+    selectedCustomizations: CreateOrderItemCustomization[],
+  ) => {
+    addToCart({
+      type: "menuItem",
+      item,
+      quantity: itemToCustomize?.quantity || 1,
+      selectedVariation,
+      selectedModifiers,
+      selectedCustomizations,
+      price: calculateItemPrice(item, "menuItem", selectedVariation, selectedModifiers, selectedCustomizations),
+    });
+    setItemToCustomize(null);
+  };
+
+  /**
+   * Adds the entry from the keypad, search box or a barcode scanner
+   * @returns Whether anything was added
+   */
+  const enterPlu = (entry: string): boolean => {
+    if (!entry.trim()) return false;
+    const { quantity, code } = parsePluEntry(entry);
+    const match = findByPlu(menuData, code);
+
+    if (match?.type === "menuItem") {
+      addMenuItem(match.item, quantity, match.variationId);
+    } else if (match?.type === "deal") {
+      addDeal(match.item, quantity);
+    } else if (visibleItems.length + visibleDeals.length === 1 && !/^\d+$/.test(code)) {
+      // A search narrowed down to one tile adds that tile
+      if (visibleItems.length === 1) addMenuItem(visibleItems[0], quantity);
+      else addDeal(visibleDeals[0], quantity);
+    } else {
+      toast({
+        title: "Not Found",
+        description: `No menu item matches "${code}"`,
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const changeQuantity = (index: number, quantity: number) => {
+    if (quantity <= 0) {
+      setCart((current) => current.filter((_, i) => i !== index));
+      return;
+    }
+    setCart((current) => current.map((line, i) => (i === index ? { ...line, quantity } : line)));
+  };
+
+  const pressKey = (key: string) => {
+    if (key === "C") {
+      setKeypadEntry("");
+    } else if (key === "*") {
+      setKeypadEntry((entry) => (entry && !entry.includes("*") ? `${entry}*` : entry));
+    } else {
+      setKeypadEntry((entry) => entry + key);
+    }
+  };
+
+  const applyKeypadQuantity = () => {
+    if (selectedLine === null || !/^\d+$/.test(keypadEntry)) return;
+    changeQuantity(selectedLine, parseInt(keypadEntry, 10));
+    setKeypadEntry("");
+  };
+
+  const applyKeypadPlu = () => {
+    if (enterPlu(keypadEntry)) setKeypadEntry("");
+  };
+
+  const resetOrder = () => {
+    setCart([]);
+    setSelectedLine(null);
+    setKeypadEntry("");
+    setSelectedLocation(null);
+    setCustomerName("");
+    setCustomerPhone("");
+    setDeliveryAddress("");
+    setSpecialInstruction("");
+    setTipAmount(0);
+    setAllergenIds([]);
+  };
+
+  const holdOrder = (): boolean => {
+    if (cart.length === 0) return false;
+    const table = locations?.find((location) => location.id === selectedLocation)?.name;
+    const parked = parkOrder({
+      branchId,
+      label: customerName.trim() || table || `Held ${convertUtcToLocalTime(new Date().toISOString())}`,
+      items: cart,
+      orderType,
+      locationId: selectedLocation,
+      specialInstruction,
+      tipAmount,
+      allergenIds,
+      customerName,
+      customerPhone,
+      deliveryAddress,
+    });
+    setParkedOrders(getParkedOrders(branchId));
+    resetOrder();
+    toast({ title: "Order Held", description: `"${parked.label}" parked. Recall it with F8.` });
+    return true;
+  };
+
+  const recallOrder = (parked: ParkedOrder) => {
+    // Whatever is on screen is parked so nothing is lost
+    if (cart.length > 0) holdOrder();
+    removeParkedOrder(parked.id);
+    setParkedOrders(getParkedOrders(branchId));
+    setCart(parked.items);
+    setSelectedLine(parked.items.length > 0 ? 0 : null);
+    setOrderType(parked.orderType);
+    setSelectedLocation(parked.locationId);
+    setSpecialInstruction(parked.specialInstruction);
+    setTipAmount(parked.tipAmount);
+    setAllergenIds(parked.allergenIds);
+    setCustomerName(parked.customerName);
+    setCustomerPhone(parked.customerPhone);
+    setDeliveryAddress(parked.deliveryAddress);
+    setShowRecall(false);
+  };
+
+  const discardParkedOrder = (parked: ParkedOrder) => {
+    removeParkedOrder(parked.id);
+    setParkedOrders(getParkedOrders(branchId));
+  };
+
+  // Prefer the connected Bluetooth printer, otherwise use the browser print dialog
+  const printReceipt = async (orderId: number) => {
+    try {
+      const order = await ordersApi.getOrderById(orderId);
+      const result = bluetoothPrinterService.getConnectionStatus()
+        ? await printOrderReceipt(order)
+        : await printBrowserReceipt(order);
+      if (!result.success) throw new Error(result.error);
+    } catch (error: any) {
+      console.error("[POS] ❌ Receipt print failed:", error);
+      toast({
+        title: "Print Failed",
+        description: error?.message || "Failed to print receipt",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const submitOrderMutation = useMutation({
+    mutationFn: async () => {
+      if (orderType === 1 && (!customerName || !customerPhone || !deliveryAddress)) {
+        throw new Error("Please fill all required delivery details");
+      }
+      if (orderType === 2 && (!customerName || !customerPhone)) {
+        throw new Error("Please fill all required pickup details");
+      }
+
+      const request: CreateOrderRequest = {
+        branchId,
+        locationId: orderType === 3 ? selectedLocation : null,
+        deviceInfo: "POS-Web",
+        tipAmount,
+        username: localStorage.getItem("username") || "admin",
+        orderType,
+        specialInstruction,
+        ...buildOrderLinesPayload(cart),
+        deliveryDetails:
+          orderType === 1
+            ? {
+                fullName: customerName,
+                phoneNumber: customerPhone,
+                deliveryAddress,
+                deliveryInstruction: "",
+                prefferedDeliveryTime: "",
+              }
+            : null,
+        pickupDetails:
+          orderType === 2
+            ? { name: customerName, phoneNumber: customerPhone, pickupInstruction: "", prefferedPickupTime: "" }
+            : null,
+        splitBills: null,
+        allergenIds,
+      };
+
+      const response = await apiRepository.call<CreateOrderResponse>("createOrder", "POST", request);
+      if (response.error) throw new Error(response.error);
+      if (!response.data) throw new Error("Failed to create order");
+      return response.data;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Order Created",
+        description: `Order ${data.orderNumber} - ${formatPrice(data.totalAmount)}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/branch/${branchId}`] });
+      resetOrder();
+      searchRef.current?.focus();
+      if (autoPrint) printReceipt(data.orderId);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const submitOrder = () => {
+    if (cart.length === 0 || submitOrderMutation.isPending) return;
+    submitOrderMutation.mutate();
+  };
+
+  // Keyboard-first entry: digits and Enter drive the keypad, function keys the actions
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (itemToCustomize || showRecall) return;
+
+    switch (event.key) {
+      case "F2":
+        event.preventDefault();
+        searchRef.current?.focus();
+        searchRef.current?.select();
+        return;
+      case "F4":
+        event.preventDefault();
+        holdOrder();
+        return;
+      case "F8":
+        event.preventDefault();
+        setShowRecall(true);
+        return;
+      case "F9":
+        event.preventDefault();
+        submitOrder();
+        return;
+    }
+    if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      submitOrder();
+      return;
+    }
+    if (isEditableTarget(event.target)) return;
+
+    if (/^[0-9]$/.test(event.key) || event.key === "*") {
+      event.preventDefault();
+      pressKey(event.key);
+    } else if (event.key === "Backspace") {
+      event.preventDefault();
+      setKeypadEntry((entry) => entry.slice(0, -1));
+    } else if (event.key === "Escape") {
+      setKeypadEntry("");
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      applyKeypadPlu();
+    } else if (event.key.toLowerCase() === "q") {
+      applyKeypadQuantity();
+    } else if (selectedLine !== null && (event.key === "+" || event.key === "=")) {
+      changeQuantity(selectedLine, cart[selectedLine].quantity + 1);
+    } else if (selectedLine !== null && event.key === "-") {
+      changeQuantity(selectedLine, cart[selectedLine].quantity - 1);
+    } else if (selectedLine !== null && event.key === "Delete") {
+      changeQuantity(selectedLine, 0);
+    } else if (event.key === "ArrowDown" && cart.length > 0) {
+      event.preventDefault();
+      setSelectedLine((line) => (line === null ? 0 : Math.min(cart.length - 1, line + 1)));
+    } else if (event.key === "ArrowUp" && cart.length > 0) {
+      event.preventDefault();
+      setSelectedLine((line) => (line === null ? cart.length - 1 : Math.max(0, line - 1)));
+    }
+  };
+
+  // Re-bound every render so the handler sees the current cart
+  const keyHandlerRef = useRef(handleKeyDown);
+  keyHandlerRef.current = handleKeyDown;
+  useEffect(() => {
+    const listener = (event: KeyboardEvent) => keyHandlerRef.current(event);
+    window.addEventListener("keydown", listener);
+    return () => window.removeEventListener("keydown", listener);
+  }, []);
+
+  const backToOrders = () => {
+    const params = new URLSearchParams(window.location.search);
+    setLocation(`/restaurant-management?${params.toString()}`);
+  };
+
+  const renderPrice = (price: number, discount: CustomerMenuItem["discount"]) =>
+    discount ? (
+      <span className="flex items-center gap-1">
+        <span className="line-through text-xs text-gray-400">{formatPrice(price)}</span>
+        <span className="font-bold text-green-600">{formatPrice(calculateDiscountedPrice(price, discount))}</span>
+      </span>
+    ) : (
+      <span className="font-bold">{formatPrice(price)}</span>
+    );
+
+  const renderTile = (
+    key: string,
+    name: string,
+    picture: string,
+    price: React.ReactNode,
+    code: string,
+    onClick: () => void,
+    testId: string,
+  ) => (
+    <button
+      key={key}
+      type="button"
+      onClick={onClick}
+      className="flex flex-col text-left bg-white border border-gray-200 rounded-lg overflow-hidden hover:border-green-500 hover:shadow-md active:scale-[0.98] transition"
+      data-testid={testId}
+    >
+      <div className="h-24 w-full bg-gray-100 flex items-center justify-center">
+        {picture ? (
+          <img src={getFullImageUrl(picture)} alt={name} className="h-full w-full object-cover" loading="lazy" />
+        ) : (
+          <ShoppingCart className="w-8 h-8 text-gray-300" />
+        )}
+      </div>
+      <div className="p-2 flex-1 flex flex-col justify-between">
+        <p className="text-sm font-medium leading-tight line-clamp-2">{name}</p>
+        <div className="flex items-end justify-between mt-1 text-sm">
+          {price}
+          <span className="text-[10px] text-gray-400">{code}</span>
+        </div>
+      </div>
+    </button>
+  );
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-100" data-testid="pos-page">
+      {/* Top bar */}
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3 bg-white border-b">
+        <Button variant="outline" onClick={backToOrders} data-testid="button-pos-back">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Orders
+        </Button>
+        <div className="relative flex-1 min-w-[240px]">
+          <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            ref={searchRef}
+            autoFocus
+            placeholder="Search, PLU or scan barcode (F2) - e.g. 3*101"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.ctrlKey && !e.metaKey) {
+                e.preventDefault();
+                if (enterPlu(search)) setSearch("");
+              } else if (e.key === "Escape") {
+                setSearch("");
+                e.currentTarget.blur();
+              }
+            }}
+            className="pl-10"
+            data-testid="input-pos-search"
+          />
+        </div>
+        <div className="flex rounded-md border overflow-hidden" data-testid="pos-order-type">
+          {ORDER_TYPE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setOrderType(option.value)}
+              className={`px-3 py-2 text-sm ${orderType === option.value ? "bg-green-600 text-white" : "bg-white hover:bg-gray-50"}`}
+              data-testid={`button-pos-order-type-${option.value}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {orderType === 3 ? (
+          <Select
+            value={selectedLocation?.toString() || ""}
+            onValueChange={(value) => setSelectedLocation(parseInt(value, 10))}
+          >
+            <SelectTrigger className="w-44" data-testid="select-pos-location">
+              <SelectValue placeholder="Table/Location" />
+            </SelectTrigger>
+            <SelectContent>
+              {locations?.map((location) => (
+                <SelectItem key={location.id} value={location.id.toString()}>
+                  {location.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <>
+            <Input
+              className="w-40"
+              placeholder="Customer name *"
+              value={customerName}
+              onChange={(e) => setCustomerName(e.target.value)}
+              data-testid="input-pos-customer-name"
+            />
+            <Input
+              className="w-36"
+              placeholder="Phone *"
+              value={customerPhone}
+              onChange={(e) => setCustomerPhone(e.target.value)}
+              data-testid="input-pos-customer-phone"
+            />
+            {orderType === 1 && (
+              <Input
+                className="w-56"
+                placeholder="Delivery address *"
+                value={deliveryAddress}
+                onChange={(e) => setDeliveryAddress(e.target.value)}
+                data-testid="input-pos-delivery-address"
+              />
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-1 overflow-hidden">
+        {/* Categories */}
+        <div className="w-44 bg-white border-r overflow-y-auto p-2 space-y-1" data-testid="pos-categories">
+          {[
+            { value: ALL_CATEGORY, label: "All" },
+            ...categories.map((name) => ({ value: name, label: name })),
+            { value: DEALS_CATEGORY, label: "Deals" },
+          ].map((entry) => (
+            <button
+              key={entry.value}
+              type="button"
+              onClick={() => setCategory(entry.value)}
+              className={`w-full text-left px-3 py-3 rounded-md text-sm font-medium ${
+                category === entry.value ? "bg-green-600 text-white" : "hover:bg-gray-100 text-gray-700"
+              }`}
+              data-testid={`button-pos-category-${entry.label}`}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Item tiles */}
+        <div className="flex-1 overflow-y-auto p-4">
+          {isLoadingMenu ? (
+            <div className="text-center py-8 text-gray-500">Loading menu...</div>
+          ) : visibleItems.length + visibleDeals.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No items match</div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3">
+              {visibleItems.map((item) =>
+                renderTile(
+                  `item-${item.menuItemId}`,
+                  item.name,
+                  item.picture,
+                  renderPrice(item.variations[0]?.price || 0, item.discount),
+                  String(item.menuItemId),
+                  () => addMenuItem(item, takeKeypadQuantity()),
+                  `pos-item-${item.menuItemId}`,
+                ),
+              )}
+              {visibleDeals.map((deal) =>
+                renderTile(
+                  `deal-${deal.dealId}`,
+                  deal.name,
+                  deal.picture,
+                  renderPrice(deal.price, deal.discount),
+                  `D${deal.dealId}`,
+                  () => addDeal(deal, takeKeypadQuantity()),
+                  `pos-deal-${deal.dealId}`,
+                ),
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Cart */}
+        <div className="w-[380px] bg-white border-l flex flex-col">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <h2 className="font-semibold flex items-center gap-2">
+              <ShoppingCart className="w-5 h-5" />
+              Cart ({cart.reduce((sum, line) => sum + line.quantity, 0)})
+            </h2>
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <Printer className="w-3 h-3" />
+              Auto print
+              <Switch checked={autoPrint} onCheckedChange={setAutoPrint} data-testid="switch-pos-auto-print" />
+            </label>
+          </div>
+
+          <div className="flex-1 overflow-y-auto" data-testid="pos-cart">
+            {cart.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-8">Tap an item or scan a barcode</p>
+            ) : (
+              cart.map((line, index) => (
+                <div
+                  key={index}
+                  onClick={() => setSelectedLine(index)}
+                  className={`px-4 py-2 border-b cursor-pointer ${
+                    selectedLine === index ? "bg-green-50 border-l-4 border-l-green-600" : ""
+                  }`}
+                  data-testid={`pos-cart-line-${index}`}
+                >
+                  <div className="flex justify-between gap-2">
+                    <p className="text-sm font-medium">{getSelectionName(line)}</p>
+                    <span className="text-sm font-semibold whitespace-nowrap">
+                      {formatPrice(line.price * line.quantity)}
+                    </span>
+                  </div>
+                  {(line.selectedModifiers.length > 0 || line.selectedCustomizations.length > 0) && (
+                    <p className="text-xs text-gray-500">
+                      {[
+                        ...line.selectedModifiers.map((modifier) => {
+                          const name = (line.item as CustomerMenuItem).modifiers?.find((m) => m.id === modifier.modifierId)?.name;
+                          return `${modifier.quantity}x ${name}`;
+                        }),
+                        ...line.selectedCustomizations.map(
+                          (customization) =>
+                            (line.item as CustomerMenuItem).customizations
+                              ?.find((c) => c.id === customization.customizationId)
+                              ?.options.find((o) => o.id === customization.optionId)?.name,
+                        ),
+                      ]
+                        .filter(Boolean)
+                        .join(", ")}
+                    </p>
+                  )}
+                  <div className="flex items-center justify-between mt-1">
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          changeQuantity(index, line.quantity - 1);
+                        }}
+                        data-testid={`button-pos-decrease-${index}`}
+                      >
+                        <Minus className="w-3 h-3" />
+                      </Button>
+                      <span className="w-6 text-center text-sm">{line.quantity}</span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          changeQuantity(index, line.quantity + 1);
+                        }}
+                        data-testid={`button-pos-increase-${index}`}
+                      >
+                        <Plus className="w-3 h-3" />
+                      </Button>
+                    </div>
+                    <span className="text-xs text-gray-500">{formatPrice(line.price)} each</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        changeQuantity(index, 0);
+                      }}
+                      data-testid={`button-pos-remove-${index}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+
+            {cart.length > 0 && (
+              <div className="px-4 py-3 space-y-2">
+                <Input
+                  placeholder="Special instructions"
+                  value={specialInstruction}
+                  onChange={(e) => setSpecialInstruction(e.target.value)}
+                  data-testid="input-pos-special-instructions"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder={`Tip (${currency})`}
+                  value={tipAmount || ""}
+                  onChange={(e) => setTipAmount(parseFloat(e.target.value) || 0)}
+                  data-testid="input-pos-tip"
+                />
+                {allergens && allergens.length > 0 && (
+                  <div className="flex flex-wrap gap-1" data-testid="pos-allergens">
+                    {allergens.map((allergen) => {
+                      const selected = allergenIds.includes(allergen.id);
+                      return (
+                        <button
+                          key={allergen.id}
+                          type="button"
+                          onClick={() =>
+                            setAllergenIds(
+                              selected ? allergenIds.filter((id) => id !== allergen.id) : [...allergenIds, allergen.id],
+                            )
+                          }
+                          className={`px-2 py-1 rounded-full text-xs border ${
+                            selected ? "bg-red-100 border-red-300 text-red-700" : "border-gray-200 text-gray-600"
+                          }`}
+                          data-testid={`button-pos-allergen-${allergen.id}`}
+                        >
+                          {allergen.name}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Totals */}
+          <div className="px-4 py-2 border-t space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Subtotal</span>
+              <span data-testid="text-pos-subtotal">{formatPrice(totals.subTotal)}</span>
+            </div>
+            {totals.discountAmount > 0 && (
+              <div className="flex justify-between text-green-600">
+                <span>Discount</span>
+                <span>-{formatPrice(totals.discountAmount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-gray-600">Tax</span>
+              <span>{formatPrice(totals.taxAmount)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Service Charges</span>
+              <span>{formatPrice(totals.serviceCharges)}</span>
+            </div>
+            {tipAmount > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Tip</span>
+                <span>{formatPrice(tipAmount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between text-lg font-bold pt-1 border-t">
+              <span>Total</span>
+              <span data-testid="text-pos-total">{formatPrice(totals.totalAmount)}</span>
+            </div>
+          </div>
+
+          {/* Keypad */}
+          <div className="px-4 pb-2">
+            <div
+              className="h-10 mb-2 px-3 flex items-center justify-end rounded-md bg-gray-900 text-green-400 font-mono text-lg"
+              data-testid="text-pos-keypad-entry"
+            >
+              {keypadEntry || <span className="text-gray-500 text-sm">Qty or PLU</span>}
+            </div>
+            <div className="grid grid-cols-4 gap-1">
+              {KEYPAD_KEYS.slice(0, 3).map((key) => (
+                <Button key={key} variant="outline" className="h-11 text-lg" onClick={() => pressKey(key)} data-testid={`button-pos-key-${key}`}>
+                  {key}
+                </Button>
+              ))}
+              <Button variant="outline" className="h-11" onClick={() => setKeypadEntry((entry) => entry.slice(0, -1))} data-testid="button-pos-key-backspace">
+                <Delete className="w-4 h-4" />
+              </Button>
+              {KEYPAD_KEYS.slice(3, 6).map((key) => (
+                <Button key={key} variant="outline" className="h-11 text-lg" onClick={() => pressKey(key)} data-testid={`button-pos-key-${key}`}>
+                  {key}
+                </Button>
+              ))}
+              <Button
+                variant="outline"
+                className="h-11"
+                onClick={applyKeypadQuantity}
+                disabled={selectedLine === null || !/^\d+$/.test(keypadEntry)}
+                data-testid="button-pos-key-qty"
+              >
+                Qty
+              </Button>
+              {KEYPAD_KEYS.slice(6, 9).map((key) => (
+                <Button key={key} variant="outline" className="h-11 text-lg" onClick={() => pressKey(key)} data-testid={`button-pos-key-${key}`}>
+                  {key}
+                </Button>
+              ))}
+              <Button
+                variant="outline"
+                className="row-span-2 h-auto"
+                onClick={applyKeypadPlu}
+                disabled={!keypadEntry}
+                data-testid="button-pos-key-plu"
+              >
+                PLU
+              </Button>
+              {KEYPAD_KEYS.slice(9).map((key) => (
+                <Button key={key} variant="outline" className="h-11 text-lg" onClick={() => pressKey(key)} data-testid={`button-pos-key-${key}`}>
+                  {key === "*" ? "×" : key}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="grid grid-cols-3 gap-2 px-4 pb-2">
+            <Button variant="outline" onClick={holdOrder} disabled={cart.length === 0} data-testid="button-pos-hold">
+              <PauseCircle className="w-4 h-4 mr-1" />
+              Hold
+            </Button>
+            <Button variant="outline" onClick={() => setShowRecall(true)} data-testid="button-pos-recall">
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Recall{parkedOrders.length > 0 ? ` (${parkedOrders.length})` : ""}
+            </Button>
+            <Button
+              variant="outline"
+              className="text-red-600"
+              onClick={resetOrder}
+              disabled={cart.length === 0}
+              data-testid="button-pos-clear"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+          <div className="px-4 pb-4">
+            <Button
+              className="w-full h-14 text-lg bg-green-600 hover:bg-green-700 text-white"
+              onClick={submitOrder}
+              disabled={cart.length === 0 || submitOrderMutation.isPending}
+              data-testid="button-pos-submit"
+            >
+              <Send className="w-5 h-5 mr-2" />
+              {submitOrderMutation.isPending ? "Sending..." : `Submit ${formatPrice(totals.totalAmount)}`}
+            </Button>
+            <p className="text-[11px] text-gray-400 text-center mt-2">
+              F2 search · F4 hold · F8 recall · F9 submit · Q qty · +/- Del on selected line
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Recall parked orders */}
+      <Dialog open={showRecall} onOpenChange={setShowRecall}>
+        <DialogContent className="max-w-lg" data-testid="pos-recall-dialog">
+          <DialogHeader>
+            <DialogTitle>Recall Held Order</DialogTitle>
+            <DialogDescription>Orders held on this device. The current cart is held when you recall another.</DialogDescription>
+          </DialogHeader>
+          {parkedOrders.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4 text-center">No held orders</p>
+          ) : (
+            <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+              {parkedOrders.map((parked) => (
+                <div
+                  key={parked.id}
+                  className="flex items-center justify-between gap-2 border rounded-md p-3"
+                  data-testid={`pos-parked-${parked.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{parked.label}</p>
+                    <p className="text-xs text-gray-500">
+                      {convertUtcToLocalTime(parked.parkedAt)} ·{" "}
+                      {parked.items.reduce((sum, line) => sum + line.quantity, 0)} items ·{" "}
+                      {formatPrice(calculateOrderTotals(parked.items, branchConfig || {}, parked.tipAmount).totalAmount)}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button size="sm" onClick={() => recallOrder(parked)} data-testid={`button-pos-recall-${parked.id}`}>
+                      Recall
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600"
+                      onClick={() => discardParkedOrder(parked)}
+                      data-testid={`button-pos-discard-${parked.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Variation, modifier and customization picker */}
+      {itemToCustomize && (
+        <MenuItemCustomizationModal
+          isOpen={!!itemToCustomize}
+          onClose={() => setItemToCustomize(null)}
+          menuItem={itemToCustomize.item}
+          onAdd={addCustomizedMenuItem}
+          currency={currency}
+        />
+      )}
+    </div>
+  );
+}
@@ -2,12 +2,19 @@ import { useEffect, useState, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Bluetooth, Printer as PrinterIcon, CheckCircle, XCircle, Activity } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Printer as PrinterIcon, CheckCircle, XCircle, Activity, ListOrdered, RotateCcw, Trash2 } from "lucide-react";
 import { bluetoothPrinterService } from "@/services/bluetoothPrinterService";
+import { printQueueService, PrintJob } from "@/services/printQueueService";
+import KitchenStationSettings from "@/components/kitchen-station-settings";
+import ReceiptTemplateEditor from "@/components/receipt-template-editor";
+import BrowserPrintSettings from "@/components/browser-print-settings";
+import { PrinterProfilesCard, PrinterRoutingRulesCard } from "@/components/printer-profile-settings";
 import { signalRService } from "@/services/signalRService";
 import { toast } from "@/hooks/use-toast";
 import { apiRepository } from "@/lib/apiRepository";
 import { DetailedOrder } from "@/types/schema";
+import { getReceiptTemplate } from "@/utils/receiptLayout";
 
 interface LogEntry {
   timestamp: string;
@@ -17,9 +24,9 @@ interface LogEntry {
 
 export default function Printer() {
   const [isConnected, setIsConnected] = useState(false);
-  const [deviceName, setDeviceName] = useState<string>("");
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [isConnecting, setIsConnecting] = useState(false);
+  const [printJobs, setPrintJobs] = useState<PrintJob[]>(() => printQueueService.getJobs());
+  const [retryingJobId, setRetryingJobId] = useState<string | null>(null);
   const logsEndRef = useRef<HTMLDivElement>(null);
 
   const addLog = (type: LogEntry['type'], message: string) => {
@@ -86,7 +93,9 @@ export default function Printer() {
         };
 
         addLog('info', `Printing receipt for order ${order.orderNumber}...`);
-        const printResult = await bluetoothPrinterService.printReceipt(orderData);
+        const printResult = await bluetoothPrinterService.printReceipt(orderData, {
+          template: getReceiptTemplate(order.branchId),
+        });
 
         if (printResult.success) {
           addLog('success', `Receipt printed successfully for order ${order.orderNumber}`);
@@ -128,41 +137,66 @@ export default function Printer() {
     };
   }, [isConnected]);
 
-  const handleConnectPrinter = async () => {
-    setIsConnecting(true);
-    addLog('info', 'Attempting to connect to Bluetooth printer...');
+  // Reflect the shared printer connections, which may outlive this page
+  useEffect(() => {
+    // Any connected profile counts as ready
+    const handleConnectionChange = () => {
+      setIsConnected(bluetoothPrinterService.getConnectionStatus());
+    };
 
-    const result = await bluetoothPrinterService.connect();
+    handleConnectionChange();
+    bluetoothPrinterService.onConnectionChange(handleConnectionChange);
+
+    return () => {
+      bluetoothPrinterService.offConnectionChange(handleConnectionChange);
+    };
+  }, []);
+
+  // Keep the print queue card in sync with the queue service
+  useEffect(() => {
+    const handleQueueChange = (jobs: PrintJob[]) => setPrintJobs(jobs);
+    printQueueService.onQueueChange(handleQueueChange);
+    return () => {
+      printQueueService.offQueueChange(handleQueueChange);
+    };
+  }, []);
+
+  const handleReprintJob = async (job: PrintJob) => {
+    setRetryingJobId(job.id);
+    addLog('info', `Reprinting queued job for order ${job.orderNumber}...`);
+    const result = await printQueueService.retryJob(job.id);
+    setRetryingJobId(null);
 
     if (result.success) {
-      setIsConnected(true);
-      setDeviceName(result.deviceName || 'Bluetooth Printer');
-      addLog('success', `Connected to ${result.deviceName || 'Bluetooth Printer'}`);
+      addLog('success', `Queued job printed for order ${job.orderNumber}`);
       toast({
-        title: "Printer Connected",
-        description: `Successfully connected to ${result.deviceName}`,
+        title: "Receipt Printed",
+        description: `Order ${job.orderNumber} has been printed successfully.`,
       });
     } else {
-      addLog('error', `Connection failed: ${result.error || 'Unknown error'}`);
+      addLog('error', `Reprint failed: ${result.error || 'Unknown error'}`);
       toast({
-        title: "Connection Failed",
-        description: result.error || "Failed to connect to printer",
+        title: "Print Failed",
+        description: result.error || "Failed to print receipt",
         variant: "destructive",
       });
     }
+  };
 
-    setIsConnecting(false);
+  const handleDiscardJob = (job: PrintJob) => {
+    printQueueService.discardJob(job.id);
+    addLog('warning', `Discarded queued job for order ${job.orderNumber}`);
   };
 
-  const handleDisconnectPrinter = async () => {
-    await bluetoothPrinterService.disconnect();
-    setIsConnected(false);
-    setDeviceName("");
-    addLog('info', 'Disconnected from Bluetooth printer');
-    toast({
-      title: "Printer Disconnected",
-      description: "Bluetooth printer has been disconnected",
-    });
+  const getJobStatusBadge = (status: PrintJob['status']) => {
+    switch (status) {
+      case 'printing':
+        return <Badge className="bg-blue-100 text-blue-800">Printing</Badge>;
+      case 'failed':
+        return <Badge className="bg-red-100 text-red-800">Failed</Badge>;
+      default:
+        return <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>;
+    }
   };
 
   const getLogIcon = (type: LogEntry['type']) => {
@@ -202,62 +236,12 @@ export default function Printer() {
         </div>
       </div>
 
-      <div className="grid gap-6 md:grid-cols-2">
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Bluetooth className="h-5 w-5" />
-              Printer Connection
-            </CardTitle>
-            <CardDescription>
-              Connect your Bluetooth thermal printer to automatically print order receipts
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="flex items-center justify-between p-4 bg-muted rounded-lg" data-testid="container-connection-status">
-              <div className="flex items-center gap-3">
-                <div className={`h-3 w-3 rounded-full ${isConnected ? 'bg-green-500' : 'bg-gray-400'} animate-pulse`} data-testid="indicator-connection"></div>
-                <div>
-                  <p className="font-medium" data-testid="text-connection-status">
-                    {isConnected ? 'Connected' : 'Not Connected'}
-                  </p>
-                  {isConnected && deviceName && (
-                    <p className="text-sm text-muted-foreground" data-testid="text-device-name">{deviceName}</p>
-                  )}
-                </div>
-              </div>
-              <PrinterIcon className={`h-6 w-6 ${isConnected ? 'text-green-500' : 'text-gray-400'}`} />
-            </div>
+      <PrinterProfilesCard onLog={addLog} />
 
-            {!isConnected ? (
-              <Button 
-                onClick={handleConnectPrinter} 
-                className="w-full" 
-                disabled={isConnecting}
-                data-testid="button-connect-printer"
-              >
-                <Bluetooth className="mr-2 h-4 w-4" />
-                {isConnecting ? 'Connecting...' : 'Connect Printer'}
-              </Button>
-            ) : (
-              <Button 
-                onClick={handleDisconnectPrinter} 
-                variant="outline" 
-                className="w-full"
-                data-testid="button-disconnect-printer"
-              >
-                Disconnect Printer
-              </Button>
-            )}
+      <BrowserPrintSettings />
 
-            <div className="p-4 bg-blue-50 dark:bg-blue-950 rounded-lg border border-blue-200 dark:border-blue-800">
-              <p className="text-sm text-blue-800 dark:text-blue-200">
-                <strong>Note:</strong> Make sure your Bluetooth printer is turned on and in pairing mode before connecting.
-                This feature works best with ESC/POS compatible thermal printers.
-              </p>
-            </div>
-          </CardContent>
-        </Card>
+      <div className="grid gap-6 md:grid-cols-2">
+        <PrinterRoutingRulesCard />
 
         <Card>
           <CardHeader>
@@ -292,6 +276,99 @@ export default function Printer() {
         </Card>
       </div>
 
+      <ReceiptTemplateEditor />
+
+      <KitchenStationSettings />
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <ListOrdered className="h-5 w-5" />
+              Print Queue
+            </CardTitle>
+            <CardDescription>
+              Receipts that could not be printed are kept here and retried when the printer reconnects
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => printQueueService.processQueue()}
+              disabled={!isConnected || !printJobs.some(job => job.status === 'pending')}
+              data-testid="button-retry-print-queue"
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Retry Pending
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => printQueueService.clearFailed()}
+              disabled={!printJobs.some(job => job.status === 'failed')}
+              data-testid="button-clear-failed-jobs"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Clear Failed
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {printJobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-print-jobs">
+              No queued print jobs.
+            </p>
+          ) : (
+            <div className="space-y-2" data-testid="container-print-queue">
+              {printJobs.map(job => (
+                <div
+                  key={job.id}
+                  className="flex items-center justify-between gap-4 p-3 bg-muted rounded-lg"
+                  data-testid={`print-job-${job.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">Order #{job.orderNumber}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {job.documentType === 'kitchen-ticket' ? 'Kitchen ticket' : 'Receipt'}
+                      </span>
+                      {getJobStatusBadge(job.status)}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Queued {new Date(job.createdAt).toLocaleTimeString()} · {job.attempts} attempt{job.attempts === 1 ? '' : 's'}
+                    </p>
+                    {job.lastError && (
+                      <p className="text-xs text-red-600 dark:text-red-400 mt-1 truncate">{job.lastError}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      size="sm"
+                      onClick={() => handleReprintJob(job)}
+                      disabled={!isConnected || job.status === 'printing' || retryingJobId !== null}
+                      data-testid={`button-reprint-job-${job.id}`}
+                    >
+                      <PrinterIcon className="mr-2 h-4 w-4" />
+                      {retryingJobId === job.id ? 'Printing...' : 'Reprint'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDiscardJob(job)}
+                      disabled={job.status === 'printing'}
+                      data-testid={`button-discard-job-${job.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Activity Logs</CardTitle>
@@ -1,56 +1,314 @@
+import {
+  DEFAULT_RECEIPT_TEMPLATE,
+  KitchenTicketData,
+  ReceiptColumns,
+  ReceiptData,
+  ReceiptTemplate,
+  encodeEscPos,
+  layoutKitchenTicket,
+  layoutReceipt,
+} from '@/utils/receiptLayout';
+import { ZReport, layoutZReport } from '@/utils/zReport';
+import { layoutRefundSlip } from '@/utils/orderRefunds';
+import { DetailedOrder, OrderRefund, ZReportCloseout } from '@/types/schema';
+import { PrinterTransport, PrinterTransportType } from './printerTransport';
+import { networkPrinterTransport, DEFAULT_NETWORK_PRINTER_PORT } from './networkPrinterTransport';
+
+// Legacy single-printer keys, migrated into the first profile
 const PRINTER_DEVICE_ID_KEY = 'bluetooth_printer_device_id';
 const PRINTER_DEVICE_NAME_KEY = 'bluetooth_printer_device_name';
 
+const PRINTER_PROFILES_KEY = 'bluetooth_printer_profiles';
+const PRINTER_ROUTING_RULES_KEY = 'bluetooth_printer_routing_rules';
+
+export type PaperWidth = 58 | 80;
+
+export type PrintDocumentType = 'receipt' | 'kitchen-ticket' | 'end-of-day-report';
+
+export interface PrinterServiceUuids {
+  serviceUuid: string;
+  characteristicUuid: string;
+}
+
+export interface PrinterProfile {
+  id: string;
+  name: string;
+  // Defaults to Bluetooth for profiles saved before network printers were supported
+  transport?: PrinterTransportType;
+  deviceId?: string;
+  deviceName?: string;
+  // LAN printer address, reached through the local printer bridge
+  networkHost?: string;
+  networkPort?: number;
+  paperWidth: PaperWidth;
+  // ESC t n character code table, one of ESC_POS_CODE_PAGES
+  codePage: number;
+  // Tried in order before falling back to scanning every service
+  serviceUuids: PrinterServiceUuids[];
+  // Overrides the paper width default, e.g. 42 columns on 80mm printers with a wider font
+  columns?: ReceiptColumns;
+  isDefault?: boolean;
+}
+
+export interface PrinterRoutingRule {
+  id: string;
+  documentType: PrintDocumentType;
+  // Order type name as returned by the API; undefined matches every order type
+  orderType?: string;
+  profileId: string;
+}
+
+export interface PrintOptions {
+  profileId?: string;
+}
+
+export const DEFAULT_PRINTER_SERVICE_UUIDS: PrinterServiceUuids[] = [
+  { serviceUuid: '000018f0-0000-1000-8000-00805f9b34fb', characteristicUuid: '00002af1-0000-1000-8000-00805f9b34fb' },
+  { serviceUuid: 'e7810a71-73ae-499d-8c15-faa9aef0c3f2', characteristicUuid: 'bef8d6c9-9c21-4c9e-b632-bd58c1009f9f' },
+];
+
+// Characters per line in the printer's standard font
+export const PAPER_WIDTH_COLUMNS: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+/**
+ * Characters per line for a profile, honouring its column override
+ */
+export const getProfileColumns = (profile: PrinterProfile): ReceiptColumns =>
+  profile.columns ?? (PAPER_WIDTH_COLUMNS[profile.paperWidth] as ReceiptColumns);
+
+interface PrinterConnection {
+  device: BluetoothDevice;
+  characteristic: BluetoothRemoteGATTCharacteristic | null;
+  disconnectHandler: () => void;
+}
+
+const createProfileId = (): string => `printer-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+// "Take Away", "takeaway" and "TakeAway" are the same order type
+const normalizeOrderType = (orderType?: string): string =>
+  (orderType || '').replace(/[\s_-]/g, '').toLowerCase();
+
 export class BluetoothPrinterService {
-  private device: BluetoothDevice | null = null;
-  private characteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private isConnected: boolean = false;
-  private hasSavedConnection: boolean = false;
-  private connectionListeners: Array<(connected: boolean) => void> = [];
-  private disconnectHandler: (() => void) | null = null;
+  private profiles: PrinterProfile[] = [];
+  private routingRules: PrinterRoutingRule[] = [];
+  private connections: Map<string, PrinterConnection> = new Map();
+  private connectionListeners: Array<(connected: boolean, profileId: string) => void> = [];
+  private profileListeners: Array<() => void> = [];
+
+  // Web Bluetooth delivery, backed by the GATT connections above
+  private readonly bluetoothTransport: PrinterTransport = {
+    type: 'bluetooth',
+    connect: profile => this.connectBluetooth(profile),
+    disconnect: profile => this.disconnectBluetooth(profile),
+    isConnected: profile => {
+      const connection = this.connections.get(profile.id);
+      return !!(connection && connection.characteristic);
+    },
+    send: (profile, data) => this.sendBluetooth(profile, data),
+  };
 
   constructor() {
     // Check for previously connected device on initialization
     this.initializeFromStorage();
+
+    // Network printers report reachability through the bridge client
+    networkPrinterTransport.onConnectionChange((connected, profileId) =>
+      this.notifyConnectionChange(connected, profileId)
+    );
+
+    // Unlike Bluetooth, LAN printers need no user gesture, so reconnect them straight away
+    this.profiles
+      .filter(profile => profile.transport === 'network' && profile.networkHost)
+      .forEach(profile => networkPrinterTransport.connect(profile));
+  }
+
+  private getTransport(profile: PrinterProfile): PrinterTransport {
+    return profile.transport === 'network' ? networkPrinterTransport : this.bluetoothTransport;
   }
 
   private initializeFromStorage(): void {
+    try {
+      this.profiles = JSON.parse(localStorage.getItem(PRINTER_PROFILES_KEY) || '[]');
+      this.routingRules = JSON.parse(localStorage.getItem(PRINTER_ROUTING_RULES_KEY) || '[]');
+    } catch (error) {
+      console.warn('[Bluetooth Printer] Could not read saved printer profiles:', error);
+      this.profiles = [];
+      this.routingRules = [];
+    }
+
+    // Carry a printer saved by the single-printer version over as the default profile
     const savedDeviceId = localStorage.getItem(PRINTER_DEVICE_ID_KEY);
     const savedDeviceName = localStorage.getItem(PRINTER_DEVICE_NAME_KEY);
-    
-    if (savedDeviceId && savedDeviceName) {
-      this.hasSavedConnection = true;
-      console.log('[Bluetooth Printer] 💾 Found saved printer preference:', savedDeviceName);
+    if (this.profiles.length === 0 && savedDeviceId && savedDeviceName) {
+      this.profiles = [{
+        ...this.createDefaultProfile('Front Counter'),
+        deviceId: savedDeviceId,
+        deviceName: savedDeviceName,
+      }];
+      this.saveProfiles();
+      localStorage.removeItem(PRINTER_DEVICE_ID_KEY);
+      localStorage.removeItem(PRINTER_DEVICE_NAME_KEY);
+    }
+
+    const savedPrinters = this.profiles.filter(profile => profile.deviceId);
+    if (savedPrinters.length > 0) {
+      console.log('[Bluetooth Printer] 💾 Found saved printer profiles:', savedPrinters.map(profile => profile.name));
       console.log('[Bluetooth Printer] Note: User will need to reconnect the printer');
-      console.log('[Bluetooth Printer] Printer info saved for convenience but not auto-connected');
       // Do NOT notify listeners as connected - that would be misleading
       // The reconnection must happen through user action due to Web Bluetooth API limitations
     }
   }
 
-  private async establishCharacteristic(server: BluetoothRemoteGATTServer): Promise<void> {
-    let service;
-    try {
-      service = await server.getPrimaryService('000018f0-0000-1000-8000-00805f9b34fb');
-      this.characteristic = await service.getCharacteristic('00002af1-0000-1000-8000-00805f9b34fb');
-    } catch {
+  private createDefaultProfile(name: string): PrinterProfile {
+    return {
+      id: createProfileId(),
+      name,
+      paperWidth: 58,
+      codePage: 0,
+      serviceUuids: DEFAULT_PRINTER_SERVICE_UUIDS,
+      isDefault: this.profiles.length === 0,
+    };
+  }
+
+  private saveProfiles(): void {
+    localStorage.setItem(PRINTER_PROFILES_KEY, JSON.stringify(this.profiles));
+    this.notifyProfileChange();
+  }
+
+  private saveRoutingRules(): void {
+    localStorage.setItem(PRINTER_ROUTING_RULES_KEY, JSON.stringify(this.routingRules));
+    this.notifyProfileChange();
+  }
+
+  getProfiles(): PrinterProfile[] {
+    return [...this.profiles];
+  }
+
+  getProfile(profileId: string): PrinterProfile | undefined {
+    return this.profiles.find(profile => profile.id === profileId);
+  }
+
+  getDefaultProfile(): PrinterProfile | undefined {
+    return this.profiles.find(profile => profile.isDefault) ?? this.profiles[0];
+  }
+
+  addProfile(name: string): PrinterProfile {
+    const profile = this.createDefaultProfile(name);
+    this.profiles = [...this.profiles, profile];
+    this.saveProfiles();
+    return profile;
+  }
+
+  updateProfile(profileId: string, changes: Partial<Omit<PrinterProfile, 'id'>>): void {
+    this.profiles = this.profiles.map(profile => {
+      if (profile.id === profileId) return { ...profile, ...changes };
+      // Only one default profile at a time
+      return changes.isDefault ? { ...profile, isDefault: false } : profile;
+    });
+    this.saveProfiles();
+  }
+
+  async removeProfile(profileId: string): Promise<void> {
+    await this.disconnect(profileId);
+    const wasDefault = this.getProfile(profileId)?.isDefault;
+    this.profiles = this.profiles.filter(profile => profile.id !== profileId);
+    if (wasDefault && this.profiles.length > 0) {
+      this.profiles[0] = { ...this.profiles[0], isDefault: true };
+    }
+    this.routingRules = this.routingRules.filter(rule => rule.profileId !== profileId);
+    localStorage.setItem(PRINTER_ROUTING_RULES_KEY, JSON.stringify(this.routingRules));
+    this.saveProfiles();
+  }
+
+  getRoutingRules(): PrinterRoutingRule[] {
+    return [...this.routingRules];
+  }
+
+  setRoutingRules(rules: PrinterRoutingRule[]): void {
+    this.routingRules = rules;
+    this.saveRoutingRules();
+  }
+
+  /**
+   * Picks the profile for a document: a rule for this exact order type wins over
+   * an any-order-type rule, and the default profile is used when no rule matches
+   */
+  resolveProfile(documentType: PrintDocumentType, orderType?: string): PrinterProfile | undefined {
+    const candidates = this.routingRules.filter(rule =>
+      rule.documentType === documentType && this.getProfile(rule.profileId),
+    );
+    const exact = candidates.find(rule =>
+      rule.orderType && normalizeOrderType(rule.orderType) === normalizeOrderType(orderType),
+    );
+    const anyType = candidates.find(rule => !rule.orderType);
+    const rule = exact ?? anyType;
+    return rule ? this.getProfile(rule.profileId) : this.getDefaultProfile();
+  }
+
+  onProfilesChange(callback: () => void): void {
+    this.profileListeners.push(callback);
+  }
+
+  offProfilesChange(callback: () => void): void {
+    this.profileListeners = this.profileListeners.filter(cb => cb !== callback);
+  }
+
+  private notifyProfileChange(): void {
+    this.profileListeners.forEach(callback => callback());
+  }
+
+  private async establishCharacteristic(
+    server: BluetoothRemoteGATTServer,
+    profile: PrinterProfile
+  ): Promise<BluetoothRemoteGATTCharacteristic | null> {
+    for (const uuids of profile.serviceUuids) {
       try {
-        service = await server.getPrimaryService('e7810a71-73ae-499d-8c15-faa9aef0c3f2');
-        this.characteristic = await service.getCharacteristic('bef8d6c9-9c21-4c9e-b632-bd58c1009f9f');
+        console.log(`[Bluetooth Printer] Attempting service ${uuids.serviceUuid.slice(0, 8)}-...`);
+        const service = await server.getPrimaryService(uuids.serviceUuid);
+        const characteristic = await service.getCharacteristic(uuids.characteristicUuid);
+        console.log('[Bluetooth Printer] ✅ Service and characteristic obtained');
+        return characteristic;
       } catch {
-        const services = await server.getPrimaryServices();
-        if (services.length > 0) {
-          service = services[0];
-          const characteristics = await service.getCharacteristics();
-          if (characteristics.length > 0) {
-            this.characteristic = characteristics[0];
-          }
-        }
+        console.log(`[Bluetooth Printer] ⚠️ Service ${uuids.serviceUuid.slice(0, 8)}-... not found`);
+      }
+    }
+
+    console.log('[Bluetooth Printer] ⚠️ Known services not found, scanning all available services...');
+    const services = await server.getPrimaryServices();
+    console.log('[Bluetooth Printer] Found', services.length, 'services');
+    if (services.length > 0) {
+      console.log('[Bluetooth Printer] Using first service:', services[0].uuid);
+      const characteristics = await services[0].getCharacteristics();
+      if (characteristics.length > 0) {
+        console.log('[Bluetooth Printer] ✅ Using first characteristic:', characteristics[0].uuid);
+        return characteristics[0];
       }
     }
+    return null;
+  }
+
+  // Resolve the profile a call refers to, creating a first profile on demand
+  private getOrCreateProfile(profileId?: string): PrinterProfile {
+    if (profileId) {
+      const profile = this.getProfile(profileId);
+      if (profile) return profile;
+    }
+    const fallback = this.getDefaultProfile();
+    if (fallback) return fallback;
+    return this.addProfile('Front Counter');
+  }
+
+  async connect(profileId?: string): Promise<{ success: boolean; deviceName?: string; error?: string }> {
+    const profile = this.getOrCreateProfile(profileId);
+    return this.getTransport(profile).connect(profile);
   }
 
-  async connect(): Promise<{ success: boolean; deviceName?: string; error?: string }> {
+  private async connectBluetooth(
+    profile: PrinterProfile
+  ): Promise<{ success: boolean; deviceName?: string; error?: string }> {
     console.log('[Bluetooth Printer] 🔌 Starting connection process...');
     
     if (!navigator.bluetooth) {
@@ -63,93 +321,60 @@ export class BluetoothPrinterService {
     }
 
     try {
-      console.log('[Bluetooth Printer] Requesting device...');
-      this.device = await navigator.bluetooth.requestDevice({
+      console.log(`[Bluetooth Printer] Requesting device for profile "${profile.name}"...`);
+      const device = await navigator.bluetooth.requestDevice({
         acceptAllDevices: true,
-        optionalServices: [
-          '000018f0-0000-1000-8000-00805f9b34fb',
-          'e7810a71-73ae-499d-8c15-faa9aef0c3f2'
-        ]
+        optionalServices: profile.serviceUuids.map(uuids => uuids.serviceUuid)
       });
       
       console.log('[Bluetooth Printer] Device selected:', {
-        name: this.device.name,
-        id: this.device.id
+        name: device.name,
+        id: device.id
       });
 
-      if (!this.device.gatt) {
+      if (!device.gatt) {
         console.error('[Bluetooth Printer] ❌ Device does not support GATT');
         return { success: false, error: 'Device does not support GATT' };
       }
 
       console.log('[Bluetooth Printer] Connecting to GATT server...');
-      const server = await this.device.gatt.connect();
+      const server = await device.gatt.connect();
       console.log('[Bluetooth Printer] ✅ GATT server connected');
 
-      let service;
-      try {
-        console.log('[Bluetooth Printer] Attempting to get primary service (UUID: 000018f0-...)');
-        service = await server.getPrimaryService('000018f0-0000-1000-8000-00805f9b34fb');
-        console.log('[Bluetooth Printer] ✅ Service found, getting characteristic (UUID: 00002af1-...)');
-        this.characteristic = await service.getCharacteristic('00002af1-0000-1000-8000-00805f9b34fb');
-        console.log('[Bluetooth Printer] ✅ Characteristic obtained');
-      } catch {
-        console.log('[Bluetooth Printer] ⚠️ Primary service not found, trying alternative (UUID: e7810a71-...)');
-        try {
-          service = await server.getPrimaryService('e7810a71-73ae-499d-8c15-faa9aef0c3f2');
-          console.log('[Bluetooth Printer] ✅ Alternative service found');
-          this.characteristic = await service.getCharacteristic('bef8d6c9-9c21-4c9e-b632-bd58c1009f9f');
-          console.log('[Bluetooth Printer] ✅ Characteristic obtained from alternative service');
-        } catch {
-          console.log('[Bluetooth Printer] ⚠️ Known services not found, scanning all available services...');
-          const services = await server.getPrimaryServices();
-          console.log('[Bluetooth Printer] Found', services.length, 'services');
-          
-          if (services.length > 0) {
-            service = services[0];
-            console.log('[Bluetooth Printer] Using first service:', service.uuid);
-            const characteristics = await service.getCharacteristics();
-            console.log('[Bluetooth Printer] Found', characteristics.length, 'characteristics');
-            
-            if (characteristics.length > 0) {
-              this.characteristic = characteristics[0];
-              console.log('[Bluetooth Printer] ✅ Using first characteristic:', this.characteristic.uuid);
-            } else {
-              console.error('[Bluetooth Printer] ❌ No writable characteristics found');
-              return { success: false, error: 'No writable characteristics found' };
-            }
-          } else {
-            console.error('[Bluetooth Printer] ❌ No services found on device');
-            return { success: false, error: 'No services found on device' };
-          }
-        }
+      const characteristic = await this.establishCharacteristic(server, profile);
+      if (!characteristic) {
+        console.error('[Bluetooth Printer] ❌ No writable characteristics found');
+        return { success: false, error: 'No writable characteristics found' };
       }
 
-      this.isConnected = true;
-      this.notifyConnectionChange(true);
-      
-      // Save device information to localStorage for persistence across page refreshes
-      localStorage.setItem(PRINTER_DEVICE_ID_KEY, this.device.id);
-      localStorage.setItem(PRINTER_DEVICE_NAME_KEY, this.device.name || 'Bluetooth Printer');
-      this.hasSavedConnection = true;
-      console.log('[Bluetooth Printer] 💾 Saved device info to localStorage for persistence');
-      
+      // Replace any previous device on this profile
+      await this.releaseConnection(profile.id);
+
       // Add disconnect event listener to handle unexpected disconnections
-      this.disconnectHandler = () => {
-        console.log('[Bluetooth Printer] ⚠️ Device disconnected unexpectedly');
-        this.isConnected = false;
-        this.characteristic = null;
-        this.notifyConnectionChange(false);
-        // Don't clear localStorage on unexpected disconnection - keep the preference
+      const disconnectHandler = () => {
+        console.log(`[Bluetooth Printer] ⚠️ "${profile.name}" disconnected unexpectedly`);
+        const connection = this.connections.get(profile.id);
+        if (connection) {
+          connection.characteristic = null;
+        }
+        this.notifyConnectionChange(false, profile.id);
+        // Don't forget the device on unexpected disconnection - keep the preference
       };
+      device.addEventListener('gattserverdisconnected', disconnectHandler);
+
+      this.connections.set(profile.id, { device, characteristic, disconnectHandler });
+
+      // Remember the device on the profile for persistence across page refreshes
+      this.updateProfile(profile.id, { deviceId: device.id, deviceName: device.name || 'Bluetooth Printer' });
+      console.log('[Bluetooth Printer] 💾 Saved device info to profile:', profile.name);
+
+      this.notifyConnectionChange(true, profile.id);
       
-      this.device.addEventListener('gattserverdisconnected', this.disconnectHandler);
-      
-      console.log('[Bluetooth Printer] ✅ Successfully connected to:', this.device.name || 'Bluetooth Printer');
+      console.log('[Bluetooth Printer] ✅ Successfully connected to:', device.name || 'Bluetooth Printer');
       
       return {
         success: true,
-        deviceName: this.device.name || 'Bluetooth Printer'
+        deviceName: device.name || 'Bluetooth Printer'
       };
     } catch (error: any) {
       console.error('[Bluetooth Printer] ❌ Connection error:', error);
@@ -164,72 +389,100 @@ export class BluetoothPrinterService {
     }
   }
 
-  async disconnect(): Promise<void> {
-    console.log('[Bluetooth Printer] 🔌 Disconnecting...');
-    
-    // Remove disconnect event listener
-    if (this.device && this.disconnectHandler) {
-      this.device.removeEventListener('gattserverdisconnected', this.disconnectHandler);
-      this.disconnectHandler = null;
-    }
-    
-    if (this.device?.gatt?.connected) {
-      await this.device.gatt.disconnect();
+  // Drop the live connection for a profile without touching its saved device
+  private async releaseConnection(profileId: string): Promise<void> {
+    const connection = this.connections.get(profileId);
+    if (!connection) return;
+
+    connection.device.removeEventListener('gattserverdisconnected', connection.disconnectHandler);
+    if (connection.device.gatt?.connected) {
+      await connection.device.gatt.disconnect();
       console.log('[Bluetooth Printer] ✅ Disconnected from device');
-    } else {
+    }
+    this.connections.delete(profileId);
+  }
+
+  async disconnect(profileId?: string): Promise<void> {
+    console.log('[Bluetooth Printer] 🔌 Disconnecting...');
+
+    const profile = profileId ? this.getProfile(profileId) : this.getDefaultProfile();
+    if (!profile) {
       console.log('[Bluetooth Printer] ⚠️ Device was not connected');
+      return;
     }
-    
-    // Clear localStorage on explicit disconnect
-    localStorage.removeItem(PRINTER_DEVICE_ID_KEY);
-    localStorage.removeItem(PRINTER_DEVICE_NAME_KEY);
-    this.hasSavedConnection = false;
-    console.log('[Bluetooth Printer] 🗑️ Cleared saved device info from localStorage');
-    
-    this.device = null;
-    this.characteristic = null;
-    this.isConnected = false;
-    this.notifyConnectionChange(false);
+
+    await this.getTransport(profile).disconnect(profile);
+  }
+
+  private async disconnectBluetooth(profile: PrinterProfile): Promise<void> {
+    await this.releaseConnection(profile.id);
+
+    // Forget the device on explicit disconnect
+    if (profile.deviceId) {
+      this.updateProfile(profile.id, { deviceId: undefined, deviceName: undefined });
+      console.log('[Bluetooth Printer] 🗑️ Cleared saved device info from profile:', profile.name);
+    }
+
+    this.notifyConnectionChange(false, profile.id);
   }
 
-  onConnectionChange(callback: (connected: boolean) => void): void {
+  onConnectionChange(callback: (connected: boolean, profileId: string) => void): void {
     this.connectionListeners.push(callback);
   }
 
-  offConnectionChange(callback: (connected: boolean) => void): void {
+  offConnectionChange(callback: (connected: boolean, profileId: string) => void): void {
     this.connectionListeners = this.connectionListeners.filter(cb => cb !== callback);
   }
 
-  private notifyConnectionChange(connected: boolean): void {
-    this.connectionListeners.forEach(callback => callback(connected));
+  private notifyConnectionChange(connected: boolean, profileId: string): void {
+    this.connectionListeners.forEach(callback => callback(connected, profileId));
+  }
+
+  private isProfileConnected(profileId: string): boolean {
+    const profile = this.getProfile(profileId);
+    return !!profile && this.getTransport(profile).isConnected(profile);
   }
 
-  getConnectionStatus(): boolean {
+  // With a profile id, reports that printer; otherwise whether any printer is usable
+  getConnectionStatus(profileId?: string): boolean {
     // Only report connected if we have an actual active connection
-    const isConnected = !!(this.device && this.characteristic);
+    const isConnected = profileId
+      ? this.isProfileConnected(profileId)
+      : this.profiles.some(profile => this.isProfileConnected(profile.id));
     console.log('[Bluetooth Printer] Connection status check:', {
+      profileId: profileId || 'any',
       activeConnection: isConnected,
-      savedPreference: this.hasSavedConnection
+      savedPreference: this.hasSavedDevice()
     });
     return isConnected;
   }
   
   getSavedDeviceName(): string | null {
-    return localStorage.getItem(PRINTER_DEVICE_NAME_KEY);
+    return this.getDefaultProfile()?.deviceName || null;
   }
   
   hasSavedDevice(): boolean {
-    return this.hasSavedConnection;
+    return this.profiles.some(profile =>
+      profile.transport === 'network' ? !!profile.networkHost : !!profile.deviceId
+    );
   }
 
-  getDeviceName(): string {
-    const name = this.device?.name || 'Unknown Device';
+  getDeviceName(profileId?: string): string {
+    const id = profileId ?? this.getDefaultProfile()?.id;
+    const profile = id ? this.getProfile(id) : undefined;
+    if (profile?.transport === 'network') {
+      return `${profile.networkHost || 'No address'}:${profile.networkPort || DEFAULT_NETWORK_PRINTER_PORT}`;
+    }
+    const connection = (id && this.connections.get(id)) || Array.from(this.connections.values())[0];
+    const name = connection?.device.name || 'Unknown Device';
     console.log('[Bluetooth Printer] Device name:', name);
     return name;
   }
 
   // Write a chunk with retry logic to handle GATT errors
   private async writeChunkWithRetry(
+    connection: PrinterConnection,
+    profile: PrinterProfile,
     chunk: Uint8Array, 
     chunkNumber: number, 
     totalChunks: number, 
@@ -238,32 +491,25 @@ export class BluetoothPrinterService {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         // Check if we're still connected before writing
-        if (!this.device?.gatt?.connected || !this.characteristic) {
+        if (!connection.device.gatt?.connected || !connection.characteristic) {
           console.error('[Bluetooth Printer] ⚠️ Connection lost before chunk write, attempting reconnect...');
           
           // Attempt to reconnect
-          if (this.device?.gatt) {
-            await this.device.gatt.connect();
-            
-            // Re-establish characteristic
-            const server = this.device.gatt;
-            const services = await server.getPrimaryServices();
-            if (services.length > 0) {
-              const characteristics = await services[0].getCharacteristics();
-              if (characteristics.length > 0) {
-                this.characteristic = characteristics[0];
-                console.log('[Bluetooth Printer] ✅ Reconnected during print job');
-              }
+          if (connection.device.gatt) {
+            const server = await connection.device.gatt.connect();
+            connection.characteristic = await this.establishCharacteristic(server, profile);
+            if (connection.characteristic) {
+              console.log('[Bluetooth Printer] ✅ Reconnected during print job');
             }
           }
           
-          if (!this.characteristic) {
+          if (!connection.characteristic) {
             throw new Error('Failed to reconnect to printer');
           }
         }
         
         // Attempt to write the chunk
-        await this.characteristic.writeValue(chunk as BufferSource);
+        await connection.characteristic.writeValue(chunk as BufferSource);
         
         // Success!
         if (attempt > 1) {
@@ -295,348 +541,120 @@ export class BluetoothPrinterService {
     return false;
   }
 
-  async printReceipt(orderData: {
-    orderNumber: string;
-    date: string;
-    items: Array<{ 
-      name: string; 
-      quantity: number; 
-      price: number; 
-      modifiers?: Array<{ modifierName: string; price: number; quantity: number }>;
-      customizations?: Array<{ customizationName: string; optionName: string }>;
-      packageItems?: Array<{ itemName: string; quantity: number }>;
-      packageSubItems?: Array<{ subItemName: string; quantity: number }>;
-    }>;
-    subtotal: number;
-    tax: number;
-    total: number;
-    branchName?: string;
-    locationName?: string;
-    orderType?: string;
-    deliveryCharges?: number;
-    serviceCharges?: number;
-    discountAmount?: number;
-    tipAmount?: number;
-    allergens?: string[];
-    specialInstruction?: string;
-    currency?: string;
-    deliveryDetails?: {
-      fullName?: string;
-      phoneNumber?: string;
-      deliveryAddress?: string;
-      deliveryInstruction?: string;
-    };
-    pickupDetails?: {
-      name?: string;
-      phoneNumber?: string;
-      pickupInstruction?: string;
-    };
-  }): Promise<{ success: boolean; error?: string }> {
-    console.log('[Bluetooth Printer] 🖨️ Print receipt requested');
-    console.log('[Bluetooth Printer] Order data:', {
-      orderNumber: orderData.orderNumber,
-      itemCount: orderData.items.length,
-      total: orderData.total
-    });
-    
+  // Make sure the profile's GATT connection and write characteristic are usable, reconnecting if needed
+  private async ensureConnection(
+    profile: PrinterProfile
+  ): Promise<{ success: boolean; error?: string; connection?: PrinterConnection }> {
+    const connection = this.connections.get(profile.id);
+    if (!connection) {
+      console.error(`[Bluetooth Printer] ❌ No device connected for "${profile.name}"`);
+      return { success: false, error: `Printer "${profile.name}" not connected` };
+    }
+
     // Check if device is connected, try to reconnect if needed
-    if (!this.device || !this.device.gatt?.connected) {
+    if (!connection.device.gatt?.connected || !connection.characteristic) {
       console.log('[Bluetooth Printer] ⚠️ Device not connected, attempting to reconnect...');
-      if (this.device?.gatt) {
-        try {
-          console.log('[Bluetooth Printer] Reconnecting to GATT...');
-          await this.device.gatt.connect();
-          console.log('[Bluetooth Printer] ✅ Reconnected to GATT');
-          
-          // Re-establish characteristic connection
-          const server = this.device.gatt;
-          let service;
-          try {
-            console.log('[Bluetooth Printer] Re-establishing service connection...');
-            service = await server.getPrimaryService('000018f0-0000-1000-8000-00805f9b34fb');
-            this.characteristic = await service.getCharacteristic('00002af1-0000-1000-8000-00805f9b34fb');
-            console.log('[Bluetooth Printer] ✅ Service and characteristic re-established');
-          } catch {
-            try {
-              service = await server.getPrimaryService('e7810a71-73ae-499d-8c15-faa9aef0c3f2');
-              this.characteristic = await service.getCharacteristic('bef8d6c9-9c21-4c9e-b632-bd58c1009f9f');
-              console.log('[Bluetooth Printer] ✅ Alternative service and characteristic re-established');
-            } catch {
-              console.log('[Bluetooth Printer] Scanning for any available services...');
-              const services = await server.getPrimaryServices();
-              if (services.length > 0) {
-                service = services[0];
-                const characteristics = await service.getCharacteristics();
-                if (characteristics.length > 0) {
-                  this.characteristic = characteristics[0];
-                  console.log('[Bluetooth Printer] ✅ Generic service and characteristic re-established');
-                }
-              }
-            }
-          }
-        } catch (error) {
-          console.error('[Bluetooth Printer] ❌ Reconnection failed:', error);
-          return { success: false, error: 'Printer connection lost. Please reconnect from the Printer page.' };
-        }
-      } else {
+      if (!connection.device.gatt) {
         console.error('[Bluetooth Printer] ❌ No device available to reconnect');
         return { success: false, error: 'Printer not connected' };
       }
+
+      try {
+        console.log('[Bluetooth Printer] Reconnecting to GATT...');
+        const server = await connection.device.gatt.connect();
+        console.log('[Bluetooth Printer] ✅ Reconnected to GATT');
+        connection.characteristic = await this.establishCharacteristic(server, profile);
+        if (connection.characteristic) {
+          this.notifyConnectionChange(true, profile.id);
+        }
+      } catch (error) {
+        console.error('[Bluetooth Printer] ❌ Reconnection failed:', error);
+        return { success: false, error: 'Printer connection lost. Please reconnect from the Printer page.' };
+      }
     }
 
-    if (!this.characteristic) {
+    if (!connection.characteristic) {
       console.error('[Bluetooth Printer] ❌ No characteristic available');
       return { success: false, error: 'Printer not connected' };
     }
 
-    try {
-      console.log('[Bluetooth Printer] Building ESC/POS receipt...');
-      const ESC = '\x1B';
-      const GS = '\x1D';
+    return { success: true, connection };
+  }
 
-      // Import currency utilities
-      const { formatCurrencyForPrinter } = await import('../lib/currencyUtils');
-      const currency = orderData.currency || 'USD';
-      const formatPrice = (amount: number | string) => formatCurrencyForPrinter(amount, currency);
+  private async sendBluetooth(profile: PrinterProfile, data: Uint8Array): Promise<void> {
+    const { connection, error } = await this.ensureConnection(profile);
+    if (!connection) {
+      throw new Error(error || 'Printer not connected');
+    }
+    await this.sendData(connection, profile, data);
+  }
 
-      console.log('[Bluetooth Printer] Using currency:', currency);
+  // Hand finished ESC/POS output to whichever transport the profile uses
+  private async deliver(profile: PrinterProfile, data: Uint8Array): Promise<void> {
+    await this.getTransport(profile).send(profile, data);
+  }
 
-      let receipt = ESC + '@';
-      
-      // Header - centered, large text
-      receipt += ESC + 'a' + '\x01';
-      receipt += ESC + '!' + '\x38';
-      receipt += (orderData.branchName || 'RESTAURANT') + '\n';
-      receipt += ESC + '!' + '\x00';
-      receipt += '================================\n';
-      
-      // Order details - left aligned
-      receipt += ESC + 'a' + '\x00';
-      receipt += ESC + '!' + '\x08';
-      receipt += `Order: ${orderData.orderNumber}\n`;
-      receipt += ESC + '!' + '\x00';
-      receipt += `Date: ${orderData.date}\n`;
-      if (orderData.orderType) {
-        receipt += `Type: ${orderData.orderType}\n`;
-      }
-      if (orderData.locationName) {
-        receipt += `Location: ${orderData.locationName}\n`;
-      }
-      receipt += '================================\n\n';
-      
-      // Items section
-      receipt += 'ITEMS:\n';
-      receipt += '--------------------------------\n';
-      orderData.items.forEach(item => {
-        const itemLine = `${item.quantity}x ${item.name}`;
-        const price = formatPrice(item.price);
-        const spaces = 32 - itemLine.length - price.length;
-        receipt += itemLine + ' '.repeat(Math.max(spaces, 1)) + price + '\n';
-        
-        // Add package items if this is a deal package
-        if (item.packageItems && item.packageItems.length > 0) {
-          item.packageItems.forEach(pkgItem => {
-            const pkgItemLine = `  - ${pkgItem.itemName}`;
-            const pkgQty = pkgItem.quantity > 1 ? ` (x${pkgItem.quantity})` : '';
-            receipt += pkgItemLine + pkgQty + '\n';
-          });
-        }
-        
-        // Add package sub items if present
-        if (item.packageSubItems && item.packageSubItems.length > 0) {
-          item.packageSubItems.forEach(subItem => {
-            const subItemLine = `  - ${subItem.subItemName}`;
-            const subQty = subItem.quantity > 1 ? ` (x${subItem.quantity})` : '';
-            receipt += subItemLine + subQty + '\n';
-          });
-        }
-        
-        // Add modifiers if present
-        if (item.modifiers && item.modifiers.length > 0) {
-          item.modifiers.forEach(modifier => {
-            const modLine = `  + ${modifier.modifierName}`;
-            const modPrice = formatPrice(modifier.price * modifier.quantity);
-            const modQty = modifier.quantity > 1 ? ` (x${modifier.quantity})` : '';
-            const modSpaces = 32 - modLine.length - modQty.length - modPrice.length;
-            receipt += modLine + modQty + ' '.repeat(Math.max(modSpaces, 1)) + modPrice + '\n';
-          });
-        }
-        
-        // Add customizations if present
-        if (item.customizations && item.customizations.length > 0) {
-          item.customizations.forEach(custom => {
-            receipt += `  * ${custom.customizationName}: ${custom.optionName}\n`;
-          });
-        }
-      });
-      
-      // Calculations section
-      receipt += '================================\n';
-      const subtotalLine = 'Subtotal:';
-      const subtotalPrice = formatPrice(orderData.subtotal);
-      let spaces = 32 - subtotalLine.length - subtotalPrice.length;
-      receipt += subtotalLine + ' '.repeat(Math.max(spaces, 1)) + subtotalPrice + '\n';
-      
-      // Delivery charges
-      if (orderData.deliveryCharges && orderData.deliveryCharges > 0) {
-        const deliveryLine = 'Delivery:';
-        const deliveryPrice = formatPrice(orderData.deliveryCharges);
-        spaces = 32 - deliveryLine.length - deliveryPrice.length;
-        receipt += deliveryLine + ' '.repeat(Math.max(spaces, 1)) + deliveryPrice + '\n';
-      }
-      
-      // Service charges
-      if (orderData.serviceCharges && orderData.serviceCharges > 0) {
-        const serviceLine = 'Service:';
-        const servicePrice = formatPrice(orderData.serviceCharges);
-        spaces = 32 - serviceLine.length - servicePrice.length;
-        receipt += serviceLine + ' '.repeat(Math.max(spaces, 1)) + servicePrice + '\n';
-      }
-      
-      // Tax
-      if (orderData.tax && orderData.tax > 0) {
-        const taxLine = 'Tax:';
-        const taxPrice = formatPrice(orderData.tax);
-        spaces = 32 - taxLine.length - taxPrice.length;
-        receipt += taxLine + ' '.repeat(Math.max(spaces, 1)) + taxPrice + '\n';
-      }
-      
-      // Tip
-      if (orderData.tipAmount && orderData.tipAmount > 0) {
-        const tipLine = 'Tip:';
-        const tipPrice = formatPrice(orderData.tipAmount);
-        spaces = 32 - tipLine.length - tipPrice.length;
-        receipt += tipLine + ' '.repeat(Math.max(spaces, 1)) + tipPrice + '\n';
-      }
-      
-      // Discount
-      if (orderData.discountAmount && orderData.discountAmount > 0) {
-        const discountLine = 'Discount:';
-        const discountPrice = '-' + formatPrice(orderData.discountAmount);
-        spaces = 32 - discountLine.length - discountPrice.length;
-        receipt += discountLine + ' '.repeat(Math.max(spaces, 1)) + discountPrice + '\n';
-      }
-      
-      // Total - bold and larger
-      receipt += '--------------------------------\n';
-      const totalLine = 'TOTAL:';
-      const totalPrice = formatPrice(orderData.total);
-      spaces = 32 - totalLine.length - totalPrice.length;
-      receipt += ESC + '!' + '\x18';
-      receipt += totalLine + ' '.repeat(Math.max(spaces, 1)) + totalPrice + '\n';
-      receipt += ESC + '!' + '\x00';
-      
-      receipt += '================================\n';
+  // Send ESC/POS bytes in small chunks to avoid GATT buffer overflows
+  private async sendData(connection: PrinterConnection, profile: PrinterProfile, data: Uint8Array): Promise<void> {
+    console.log('[Bluetooth Printer] Print data encoded:', data.length, 'bytes');
+    console.log('[Bluetooth Printer] Sending data to printer...');
+    
+    // Use smaller chunks and longer delays to prevent GATT errors
+    // Reduced from 512 to 128 bytes for better stability
+    const chunkSize = 128;
+    const delayBetweenChunks = 100; // Increased from 50ms to 100ms
+    const totalChunks = Math.ceil(data.length / chunkSize);
+    
+    for (let i = 0; i < data.length; i += chunkSize) {
+      const chunk = data.slice(i, Math.min(i + chunkSize, data.length));
+      const chunkNumber = Math.floor(i / chunkSize) + 1;
       
-      // Allergens section (if present)
-      if (orderData.allergens && orderData.allergens.length > 0) {
-        receipt += '\n';
-        receipt += ESC + '!' + '\x08'; // Bold
-        receipt += 'ALLERGENS:\n';
-        receipt += ESC + '!' + '\x00'; // Normal
-        receipt += orderData.allergens.join(', ') + '\n';
-        receipt += '================================\n';
-        console.log('[Bluetooth Printer] Added allergens:', orderData.allergens);
-      }
+      console.log(`[Bluetooth Printer] Sending chunk ${chunkNumber}/${totalChunks} (${chunk.length} bytes)`);
       
-      // Special instructions section (if present)
-      if (orderData.specialInstruction && orderData.specialInstruction.trim() !== '') {
-        receipt += '\n';
-        receipt += ESC + '!' + '\x08'; // Bold
-        receipt += 'SPECIAL INSTRUCTIONS:\n';
-        receipt += ESC + '!' + '\x00'; // Normal
-        receipt += orderData.specialInstruction + '\n';
-        receipt += '================================\n';
-        console.log('[Bluetooth Printer] Added special instructions:', orderData.specialInstruction);
-      }
+      // Write with retry logic to handle GATT errors
+      const writeSuccess = await this.writeChunkWithRetry(connection, profile, chunk, chunkNumber, totalChunks);
       
-      // Delivery details section (if present)
-      if (orderData.deliveryDetails) {
-        const dd = orderData.deliveryDetails;
-        if (dd.fullName || dd.phoneNumber || dd.deliveryAddress) {
-          receipt += '\n';
-          receipt += ESC + '!' + '\x08'; // Bold
-          receipt += 'DELIVERY DETAILS:\n';
-          receipt += ESC + '!' + '\x00'; // Normal
-          if (dd.fullName) {
-            receipt += `Name: ${dd.fullName}\n`;
-          }
-          if (dd.phoneNumber) {
-            receipt += `Phone: ${dd.phoneNumber}\n`;
-          }
-          if (dd.deliveryAddress) {
-            receipt += `Address: ${dd.deliveryAddress}\n`;
-          }
-          if (dd.deliveryInstruction) {
-            receipt += `Instructions: ${dd.deliveryInstruction}\n`;
-          }
-          receipt += '================================\n';
-          console.log('[Bluetooth Printer] Added delivery details');
-        }
+      if (!writeSuccess) {
+        throw new Error(`Failed to write chunk ${chunkNumber}/${totalChunks} after retries`);
       }
       
-      // Pickup details section (if present)
-      if (orderData.pickupDetails) {
-        const pd = orderData.pickupDetails;
-        if (pd.name || pd.phoneNumber) {
-          receipt += '\n';
-          receipt += ESC + '!' + '\x08'; // Bold
-          receipt += 'PICKUP DETAILS:\n';
-          receipt += ESC + '!' + '\x00'; // Normal
-          if (pd.name) {
-            receipt += `Name: ${pd.name}\n`;
-          }
-          if (pd.phoneNumber) {
-            receipt += `Phone: ${pd.phoneNumber}\n`;
-          }
-          if (pd.pickupInstruction) {
-            receipt += `Instructions: ${pd.pickupInstruction}\n`;
-          }
-          receipt += '================================\n';
-          console.log('[Bluetooth Printer] Added pickup details');
-        }
+      // Longer delay between chunks to prevent buffer overflow
+      if (i + chunkSize < data.length) {
+        await new Promise(resolve => setTimeout(resolve, delayBetweenChunks));
       }
-      
-      // Footer - centered
-      receipt += '\n';
-      receipt += ESC + 'a' + '\x01';
-      receipt += 'Thank you for your order!\n';
-      receipt += 'Please come again\n\n';
-      
-      // Reset alignment and cut
-      receipt += ESC + 'a' + '\x00';
-      receipt += GS + 'V' + '\x00';
+    }
+  }
 
-      const encoder = new TextEncoder();
-      const data = encoder.encode(receipt);
-      
-      console.log('[Bluetooth Printer] Receipt data encoded:', data.length, 'bytes');
-      console.log('[Bluetooth Printer] Sending data to printer...');
-      
-      // Use smaller chunks and longer delays to prevent GATT errors
-      // Reduced from 512 to 128 bytes for better stability
-      const chunkSize = 128;
-      const delayBetweenChunks = 100; // Increased from 50ms to 100ms
-      const totalChunks = Math.ceil(data.length / chunkSize);
-      
-      for (let i = 0; i < data.length; i += chunkSize) {
-        const chunk = data.slice(i, Math.min(i + chunkSize, data.length));
-        const chunkNumber = Math.floor(i / chunkSize) + 1;
-        
-        console.log(`[Bluetooth Printer] Sending chunk ${chunkNumber}/${totalChunks} (${chunk.length} bytes)`);
-        
-        // Write with retry logic to handle GATT errors
-        const writeSuccess = await this.writeChunkWithRetry(chunk, chunkNumber, totalChunks);
-        
-        if (!writeSuccess) {
-          throw new Error(`Failed to write chunk ${chunkNumber}/${totalChunks} after retries`);
-        }
-        
-        // Longer delay between chunks to prevent buffer overflow
-        if (i + chunkSize < data.length) {
-          await new Promise(resolve => setTimeout(resolve, delayBetweenChunks));
-        }
-      }
+  // Profile a print call goes to: explicit profile, else the default profile
+  private getPrintTarget(options?: PrintOptions): PrinterProfile | undefined {
+    return options?.profileId ? this.getProfile(options.profileId) : this.getDefaultProfile();
+  }
+
+  async printReceipt(
+    orderData: ReceiptData,
+    options?: PrintOptions & { template?: ReceiptTemplate }
+  ): Promise<{ success: boolean; error?: string }> {
+    console.log('[Bluetooth Printer] 🖨️ Print receipt requested');
+    console.log('[Bluetooth Printer] Order data:', {
+      orderNumber: orderData.orderNumber,
+      itemCount: orderData.items.length,
+      total: orderData.total
+    });
+    
+    const profile = this.getPrintTarget(options);
+    if (!profile) {
+      return { success: false, error: 'No printer profile configured' };
+    }
+
+    try {
+      console.log('[Bluetooth Printer] Building ESC/POS receipt...');
+
+      // Line width and character table follow the profile's paper and printer model
+      const columns = getProfileColumns(profile);
+      const lines = layoutReceipt(options?.template || DEFAULT_RECEIPT_TEMPLATE, orderData, columns);
+      const receipt = await encodeEscPos(lines, { columns, codePage: profile.codePage });
+
+      await this.deliver(profile, receipt);
 
       console.log('[Bluetooth Printer] ✅ Receipt printed successfully!');
       return { success: true };
@@ -652,6 +670,105 @@ export class BluetoothPrinterService {
       };
     }
   }
+
+  // Pulse the cash drawer wired to the receipt printer's kick connector
+  async openCashDrawer(options?: PrintOptions): Promise<{ success: boolean; error?: string }> {
+    const profile = options?.profileId ? this.getProfile(options.profileId) : this.resolveProfile('receipt');
+    if (!profile) {
+      return { success: false, error: 'No printer profile configured' };
+    }
+
+    try {
+      // ESC p m t1 t2: pin 2, 50ms on, 500ms off
+      await this.deliver(profile, new Uint8Array([0x1B, 0x70, 0x00, 0x19, 0xFA]));
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Bluetooth Printer] ❌ Cash drawer kick error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to open cash drawer'
+      };
+    }
+  }
+
+  // End-of-day totals, routed like any other document type
+  async printEndOfDayReport(
+    report: ZReport,
+    closeout?: ZReportCloseout | null,
+    options?: PrintOptions
+  ): Promise<{ success: boolean; error?: string }> {
+    const profile = options?.profileId ? this.getProfile(options.profileId) : this.resolveProfile('end-of-day-report');
+    if (!profile) {
+      return { success: false, error: 'No printer profile configured' };
+    }
+
+    try {
+      const columns = getProfileColumns(profile);
+      const data = await encodeEscPos(layoutZReport(report, columns, closeout), { columns, codePage: profile.codePage });
+
+      await this.deliver(profile, data);
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Bluetooth Printer] ❌ End-of-day report print error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to print end-of-day report'
+      };
+    }
+  }
+
+  // Refund slip, printed on the receipt printer for the order's type
+  async printRefundSlip(
+    order: DetailedOrder,
+    refund: OrderRefund,
+    options?: PrintOptions
+  ): Promise<{ success: boolean; error?: string }> {
+    const profile = options?.profileId ? this.getProfile(options.profileId) : this.resolveProfile('receipt', order.orderType);
+    if (!profile) {
+      return { success: false, error: 'No printer profile configured' };
+    }
+
+    try {
+      const columns = getProfileColumns(profile);
+      const data = await encodeEscPos(layoutRefundSlip(order, refund, columns), { columns, codePage: profile.codePage });
+
+      await this.deliver(profile, data);
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Bluetooth Printer] ❌ Refund slip print error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to print refund slip'
+      };
+    }
+  }
+
+  // Price-free kitchen ticket in large type, one per station
+  async printKitchenTicket(ticketData: KitchenTicketData, options?: PrintOptions): Promise<{ success: boolean; error?: string }> {
+    const profile = this.getPrintTarget(options);
+    if (!profile) {
+      return { success: false, error: 'No printer profile configured' };
+    }
+
+    try {
+      // Line width and character table follow the profile's paper and printer model
+      const columns = getProfileColumns(profile);
+      const ticket = await encodeEscPos(layoutKitchenTicket(ticketData, columns), { columns, codePage: profile.codePage });
+
+      await this.deliver(profile, ticket);
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Bluetooth Printer] ❌ Kitchen ticket print error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to print kitchen ticket'
+      };
+    }
+  }
 }
 
 export const bluetoothPrinterService = new BluetoothPrinterService();
@@ -0,0 +1,235 @@
+import type { PrinterProfile } from './bluetoothPrinterService';
+import type { PrinterTransport } from './printerTransport';
+
+const PRINTER_BRIDGE_URL_KEY = 'network_printer_bridge_url';
+
+export const DEFAULT_PRINTER_BRIDGE_URL = 'ws://127.0.0.1:9180';
+export const DEFAULT_NETWORK_PRINTER_PORT = 9100;
+
+const BRIDGE_CONNECT_TIMEOUT_MS = 5000;
+const BRIDGE_REQUEST_TIMEOUT_MS = 15000;
+
+/**
+ * Printer bridge protocol (see printer-bridge/printer-bridge.mjs)
+ * Browsers can't open raw TCP sockets, so a small local service relays
+ * ESC/POS bytes from a WebSocket to the printer's raw port (usually 9100).
+ * Every request carries an id and gets exactly one result message back.
+ */
+export type PrinterBridgeRequest =
+  // Open a TCP connection to the printer and close it again, to check it is reachable
+  | { type: 'probe'; id: string; host: string; port: number }
+  // Write base64-encoded bytes to the printer, then close the connection
+  | { type: 'print'; id: string; host: string; port: number; data: string };
+
+export interface PrinterBridgeResponse {
+  type: 'result';
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+interface PendingRequest {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+const createRequestId = (): string => `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// btoa only takes binary strings, built in slices to stay under argument limits
+const toBase64 = (data: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(data.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+};
+
+export class NetworkPrinterTransport implements PrinterTransport {
+  readonly type = 'network' as const;
+
+  private socket: WebSocket | null = null;
+  private opening: Promise<WebSocket> | null = null;
+  private pending: Map<string, PendingRequest> = new Map();
+  // Profiles whose printer answered since the bridge connection opened
+  private reachableProfiles: Set<string> = new Set();
+  private connectionListeners: Array<(connected: boolean, profileId: string) => void> = [];
+
+  getBridgeUrl(): string {
+    return localStorage.getItem(PRINTER_BRIDGE_URL_KEY) || DEFAULT_PRINTER_BRIDGE_URL;
+  }
+
+  setBridgeUrl(url: string): void {
+    localStorage.setItem(PRINTER_BRIDGE_URL_KEY, url.trim() || DEFAULT_PRINTER_BRIDGE_URL);
+    // Reconnect lazily to the new address
+    this.closeSocket('Bridge address changed');
+  }
+
+  isBridgeConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  onConnectionChange(callback: (connected: boolean, profileId: string) => void): void {
+    this.connectionListeners.push(callback);
+  }
+
+  offConnectionChange(callback: (connected: boolean, profileId: string) => void): void {
+    this.connectionListeners = this.connectionListeners.filter(cb => cb !== callback);
+  }
+
+  private notifyConnectionChange(connected: boolean, profileId: string): void {
+    this.connectionListeners.forEach(callback => callback(connected, profileId));
+  }
+
+  private openSocket(): Promise<WebSocket> {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      return Promise.resolve(this.socket);
+    }
+    if (this.opening) return this.opening;
+
+    const url = this.getBridgeUrl();
+
+    this.opening = new Promise<WebSocket>((resolve, reject) => {
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(url);
+      } catch (error: any) {
+        reject(new Error(`Invalid printer bridge address: ${error.message || url}`));
+        return;
+      }
+
+      const timeoutId = setTimeout(() => {
+        socket.close();
+        reject(new Error(`Printer bridge not reachable at ${url}. Is the bridge running?`));
+      }, BRIDGE_CONNECT_TIMEOUT_MS);
+
+      socket.onopen = () => {
+        clearTimeout(timeoutId);
+        this.socket = socket;
+        resolve(socket);
+      };
+
+      socket.onerror = () => {
+        clearTimeout(timeoutId);
+        reject(new Error(`Printer bridge not reachable at ${url}. Is the bridge running?`));
+      };
+
+      socket.onmessage = (event) => this.handleMessage(event.data);
+
+      socket.onclose = () => {
+        clearTimeout(timeoutId);
+        if (this.socket === socket) {
+          this.socket = null;
+          this.handleBridgeLost('Printer bridge connection closed');
+        }
+      };
+    }).finally(() => {
+      this.opening = null;
+    });
+
+    return this.opening;
+  }
+
+  private handleMessage(raw: unknown): void {
+    let message: PrinterBridgeResponse;
+    try {
+      message = JSON.parse(String(raw));
+    } catch {
+      console.warn('[Network Printer] Ignoring malformed bridge message:', raw);
+      return;
+    }
+
+    const request = this.pending.get(message.id);
+    if (!request) return;
+
+    clearTimeout(request.timeoutId);
+    this.pending.delete(message.id);
+    if (message.success) {
+      request.resolve();
+    } else {
+      request.reject(new Error(message.error || 'Printer bridge reported an error'));
+    }
+  }
+
+  // Fail in-flight jobs and mark every network printer as offline
+  private handleBridgeLost(reason: string): void {
+    this.pending.forEach(request => {
+      clearTimeout(request.timeoutId);
+      request.reject(new Error(reason));
+    });
+    this.pending.clear();
+
+    const profileIds = Array.from(this.reachableProfiles);
+    this.reachableProfiles.clear();
+    profileIds.forEach(profileId => this.notifyConnectionChange(false, profileId));
+  }
+
+  private closeSocket(reason: string): void {
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.close();
+      this.handleBridgeLost(reason);
+    }
+  }
+
+  private async request(message: PrinterBridgeRequest): Promise<void> {
+    const socket = await this.openSocket();
+
+    return new Promise<void>((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        this.pending.delete(message.id);
+        reject(new Error('Printer bridge did not respond in time'));
+      }, BRIDGE_REQUEST_TIMEOUT_MS);
+
+      this.pending.set(message.id, { resolve, reject, timeoutId });
+      socket.send(JSON.stringify(message));
+    });
+  }
+
+  private getTarget(profile: PrinterProfile): { host: string; port: number } {
+    const host = profile.networkHost?.trim();
+    if (!host) {
+      throw new Error(`Printer "${profile.name}" has no IP address configured`);
+    }
+    return { host, port: profile.networkPort || DEFAULT_NETWORK_PRINTER_PORT };
+  }
+
+  private markReachable(profile: PrinterProfile): void {
+    if (!this.reachableProfiles.has(profile.id)) {
+      this.reachableProfiles.add(profile.id);
+      this.notifyConnectionChange(true, profile.id);
+    }
+  }
+
+  async connect(profile: PrinterProfile): Promise<{ success: boolean; deviceName?: string; error?: string }> {
+    try {
+      const target = this.getTarget(profile);
+      await this.request({ type: 'probe', id: createRequestId(), ...target });
+      this.markReachable(profile);
+      return { success: true, deviceName: `${target.host}:${target.port}` };
+    } catch (error: any) {
+      console.error('[Network Printer] ❌ Connection error:', error);
+      return { success: false, error: error.message || 'Failed to reach network printer' };
+    }
+  }
+
+  async disconnect(profile: PrinterProfile): Promise<void> {
+    // The bridge holds no per-printer state, so just stop reporting it as ready
+    if (this.reachableProfiles.delete(profile.id)) {
+      this.notifyConnectionChange(false, profile.id);
+    }
+  }
+
+  isConnected(profile: PrinterProfile): boolean {
+    return this.isBridgeConnected() && this.reachableProfiles.has(profile.id);
+  }
+
+  async send(profile: PrinterProfile, data: Uint8Array): Promise<void> {
+    const target = this.getTarget(profile);
+    await this.request({ type: 'print', id: createRequestId(), ...target, data: toBase64(data) });
+    this.markReachable(profile);
+  }
+}
+
+export const networkPrinterTransport = new NetworkPrinterTransport();
@@ -0,0 +1,259 @@
+import { DetailedOrder } from '@/types/schema';
+import { printOrderReceipt } from '@/utils/printOrderReceipt';
+import { printKitchenTickets } from '@/utils/printKitchenTicket';
+import { bluetoothPrinterService } from './bluetoothPrinterService';
+
+const PRINT_QUEUE_STORAGE_KEY = 'bluetooth_print_queue';
+
+// Attempts before a job is parked as failed and needs a manual reprint
+const MAX_AUTO_ATTEMPTS = 5;
+
+// Backoff between automatic retries: 2s, 4s, 8s, ... capped at 60s
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+// Queue size limit to keep localStorage bounded; new jobs are refused beyond it
+const MAX_QUEUED_JOBS = 50;
+
+export const PRINT_QUEUE_FULL_ERROR = 'Print queue is full. Reprint or discard failed jobs on the Printer page.';
+
+export type PrintJobStatus = 'pending' | 'printing' | 'failed';
+
+export type PrintJobDocumentType = 'receipt' | 'kitchen-ticket';
+
+export interface PrintJob {
+  id: string;
+  documentType: PrintJobDocumentType;
+  orderId: number;
+  orderNumber: string;
+  order: DetailedOrder;
+  // Kitchen tickets still to print; narrowed after a partial failure
+  stationIds?: string[];
+  status: PrintJobStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+export class PrintQueueService {
+  private jobs: PrintJob[] = [];
+  private queueListeners: Array<(jobs: PrintJob[]) => void> = [];
+  private isProcessing: boolean = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  // Every print waits its turn so two writes never reach the printer at once
+  private printLock: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    this.jobs = this.loadFromStorage();
+
+    // Drain the queue whenever the printer comes back
+    bluetoothPrinterService.onConnectionChange((connected) => {
+      if (connected) {
+        this.processQueue();
+      } else {
+        this.clearRetryTimer();
+      }
+    });
+  }
+
+  private loadFromStorage(): PrintJob[] {
+    try {
+      const saved = localStorage.getItem(PRINT_QUEUE_STORAGE_KEY);
+      if (!saved) return [];
+      const jobs: PrintJob[] = JSON.parse(saved);
+      // A job interrupted mid-print by a page reload goes back to pending
+      return jobs.map(job => job.status === 'printing' ? { ...job, status: 'pending' } : job);
+    } catch (error) {
+      console.warn('[Print Queue] Could not restore saved jobs:', error);
+      return [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(PRINT_QUEUE_STORAGE_KEY, JSON.stringify(this.jobs));
+    } catch (error) {
+      console.warn('[Print Queue] Could not save jobs:', error);
+    }
+    this.notifyQueueChange();
+  }
+
+  private updateJob(jobId: string, changes: Partial<PrintJob>): void {
+    this.jobs = this.jobs.map(job => job.id === jobId ? { ...job, ...changes } : job);
+    this.persist();
+  }
+
+  private removeJob(jobId: string): void {
+    this.jobs = this.jobs.filter(job => job.id !== jobId);
+    this.persist();
+  }
+
+  // Send a job's document to the printer
+  private async printJob(job: PrintJob): Promise<{ success: boolean; error?: string }> {
+    switch (job.documentType) {
+      case 'receipt':
+        return printOrderReceipt(job.order);
+      case 'kitchen-ticket': {
+        const result = await printKitchenTickets(job.order, job.stationIds);
+        if (!result.success) {
+          // Only retry the stations that did not print
+          this.updateJob(job.id, { stationIds: result.failedStationIds });
+        }
+        return result;
+      }
+    }
+  }
+
+  onQueueChange(callback: (jobs: PrintJob[]) => void): void {
+    this.queueListeners.push(callback);
+  }
+
+  offQueueChange(callback: (jobs: PrintJob[]) => void): void {
+    this.queueListeners = this.queueListeners.filter(cb => cb !== callback);
+  }
+
+  private notifyQueueChange(): void {
+    const snapshot = this.getJobs();
+    this.queueListeners.forEach(callback => callback(snapshot));
+  }
+
+  getJobs(): PrintJob[] {
+    return [...this.jobs];
+  }
+
+  // Queue a document and try to print it straight away
+  async enqueue(
+    order: DetailedOrder,
+    documentType: PrintJobDocumentType = 'receipt'
+  ): Promise<{ success: boolean; queued: boolean; error?: string }> {
+    // Queued jobs are all unprinted, so none can be dropped to make room
+    if (this.jobs.length >= MAX_QUEUED_JOBS) {
+      console.error(`[Print Queue] Queue full, ${documentType} for order ${order.orderNumber} not queued`);
+      return { success: false, queued: false, error: PRINT_QUEUE_FULL_ERROR };
+    }
+
+    const job: PrintJob = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      documentType,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      order,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.jobs = [...this.jobs, job];
+    this.persist();
+
+    if (!bluetoothPrinterService.getConnectionStatus()) {
+      return { success: false, queued: true, error: 'Printer not connected. Job queued for printing.' };
+    }
+
+    const result = await this.runJob(job.id);
+    return { ...result, queued: !result.success };
+  }
+
+  // Manual reprint from the Printer page, regardless of previous attempts
+  async retryJob(jobId: string): Promise<{ success: boolean; error?: string }> {
+    this.updateJob(jobId, { status: 'pending' });
+    return this.runJob(jobId);
+  }
+
+  discardJob(jobId: string): void {
+    this.removeJob(jobId);
+  }
+
+  clearFailed(): void {
+    this.jobs = this.jobs.filter(job => job.status !== 'failed');
+    this.persist();
+  }
+
+  private runJob(jobId: string): Promise<{ success: boolean; error?: string }> {
+    const run = this.printLock.then(() => this.attemptJob(jobId));
+    this.printLock = run.catch(() => undefined);
+    return run;
+  }
+
+  private async attemptJob(jobId: string): Promise<{ success: boolean; error?: string }> {
+    const job = this.jobs.find(queued => queued.id === jobId);
+    if (!job) {
+      return { success: false, error: 'Print job not found' };
+    }
+
+    const attempts = job.attempts + 1;
+    this.updateJob(jobId, { status: 'printing', attempts, lastAttemptAt: new Date().toISOString() });
+
+    let result: { success: boolean; error?: string };
+    try {
+      result = await this.printJob(job);
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : 'Failed to print' };
+    }
+
+    if (result.success) {
+      this.removeJob(jobId);
+    } else {
+      const status: PrintJobStatus = attempts >= MAX_AUTO_ATTEMPTS ? 'failed' : 'pending';
+      console.warn(`[Print Queue] Attempt ${attempts} failed for ${job.orderNumber}:`, result.error);
+      this.updateJob(jobId, { status, lastError: result.error });
+    }
+
+    return result;
+  }
+
+  // Print pending jobs oldest first, backing off when the printer keeps failing
+  async processQueue(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+    this.clearRetryTimer();
+
+    try {
+      const pendingIds = this.jobs.filter(job => job.status === 'pending').map(job => job.id);
+
+      for (const jobId of pendingIds) {
+        if (!bluetoothPrinterService.getConnectionStatus()) {
+          return;
+        }
+
+        // Printed or discarded since the queue was read
+        if (!this.jobs.some(job => job.id === jobId && job.status === 'pending')) continue;
+
+        const result = await this.runJob(jobId);
+        // Printed, or discarded while waiting for the printer
+        if (!this.jobs.some(job => job.id === jobId)) continue;
+        if (!result.success) {
+          // Stop here and try again later rather than hammering a sleeping printer
+          this.scheduleRetry(jobId);
+          return;
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private scheduleRetry(jobId: string): void {
+    const job = this.jobs.find(queued => queued.id === jobId);
+    if (!job || job.status !== 'pending') {
+      // Parked job; carry on with the rest of the queue
+      if (this.jobs.some(queued => queued.status === 'pending')) {
+        this.retryTimer = setTimeout(() => this.processQueue(), BASE_RETRY_DELAY_MS);
+      }
+      return;
+    }
+
+    const delay = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, job.attempts - 1), MAX_RETRY_DELAY_MS);
+    this.retryTimer = setTimeout(() => this.processQueue(), delay);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+}
+
+export const printQueueService = new PrintQueueService();
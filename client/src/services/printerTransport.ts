@@ -0,0 +1,23 @@
+import type { PrinterProfile } from './bluetoothPrinterService';
+
+// How a printer profile is reached: Web Bluetooth, or a LAN printer through the local bridge
+export type PrinterTransportType = 'bluetooth' | 'network';
+
+export const PRINTER_TRANSPORT_LABELS: Record<PrinterTransportType, string> = {
+  bluetooth: 'Bluetooth',
+  network: 'Network (LAN)',
+};
+
+/**
+ * Delivers finished ESC/POS bytes to a printer
+ * Receipt and ticket builders stay transport-agnostic; the profile decides which transport is used
+ */
+export interface PrinterTransport {
+  readonly type: PrinterTransportType;
+  // Establish (or verify) the link to the profile's printer
+  connect(profile: PrinterProfile): Promise<{ success: boolean; deviceName?: string; error?: string }>;
+  disconnect(profile: PrinterProfile): Promise<void>;
+  isConnected(profile: PrinterProfile): boolean;
+  // Rejects with a readable error when the data could not be delivered
+  send(profile: PrinterProfile, data: Uint8Array): Promise<void>;
+}
@@ -0,0 +1,266 @@
+import { toast } from '@/hooks/use-toast';
+import { ordersApi } from '@/lib/apiRepository';
+import { bluetoothPrinterService } from './bluetoothPrinterService';
+import { printQueueService } from './printQueueService';
+import { getKitchenTicketSettings } from '@/utils/kitchenStations';
+import { getBrowserPrintSettings, printBrowserReceipt } from '@/utils/printBrowserReceipt';
+import {
+  signalRService,
+  OrderCreatedPayload,
+  ReservationCreatedPayload,
+  StockLowPayload,
+} from './signalRService';
+
+// Shared audio context for notification sounds
+let sharedAudioContext: AudioContext | null = null;
+let audioContextUnlocked = false;
+
+// Initialize and unlock audio context with user interaction
+function initializeAudioContext(): void {
+  if (!sharedAudioContext) {
+    try {
+      sharedAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      console.log('[SignalR] 🔊 Audio context initialized');
+      
+      // Resume audio context if suspended (required by modern browsers)
+      if (sharedAudioContext.state === 'suspended') {
+        const unlockAudio = async () => {
+          if (sharedAudioContext && sharedAudioContext.state === 'suspended') {
+            await sharedAudioContext.resume();
+            audioContextUnlocked = true;
+            console.log('[SignalR] ✅ Audio context unlocked');
+            
+            // Remove listeners after first unlock
+            document.removeEventListener('click', unlockAudio);
+            document.removeEventListener('touchstart', unlockAudio);
+          }
+        };
+        
+        // Unlock audio on first user interaction
+        document.addEventListener('click', unlockAudio, { once: true });
+        document.addEventListener('touchstart', unlockAudio, { once: true });
+      } else {
+        audioContextUnlocked = true;
+      }
+    } catch (error) {
+      console.warn('[SignalR] Could not initialize audio context:', error);
+    }
+  }
+}
+
+// Play notification sound for new orders
+async function playOrderNotificationSound(): Promise<void> {
+  try {
+    // Initialize audio context if not already done
+    if (!sharedAudioContext) {
+      initializeAudioContext();
+    }
+    
+    if (!sharedAudioContext) {
+      console.warn('[SignalR] Audio context not available');
+      return;
+    }
+    
+    // Resume audio context if suspended
+    if (sharedAudioContext.state === 'suspended') {
+      await sharedAudioContext.resume();
+    }
+    
+    // Create a pleasant notification sound using oscillators
+    const playTone = (frequency: number, startTime: number, duration: number) => {
+      if (!sharedAudioContext) return;
+      
+      const oscillator = sharedAudioContext.createOscillator();
+      const gainNode = sharedAudioContext.createGain();
+      
+      oscillator.connect(gainNode);
+      gainNode.connect(sharedAudioContext.destination);
+      
+      oscillator.frequency.value = frequency;
+      oscillator.type = 'sine';
+      
+      // Envelope: quick attack, sustain, quick release
+      gainNode.gain.setValueAtTime(0, startTime);
+      gainNode.gain.linearRampToValueAtTime(0.3, startTime + 0.01);
+      gainNode.gain.linearRampToValueAtTime(0.2, startTime + duration - 0.05);
+      gainNode.gain.linearRampToValueAtTime(0, startTime + duration);
+      
+      oscillator.start(startTime);
+      oscillator.stop(startTime + duration);
+    };
+    
+    const currentTime = sharedAudioContext.currentTime;
+    
+    // Three-tone chime (C5 -> E5 -> G5) - pleasant major chord
+    playTone(523.25, currentTime, 0.15);
+    playTone(659.25, currentTime + 0.12, 0.2);
+    playTone(783.99, currentTime + 0.24, 0.25);
+    
+    console.log('[SignalR] 🔔 Playing order notification sound');
+  } catch (error) {
+    console.warn('[SignalR] Could not play notification sound:', error);
+  }
+}
+
+// Initialize audio context on module load
+initializeAudioContext();
+
+// Browser print dialog fallback for counters without a Bluetooth printer
+async function printOrderInBrowser(payload: OrderCreatedPayload): Promise<void> {
+  try {
+    const orderData = await ordersApi.getOrderById(payload.orderId);
+    const printResult = await printBrowserReceipt(orderData);
+    if (!printResult.success) {
+      toast({
+        title: "Print Failed",
+        description: printResult.error || `Could not print receipt for Order #${payload.orderNumber}`,
+        variant: "destructive",
+      });
+    }
+  } catch (error: any) {
+    console.error('[SignalR] ❌ Error printing receipt in browser:', error);
+  }
+}
+
+// Default OrderCreated side effects: chime, toast and automatic Bluetooth receipt
+export async function handleOrderCreatedNotification(payload: OrderCreatedPayload): Promise<void> {
+  console.log('[SignalR] Event details:', {
+    orderId: payload.orderId,
+    orderNumber: payload.orderNumber,
+    timestamp: new Date().toISOString()
+  });
+  
+  // Play notification sound
+  playOrderNotificationSound();
+  
+  // Show toast notification
+  toast({
+    title: "New Order Created! 🎉",
+    description: `Order #${payload.orderNumber} (ID: ${payload.orderId}) has been created`,
+    variant: "default",
+  });
+
+  // Print via the queue so tickets survive a sleeping or dropped printer
+  const isPrinterConnected = bluetoothPrinterService.getConnectionStatus();
+  if (!isPrinterConnected && !bluetoothPrinterService.hasSavedDevice()) {
+    if (getBrowserPrintSettings().autoPrint) {
+      printOrderInBrowser(payload);
+      return;
+    }
+    console.log('[SignalR] ⚠️ No Bluetooth printer set up, skipping print');
+    console.log('[SignalR] To enable automatic printing, connect a Bluetooth printer or enable browser printing from the Printer page');
+    return;
+  }
+
+  try {
+    // Fetch full order details from API
+    console.log('[SignalR] Fetching order details from API for order ID:', payload.orderId);
+    const orderData = await ordersApi.getOrderById(payload.orderId);
+    console.log('[SignalR] ✅ Order details fetched successfully:', {
+      orderNumber: orderData.orderNumber,
+      branchName: orderData.branchName,
+      locationName: orderData.locationName,
+      orderType: orderData.orderType,
+      itemCount: orderData.orderItems?.length || 0,
+      packageCount: orderData.orderPackages?.length || 0,
+      total: orderData.totalAmount,
+      currency: orderData.currency,
+      allergens: orderData.allergens?.length || 0,
+      specialInstruction: orderData.specialInstruction || 'None',
+      hasDeliveryDetails: !!orderData.orderDeliveryDetails,
+      hasPickupDetails: !!orderData.orderPickupDetails
+    });
+
+    const printResult = await printQueueService.enqueue(orderData, 'receipt');
+
+    // Kitchen tickets go through the same queue so a missed station ticket is retried too
+    if (getKitchenTicketSettings().autoPrint) {
+      const notifyTicketNotPrinted = (error?: string) =>
+        toast({
+          title: "Kitchen Ticket Not Printed",
+          description: `Order #${payload.orderNumber}: ${error}`,
+          variant: "destructive",
+        });
+
+      printQueueService.enqueue(orderData, 'kitchen-ticket')
+        .then((ticketResult) => {
+          if (!ticketResult.success && !ticketResult.queued) {
+            notifyTicketNotPrinted(ticketResult.error);
+          }
+        })
+        .catch((error) => {
+          console.error('[SignalR] ❌ Error printing kitchen ticket:', error);
+          notifyTicketNotPrinted(error instanceof Error ? error.message : 'Unknown error');
+        });
+    }
+
+    if (!printResult.success && !printResult.queued) {
+      toast({
+        title: "Receipt Not Printed",
+        description: `Order #${payload.orderNumber}: ${printResult.error}`,
+        variant: "destructive",
+      });
+    } else if (printResult.success) {
+      console.log('[SignalR] ✅ Receipt printed successfully via Bluetooth!');
+      
+      toast({
+        title: "Receipt Printed! 🖨️",
+        description: `Receipt for Order #${payload.orderNumber} sent to printer`,
+        variant: "default",
+      });
+    } else {
+      console.warn('[SignalR] ⚠️ Receipt queued for retry:', printResult.error);
+      
+      toast({
+        title: "Receipt Queued",
+        description: `Order #${payload.orderNumber} will print when the printer is back. See the Printer page for queued jobs.`,
+        variant: "destructive",
+      });
+    }
+  } catch (error) {
+    console.error('[SignalR] ❌ Error fetching order for printing:', error);
+    
+    toast({
+      title: "Print Error",
+      description: error instanceof Error ? error.message : 'An error occurred while printing',
+      variant: "destructive",
+    });
+  }
+}
+
+// Default ReservationCreated side effect
+export function handleReservationCreatedNotification(payload: ReservationCreatedPayload): void {
+  toast({
+    title: "New Reservation",
+    description: payload.reservationName
+      ? `Reservation for ${payload.reservationName} has been created`
+      : `Reservation #${payload.reservationId} has been created`,
+    variant: "default",
+  });
+}
+
+// Default StockLow side effect
+export function handleStockLowNotification(payload: StockLowPayload): void {
+  const unit = payload.unit ? ` ${payload.unit}` : '';
+  toast({
+    title: "Low Stock Alert",
+    description: `${payload.inventoryItemName} is down to ${payload.currentStock}${unit}`,
+    variant: "destructive",
+  });
+}
+
+/**
+ * Registers the app-wide notification side effects for real-time events
+ * @returns Function that removes every registered handler
+ */
+export function registerRealtimeNotifications(): () => void {
+  const unsubscribers = [
+    signalRService.subscribe('OrderCreated', handleOrderCreatedNotification),
+    signalRService.subscribe('ReservationCreated', handleReservationCreatedNotification),
+    signalRService.subscribe('StockLow', handleStockLowNotification),
+  ];
+
+  return () => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+  };
+}
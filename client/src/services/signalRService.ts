@@ -1,114 +1,87 @@
 import { HubConnection, HubConnectionBuilder, HubConnectionState, HttpTransportType } from '@microsoft/signalr';
 import { toast } from '@/hooks/use-toast';
 import { signalRBaseUrl } from '@/config/environment';
-import { bluetoothPrinterService } from './bluetoothPrinterService';
-import { DetailedOrder } from '@/types/schema';
-import { formatCurrency } from '@/lib/currencyUtils';
 
-interface OrderCreatedPayload {
+export interface OrderCreatedPayload {
   orderId: number;
   orderNumber: string;
+  branchId?: number;
 }
 
-// Shared audio context for notification sounds
-let sharedAudioContext: AudioContext | null = null;
-let audioContextUnlocked = false;
+export interface OrderStatusChangedPayload {
+  orderId: number;
+  orderNumber?: string;
+  branchId?: number;
+  orderStatusId?: number;
+  orderStatus?: string;
+}
 
-// Initialize and unlock audio context with user interaction
-function initializeAudioContext(): void {
-  if (!sharedAudioContext) {
-    try {
-      sharedAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      console.log('[SignalR] 🔊 Audio context initialized');
-      
-      // Resume audio context if suspended (required by modern browsers)
-      if (sharedAudioContext.state === 'suspended') {
-        const unlockAudio = async () => {
-          if (sharedAudioContext && sharedAudioContext.state === 'suspended') {
-            await sharedAudioContext.resume();
-            audioContextUnlocked = true;
-            console.log('[SignalR] ✅ Audio context unlocked');
-            
-            // Remove listeners after first unlock
-            document.removeEventListener('click', unlockAudio);
-            document.removeEventListener('touchstart', unlockAudio);
-          }
-        };
-        
-        // Unlock audio on first user interaction
-        document.addEventListener('click', unlockAudio, { once: true });
-        document.addEventListener('touchstart', unlockAudio, { once: true });
-      } else {
-        audioContextUnlocked = true;
-      }
-    } catch (error) {
-      console.warn('[SignalR] Could not initialize audio context:', error);
-    }
-  }
+export interface OrderUpdatedPayload {
+  orderId: number;
+  orderNumber?: string;
+  branchId?: number;
 }
 
-// Play notification sound for new orders
-async function playOrderNotificationSound(): Promise<void> {
-  try {
-    // Initialize audio context if not already done
-    if (!sharedAudioContext) {
-      initializeAudioContext();
-    }
-    
-    if (!sharedAudioContext) {
-      console.warn('[SignalR] Audio context not available');
-      return;
-    }
-    
-    // Resume audio context if suspended
-    if (sharedAudioContext.state === 'suspended') {
-      await sharedAudioContext.resume();
-    }
-    
-    // Create a pleasant notification sound using oscillators
-    const playTone = (frequency: number, startTime: number, duration: number) => {
-      if (!sharedAudioContext) return;
-      
-      const oscillator = sharedAudioContext.createOscillator();
-      const gainNode = sharedAudioContext.createGain();
-      
-      oscillator.connect(gainNode);
-      gainNode.connect(sharedAudioContext.destination);
-      
-      oscillator.frequency.value = frequency;
-      oscillator.type = 'sine';
-      
-      // Envelope: quick attack, sustain, quick release
-      gainNode.gain.setValueAtTime(0, startTime);
-      gainNode.gain.linearRampToValueAtTime(0.3, startTime + 0.01);
-      gainNode.gain.linearRampToValueAtTime(0.2, startTime + duration - 0.05);
-      gainNode.gain.linearRampToValueAtTime(0, startTime + duration);
-      
-      oscillator.start(startTime);
-      oscillator.stop(startTime + duration);
-    };
-    
-    const currentTime = sharedAudioContext.currentTime;
-    
-    // Three-tone chime (C5 -> E5 -> G5) - pleasant major chord
-    playTone(523.25, currentTime, 0.15);
-    playTone(659.25, currentTime + 0.12, 0.2);
-    playTone(783.99, currentTime + 0.24, 0.25);
-    
-    console.log('[SignalR] 🔔 Playing order notification sound');
-  } catch (error) {
-    console.warn('[SignalR] Could not play notification sound:', error);
-  }
+export interface ReservationCreatedPayload {
+  reservationId: number;
+  reservationName?: string;
+  branchId?: number;
+}
+
+export interface ReservationStatusChangedPayload {
+  reservationId: number;
+  branchId?: number;
+  reservationStatusId?: number;
+  reservationStatus?: string;
 }
 
-// Initialize audio context on module load
-initializeAudioContext();
+export interface StockLowPayload {
+  branchId: number;
+  inventoryItemId: number;
+  inventoryItemName: string;
+  currentStock: number;
+  reorderLevel?: number;
+  unit?: string;
+}
+
+export interface StockUpdatedPayload {
+  branchId: number;
+  inventoryItemId: number;
+  currentStock?: number;
+}
+
+// Hub events the client listens for, keyed by hub method name
+export interface RealtimeEventMap {
+  OrderCreated: OrderCreatedPayload;
+  OrderStatusChanged: OrderStatusChangedPayload;
+  OrderUpdated: OrderUpdatedPayload;
+  ReservationCreated: ReservationCreatedPayload;
+  ReservationStatusChanged: ReservationStatusChangedPayload;
+  StockLow: StockLowPayload;
+  StockUpdated: StockUpdatedPayload;
+}
+
+export type RealtimeEventName = keyof RealtimeEventMap;
+
+export type RealtimeEventHandler<K extends RealtimeEventName> = (payload: RealtimeEventMap[K]) => void;
+
+export const REALTIME_EVENTS: RealtimeEventName[] = [
+  'OrderCreated',
+  'OrderStatusChanged',
+  'OrderUpdated',
+  'ReservationCreated',
+  'ReservationStatusChanged',
+  'StockLow',
+  'StockUpdated',
+];
 
 export class SignalRService {
   private connection: HubConnection | null = null;
   private baseUrl: string = signalRBaseUrl;
   private isConnecting: boolean = false;
   private getAccessToken: (() => string | null) | null = null;
+  private eventHandlers: Map<RealtimeEventName, Set<RealtimeEventHandler<RealtimeEventName>>> = new Map();
+  private reconnectedHandlers: Set<() => void> = new Set();
 
   constructor() {
     // Initialize with null connection
@@ -183,110 +156,64 @@ export class SignalRService {
     }
   }
 
+  // Subscribe to a hub event; handlers survive reconnects and reconnections
+  public subscribe<K extends RealtimeEventName>(event: K, handler: RealtimeEventHandler<K>): () => void {
+    let handlers = this.eventHandlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.eventHandlers.set(event, handlers);
+    }
+    handlers.add(handler as RealtimeEventHandler<RealtimeEventName>);
+    return () => this.unsubscribe(event, handler);
+  }
+
+  // Remove a hub event handler
+  public unsubscribe<K extends RealtimeEventName>(event: K, handler: RealtimeEventHandler<K>): void {
+    this.eventHandlers.get(event)?.delete(handler as RealtimeEventHandler<RealtimeEventName>);
+  }
+
+  // Register a handler that runs after the connection is restored
+  public onReconnected(handler: () => void): () => void {
+    this.reconnectedHandlers.add(handler);
+    return () => {
+      this.reconnectedHandlers.delete(handler);
+    };
+  }
+
   // Register a custom OrderCreated event handler
   public onOrderCreated(handler: (payload: OrderCreatedPayload) => void): void {
-    if (this.connection) {
-      this.connection.on('OrderCreated', handler);
-    }
+    this.subscribe('OrderCreated', handler);
   }
 
   // Remove OrderCreated event handler
   public offOrderCreated(handler: (payload: OrderCreatedPayload) => void): void {
-    if (this.connection) {
-      this.connection.off('OrderCreated', handler);
-    }
+    this.unsubscribe('OrderCreated', handler);
+  }
+
+  // Fan a hub event out to every subscriber, isolating handler failures
+  private dispatch<K extends RealtimeEventName>(event: K, payload: RealtimeEventMap[K]): void {
+    const handlers = this.eventHandlers.get(event);
+    if (!handlers) return;
+
+    Array.from(handlers).forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`[SignalR] ${event} handler failed:`, error);
+      }
+    });
   }
 
   // Set up event handlers
   private setupEventHandlers(): void {
     if (!this.connection) return;
 
-    // Listen for OrderCreated event (default toast notification)
-    this.connection.on('OrderCreated', async (payload: OrderCreatedPayload) => {
-      console.log('[SignalR] OrderCreated event received:', payload);
-      console.log('[SignalR] Event details:', {
-        orderId: payload.orderId,
-        orderNumber: payload.orderNumber,
-        timestamp: new Date().toISOString()
-      });
-      
-      // Play notification sound
-      playOrderNotificationSound();
-      
-      // Show toast notification
-      toast({
-        title: "New Order Created! 🎉",
-        description: `Order #${payload.orderNumber} (ID: ${payload.orderId}) has been created`,
-        variant: "default",
+    // One dispatcher per hub event; subscribers live on the service so they
+    // carry over when a new connection is built after disconnect
+    REALTIME_EVENTS.forEach(event => {
+      this.connection?.on(event, (payload: RealtimeEventMap[typeof event]) => {
+        this.dispatch(event, payload);
       });
-
-      // Attempt to print receipt via Bluetooth printer
-      console.log('[SignalR] Checking if Bluetooth printer is connected...');
-      const isPrinterConnected = bluetoothPrinterService.getConnectionStatus();
-      
-      if (isPrinterConnected) {
-        console.log('[SignalR] ✅ Bluetooth printer is connected, fetching full order details...');
-        
-        try {
-          // Fetch full order details from API (using capital "O" for Order endpoint)
-          console.log('[SignalR] Fetching order details from API for order ID:', payload.orderId);
-          const { apiBaseUrl } = await import('../config/environment');
-          const response = await fetch(`${apiBaseUrl}/api/Order/${payload.orderId}`);
-          
-          if (!response.ok) {
-            throw new Error(`Failed to fetch order: ${response.status} ${response.statusText}`);
-          }
-
-          const orderData: DetailedOrder = await response.json();
-          console.log('[SignalR] ✅ Order details fetched successfully:', {
-            orderNumber: orderData.orderNumber,
-            branchName: orderData.branchName,
-            locationName: orderData.locationName,
-            orderType: orderData.orderType,
-            itemCount: orderData.orderItems?.length || 0,
-            packageCount: orderData.orderPackages?.length || 0,
-            total: orderData.totalAmount,
-            currency: orderData.currency,
-            allergens: orderData.allergens?.length || 0,
-            specialInstruction: orderData.specialInstruction || 'None',
-            hasDeliveryDetails: !!orderData.orderDeliveryDetails,
-            hasPickupDetails: !!orderData.orderPickupDetails
-          });
-
-          // Use shared print function
-          const { printOrderReceipt } = await import('../utils/printOrderReceipt');
-          const printResult = await printOrderReceipt(orderData);
-
-          if (printResult.success) {
-            console.log('[SignalR] ✅ Receipt printed successfully via Bluetooth!');
-            
-            toast({
-              title: "Receipt Printed! 🖨️",
-              description: `Receipt for Order #${payload.orderNumber} sent to printer`,
-              variant: "default",
-            });
-          } else {
-            console.error('[SignalR] ❌ Failed to print receipt:', printResult.error);
-            
-            toast({
-              title: "Print Failed",
-              description: printResult.error || 'Could not print receipt',
-              variant: "destructive",
-            });
-          }
-        } catch (error) {
-          console.error('[SignalR] ❌ Error fetching order or printing receipt:', error);
-          
-          toast({
-            title: "Print Error",
-            description: error instanceof Error ? error.message : 'An error occurred while printing',
-            variant: "destructive",
-          });
-        }
-      } else {
-        console.log('[SignalR] ⚠️ Bluetooth printer not connected, skipping print');
-        console.log('[SignalR] To enable automatic printing, connect a Bluetooth printer from the Printer page');
-      }
     });
 
     // Handle connection state changes
@@ -306,6 +233,9 @@ export class SignalRService {
         description: "Real-time connection restored",
         variant: "default",
       });
+
+      // Let subscribers catch up on events missed while offline
+      Array.from(this.reconnectedHandlers).forEach(handler => handler());
     });
 
     this.connection.onclose((error) => {
@@ -0,0 +1,125 @@
+// Structured order filters shared by the Orders and Chef pages
+import { OrderType } from './schema';
+import { convertBranchDateToUTC } from '@/lib/currencyUtils';
+
+export type OrderPaymentState = 'paid' | 'unpaid';
+
+export interface OrderFilters {
+  searchTerm: string;
+  statusIds: number[];
+  orderTypes: OrderType[];
+  // Calendar days (YYYY-MM-DD) in the branch timezone, inclusive
+  createdFrom?: string;
+  createdTo?: string;
+  minTotal?: number;
+  maxTotal?: number;
+  paymentState?: OrderPaymentState;
+  locationId?: number;
+}
+
+export const EMPTY_ORDER_FILTERS: OrderFilters = {
+  searchTerm: '',
+  statusIds: [],
+  orderTypes: [],
+};
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  [OrderType.Delivery]: 'Delivery',
+  [OrderType.TakeAway]: 'Take Away',
+  [OrderType.DineIn]: 'Dine In',
+};
+
+// Short keys used in the page URL
+const URL_KEYS = {
+  searchTerm: 'q',
+  statusIds: 'status',
+  orderTypes: 'type',
+  createdFrom: 'from',
+  createdTo: 'to',
+  minTotal: 'min',
+  maxTotal: 'max',
+  paymentState: 'payment',
+  locationId: 'location',
+} as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseNumber = (value: string | null): number | undefined => {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const parseIdList = (value: string | null): number[] =>
+  (value || '')
+    .split(',')
+    .map(Number)
+    .filter(id => Number.isInteger(id) && id > 0);
+
+// Helper function to read filters from the page URL
+export const parseOrderFilters = (params: URLSearchParams): OrderFilters => {
+  const from = params.get(URL_KEYS.createdFrom);
+  const to = params.get(URL_KEYS.createdTo);
+  const payment = params.get(URL_KEYS.paymentState);
+
+  return {
+    searchTerm: params.get(URL_KEYS.searchTerm) || '',
+    statusIds: parseIdList(params.get(URL_KEYS.statusIds)),
+    orderTypes: parseIdList(params.get(URL_KEYS.orderTypes)).filter(
+      (type): type is OrderType => type in ORDER_TYPE_LABELS,
+    ),
+    createdFrom: from && DATE_PATTERN.test(from) ? from : undefined,
+    createdTo: to && DATE_PATTERN.test(to) ? to : undefined,
+    minTotal: parseNumber(params.get(URL_KEYS.minTotal)),
+    maxTotal: parseNumber(params.get(URL_KEYS.maxTotal)),
+    paymentState: payment === 'paid' || payment === 'unpaid' ? payment : undefined,
+    locationId: parseNumber(params.get(URL_KEYS.locationId)),
+  };
+};
+
+// Helper function to write filters into the page URL, keeping unrelated params such as branchId
+export const writeOrderFilters = (params: URLSearchParams, filters: OrderFilters): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  Object.values(URL_KEYS).forEach(key => next.delete(key));
+
+  if (filters.searchTerm) next.set(URL_KEYS.searchTerm, filters.searchTerm);
+  if (filters.statusIds.length) next.set(URL_KEYS.statusIds, filters.statusIds.join(','));
+  if (filters.orderTypes.length) next.set(URL_KEYS.orderTypes, filters.orderTypes.join(','));
+  if (filters.createdFrom) next.set(URL_KEYS.createdFrom, filters.createdFrom);
+  if (filters.createdTo) next.set(URL_KEYS.createdTo, filters.createdTo);
+  if (filters.minTotal !== undefined) next.set(URL_KEYS.minTotal, filters.minTotal.toString());
+  if (filters.maxTotal !== undefined) next.set(URL_KEYS.maxTotal, filters.maxTotal.toString());
+  if (filters.paymentState) next.set(URL_KEYS.paymentState, filters.paymentState);
+  if (filters.locationId !== undefined) next.set(URL_KEYS.locationId, filters.locationId.toString());
+
+  return next;
+};
+
+// Number of filters set besides the search term, for the filter button badge
+export const countActiveOrderFilters = (filters: OrderFilters): number =>
+  [
+    filters.statusIds.length > 0,
+    filters.orderTypes.length > 0,
+    !!filters.createdFrom || !!filters.createdTo,
+    filters.minTotal !== undefined || filters.maxTotal !== undefined,
+    !!filters.paymentState,
+    filters.locationId !== undefined,
+  ].filter(Boolean).length;
+
+// Helper function to append filters to the orders API query; dates become UTC bounds of the branch's days
+export const appendOrderFilterQuery = (
+  params: URLSearchParams,
+  filters: OrderFilters,
+  timeZone: string = 'UTC',
+): URLSearchParams => {
+  if (filters.searchTerm) params.append('SearchTerm', filters.searchTerm);
+  filters.statusIds.forEach(id => params.append('StatusIds', id.toString()));
+  filters.orderTypes.forEach(type => params.append('OrderTypes', type.toString()));
+  if (filters.createdFrom) params.append('CreatedFrom', convertBranchDateToUTC(filters.createdFrom, timeZone));
+  if (filters.createdTo) params.append('CreatedTo', convertBranchDateToUTC(filters.createdTo, timeZone, true));
+  if (filters.minTotal !== undefined) params.append('MinTotal', filters.minTotal.toString());
+  if (filters.maxTotal !== undefined) params.append('MaxTotal', filters.maxTotal.toString());
+  if (filters.paymentState) params.append('PaymentStatus', filters.paymentState === 'paid' ? 'Paid' : 'Unpaid');
+  if (filters.locationId !== undefined) params.append('LocationId', filters.locationId.toString());
+  return params;
+};
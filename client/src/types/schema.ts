@@ -508,6 +508,8 @@ export interface DashboardStats {
   totalOrders: number;
   averageOrderValue: number;
   customerSatisfaction: number;
+  // Refunded in the period; totalRevenue is before refunds
+  totalRefunds?: number;
 }
 
 export interface TopPerformingItems {
@@ -663,6 +665,121 @@ export interface DetailedOrder {
   orderPackages: OrderPackage[];
   splitBills: SplitBill[];
   orderStatusHistory: OrderStatusHistoryItem[];
+  // Not returned for orders that were never refunded
+  refunds?: OrderRefund[];
+}
+
+export type OrderRefundType = 'Items' | 'Amount';
+
+export interface OrderRefundLine {
+  orderItemId: number | null;
+  orderPackageId: number | null;
+  name: string;
+  quantity: number;
+  amount: number;
+}
+
+export interface OrderRefund {
+  id: number;
+  orderId: number;
+  refundType: OrderRefundType;
+  subTotal: number;
+  taxAmount: number;
+  serviceCharges: number;
+  discountAmount: number;
+  totalAmount: number;
+  reasonCode: string;
+  reason: string;
+  approvedBy: string;
+  username: string;
+  createdAt: string;
+  lines: OrderRefundLine[];
+}
+
+export interface CreateOrderRefundRequest {
+  refundType: OrderRefundType;
+  lines: Array<{ orderItemId: number | null; orderPackageId: number | null; quantity: number }>;
+  subTotal: number;
+  taxAmount: number;
+  serviceCharges: number;
+  discountAmount: number;
+  totalAmount: number;
+  reasonCode: string;
+  reason: string;
+  approvedBy: string;
+}
+
+// Cash shift types (matching Shifts API response structure)
+// Drop: cash moved to the safe; Payout: cash paid out of the drawer; PayIn: cash added mid-shift
+export type ShiftCashMovementType = 'Drop' | 'Payout' | 'PayIn';
+
+export interface ShiftCashMovement {
+  id: number;
+  shiftId: number;
+  type: ShiftCashMovementType;
+  amount: number;
+  reason: string;
+  username: string;
+  createdAt: string;
+}
+
+export interface Shift {
+  id: number;
+  branchId: number;
+  username: string;
+  status: 'Open' | 'Closed';
+  openedAt: string;
+  closedAt: string | null;
+  openingFloat: number;
+  // Set when the shift is closed
+  salesTotal: number | null;
+  nonCashTotal: number | null;
+  expectedCash: number | null;
+  countedCash: number | null;
+  // countedCash - expectedCash; positive is over, negative is short
+  variance: number | null;
+  notes: string;
+  cashMovements: ShiftCashMovement[];
+}
+
+export interface OpenShiftRequest {
+  branchId: number;
+  openingFloat: number;
+  notes?: string;
+}
+
+export interface CloseShiftRequest {
+  salesTotal: number;
+  nonCashTotal: number;
+  expectedCash: number;
+  countedCash: number;
+  variance: number;
+  notes?: string;
+}
+
+// End-of-day close-out types (matching ZReports API response structure)
+export interface ZReportCloseout {
+  id: number;
+  // Assigned by the API, sequential per branch, as printed on the Z-report
+  zNumber: number;
+  branchId: number;
+  // Branch calendar day, YYYY-MM-DD; a day can only be closed once
+  businessDate: string;
+  closedAt: string;
+  username: string;
+  orderCount: number;
+  grossSales: number;
+  netSales: number;
+  currency: string;
+}
+
+export interface CreateZReportCloseoutRequest {
+  branchId: number;
+  businessDate: string;
+  orderCount: number;
+  grossSales: number;
+  netSales: number;
+  currency: string;
 }
 
 // Simple Order interface for display in tables (existing)
@@ -836,6 +953,124 @@ export const insertRecipeSchema = z.object({
 export type InsertRecipeItem = z.infer<typeof insertRecipeItemSchema>;
 export type InsertRecipe = z.infer<typeof insertRecipeSchema>;
 
+// Theoretical stock consumption recorded when an order reaches the depletion status
+export interface InventoryDepletionLine {
+  inventoryItemId: number;
+  inventoryItemName: string;
+  quantity: number;
+  unit: string;
+}
+
+export interface InventoryDepletion {
+  id: number;
+  branchId: number;
+  orderId: number;
+  orderNumber: string;
+  orderStatus: string;
+  createdAt: string;
+  lines: InventoryDepletionLine[];
+}
+
+export interface CreateInventoryDepletionRequest {
+  branchId: number;
+  orderId: number;
+  orderNumber: string;
+  orderStatus: string;
+  lines: Array<{ inventoryItemId: number; quantity: number }>;
+}
+
+export type InventoryDepletionAdjustmentReason = 'Cancelled' | 'Modified';
+
+// Corrects an order's recorded depletion after it was cancelled or its lines changed
+export interface CreateInventoryDepletionAdjustmentRequest {
+  branchId: number;
+  orderId: number;
+  orderNumber: string;
+  reason: InventoryDepletionAdjustmentReason;
+  // Positive uses more stock, negative returns it
+  lines: Array<{ inventoryItemId: number; quantity: number }>;
+}
+
+// Automatic depletion for a branch, applied on every device
+export interface InventoryDepletionSettings {
+  enabled: boolean;
+  // Lifecycle state an order must reach to deplete stock
+  triggerState: 'preparing' | 'ready' | 'delivered';
+}
+
+// Count = stock set by updateInventoryStock, Purchase = purchase order receipt,
+// Wastage = recorded wastage, Depletion = recipe-based usage from orders
+// (positive when an adjustment returns stock)
+export type InventoryMovementType = 'Count' | 'Purchase' | 'Wastage' | 'Depletion';
+
+export interface InventoryStockMovement {
+  id: number;
+  inventoryItemId: number;
+  itemName: string;
+  unit: string;
+  movementType: InventoryMovementType;
+  // Signed change in stock; for counts, the correction from book to counted stock
+  quantity: number;
+  stockAfter: number;
+  // Purchase price for receipts, the item's cost price otherwise
+  unitCost: number | null;
+  // Purchase order id, order number or the reason given
+  reference: string | null;
+  createdAt: string;
+}
+
+// Purchase order receiving types
+export interface PurchaseOrderItem {
+  id: number;
+  inventoryItemId: number;
+  itemName: string;
+  quantity: number;
+  unitPrice: number;
+  receivedQuantity: number;
+  // Quantity still expected from the supplier; 0 once the order is closed
+  backOrderedQuantity?: number;
+  total: number;
+}
+
+export interface PurchaseOrderDetail {
+  id: number;
+  supplierId: number;
+  supplierName: string;
+  branchId: number;
+  branchName: string;
+  orderDate: string;
+  status: number;
+  totalAmount: number;
+  items: PurchaseOrderItem[];
+}
+
+export interface ReceivePurchaseOrderItem {
+  purchaseOrderItemId: number;
+  receivedQuantity: number;
+  // Price on the supplier's invoice, when it differs from the ordered price
+  actualUnitPrice?: number;
+  notes?: string;
+}
+
+// One line of a delivery against a purchase order
+export interface PurchaseOrderReceiptLine {
+  id: number;
+  purchaseOrderId: number;
+  purchaseOrderItemId: number;
+  supplierId: number;
+  supplierName: string;
+  inventoryItemId: number;
+  itemName: string;
+  unit: string;
+  // Quantity outstanding on the line when the delivery arrived
+  expectedQuantity: number;
+  receivedQuantity: number;
+  orderedUnitPrice: number;
+  actualUnitPrice: number;
+  notes: string | null;
+  receivedAt: string;
+}
+
 // Inventory Item types for recipe management
 export interface InventoryItemSimple {
   id: number;
@@ -844,6 +1079,8 @@ export interface InventoryItemSimple {
   categoryName: string;
   unit: string;
   reorderLevel: number;
+  // Stock level suggested purchase orders top up to
+  parLevel?: number | null;
   defaultSupplierName: string | null;
 }
 
@@ -966,6 +1203,10 @@ export interface BranchConfiguration {
   serviceChargePercentage?: number;
   taxPercentage?: number;
   isDiscountOnTotal?: boolean; // true = on total, false = on tax
+  // Minutes an order may spend in each kitchen stage; null when the stage is not tracked
+  newStageMinutes?: number | null;
+  preparingStageMinutes?: number | null;
+  readyStageMinutes?: number | null;
 }
 
 // Create Order Request Types
@@ -1030,6 +1271,21 @@ export interface CreateOrderRequest {
   allergenIds: number[];
 }
 
+// Replaces the items of an open order; totals follow the branch configuration
+export interface UpdateOrderItemsRequest {
+  orderId: number;
+  orderItems: CreateOrderItem[];
+  orderPackages: CreateOrderPackage[];
+  specialInstruction: string;
+  allergenIds: number[];
+  subTotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  serviceCharges: number;
+  tipAmount: number;
+  totalAmount: number;
+}
+
 export interface CreateOrderResponse {
   orderId: number;
   orderNumber: string;
@@ -0,0 +1,97 @@
+/**
+ * Bulk order actions
+ * Runs one action per order sequentially so the API and printer aren't flooded,
+ * collecting a per-order result instead of stopping at the first failure
+ */
+import { DetailedOrder } from '@/types/schema';
+import { ordersApi } from '@/lib/apiRepository';
+import { bluetoothPrinterService } from '@/services/bluetoothPrinterService';
+import { OrderStatusType } from './kitchenDisplay';
+import { depleteInventoryForStatus } from './inventoryDepletion';
+import {
+  ORDER_STATE_LABELS,
+  buildStatusComment,
+  getAllowedTransitions,
+  getLifecycleState,
+  getOrderLifecycleState,
+} from './orderLifecycle';
+
+export interface BulkOrderResult {
+  orderId: number;
+  orderNumber: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface BulkProgress {
+  completed: number;
+  total: number;
+}
+
+/**
+ * Runs an action for each order, one at a time
+ * @param orders - Orders to process
+ * @param action - Resolves on success, throws with a readable message on failure
+ * @param onProgress - Called after each order
+ */
+export async function runBulkOrderAction(
+  orders: DetailedOrder[],
+  action: (order: DetailedOrder) => Promise<void>,
+  onProgress?: (progress: BulkProgress) => void,
+): Promise<BulkOrderResult[]> {
+  const results: BulkOrderResult[] = [];
+
+  for (const order of orders) {
+    try {
+      await action(order);
+      results.push({ orderId: order.id, orderNumber: order.orderNumber, success: true });
+    } catch (error: any) {
+      console.error(`[Bulk Orders] ❌ Order ${order.orderNumber} failed:`, error);
+      results.push({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        success: false,
+        error: error?.message || 'Unknown error',
+      });
+    }
+    onProgress?.({ completed: results.length, total: orders.length });
+  }
+
+  return results;
+}
+
+/**
+ * Builds the per-order status update, checking the lifecycle first so
+ * orders that can't make the move fail with a clear reason
+ */
+export const createBulkStatusAction = (
+  target: OrderStatusType,
+  statusTypes: OrderStatusType[],
+  options: { reasonCode?: string; note?: string; source: string },
+) => async (order: DetailedOrder): Promise<void> => {
+  const allowed = getAllowedTransitions(order, statusTypes);
+  if (!allowed.some(transition => transition.statusType.id === target.id)) {
+    const current = ORDER_STATE_LABELS[getOrderLifecycleState(order, statusTypes)];
+    throw new Error(`Can't move a ${current} order to ${target.name}`);
+  }
+
+  await ordersApi.updateOrderStatus(
+    order.id,
+    target.id,
+    buildStatusComment(getLifecycleState(target.name), options),
+  );
+  await depleteInventoryForStatus(order, target.name);
+};
+
+/**
+ * Prints a receipt on the connected printer, or through the browser when none is connected
+ */
+export const bulkReprintAction = async (order: DetailedOrder): Promise<void> => {
+  const { success, error } = bluetoothPrinterService.getConnectionStatus()
+    ? await (await import('./printOrderReceipt')).printOrderReceipt(order)
+    : await (await import('./printBrowserReceipt')).printBrowserReceipt(order);
+
+  if (!success) {
+    throw new Error(error || 'Failed to print receipt');
+  }
+};
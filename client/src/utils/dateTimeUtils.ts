@@ -114,6 +114,29 @@ export const convertUtcToLocalTime = (utcDateString: string): string => {
   }
 };
 
+/**
+ * Parses an API timestamp as UTC
+ * The API omits the timezone designator, so a bare "T" timestamp is marked as UTC before parsing
+ * @param utcDateString - UTC date string from API (e.g., "2025-10-19T17:48:12.037288")
+ * @returns Date instance (invalid Date if the string cannot be parsed)
+ */
+export const parseUtcDate = (utcDateString: string): Date => {
+  let dateString = (utcDateString || '').trim();
+  if (!dateString.endsWith('Z') && !dateString.includes('+') && !dateString.includes('T')) {
+    // If it's a simple date format, convert to ISO
+    const simpleDate = new Date(dateString);
+    if (isNaN(simpleDate.getTime())) {
+      return simpleDate;
+    }
+    dateString = simpleDate.toISOString();
+  } else if (!dateString.endsWith('Z') && dateString.includes('T') && !dateString.includes('+')) {
+    // If it has 'T' but no timezone indicator, append 'Z' to mark as UTC
+    dateString = dateString + 'Z';
+  }
+
+  return new Date(dateString);
+};
+
 /**
  * Formats date for receipt printing (compact format)
  * Converts UTC time to browser's local timezone
@@ -124,17 +147,7 @@ export const formatReceiptDateTime = (utcDateString: string): string => {
   if (!utcDateString) return '';
   
   try {
-    // Ensure the date string is treated as UTC by appending 'Z' if not present
-    let dateString = utcDateString.trim();
-    if (!dateString.endsWith('Z') && !dateString.includes('+') && !dateString.includes('T')) {
-      // If it's a simple date format, convert to ISO
-      dateString = new Date(dateString).toISOString();
-    } else if (!dateString.endsWith('Z') && dateString.includes('T') && !dateString.includes('+')) {
-      // If it has 'T' but no timezone indicator, append 'Z' to mark as UTC
-      dateString = dateString + 'Z';
-    }
-    
-    const utcDate = new Date(dateString);
+    const utcDate = parseUtcDate(utcDateString);
     
     // Check if the date is valid
     if (isNaN(utcDate.getTime())) {
@@ -0,0 +1,281 @@
+/**
+ * Inventory depletion
+ * Theoretical stock consumption of an order from the branch recipes, recorded
+ * as a stock movement when the order reaches the configured status and
+ * adjusted when the order is later cancelled or modified
+ * Runs in this client when it changes an order's status (status dialog, kitchen
+ * display, bulk actions); status changes made by the server or another app
+ * don't deplete stock
+ */
+import type {
+  DetailedOrder,
+  InventoryDepletionAdjustmentReason,
+  InventoryDepletionLine,
+  InventoryDepletionSettings,
+  RecipeDetail,
+} from '@/types/schema';
+import { inventoryApi } from '@/lib/apiRepository';
+import { queryClient } from '@/lib/queryClient';
+import { getLifecycleState } from './orderLifecycle';
+
+// Settings are shared by every device of the branch, so don't hold them long
+const SETTINGS_CACHE_MS = 60 * 1000;
+// Recipe details are fetched one by one, so keep them for a few minutes
+const RECIPE_CACHE_MS = 5 * 60 * 1000;
+const RECIPE_PAGE_SIZE = 100;
+const RECIPE_FETCH_BATCH = 10;
+
+// Quantities are kept to the 3 decimals recipes allow
+const roundQuantity = (value: number) => Math.round(value * 1000) / 1000;
+
+export type DepletionTriggerState = InventoryDepletionSettings['triggerState'];
+
+export const DEPLETION_TRIGGER_LABELS: Record<DepletionTriggerState, string> = {
+  preparing: 'When preparation starts',
+  ready: 'When the order is ready',
+  delivered: 'When the order is completed',
+};
+
+export const DEFAULT_INVENTORY_DEPLETION_SETTINGS: InventoryDepletionSettings = {
+  enabled: false,
+  triggerState: 'delivered',
+};
+
+export interface OrderDepletionLine extends InventoryDepletionLine {
+  // Order lines that use this inventory item, e.g. "2x Burger (Large)"
+  sources: string[];
+}
+
+export interface OrderDepletion {
+  lines: OrderDepletionLine[];
+  // Order lines with no recipe, which don't deplete anything
+  unmatched: string[];
+}
+
+export type DepletionResult =
+  | { status: 'skipped' }
+  | { status: 'recorded'; lineCount: number }
+  | { status: 'failed'; error: string };
+
+const sameName = (a: string = '', b: string = '') => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Query for a branch's depletion settings, falling back to the defaults
+ */
+export const inventoryDepletionSettingsQuery = (branchId: number) => ({
+  queryKey: ['inventory-depletion-settings', branchId],
+  staleTime: SETTINGS_CACHE_MS,
+  queryFn: async (): Promise<InventoryDepletionSettings> => ({
+    ...DEFAULT_INVENTORY_DEPLETION_SETTINGS,
+    ...(await inventoryApi.getInventoryDepletionSettings(branchId)),
+  }),
+});
+
+export const getInventoryDepletionSettings = (branchId: number): Promise<InventoryDepletionSettings> =>
+  queryClient.fetchQuery(inventoryDepletionSettingsQuery(branchId));
+
+export const saveInventoryDepletionSettings = async (
+  branchId: number,
+  settings: InventoryDepletionSettings,
+): Promise<InventoryDepletionSettings> => {
+  const saved = await inventoryApi.updateInventoryDepletionSettings(branchId, settings);
+  queryClient.setQueryData(inventoryDepletionSettingsQuery(branchId).queryKey, saved);
+  return saved;
+};
+
+/**
+ * Query for every recipe of a branch with its items
+ * Shares the "recipes" query key so saving a recipe refreshes it
+ */
+export const branchRecipesQuery = (branchId: number) => ({
+  queryKey: ['recipes', branchId, 'details'],
+  staleTime: RECIPE_CACHE_MS,
+  queryFn: async (): Promise<RecipeDetail[]> => {
+    const summaries = [];
+    for (let page = 1; ; page++) {
+      const batch = await inventoryApi.getRecipesByBranch(branchId, {
+        PageNumber: page,
+        PageSize: RECIPE_PAGE_SIZE,
+      });
+      const items = Array.isArray(batch) ? batch : batch.items || [];
+      summaries.push(...items);
+      if (items.length < RECIPE_PAGE_SIZE) break;
+    }
+
+    const details: RecipeDetail[] = [];
+    for (let i = 0; i < summaries.length; i += RECIPE_FETCH_BATCH) {
+      const batch = summaries.slice(i, i + RECIPE_FETCH_BATCH);
+      details.push(...(await Promise.all(batch.map(recipe => inventoryApi.getRecipeById(recipe.id)))));
+    }
+    return details;
+  },
+});
+
+export const getBranchRecipes = (branchId: number): Promise<RecipeDetail[]> =>
+  queryClient.fetchQuery(branchRecipesQuery(branchId));
+
+/**
+ * Theoretical stock used by an order
+ * Menu items use their variant's recipe, falling back to a recipe for the whole
+ * item. Modifiers and deal add-ons are sub-menu items, matched by name since
+ * orders don't carry their sub-menu item ids
+ */
+export function calculateOrderDepletion(order: DetailedOrder, recipes: RecipeDetail[]): OrderDepletion {
+  const lines = new Map<number, OrderDepletionLine>();
+  const unmatched: string[] = [];
+
+  const consume = (recipe: RecipeDetail | undefined, quantity: number, source: string) => {
+    if (!recipe || recipe.items.length === 0) {
+      unmatched.push(source);
+      return;
+    }
+    recipe.items.forEach(item => {
+      const line = lines.get(item.inventoryItemId) || {
+        inventoryItemId: item.inventoryItemId,
+        inventoryItemName: item.inventoryItemName || `Item ${item.inventoryItemId}`,
+        quantity: 0,
+        unit: item.unit,
+        sources: [],
+      };
+      line.quantity = roundQuantity(line.quantity + item.quantity * quantity);
+      if (!line.sources.includes(source)) line.sources.push(source);
+      lines.set(item.inventoryItemId, line);
+    });
+  };
+
+  const findMenuItemRecipe = (menuItemId: number | undefined, variantId: number, variantName: string) =>
+    recipes.find(recipe => recipe.variantId === variantId) ||
+    recipes.find(
+      recipe => recipe.menuItemId === menuItemId && !!recipe.variantId && sameName(recipe.variantName, variantName),
+    ) ||
+    recipes.find(recipe => recipe.menuItemId === menuItemId && !recipe.variantId && !recipe.subMenuItemId);
+
+  const findSubMenuItemRecipe = (name: string) =>
+    recipes.find(recipe => !!recipe.subMenuItemId && sameName(recipe.subMenuItemName, name));
+
+  (order.orderItems || []).forEach(item => {
+    const name = item.itemName + (item.variantName ? ` (${item.variantName})` : '');
+    consume(findMenuItemRecipe(item.menuItemId, item.variantId, item.variantName), item.quantity, `${item.quantity}x ${name}`);
+
+    (item.orderItemModifiers || []).forEach(modifier => {
+      const quantity = modifier.quantity * item.quantity;
+      consume(findSubMenuItemRecipe(modifier.modifierName), quantity, `${quantity}x ${modifier.modifierName}`);
+    });
+  });
+
+  (order.orderPackages || []).forEach(pkg => {
+    (pkg.orderPackageItems || []).forEach(pkgItem => {
+      const quantity = pkgItem.quantity * pkg.quantity;
+      const name = pkgItem.itemName + (pkgItem.variantName ? ` (${pkgItem.variantName})` : '');
+      const recipe =
+        recipes.find(entry => entry.variantId === pkgItem.menuPackageItemVariantId) ||
+        recipes.find(entry => sameName(entry.menuItemName, pkgItem.itemName) && sameName(entry.variantName, pkgItem.variantName));
+      consume(recipe, quantity, `${quantity}x ${name} [${pkg.packageName}]`);
+    });
+
+    (pkg.orderPackageSubItems || []).forEach(subItem => {
+      const quantity = subItem.quantity * pkg.quantity;
+      consume(findSubMenuItemRecipe(subItem.subItemName), quantity, `${quantity}x ${subItem.subItemName} [${pkg.packageName}]`);
+    });
+  });
+
+  return {
+    lines: Array.from(lines.values()).sort((a, b) => a.inventoryItemName.localeCompare(b.inventoryItemName)),
+    unmatched,
+  };
+}
+
+const invalidateStockQueries = (branchId: number) => {
+  queryClient.invalidateQueries({ queryKey: ['inventory-stock', branchId] });
+  queryClient.invalidateQueries({ queryKey: ['inventory-low-stock', branchId] });
+  queryClient.invalidateQueries({ queryKey: ['inventory-depletions', branchId] });
+  queryClient.invalidateQueries({ queryKey: ['inventory-stock-movements', branchId] });
+};
+
+/**
+ * Brings an order's recorded depletion in line with the order after it was cancelled or modified
+ * Works from what was recorded rather than the current settings, so a cancelled
+ * order gets its stock back even if depletion has been turned off since.
+ * Never throws: the order change already happened
+ */
+export async function adjustInventoryDepletion(
+  order: DetailedOrder,
+  reason: InventoryDepletionAdjustmentReason,
+): Promise<DepletionResult> {
+  try {
+    const recorded = await inventoryApi.getInventoryDepletionByOrder(order.id);
+    if (!recorded) return { status: 'skipped' };
+
+    // Cancelled orders use nothing; modified ones use what their new lines need
+    const target = reason === 'Cancelled'
+      ? []
+      : calculateOrderDepletion(order, await getBranchRecipes(order.branchId)).lines;
+
+    const quantities = new Map<number, number>();
+    recorded.lines.forEach(line =>
+      quantities.set(line.inventoryItemId, (quantities.get(line.inventoryItemId) || 0) - line.quantity),
+    );
+    target.forEach(line =>
+      quantities.set(line.inventoryItemId, (quantities.get(line.inventoryItemId) || 0) + line.quantity),
+    );
+    const lines = Array.from(quantities, ([inventoryItemId, quantity]) => ({
+      inventoryItemId,
+      quantity: roundQuantity(quantity),
+    })).filter(line => line.quantity !== 0);
+    if (lines.length === 0) return { status: 'skipped' };
+
+    await inventoryApi.createInventoryDepletionAdjustment({
+      branchId: order.branchId,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      reason,
+      lines,
+    });
+
+    invalidateStockQueries(order.branchId);
+    return { status: 'recorded', lineCount: lines.length };
+  } catch (error: any) {
+    console.error('[Inventory Depletion] Failed to adjust depletion:', error);
+    return { status: 'failed', error: error?.message || 'Failed to adjust inventory depletion' };
+  }
+}
+
+/**
+ * Records an order's stock consumption if the new status is the branch's depletion trigger,
+ * and returns it to stock if the order was cancelled after depleting
+ * The API records one depletion per order, so moving back and forth between
+ * statuses doesn't deplete twice. Never throws: the status change already happened
+ */
+export async function depleteInventoryForStatus(order: DetailedOrder, statusName: string): Promise<DepletionResult> {
+  const state = getLifecycleState(statusName);
+  if (state === 'cancelled') {
+    return adjustInventoryDepletion(order, 'Cancelled');
+  }
+
+  try {
+    const settings = await getInventoryDepletionSettings(order.branchId);
+    if (!settings.enabled || state !== settings.triggerState) {
+      return { status: 'skipped' };
+    }
+
+    const { lines, unmatched } = calculateOrderDepletion(order, await getBranchRecipes(order.branchId));
+    if (unmatched.length > 0) {
+      console.warn('[Inventory Depletion] No recipe for:', unmatched);
+    }
+    if (lines.length === 0) return { status: 'skipped' };
+
+    await inventoryApi.createInventoryDepletion({
+      branchId: order.branchId,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      orderStatus: statusName,
+      lines: lines.map(line => ({ inventoryItemId: line.inventoryItemId, quantity: line.quantity })),
+    });
+
+    invalidateStockQueries(order.branchId);
+    return { status: 'recorded', lineCount: lines.length };
+  } catch (error: any) {
+    console.error('[Inventory Depletion] Failed to record depletion:', error);
+    return { status: 'failed', error: error?.message || 'Failed to record inventory depletion' };
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Inventory variance
+ * Compares the stock each item should have, from its opening level and the
+ * receipts, wastage and recipe usage since, against the counted closing stock
+ */
+import type { InventoryMovementType, InventoryStockMovement } from '@/types/schema';
+
+// Differences below this are measurement rounding
+const QUANTITY_TOLERANCE = 0.0005;
+
+const roundQuantity = (value: number) => Math.round(value * 1000) / 1000;
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+export const MOVEMENT_TYPE_LABELS: Record<InventoryMovementType, string> = {
+  Count: 'Stock count',
+  Purchase: 'Received',
+  Wastage: 'Wastage',
+  Depletion: 'Recipe usage',
+};
+
+export interface InventoryVarianceRow {
+  inventoryItemId: number;
+  itemName: string;
+  unit: string;
+  openingStock: number;
+  received: number;
+  wasted: number;
+  used: number;
+  expectedClosing: number;
+  // null when the item wasn't counted in the period
+  countedClosing: number | null;
+  countedAt: string | null;
+  // Counted minus expected: negative is shrinkage
+  variance: number | null;
+  unitCost: number;
+  varianceValue: number | null;
+  // Movements up to the closing count, oldest first
+  movements: InventoryStockMovement[];
+}
+
+export interface InventoryVarianceReport {
+  rows: InventoryVarianceRow[];
+  countedItems: number;
+  // Value of missing stock across items that came up short
+  shrinkageValue: number;
+  netVarianceValue: number;
+}
+
+/**
+ * Unit cost for valuing a variance: weighted average of the period's purchases,
+ * otherwise the latest cost recorded on any movement
+ */
+const getUnitCost = (movements: InventoryStockMovement[]): number => {
+  const purchases = movements.filter(movement => movement.movementType === 'Purchase' && movement.unitCost !== null);
+  const purchasedQuantity = purchases.reduce((sum, movement) => sum + movement.quantity, 0);
+  if (purchasedQuantity > 0) {
+    return purchases.reduce((sum, movement) => sum + movement.quantity * (movement.unitCost || 0), 0) / purchasedQuantity;
+  }
+  const latest = [...movements].reverse().find(movement => movement.unitCost !== null);
+  return latest?.unitCost || 0;
+};
+
+const buildRow = (movements: InventoryStockMovement[]): InventoryVarianceRow => {
+  const sorted = [...movements].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const first = sorted[0];
+  // Stock before the first movement of the period
+  const openingStock = roundQuantity(first.stockAfter - first.quantity);
+
+  // Anything after the last count happened after the stock was counted
+  const lastCountIndex = sorted.map(movement => movement.movementType).lastIndexOf('Count');
+  const closingCount = lastCountIndex >= 0 ? sorted[lastCountIndex] : null;
+  const contributing = closingCount ? sorted.slice(0, lastCountIndex + 1) : sorted;
+
+  const total = (type: InventoryMovementType) =>
+    roundQuantity(
+      contributing
+        .filter(movement => movement.movementType === type)
+        .reduce((sum, movement) => sum + Math.abs(movement.quantity), 0),
+    );
+  const received = total('Purchase');
+  const wasted = total('Wastage');
+  // Depletion adjustments return stock, so usage is the net of all depletion movements
+  const used = roundQuantity(
+    -contributing
+      .filter(movement => movement.movementType === 'Depletion')
+      .reduce((sum, movement) => sum + movement.quantity, 0),
+  );
+  const expectedClosing = roundQuantity(openingStock + received - wasted - used);
+
+  let variance = closingCount ? roundQuantity(closingCount.stockAfter - expectedClosing) : null;
+  if (variance !== null && Math.abs(variance) < QUANTITY_TOLERANCE) variance = 0;
+
+  const unitCost = getUnitCost(sorted);
+
+  return {
+    inventoryItemId: first.inventoryItemId,
+    itemName: first.itemName,
+    unit: first.unit,
+    openingStock,
+    received,
+    wasted,
+    used,
+    expectedClosing,
+    countedClosing: closingCount ? closingCount.stockAfter : null,
+    countedAt: closingCount ? closingCount.createdAt : null,
+    variance,
+    unitCost,
+    varianceValue: variance === null ? null : roundAmount(variance * unitCost),
+    movements: contributing,
+  };
+};
+
+/**
+ * Variance per item for a period's stock movements
+ * Rows are ordered by value, largest shrinkage first, with uncounted items last
+ */
+export function buildVarianceReport(movements: InventoryStockMovement[]): InventoryVarianceReport {
+  const byItem = new Map<number, InventoryStockMovement[]>();
+  movements.forEach(movement => {
+    byItem.set(movement.inventoryItemId, [...(byItem.get(movement.inventoryItemId) || []), movement]);
+  });
+
+  const rows = Array.from(byItem.values())
+    .map(buildRow)
+    .sort((a, b) => {
+      if (a.varianceValue === null || b.varianceValue === null) {
+        return a.varianceValue === null ? (b.varianceValue === null ? a.itemName.localeCompare(b.itemName) : 1) : -1;
+      }
+      return a.varianceValue - b.varianceValue;
+    });
+
+  const counted = rows.filter(row => row.varianceValue !== null);
+  return {
+    rows,
+    countedItems: counted.length,
+    shrinkageValue: roundAmount(
+      counted.reduce((sum, row) => sum + Math.min(0, row.varianceValue || 0), 0) * -1,
+    ),
+    netVarianceValue: roundAmount(counted.reduce((sum, row) => sum + (row.varianceValue || 0), 0)),
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Kitchen Display System (KDS) helpers
+ * Maps API order statuses onto kitchen lanes and computes ticket age states
+ */
+import { DetailedOrder } from '@/types/schema';
+import { parseUtcDate } from './dateTimeUtils';
+
+export type KitchenLane = 'new' | 'preparing' | 'ready';
+
+export type TicketAgeState = 'ok' | 'warning' | 'late';
+
+export interface OrderStatusType {
+  id: number;
+  name: string;
+}
+
+export const KITCHEN_LANES: Array<{ id: KitchenLane; title: string }> = [
+  { id: 'new', title: 'New' },
+  { id: 'preparing', title: 'Preparing' },
+  { id: 'ready', title: 'Ready' },
+];
+
+// Ticket turns amber once this share of the target completion time has elapsed
+export const TICKET_WARNING_RATIO = 0.75;
+
+// Fallback target when the API does not provide completionTimeMinutes
+export const DEFAULT_COMPLETION_MINUTES = 20;
+
+/**
+ * Resolves a status name from an order or status history entry
+ * The status can arrive either as a status name or as a status type id
+ */
+export const getStatusName = (
+  status: string | number | null | undefined,
+  statusTypes: OrderStatusType[],
+): string => {
+  const rawStatus = (status ?? '').toString().trim();
+  if (/^\d+$/.test(rawStatus)) {
+    const match = statusTypes.find(statusType => statusType.id === Number(rawStatus));
+    return match ? match.name : rawStatus;
+  }
+  return rawStatus;
+};
+
+/**
+ * Resolves the status name of an order
+ */
+export const getOrderStatusName = (
+  order: DetailedOrder,
+  statusTypes: OrderStatusType[],
+): string => getStatusName(order.orderStatus, statusTypes);
+
+/**
+ * Maps a status name onto a kitchen lane
+ * @returns The lane, or null for statuses that are no longer in the kitchen (delivered, cancelled)
+ */
+export const getLaneForStatusName = (statusName: string): KitchenLane | null => {
+  const name = statusName.toLowerCase();
+  if (name.includes('cancel') || name.includes('reject')) return null;
+  if (name.includes('deliver') || name.includes('complet') || name.includes('served')) return null;
+  if (name.includes('ready')) return 'ready';
+  if (name.includes('prepar') || name.includes('process')) return 'preparing';
+  if (name === '' || name.includes('new') || name.includes('pending') || name.includes('placed')) return 'new';
+  return null;
+};
+
+export const getKitchenLane = (
+  order: DetailedOrder,
+  statusTypes: OrderStatusType[],
+): KitchenLane | null => getLaneForStatusName(getOrderStatusName(order, statusTypes));
+
+/**
+ * Finds the status type id to send when moving a ticket forward from a lane
+ * Ready tickets are bumped to the delivered/completed status and leave the board
+ */
+export const getNextStatusId = (
+  lane: KitchenLane,
+  statusTypes: OrderStatusType[],
+): number | null => {
+  const find = (...keywords: string[]) =>
+    statusTypes.find(status =>
+      keywords.some(keyword => status.name.toLowerCase().includes(keyword)),
+    )?.id ?? null;
+
+  switch (lane) {
+    case 'new':
+      return find('prepar', 'process');
+    case 'preparing':
+      return find('ready');
+    case 'ready':
+      return find('deliver', 'complet', 'served');
+  }
+};
+
+/**
+ * Minutes elapsed since the order was created
+ */
+export const getTicketAgeMinutes = (order: DetailedOrder, now: number = Date.now()): number => {
+  const created = parseUtcDate(order.createdAt).getTime();
+  if (isNaN(created)) return 0;
+  return Math.max(0, (now - created) / 60000);
+};
+
+/**
+ * Compares ticket age against the order's target completion time
+ */
+export const getTicketAgeState = (order: DetailedOrder, now: number = Date.now()): TicketAgeState => {
+  const target = order.completionTimeMinutes > 0 ? order.completionTimeMinutes : DEFAULT_COMPLETION_MINUTES;
+  const age = getTicketAgeMinutes(order, now);
+  if (age >= target) return 'late';
+  if (age >= target * TICKET_WARNING_RATIO) return 'warning';
+  return 'ok';
+};
+
+/**
+ * Formats elapsed minutes as m:ss for ticket timers
+ */
+export const formatTicketAge = (ageMinutes: number): string => {
+  const totalSeconds = Math.floor(ageMinutes * 60);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
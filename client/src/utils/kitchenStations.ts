@@ -0,0 +1,108 @@
+/**
+ * Kitchen station configuration
+ * Stations group menu categories so one order can be split into a ticket per prep area
+ */
+import { DetailedOrder, OrderItem, OrderPackage } from '@/types/schema';
+
+const KITCHEN_TICKET_SETTINGS_KEY = 'kitchen_ticket_settings';
+
+export interface KitchenStation {
+  id: string;
+  name: string;
+  // Menu category names (matched case-insensitively) prepared at this station
+  categoryNames: string[];
+  // Receives deals and any item whose category no station claims
+  isDefault?: boolean;
+  // Printer profile for this station; falls back to the kitchen ticket routing rules
+  printerProfileId?: string;
+}
+
+export interface KitchenTicketSettings {
+  autoPrint: boolean;
+  stations: KitchenStation[];
+}
+
+export interface KitchenTicket {
+  station: KitchenStation;
+  orderItems: OrderItem[];
+  orderPackages: OrderPackage[];
+}
+
+// Used when no stations are configured, or none is marked as default
+export const FALLBACK_KITCHEN_STATION: KitchenStation = {
+  id: 'kitchen',
+  name: 'Kitchen',
+  categoryNames: [],
+  isDefault: true,
+};
+
+export const DEFAULT_KITCHEN_TICKET_SETTINGS: KitchenTicketSettings = {
+  autoPrint: false,
+  stations: [],
+};
+
+export const createKitchenStationId = (): string =>
+  `station-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Loads kitchen ticket settings saved on this device
+ */
+export const getKitchenTicketSettings = (): KitchenTicketSettings => {
+  try {
+    const saved = localStorage.getItem(KITCHEN_TICKET_SETTINGS_KEY);
+    if (!saved) return DEFAULT_KITCHEN_TICKET_SETTINGS;
+    return { ...DEFAULT_KITCHEN_TICKET_SETTINGS, ...JSON.parse(saved) };
+  } catch (error) {
+    console.warn('[Kitchen Ticket] Could not read saved settings:', error);
+    return DEFAULT_KITCHEN_TICKET_SETTINGS;
+  }
+};
+
+/**
+ * Persists kitchen ticket settings for this device
+ */
+export const saveKitchenTicketSettings = (settings: KitchenTicketSettings): void => {
+  localStorage.setItem(KITCHEN_TICKET_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Splits an order's items across stations by menu category
+ * @param order - Order to split
+ * @param stations - Configured stations, in print order
+ * @param categoryByMenuItemId - Menu item id to category name lookup
+ * @returns One ticket per station that has something to prepare
+ */
+export const splitOrderByStation = (
+  order: DetailedOrder,
+  stations: KitchenStation[],
+  categoryByMenuItemId: Map<number, string>,
+): KitchenTicket[] => {
+  const defaultStation = stations.find(station => station.isDefault) ?? FALLBACK_KITCHEN_STATION;
+  const allStations = stations.includes(defaultStation) ? stations : [...stations, defaultStation];
+
+  const tickets = new Map<string, KitchenTicket>(
+    allStations.map(station => [station.id, { station, orderItems: [], orderPackages: [] }]),
+  );
+
+  const findStation = (categoryName?: string): KitchenStation => {
+    if (!categoryName) return defaultStation;
+    const category = categoryName.trim().toLowerCase();
+    return stations.find(station =>
+      station.categoryNames.some(name => name.trim().toLowerCase() === category),
+    ) ?? defaultStation;
+  };
+
+  (order.orderItems || []).forEach(item => {
+    const station = findStation(categoryByMenuItemId.get(item.menuItemId));
+    tickets.get(station.id)!.orderItems.push(item);
+  });
+
+  // Deals mix categories, so they go to the default station whole
+  (order.orderPackages || []).forEach(pkg => {
+    tickets.get(defaultStation.id)!.orderPackages.push(pkg);
+  });
+
+  return Array.from(tickets.values()).filter(
+    ticket => ticket.orderItems.length > 0 || ticket.orderPackages.length > 0,
+  );
+};
@@ -0,0 +1,285 @@
+/**
+ * Order cart
+ * Pricing, totals and request payloads for orders taken in the back office,
+ * shared by the create order dialog and the POS screen, plus parked POS carts
+ * and PLU/barcode lookup
+ */
+import type {
+  BranchConfiguration,
+  CreateOrderItem,
+  CreateOrderItemCustomization,
+  CreateOrderItemModifier,
+  CreateOrderPackage,
+  CustomerDeal,
+  CustomerMenuDiscount,
+  CustomerMenuItem,
+  CustomerSearchMenuResponse,
+} from '@/types/schema';
+
+const PARKED_ORDERS_KEY = 'pos_parked_orders';
+
+export interface OrderItemSelection {
+  type: 'menuItem' | 'deal';
+  item: CustomerMenuItem | CustomerDeal;
+  quantity: number;
+  selectedVariation?: number;
+  selectedModifiers: CreateOrderItemModifier[];
+  selectedCustomizations: CreateOrderItemCustomization[];
+  price: number;
+}
+
+export interface OrderCartTotals {
+  subTotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  serviceCharges: number;
+  tipAmount: number;
+  totalAmount: number;
+}
+
+// A cart put aside at the POS so another customer can be served
+export interface ParkedOrder {
+  id: string;
+  branchId: number;
+  label: string;
+  parkedAt: string;
+  items: OrderItemSelection[];
+  orderType: number;
+  locationId: number | null;
+  specialInstruction: string;
+  tipAmount: number;
+  allergenIds: number[];
+  customerName: string;
+  customerPhone: string;
+  deliveryAddress: string;
+}
+
+export type PluMatch =
+  | { type: 'menuItem'; item: CustomerMenuItem; variationId?: number }
+  | { type: 'deal'; item: CustomerDeal };
+
+// Percentage discount from the menu, e.g. 10 for 10% off
+export const calculateDiscountedPrice = (
+  originalPrice: number,
+  discount: CustomerMenuDiscount | null | undefined,
+): number => {
+  if (!discount) return originalPrice;
+  const discountAmount = (originalPrice * discount.value) / 100;
+  return originalPrice - discountAmount;
+};
+
+/**
+ * Unit price of a menu item with its variation, modifiers and customizations, or of a deal
+ */
+export const calculateItemPrice = (
+  item: CustomerMenuItem | CustomerDeal,
+  type: 'menuItem' | 'deal',
+  selectedVariation?: number,
+  selectedModifiers: CreateOrderItemModifier[] = [],
+  selectedCustomizations: CreateOrderItemCustomization[] = [],
+): number => {
+  if (type === 'deal') {
+    const deal = item as CustomerDeal;
+    return deal.discount ? calculateDiscountedPrice(deal.price, deal.discount) : deal.price;
+  }
+
+  const menuItem = item as CustomerMenuItem;
+  const variation = menuItem.variations.find(v => v.id === selectedVariation) || menuItem.variations[0];
+  let basePrice = variation?.price || 0;
+
+  selectedModifiers.forEach(mod => {
+    const modifier = menuItem.modifiers.find(m => m.id === mod.modifierId);
+    if (modifier) {
+      basePrice += modifier.price * mod.quantity;
+    }
+  });
+
+  selectedCustomizations.forEach(cust => {
+    const option = menuItem.customizations
+      .find(c => c.id === cust.customizationId)
+      ?.options.find(o => o.id === cust.optionId);
+    if (option) {
+      basePrice += option.price;
+    }
+  });
+
+  return menuItem.discount ? calculateDiscountedPrice(basePrice, menuItem.discount) : basePrice;
+};
+
+/**
+ * Order totals from the branch's discount, tax and service charge settings
+ * isDiscountOnTotal=false takes the discount off the tax instead of the subtotal
+ */
+export const calculateOrderTotals = (
+  items: OrderItemSelection[],
+  config: BranchConfiguration = {},
+  tipAmount: number = 0,
+): OrderCartTotals => {
+  const subTotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  const discountPercentage = config.discountPercentage || 0;
+  const serviceChargePercentage = config.serviceChargePercentage || 0;
+  const taxPercentage = config.taxPercentage || 0;
+  const isDiscountOnTotal = config.isDiscountOnTotal !== false;
+
+  let discountAmount = 0;
+  let taxableAmount = subTotal;
+
+  if (isDiscountOnTotal && discountPercentage > 0) {
+    discountAmount = (subTotal * discountPercentage) / 100;
+    taxableAmount = subTotal - discountAmount;
+  }
+
+  const taxAmount = (taxableAmount * taxPercentage) / 100;
+  const serviceCharges = (taxableAmount * serviceChargePercentage) / 100;
+
+  if (!isDiscountOnTotal && discountPercentage > 0) {
+    discountAmount = (taxAmount * discountPercentage) / 100;
+  }
+
+  const totalAmount =
+    taxableAmount + taxAmount + serviceCharges + tipAmount - (isDiscountOnTotal ? 0 : discountAmount);
+
+  return { subTotal, discountAmount, taxAmount, serviceCharges, tipAmount, totalAmount };
+};
+
+/**
+ * Menu item and deal lines of a CreateOrderRequest
+ */
+export const buildOrderLinesPayload = (
+  items: OrderItemSelection[],
+): { orderItems: CreateOrderItem[]; orderPackages: CreateOrderPackage[] } => ({
+  orderItems: items
+    .filter(item => item.type === 'menuItem')
+    .map(item => {
+      const menuItem = item.item as CustomerMenuItem;
+      return {
+        menuItemId: menuItem.menuItemId,
+        variantId: item.selectedVariation || menuItem.variations[0].id,
+        quantity: item.quantity,
+        modifiers: item.selectedModifiers,
+        customizations: item.selectedCustomizations,
+      };
+    }),
+  orderPackages: items
+    .filter(item => item.type === 'deal')
+    .map(item => ({
+      menuPackageId: (item.item as CustomerDeal).dealId,
+      quantity: item.quantity,
+    })),
+});
+
+/**
+ * Cart line label, with the variation for menu items that have more than one
+ */
+export const getSelectionName = (selection: OrderItemSelection): string => {
+  if (selection.type === 'deal') return `[DEAL] ${selection.item.name}`;
+  const menuItem = selection.item as CustomerMenuItem;
+  const variation = menuItem.variations.find(v => v.id === selection.selectedVariation);
+  return menuItem.variations.length > 1 && variation ? `${menuItem.name} (${variation.name})` : menuItem.name;
+};
+
+/**
+ * Menu items with one variation and no options go straight into the cart
+ */
+export const needsCustomization = (item: CustomerMenuItem): boolean =>
+  item.variations.length > 1 || item.modifiers.length > 0 || item.customizations.length > 0;
+
+/**
+ * Adds a selection to the cart, merging it into an identical line
+ */
+export const addSelectionToCart = (
+  items: OrderItemSelection[],
+  selection: OrderItemSelection,
+): OrderItemSelection[] => {
+  const key = (entry: OrderItemSelection) =>
+    JSON.stringify([
+      entry.type,
+      entry.type === 'deal' ? (entry.item as CustomerDeal).dealId : (entry.item as CustomerMenuItem).menuItemId,
+      entry.selectedVariation,
+      entry.selectedModifiers,
+      entry.selectedCustomizations,
+    ]);
+  const index = items.findIndex(entry => key(entry) === key(selection));
+  if (index === -1) return [...items, selection];
+  return items.map((entry, i) => (i === index ? { ...entry, quantity: entry.quantity + selection.quantity } : entry));
+};
+
+/**
+ * Splits a keypad or scanner entry into quantity and code, e.g. "3*101"
+ */
+export const parsePluEntry = (entry: string): { quantity: number; code: string } => {
+  const match = entry.trim().match(/^(\d+)\s*[*xX]\s*(.+)$/);
+  if (!match) return { quantity: 1, code: entry.trim() };
+  return { quantity: Math.max(1, parseInt(match[1], 10)), code: match[2].trim() };
+};
+
+/**
+ * Finds the menu entry for a PLU code or scanned barcode
+ * Menu item ids are their PLU, "V" + variation id picks a variation and
+ * "D" + deal id a deal; anything else must match a name exactly
+ */
+export const findByPlu = (
+  menu: CustomerSearchMenuResponse | undefined,
+  code: string,
+): PluMatch | null => {
+  if (!menu || !code) return null;
+  const value = code.trim();
+
+  const prefixed = value.match(/^([dDvV])(\d+)$/);
+  if (prefixed) {
+    const id = parseInt(prefixed[2], 10);
+    if (prefixed[1].toUpperCase() === 'D') {
+      const deal = menu.deals?.find(entry => entry.dealId === id);
+      return deal ? { type: 'deal', item: deal } : null;
+    }
+    const item = menu.menuItems?.find(entry => entry.variations.some(variation => variation.id === id));
+    return item ? { type: 'menuItem', item, variationId: id } : null;
+  }
+
+  if (/^\d+$/.test(value)) {
+    const item = menu.menuItems?.find(entry => entry.menuItemId === parseInt(value, 10));
+    return item ? { type: 'menuItem', item } : null;
+  }
+
+  const name = value.toLowerCase();
+  const item = menu.menuItems?.find(entry => entry.name.toLowerCase() === name);
+  if (item) return { type: 'menuItem', item };
+  const deal = menu.deals?.find(entry => entry.name.toLowerCase() === name);
+  return deal ? { type: 'deal', item: deal } : null;
+};
+
+const getAllParkedOrders = (): ParkedOrder[] => {
+  try {
+    const saved = localStorage.getItem(PARKED_ORDERS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.warn('[POS] Could not read parked orders:', error);
+    return [];
+  }
+};
+
+/**
+ * Carts parked on this device for a branch, oldest first
+ */
+export const getParkedOrders = (branchId: number): ParkedOrder[] =>
+  getAllParkedOrders()
+    .filter(order => order.branchId === branchId)
+    .sort((a, b) => a.parkedAt.localeCompare(b.parkedAt));
+
+export const parkOrder = (order: Omit<ParkedOrder, 'id' | 'parkedAt'>): ParkedOrder => {
+  const parked: ParkedOrder = {
+    ...order,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    parkedAt: new Date().toISOString(),
+  };
+  localStorage.setItem(PARKED_ORDERS_KEY, JSON.stringify([...getAllParkedOrders(), parked]));
+  return parked;
+};
+
+export const removeParkedOrder = (id: string): void => {
+  localStorage.setItem(
+    PARKED_ORDERS_KEY,
+    JSON.stringify(getAllParkedOrders().filter(order => order.id !== id)),
+  );
+};
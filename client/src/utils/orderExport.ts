@@ -0,0 +1,43 @@
+/**
+ * Order and reservation export columns
+ */
+import { DetailedOrder, Reservation } from '@/types/schema';
+import { ExportColumn } from './tableExport';
+
+export const ORDER_EXPORT_COLUMNS: ExportColumn<DetailedOrder>[] = [
+  { header: 'Order Number', value: order => order.orderNumber },
+  { header: 'Created At', type: 'datetime', value: order => order.createdAt },
+  { header: 'Branch', value: order => order.branchName },
+  { header: 'Table', value: order => order.locationName },
+  { header: 'Order Type', value: order => order.orderType },
+  { header: 'Status', value: order => order.orderStatus },
+  { header: 'Items', type: 'number', value: order => (order.orderItems?.length || 0) + (order.orderPackages?.length || 0) },
+  { header: 'Sub Total', type: 'currency', value: order => order.subTotal },
+  { header: 'Discount', type: 'currency', value: order => order.discountAmount },
+  { header: 'Tax', type: 'currency', value: order => order.taxAmount },
+  { header: 'Service Charges', type: 'currency', value: order => order.serviceCharges },
+  { header: 'Delivery Charges', type: 'currency', value: order => order.deliveryCharges },
+  { header: 'Tip', type: 'currency', value: order => order.tipAmount },
+  { header: 'Total', type: 'currency', value: order => order.totalAmount },
+  { header: 'Currency', value: order => order.currency },
+];
+
+const RESERVATION_STATUS_LABELS: Record<number, string> = {
+  0: 'Pending',
+  1: 'Accepted',
+  2: 'Rejected',
+};
+
+export const RESERVATION_EXPORT_COLUMNS: ExportColumn<Reservation>[] = [
+  { header: 'Name', value: reservation => reservation.reservationName },
+  { header: 'Date', type: 'date', value: reservation => reservation.reservationDate },
+  { header: 'Time', value: reservation => reservation.reservationTime },
+  { header: 'Table', value: reservation => reservation.tableName },
+  { header: 'Guests', type: 'number', value: reservation => reservation.numberOfGuests },
+  {
+    header: 'Status',
+    value: reservation =>
+      reservation.actionTaken === null ? 'Unknown' : RESERVATION_STATUS_LABELS[reservation.actionTaken] || 'Unknown',
+  },
+];
+
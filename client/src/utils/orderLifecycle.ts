@@ -0,0 +1,122 @@
+/**
+ * Order lifecycle
+ * Client-side state machine over the API's order status types:
+ * New → Preparing → Ready → Delivered, with cancellation only before the food is ready
+ * The kitchen may recall a ticket one step back; recalls are always logged
+ */
+import { DetailedOrder } from '@/types/schema';
+import { OrderStatusType, getOrderStatusName } from './kitchenDisplay';
+
+export type OrderLifecycleState = 'new' | 'preparing' | 'ready' | 'delivered' | 'cancelled';
+
+export const ORDER_TRANSITIONS: Record<OrderLifecycleState, OrderLifecycleState[]> = {
+  new: ['preparing', 'cancelled'],
+  preparing: ['ready', 'cancelled'],
+  ready: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+// The only backward moves allowed, for tickets bumped by mistake
+export const ORDER_RECALLS: Partial<Record<OrderLifecycleState, OrderLifecycleState>> = {
+  preparing: 'new',
+  ready: 'preparing',
+};
+
+export const ORDER_STATE_LABELS: Record<OrderLifecycleState, string> = {
+  new: 'New',
+  preparing: 'Preparing',
+  ready: 'Ready',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+export interface CancellationReason {
+  code: string;
+  label: string;
+}
+
+export const CANCELLATION_REASONS: CancellationReason[] = [
+  { code: 'CUSTOMER_REQUEST', label: 'Customer request' },
+  { code: 'OUT_OF_STOCK', label: 'Item out of stock' },
+  { code: 'KITCHEN_ISSUE', label: 'Kitchen or equipment issue' },
+  { code: 'PAYMENT_FAILED', label: 'Payment failed' },
+  { code: 'DUPLICATE', label: 'Duplicate order' },
+  { code: 'CUSTOMER_NO_SHOW', label: 'Customer no-show' },
+  { code: 'OTHER', label: 'Other' },
+];
+
+export interface StatusTransition {
+  statusType: OrderStatusType;
+  state: OrderLifecycleState;
+}
+
+/**
+ * Maps a status name from the API onto a lifecycle state
+ */
+export const getLifecycleState = (statusName: string): OrderLifecycleState => {
+  const name = statusName.toLowerCase();
+  if (name.includes('cancel') || name.includes('reject')) return 'cancelled';
+  if (name.includes('deliver') || name.includes('complet') || name.includes('served')) return 'delivered';
+  if (name.includes('ready')) return 'ready';
+  if (name.includes('prepar') || name.includes('process')) return 'preparing';
+  return 'new';
+};
+
+export const getOrderLifecycleState = (
+  order: DetailedOrder,
+  statusTypes: OrderStatusType[],
+): OrderLifecycleState => getLifecycleState(getOrderStatusName(order, statusTypes));
+
+/**
+ * Status types the order may move to next, in lifecycle order
+ */
+export const getAllowedTransitions = (
+  order: DetailedOrder,
+  statusTypes: OrderStatusType[],
+): StatusTransition[] => {
+  const allowed = ORDER_TRANSITIONS[getOrderLifecycleState(order, statusTypes)];
+  return statusTypes
+    .map(statusType => ({ statusType, state: getLifecycleState(statusType.name) }))
+    .filter(transition => allowed.includes(transition.state))
+    .sort((a, b) => allowed.indexOf(a.state) - allowed.indexOf(b.state));
+};
+
+/**
+ * Status type a recall moves the order back to
+ * @returns null when the order's state can't be recalled
+ */
+export const getRecallTransition = (
+  order: DetailedOrder,
+  statusTypes: OrderStatusType[],
+): StatusTransition | null => {
+  const target = ORDER_RECALLS[getOrderLifecycleState(order, statusTypes)];
+  if (!target) return null;
+  const statusType = statusTypes.find(status => getLifecycleState(status.name) === target);
+  return statusType ? { statusType, state: target } : null;
+};
+
+export const buildRecallComment = (
+  from: OrderLifecycleState,
+  to: OrderLifecycleState,
+  source: string,
+): string => `Recalled from ${ORDER_STATE_LABELS[from]} to ${ORDER_STATE_LABELS[to]} via ${source}`;
+
+export const requiresReason = (state: OrderLifecycleState): boolean => state === 'cancelled';
+
+/**
+ * Builds the comment sent with updateOrderStatus
+ * Cancellations lead with the reason code so reports can group them
+ */
+export const buildStatusComment = (
+  state: OrderLifecycleState,
+  options: { reasonCode?: string; note?: string; source: string },
+): string => {
+  const note = options.note?.trim();
+  if (requiresReason(state)) {
+    const reason = CANCELLATION_REASONS.find(item => item.code === options.reasonCode);
+    const label = reason ? `${reason.code}: ${reason.label}` : 'Cancelled';
+    return note ? `${label} - ${note}` : label;
+  }
+  return note || options.source;
+};
@@ -0,0 +1,221 @@
+/**
+ * Order modification
+ * Diffs an open order against its edited cart, logs the change in the status
+ * history and prints a MODIFIED kitchen ticket with only the changed lines
+ */
+import type { CustomerDeal, CustomerMenuItem, DetailedOrder } from '@/types/schema';
+import { OrderType } from '@/types/schema';
+import { ordersApi } from '@/lib/apiRepository';
+import { OrderItemSelection, calculateItemPrice } from './orderCart';
+import { OrderStatusType, getOrderStatusName } from './kitchenDisplay';
+import { getLifecycleState } from './orderLifecycle';
+
+// Reversed banner at the top of the kitchen ticket
+export const MODIFIED_TICKET_BANNER = 'MODIFIED';
+
+export interface OrderDeltaLine {
+  key: string;
+  type: 'menuItem' | 'deal';
+  // menuItemId or menuPackageId, used to route the line to its kitchen station
+  referenceId: number;
+  name: string;
+  // Positive when added, negative when removed
+  quantity: number;
+  modifiers: Array<{ modifierName: string; quantity: number }>;
+  customizations: Array<{ customizationName: string; optionName: string }>;
+}
+
+type DeltaLineInput = Omit<OrderDeltaLine, 'key'>;
+
+/**
+ * Only dine-in orders can be modified, and only until they are completed or cancelled
+ */
+export const canModifyOrder = (order: DetailedOrder, statusTypes: OrderStatusType[] = []): boolean => {
+  // Order types come back as enum names, e.g. "DineIn"
+  if ((order.orderType || '').replace(/\s/g, '').toLowerCase() !== OrderType[OrderType.DineIn].toLowerCase()) {
+    return false;
+  }
+  const state = getLifecycleState(getOrderStatusName(order, statusTypes));
+  return state !== 'delivered' && state !== 'cancelled';
+};
+
+// Lines are compared by menu, variant, modifier and option ids; names are only for display
+const getLineKey = (selection: OrderItemSelection): string =>
+  JSON.stringify([
+    selection.type,
+    selection.type === 'deal' ? (selection.item as CustomerDeal).dealId : (selection.item as CustomerMenuItem).menuItemId,
+    selection.selectedVariation ?? null,
+    selection.selectedModifiers.map(modifier => `${modifier.modifierId}x${modifier.quantity}`).sort(),
+    selection.selectedCustomizations.map(custom => `${custom.customizationId}:${custom.optionId}`).sort(),
+  ]);
+
+const fromSelection = (selection: OrderItemSelection): DeltaLineInput => {
+  if (selection.type === 'deal') {
+    const deal = selection.item as CustomerDeal;
+    return { type: 'deal', referenceId: deal.dealId, name: deal.name, quantity: selection.quantity, modifiers: [], customizations: [] };
+  }
+
+  const menuItem = selection.item as CustomerMenuItem;
+  const variation = menuItem.variations.find(entry => entry.id === selection.selectedVariation) || menuItem.variations[0];
+  return {
+    type: 'menuItem',
+    referenceId: menuItem.menuItemId,
+    name: menuItem.name + (variation?.name ? ` (${variation.name})` : ''),
+    quantity: selection.quantity,
+    modifiers: selection.selectedModifiers.map(modifier => ({
+      modifierName: menuItem.modifiers.find(entry => entry.id === modifier.modifierId)?.name || '',
+      quantity: modifier.quantity,
+    })),
+    customizations: selection.selectedCustomizations.map(custom => {
+      const customization = menuItem.customizations.find(entry => entry.id === custom.customizationId);
+      return {
+        customizationName: customization?.name || '',
+        optionName: customization?.options.find(option => option.id === custom.optionId)?.name || '',
+      };
+    }),
+  };
+};
+
+/**
+ * Lines added to or removed from an order by the edited cart
+ * @param originalItems - The order's lines as loaded into the cart, see buildReorder
+ * @param items - The edited cart
+ */
+export function buildOrderDelta(originalItems: OrderItemSelection[], items: OrderItemSelection[]): OrderDeltaLine[] {
+  const lines = new Map<string, OrderDeltaLine>();
+  const add = (selection: OrderItemSelection, sign: 1 | -1) => {
+    const key = getLineKey(selection);
+    const entry = lines.get(key) || { ...fromSelection(selection), key, quantity: 0 };
+    entry.quantity += sign * selection.quantity;
+    lines.set(key, entry);
+  };
+
+  originalItems.forEach(selection => add(selection, -1));
+  items.forEach(selection => add(selection, 1));
+
+  return Array.from(lines.values()).filter(line => line.quantity !== 0);
+}
+
+/**
+ * Prices the edited cart of an order being modified
+ * Units the order already had keep the price they were ordered at; only units
+ * added on top are charged at today's menu price
+ * @param originalItems - The order's lines at the prices they were ordered at, see buildReorder
+ * @param items - The edited cart
+ * @returns The cart with each line's blended unit price
+ */
+export function priceModifiedCart(originalItems: OrderItemSelection[], items: OrderItemSelection[]): OrderItemSelection[] {
+  const ordered = new Map<string, { quantity: number; total: number }>();
+  originalItems.forEach(selection => {
+    const key = getLineKey(selection);
+    const entry = ordered.get(key) || { quantity: 0, total: 0 };
+    entry.quantity += selection.quantity;
+    entry.total += selection.price * selection.quantity;
+    ordered.set(key, entry);
+  });
+
+  return items.map(selection => {
+    const currentPrice = calculateItemPrice(
+      selection.item,
+      selection.type,
+      selection.selectedVariation,
+      selection.selectedModifiers,
+      selection.selectedCustomizations,
+    );
+    const entry = ordered.get(getLineKey(selection));
+    const keptQuantity = Math.min(entry?.quantity || 0, selection.quantity);
+    if (!entry || keptQuantity <= 0) return { ...selection, price: currentPrice };
+
+    // Units already on the order are used up by the first cart line that matches them
+    const keptTotal = (entry.total / entry.quantity) * keptQuantity;
+    entry.total -= keptTotal;
+    entry.quantity -= keptQuantity;
+    return {
+      ...selection,
+      price: (keptTotal + (selection.quantity - keptQuantity) * currentPrice) / selection.quantity,
+    };
+  });
+}
+
+const getDeltaLineName = (line: OrderDeltaLine): string => (line.type === 'deal' ? `[DEAL] ${line.name}` : line.name);
+
+/**
+ * Status history comment, e.g. "MODIFIED: +2x Burger (Large), -1x Fries"
+ */
+export const describeOrderDelta = (delta: OrderDeltaLine[]): string =>
+  `${MODIFIED_TICKET_BANNER}: ${delta
+    .map(line => `${line.quantity > 0 ? '+' : '-'}${Math.abs(line.quantity)}x ${getDeltaLineName(line)}`)
+    .join(', ')}`;
+
+/**
+ * Order view holding only the changed lines, printed through the regular kitchen ticket path
+ * Added lines are marked [ADD], removed lines [REMOVE]
+ */
+export const toDeltaTicketOrder = (order: DetailedOrder, delta: OrderDeltaLine[]): DetailedOrder => {
+  const label = (line: OrderDeltaLine) => (line.quantity > 0 ? '[ADD]' : '[REMOVE]');
+  return {
+    ...order,
+    orderItems: delta
+      .filter(line => line.type === 'menuItem')
+      .map((line, index) => ({
+        id: -(index + 1),
+        menuItemId: line.referenceId,
+        variantId: 0,
+        itemName: `${label(line)} ${line.name}`,
+        unitPrice: 0,
+        quantity: Math.abs(line.quantity),
+        totalPrice: 0,
+        variantName: '',
+        personServing: '',
+        orderItemModifiers: line.modifiers.map((modifier, modifierIndex) => ({
+          id: modifierIndex,
+          modifierId: 0,
+          modifierName: modifier.modifierName,
+          price: 0,
+          quantity: modifier.quantity,
+        })),
+        orderItemCustomizations: line.customizations.map((custom, customIndex) => ({ id: customIndex, ...custom })),
+      })),
+    orderPackages: delta
+      .filter(line => line.type === 'deal')
+      .map((line, index) => ({
+        id: -(index + 1),
+        menuPackageId: line.referenceId,
+        packageName: `${label(line)} ${line.name}`,
+        unitPrice: 0,
+        quantity: Math.abs(line.quantity),
+        totalPrice: 0,
+        expiryDate: '',
+        orderPackageItems: [],
+        orderPackageSubItems: [],
+      })),
+  };
+};
+
+/**
+ * Records the modification in the order's status history, keeping its current status
+ */
+export async function logOrderModification(
+  order: DetailedOrder,
+  statusTypes: OrderStatusType[],
+  delta: OrderDeltaLine[],
+): Promise<void> {
+  const statusName = getOrderStatusName(order, statusTypes);
+  const status = statusTypes.find(statusType => statusType.name.toLowerCase() === statusName.toLowerCase());
+  if (!status) {
+    console.warn('[Order Modification] ⚠️ Unknown status, change not logged in history:', statusName);
+    return;
+  }
+  await ordersApi.updateOrderStatus(order.id, status.id, describeOrderDelta(delta));
+}
+
+/**
+ * Prints the MODIFIED kitchen ticket with only the changed lines
+ */
+export async function printModifiedKitchenTicket(
+  order: DetailedOrder,
+  delta: OrderDeltaLine[],
+): Promise<{ success: boolean; error?: string }> {
+  const { printKitchenTickets } = await import('./printKitchenTicket');
+  return printKitchenTickets(toDeltaTicketOrder(order, delta), undefined, { banner: MODIFIED_TICKET_BANNER });
+}
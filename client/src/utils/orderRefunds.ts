@@ -0,0 +1,293 @@
+/**
+ * Order refunds
+ * Prices full or partial refunds on completed orders, recomputing tax, service
+ * charge and discount in proportion, and lays out the refund slip
+ */
+import { CreateOrderRefundRequest, DetailedOrder, OrderRefund, OrderRefundLine } from '@/types/schema';
+import { formatCurrency, formatCurrencyForPrinter } from '@/lib/currencyUtils';
+import { ReceiptColumns, ReceiptLine, formatColumns } from './receiptLayout';
+import { formatReceiptDateTime } from './dateTimeUtils';
+import { CancellationReason, getOrderLifecycleState } from './orderLifecycle';
+import { OrderStatusType } from './kitchenDisplay';
+import { escapeHtml } from './printBrowserReceipt';
+
+// Same {code, label} shape as cancellation reasons; the code is stored on the refund
+export const REFUND_REASONS: CancellationReason[] = [
+  { code: 'WRONG_ITEM', label: 'Wrong item served' },
+  { code: 'QUALITY', label: 'Food quality issue' },
+  { code: 'MISSING_ITEM', label: 'Item missing from order' },
+  { code: 'LATE_DELIVERY', label: 'Late delivery' },
+  { code: 'OVERCHARGED', label: 'Customer overcharged' },
+  { code: 'CUSTOMER_COMPLAINT', label: 'Customer complaint' },
+  { code: 'OTHER', label: 'Other' },
+];
+
+export interface RefundableLine {
+  key: string;
+  orderItemId: number | null;
+  orderPackageId: number | null;
+  name: string;
+  // Quantity not refunded yet
+  quantity: number;
+  unitPrice: number;
+}
+
+export type RefundBreakdown = Pick<
+  CreateOrderRefundRequest,
+  'subTotal' | 'taxAmount' | 'serviceCharges' | 'discountAmount' | 'totalAmount'
+>;
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+const fromCents = (breakdown: RefundBreakdown): RefundBreakdown => ({
+  subTotal: breakdown.subTotal / 100,
+  taxAmount: breakdown.taxAmount / 100,
+  serviceCharges: breakdown.serviceCharges / 100,
+  discountAmount: breakdown.discountAmount / 100,
+  totalAmount: breakdown.totalAmount / 100,
+});
+
+/**
+ * Refundable value of an order: items plus tax and service charge, less discount
+ * Delivery charges and tips are passed on to others and are not refunded
+ */
+export const getRefundableBase = (order: DetailedOrder): number =>
+  (order.subTotal || 0) + (order.taxAmount || 0) + (order.serviceCharges || 0) - (order.discountAmount || 0);
+
+export const getRefundedTotal = (order: DetailedOrder): number =>
+  (order.refunds || []).reduce((sum, refund) => sum + (refund.totalAmount || 0), 0);
+
+// Left to refund after earlier refunds, never below zero
+export const getRefundableTotal = (order: DetailedOrder): number =>
+  Math.max(0, toCents(getRefundableBase(order)) - toCents(getRefundedTotal(order))) / 100;
+
+/**
+ * Refunds are only taken on delivered orders with something left to refund
+ */
+export const canRefundOrder = (order: DetailedOrder, statusTypes: OrderStatusType[]): boolean =>
+  getOrderLifecycleState(order, statusTypes) === 'delivered' && getRefundableTotal(order) > 0;
+
+/**
+ * Order lines with the quantity still refundable, deals included
+ */
+export const getRefundableLines = (order: DetailedOrder): RefundableLine[] => {
+  const refundedItems = new Map<number, number>();
+  const refundedPackages = new Map<number, number>();
+  (order.refunds || []).forEach(refund =>
+    (refund.lines || []).forEach(line => {
+      if (line.orderItemId !== null) {
+        refundedItems.set(line.orderItemId, (refundedItems.get(line.orderItemId) || 0) + line.quantity);
+      } else if (line.orderPackageId !== null) {
+        refundedPackages.set(line.orderPackageId, (refundedPackages.get(line.orderPackageId) || 0) + line.quantity);
+      }
+    }),
+  );
+
+  const unitPrice = (total: number, quantity: number) => (quantity > 0 ? (total || 0) / quantity : 0);
+
+  return [
+    ...(order.orderItems || []).map(item => ({
+      key: `item-${item.id}`,
+      orderItemId: item.id,
+      orderPackageId: null,
+      name: item.itemName + (item.variantName ? ` (${item.variantName})` : ''),
+      quantity: item.quantity - (refundedItems.get(item.id) || 0),
+      unitPrice: unitPrice(item.totalPrice, item.quantity),
+    })),
+    ...(order.orderPackages || []).map(pkg => ({
+      key: `package-${pkg.id}`,
+      orderItemId: null,
+      orderPackageId: pkg.id,
+      name: `[DEAL] ${pkg.packageName}`,
+      quantity: pkg.quantity - (refundedPackages.get(pkg.id) || 0),
+      unitPrice: unitPrice(pkg.totalPrice, pkg.quantity),
+    })),
+  ].filter(line => line.quantity > 0);
+};
+
+/**
+ * Splits a refund amount into subtotal, tax, service charge and discount in the
+ * order's own proportions; rounding lands on the subtotal
+ * @param amount - Capped at what is left to refund
+ */
+export const calculateAmountRefund = (order: DetailedOrder, amount: number): RefundBreakdown => {
+  const totalCents = Math.min(toCents(amount), toCents(getRefundableTotal(order)));
+  const baseCents = toCents(getRefundableBase(order));
+  if (totalCents <= 0 || baseCents <= 0) {
+    return { subTotal: 0, taxAmount: 0, serviceCharges: 0, discountAmount: 0, totalAmount: 0 };
+  }
+
+  const ratio = totalCents / baseCents;
+  const taxAmount = Math.round(toCents(order.taxAmount || 0) * ratio);
+  const serviceCharges = Math.round(toCents(order.serviceCharges || 0) * ratio);
+  const discountAmount = Math.round(toCents(order.discountAmount || 0) * ratio);
+
+  return fromCents({
+    subTotal: totalCents - taxAmount - serviceCharges + discountAmount,
+    taxAmount,
+    serviceCharges,
+    discountAmount,
+    totalAmount: totalCents,
+  });
+};
+
+/**
+ * Prices a refund of selected lines with their share of tax, service charge and discount
+ * @param quantities - Quantity to refund per line key, see getRefundableLines
+ */
+export const calculateItemRefund = (
+  order: DetailedOrder,
+  quantities: Record<string, number>,
+): { lines: OrderRefundLine[]; breakdown: RefundBreakdown } => {
+  const lines: OrderRefundLine[] = getRefundableLines(order)
+    .map(line => {
+      const quantity = Math.min(Math.max(0, Math.floor(quantities[line.key] || 0)), line.quantity);
+      return {
+        orderItemId: line.orderItemId,
+        orderPackageId: line.orderPackageId,
+        name: line.name,
+        quantity,
+        amount: toCents(line.unitPrice * quantity) / 100,
+      };
+    })
+    .filter(line => line.quantity > 0);
+
+  const subTotalCents = lines.reduce((sum, line) => sum + toCents(line.amount), 0);
+  const orderSubTotalCents = toCents(order.subTotal || 0);
+  if (subTotalCents <= 0 || orderSubTotalCents <= 0) {
+    return { lines, breakdown: calculateAmountRefund(order, 0) };
+  }
+
+  const ratio = subTotalCents / orderSubTotalCents;
+  const taxAmount = Math.round(toCents(order.taxAmount || 0) * ratio);
+  const serviceCharges = Math.round(toCents(order.serviceCharges || 0) * ratio);
+  const discountAmount = Math.round(toCents(order.discountAmount || 0) * ratio);
+  const totalCents = subTotalCents + taxAmount + serviceCharges - discountAmount;
+
+  // After earlier amount refunds the lines can be worth more than what is left
+  if (totalCents > toCents(getRefundableTotal(order))) {
+    return { lines, breakdown: calculateAmountRefund(order, getRefundableTotal(order)) };
+  }
+
+  return {
+    lines,
+    breakdown: fromCents({ subTotal: subTotalCents, taxAmount, serviceCharges, discountAmount, totalAmount: totalCents }),
+  };
+};
+
+export const getRefundReasonLabel = (code: string): string =>
+  REFUND_REASONS.find(reason => reason.code === code)?.label || code;
+
+/**
+ * Builds the printer-neutral line model of a refund slip for the thermal printer
+ * @param columns - Characters per line in the normal font
+ */
+export const layoutRefundSlip = (
+  order: DetailedOrder,
+  refund: OrderRefund,
+  columns: ReceiptColumns,
+): ReceiptLine[] => {
+  const lines: ReceiptLine[] = [];
+  const price = (amount: number) => formatCurrencyForPrinter(amount, order.currency);
+  const text = (value: string, options: { align?: 'left' | 'center'; bold?: boolean; large?: boolean } = {}) =>
+    lines.push({ kind: 'text', text: value, align: options.align || 'left', bold: !!options.bold, large: !!options.large });
+  const row = (label: string, value: string, bold = false) =>
+    formatColumns(label, value, columns).forEach(line => text(line, { bold }));
+  const divider = (char = '-') => text(char.repeat(columns));
+
+  text(order.branchName || 'RESTAURANT', { align: 'center', bold: true, large: true });
+  text('REFUND', { align: 'center', bold: true, large: true });
+  text(`Order #${order.orderNumber}`, { align: 'center' });
+  text(formatReceiptDateTime(refund.createdAt), { align: 'center' });
+  divider('=');
+
+  if (refund.lines.length > 0) {
+    refund.lines.forEach(line => row(`${line.quantity}x ${line.name}`, `-${price(line.amount)}`));
+  } else {
+    text('Partial amount refund');
+  }
+  divider();
+
+  row('Subtotal', `-${price(refund.subTotal)}`);
+  if (refund.discountAmount > 0) row('Discount', price(refund.discountAmount));
+  if (refund.taxAmount > 0) row('Tax', `-${price(refund.taxAmount)}`);
+  if (refund.serviceCharges > 0) row('Service charges', `-${price(refund.serviceCharges)}`);
+  row('TOTAL REFUNDED', `-${price(refund.totalAmount)}`, true);
+  divider();
+
+  text(`Reason: ${refund.reason || getRefundReasonLabel(refund.reasonCode)}`);
+  text(`Approved by: ${refund.approvedBy}`);
+  if (refund.username) text(`Processed by: ${refund.username}`);
+  divider('=');
+  text('Customer signature:');
+  text('');
+  text('_'.repeat(Math.min(columns, 32)));
+  return lines;
+};
+
+/**
+ * Builds a printable HTML refund slip for the browser print dialog
+ */
+export function buildRefundSlipHtml(order: DetailedOrder, refund: OrderRefund): string {
+  const price = (amount: number) => escapeHtml(formatCurrency(amount, order.currency));
+  const row = (label: string, value: string, className = '') =>
+    `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="num">${value}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(`Refund - Order #${order.orderNumber}`)}</title>
+    <style>
+      @page { size: 80mm auto; margin: 4mm; }
+      * { box-sizing: border-box; }
+      body { font-family: 'Courier New', monospace; color: #000; background: #fff; margin: 0; font-size: 12px; }
+      h1, h2 { text-align: center; margin: 0 0 4px; }
+      h1 { font-size: 16px; }
+      h2 { font-size: 14px; }
+      .center { text-align: center; }
+      table { width: 100%; border-collapse: collapse; margin: 6px 0; }
+      td { padding: 2px 0; vertical-align: top; }
+      .num { text-align: right; white-space: nowrap; }
+      .total td { font-weight: bold; border-top: 1px dashed #000; }
+      .signature { margin-top: 24px; border-top: 1px solid #000; padding-top: 2px; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(order.branchName || 'Restaurant')}</h1>
+    <h2>REFUND</h2>
+    <div class="center">Order #${escapeHtml(order.orderNumber)}</div>
+    <div class="center">${escapeHtml(formatReceiptDateTime(refund.createdAt))}</div>
+    <table>
+      ${refund.lines.length > 0
+        ? refund.lines.map(line => row(`${line.quantity}x ${line.name}`, `-${price(line.amount)}`)).join('')
+        : row('Partial amount refund', '')}
+    </table>
+    <table>
+      ${row('Subtotal', `-${price(refund.subTotal)}`)}
+      ${refund.discountAmount > 0 ? row('Discount', price(refund.discountAmount)) : ''}
+      ${refund.taxAmount > 0 ? row('Tax', `-${price(refund.taxAmount)}`) : ''}
+      ${refund.serviceCharges > 0 ? row('Service charges', `-${price(refund.serviceCharges)}`) : ''}
+      ${row('Total refunded', `-${price(refund.totalAmount)}`, 'total')}
+    </table>
+    <div>Reason: ${escapeHtml(refund.reason || getRefundReasonLabel(refund.reasonCode))}</div>
+    <div>Approved by: ${escapeHtml(refund.approvedBy)}</div>
+    ${refund.username ? `<div>Processed by: ${escapeHtml(refund.username)}</div>` : ''}
+    <div class="signature">Customer signature</div>
+  </body>
+</html>`;
+}
+
+/**
+ * Prints a refund slip on the receipt printer, or the browser dialog when none is connected
+ */
+export async function printOrderRefundSlip(
+  order: DetailedOrder,
+  refund: OrderRefund,
+): Promise<{ success: boolean; error?: string }> {
+  const { bluetoothPrinterService } = await import('@/services/bluetoothPrinterService');
+
+  return bluetoothPrinterService.getConnectionStatus()
+    ? bluetoothPrinterService.printRefundSlip(order, refund)
+    : (await import('./printBrowserReceipt')).printBrowserDocument(buildRefundSlipHtml(order, refund), 'Refund slip');
+}
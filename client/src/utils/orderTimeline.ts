@@ -0,0 +1,147 @@
+/**
+ * Order status timeline
+ * Turns orderStatusHistory into ordered steps with durations and target checks
+ */
+import { BranchConfiguration, DetailedOrder } from '@/types/schema';
+import { formatBranchTime } from '@/lib/currencyUtils';
+import { parseUtcDate } from './dateTimeUtils';
+import {
+  DEFAULT_COMPLETION_MINUTES,
+  KitchenLane,
+  OrderStatusType,
+  getLaneForStatusName,
+  getStatusName,
+} from './kitchenDisplay';
+
+// Minutes an order may spend in each kitchen stage before it is flagged
+export type StageTargets = Partial<Record<KitchenLane, number>>;
+
+// updateOrderStatus sends this when the user leaves the comment empty
+const PLACEHOLDER_COMMENTS = ['', 'no'];
+
+export interface OrderTimelineStep {
+  status: string;
+  changedAt: Date;
+  // Formatted in the branch timezone
+  changedAtLabel: string;
+  comment?: string;
+  // Time spent in the previous status before this change; undefined for the first step
+  elapsedMinutes?: number;
+  // Allowed time for the previous status, when it is a tracked kitchen stage
+  targetMinutes?: number;
+  exceededTarget: boolean;
+}
+
+export interface OrderTimeline {
+  steps: OrderTimelineStep[];
+  targetMinutes: number;
+  // Created to the latest recorded status
+  totalMinutes: number;
+  // Whether the first completed status came after the target; undefined until completed
+  completedLate?: boolean;
+}
+
+const isCompletedStatus = (statusName: string): boolean => {
+  const name = statusName.toLowerCase();
+  return name.includes('deliver') || name.includes('complet') || name.includes('served');
+};
+
+/**
+ * Stage targets set in the branch configuration; stages without one are not flagged
+ */
+export const getStageTargets = (config?: BranchConfiguration | null): StageTargets => {
+  const targets: StageTargets = {};
+  if (config?.newStageMinutes) targets.new = config.newStageMinutes;
+  if (config?.preparingStageMinutes) targets.preparing = config.preparingStageMinutes;
+  if (config?.readyStageMinutes) targets.ready = config.readyStageMinutes;
+  return targets;
+};
+
+/**
+ * Builds the status timeline for an order
+ * @param order - Order with orderStatusHistory
+ * @param options.timeZone - Branch timezone for timestamps
+ * @param options.statusTypes - Order status types, for history entries whose status arrives as an id
+ * @param options.stageTargets - Branch stage targets, see getStageTargets
+ */
+export const buildOrderTimeline = (
+  order: DetailedOrder,
+  options: { timeZone?: string; statusTypes?: OrderStatusType[]; stageTargets?: StageTargets } = {},
+): OrderTimeline => {
+  const timeZone = options.timeZone || 'UTC';
+  const statusTypes = options.statusTypes || [];
+  const stageTargets = options.stageTargets || {};
+  const targetMinutes = order.completionTimeMinutes > 0 ? order.completionTimeMinutes : DEFAULT_COMPLETION_MINUTES;
+  const createdAt = parseUtcDate(order.createdAt);
+
+  const history = (order.orderStatusHistory || [])
+    .map(entry => ({
+      ...entry,
+      statusName: getStatusName(entry.orderStatus, statusTypes),
+      changedAt: parseUtcDate(entry.statusChangesDate),
+    }))
+    .filter(entry => !isNaN(entry.changedAt.getTime()))
+    .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+
+  // The API may or may not record the initial status; add an "Order placed" step when it doesn't
+  const firstRecorded = history[0];
+  const needsPlacedStep = !isNaN(createdAt.getTime())
+    && (!firstRecorded || firstRecorded.changedAt.getTime() - createdAt.getTime() > 1000);
+
+  const rawSteps = [
+    ...(needsPlacedStep ? [{ status: 'Order placed', changedAt: createdAt, comment: undefined as string | undefined }] : []),
+    ...history.map(entry => ({
+      status: entry.statusName,
+      changedAt: entry.changedAt,
+      comment: PLACEHOLDER_COMMENTS.includes((entry.statusComment || '').trim().toLowerCase())
+        ? undefined
+        : entry.statusComment.trim(),
+    })),
+  ];
+
+  const steps: OrderTimelineStep[] = rawSteps.map((step, index) => {
+    const changedAtLabel = formatBranchTime(step.changedAt.toISOString(), timeZone);
+    if (index === 0) {
+      return { ...step, changedAtLabel, exceededTarget: false };
+    }
+
+    const previous = rawSteps[index - 1];
+    const elapsedMinutes = (step.changedAt.getTime() - previous.changedAt.getTime()) / 60000;
+    // "Order placed" is the new stage even when the API didn't record it
+    const previousLane = index === 1 && needsPlacedStep ? 'new' : getLaneForStatusName(previous.status);
+    const stageTarget = previousLane ? stageTargets[previousLane] : undefined;
+
+    return {
+      ...step,
+      changedAtLabel,
+      elapsedMinutes,
+      targetMinutes: stageTarget,
+      exceededTarget: stageTarget !== undefined && elapsedMinutes > stageTarget,
+    };
+  });
+
+  const first = steps[0]?.changedAt.getTime() ?? 0;
+  const last = steps[steps.length - 1]?.changedAt.getTime() ?? first;
+  const totalMinutes = (last - first) / 60000;
+  const completed = history.find(entry => isCompletedStatus(entry.statusName));
+
+  return {
+    steps,
+    targetMinutes,
+    totalMinutes,
+    completedLate: completed
+      ? (completed.changedAt.getTime() - first) / 60000 > targetMinutes
+      : undefined,
+  };
+};
+
+/**
+ * Formats a duration in minutes as "45s", "12m" or "1h 05m"
+ */
+export const formatDuration = (minutes: number): string => {
+  if (minutes < 1) return `${Math.max(0, Math.round(minutes * 60))}s`;
+  const totalMinutes = Math.round(minutes);
+  if (totalMinutes < 60) return `${totalMinutes}m`;
+  const hours = Math.floor(totalMinutes / 60);
+  return `${hours}h ${(totalMinutes % 60).toString().padStart(2, '0')}m`;
+};
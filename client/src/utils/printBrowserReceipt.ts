@@ -0,0 +1,276 @@
+import { DetailedOrder } from '@/types/schema';
+import { formatCurrency } from '@/lib/currencyUtils';
+import { formatReceiptDateTime } from './dateTimeUtils';
+
+const BROWSER_PRINT_SETTINGS_KEY = 'browser_print_settings';
+
+// How long to wait for the print dialog before cleaning up the print frame
+const PRINT_FRAME_TIMEOUT_MS = 60000;
+
+export interface BrowserPrintSettings {
+  // Print receipts through the browser dialog when a new order arrives and no Bluetooth printer is set up
+  autoPrint: boolean;
+  // Receipt roll width in mm; 'a4' prints a regular page
+  paperWidth: 58 | 80 | 'a4';
+}
+
+export const DEFAULT_BROWSER_PRINT_SETTINGS: BrowserPrintSettings = {
+  autoPrint: false,
+  paperWidth: 80,
+};
+
+/**
+ * Loads browser print settings saved on this device
+ */
+export const getBrowserPrintSettings = (): BrowserPrintSettings => {
+  try {
+    const saved = localStorage.getItem(BROWSER_PRINT_SETTINGS_KEY);
+    if (!saved) return DEFAULT_BROWSER_PRINT_SETTINGS;
+    return { ...DEFAULT_BROWSER_PRINT_SETTINGS, ...JSON.parse(saved) };
+  } catch (error) {
+    console.warn('[Browser Print] Could not read saved settings:', error);
+    return DEFAULT_BROWSER_PRINT_SETTINGS;
+  }
+};
+
+/**
+ * Persists browser print settings for this device
+ */
+export const saveBrowserPrintSettings = (settings: BrowserPrintSettings): void => {
+  localStorage.setItem(BROWSER_PRINT_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Whether this browser exposes Web Bluetooth (Firefox and Safari don't)
+ */
+export const isBluetoothPrintingSupported = (): boolean =>
+  typeof navigator !== 'undefined' && 'bluetooth' in navigator;
+
+export const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const PAGE_STYLES: Record<BrowserPrintSettings['paperWidth'], string> = {
+  58: '@page { size: 58mm auto; margin: 2mm; } body { width: 54mm; font-size: 10px; }',
+  80: '@page { size: 80mm auto; margin: 3mm; } body { width: 74mm; font-size: 12px; }',
+  a4: '@page { size: A4; margin: 15mm; } body { max-width: 90mm; margin: 0 auto; font-size: 12px; }',
+};
+
+/**
+ * Builds a self-contained, print-optimized HTML receipt for an order
+ * @param order - Order to render
+ * @param paperWidth - Target paper size
+ * @returns Complete HTML document
+ */
+export function buildReceiptHtml(
+  order: DetailedOrder,
+  paperWidth: BrowserPrintSettings['paperWidth'] = DEFAULT_BROWSER_PRINT_SETTINGS.paperWidth
+): string {
+  const currency = order.currency || 'USD';
+  const price = (amount: number) => escapeHtml(formatCurrency(amount || 0, currency));
+  const row = (label: string, value: string, className = '') =>
+    `<div class="row ${className}"><span>${label}</span><span>${value}</span></div>`;
+
+  const subtotal =
+    (order.orderItems || []).reduce((sum, item) => sum + (item.totalPrice || 0), 0) +
+    (order.orderPackages || []).reduce((sum, pkg) => sum + (pkg.totalPrice || 0), 0);
+
+  const itemsHtml = (order.orderItems || []).map(item => {
+    const name = escapeHtml(item.itemName) + (item.variantName ? ` (${escapeHtml(item.variantName)})` : '');
+    const modifiers = (item.orderItemModifiers || []).map(modifier =>
+      row(
+        `+ ${escapeHtml(modifier.modifierName)}${modifier.quantity > 1 ? ` (x${modifier.quantity})` : ''}`,
+        price(modifier.price * modifier.quantity),
+        'sub'
+      )
+    ).join('');
+    const customizations = (item.orderItemCustomizations || []).map(custom =>
+      `<div class="sub">* ${escapeHtml(custom.customizationName)}: ${escapeHtml(custom.optionName)}</div>`
+    ).join('');
+    return row(`${item.quantity}x ${name}`, price(item.totalPrice)) + modifiers + customizations;
+  }).join('');
+
+  const packagesHtml = (order.orderPackages || []).map(pkg => {
+    const contents = [
+      ...(pkg.orderPackageItems || []).map(pkgItem =>
+        `- ${escapeHtml(pkgItem.itemName)}${pkgItem.variantName ? ` (${escapeHtml(pkgItem.variantName)})` : ''}${pkgItem.quantity > 1 ? ` (x${pkgItem.quantity})` : ''}`
+      ),
+      ...(pkg.orderPackageSubItems || []).map(subItem =>
+        `- ${escapeHtml(subItem.subItemName)}${subItem.quantity > 1 ? ` (x${subItem.quantity})` : ''}`
+      ),
+    ].map(line => `<div class="sub">${line}</div>`).join('');
+    return row(`${pkg.quantity}x [DEAL] ${escapeHtml(pkg.packageName)}`, price(pkg.totalPrice)) + contents;
+  }).join('');
+
+  const totalsHtml = [
+    row('Subtotal', price(subtotal)),
+    order.deliveryCharges > 0 ? row('Delivery', price(order.deliveryCharges)) : '',
+    order.serviceCharges > 0 ? row('Service', price(order.serviceCharges)) : '',
+    order.taxAmount > 0 ? row('Tax', price(order.taxAmount)) : '',
+    order.tipAmount > 0 ? row('Tip', price(order.tipAmount)) : '',
+    order.discountAmount > 0 ? row('Discount', `-${price(order.discountAmount)}`) : '',
+    row('TOTAL', price(order.totalAmount), 'total'),
+  ].join('');
+
+  const sections: string[] = [];
+
+  if (order.splitBills && order.splitBills.length > 0) {
+    sections.push(`
+      <div class="section">
+        <div class="title">SPLIT BILL (${escapeHtml(order.splitBills[0].splitType)})</div>
+        ${order.splitBills.map(bill =>
+          row(escapeHtml([bill.itemName, bill.mobileNumber].filter(Boolean).join(' - ') || 'Share'), price(bill.price))
+        ).join('')}
+      </div>`);
+  }
+
+  if (order.allergens && order.allergens.length > 0) {
+    sections.push(`
+      <div class="section">
+        <div class="title">ALLERGENS</div>
+        <div>${escapeHtml(order.allergens.join(', '))}</div>
+      </div>`);
+  }
+
+  if (order.specialInstruction && order.specialInstruction.trim() !== '') {
+    sections.push(`
+      <div class="section">
+        <div class="title">SPECIAL INSTRUCTIONS</div>
+        <div>${escapeHtml(order.specialInstruction)}</div>
+      </div>`);
+  }
+
+  const delivery = order.orderDeliveryDetails;
+  if (delivery && (delivery.fullName || delivery.phoneNumber || delivery.deliveryAddress)) {
+    sections.push(`
+      <div class="section">
+        <div class="title">DELIVERY DETAILS</div>
+        ${delivery.fullName ? `<div>Name: ${escapeHtml(delivery.fullName)}</div>` : ''}
+        ${delivery.phoneNumber ? `<div>Phone: ${escapeHtml(delivery.phoneNumber)}</div>` : ''}
+        ${delivery.deliveryAddress ? `<div>Address: ${escapeHtml(delivery.deliveryAddress)}</div>` : ''}
+        ${delivery.deliveryInstruction ? `<div>Instructions: ${escapeHtml(delivery.deliveryInstruction)}</div>` : ''}
+      </div>`);
+  }
+
+  const pickup = order.orderPickupDetails;
+  if (pickup && (pickup.name || pickup.phoneNumber)) {
+    sections.push(`
+      <div class="section">
+        <div class="title">PICKUP DETAILS</div>
+        ${pickup.name ? `<div>Name: ${escapeHtml(pickup.name)}</div>` : ''}
+        ${pickup.phoneNumber ? `<div>Phone: ${escapeHtml(pickup.phoneNumber)}</div>` : ''}
+        ${pickup.pickupInstruction ? `<div>Instructions: ${escapeHtml(pickup.pickupInstruction)}</div>` : ''}
+      </div>`);
+  }
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Order Receipt - ${escapeHtml(order.orderNumber)}</title>
+    <style>
+      ${PAGE_STYLES[paperWidth]}
+      * { box-sizing: border-box; }
+      body { font-family: 'Courier New', monospace; color: #000; background: #fff; margin: 0 auto; line-height: 1.35; }
+      .center { text-align: center; }
+      .header { font-size: 1.5em; font-weight: bold; }
+      .divider { border-top: 1px dashed #000; margin: 6px 0; }
+      .row { display: flex; justify-content: space-between; gap: 8px; }
+      .row span:last-child { white-space: nowrap; }
+      .sub { padding-left: 1.5em; font-size: 0.9em; }
+      .total { font-weight: bold; font-size: 1.25em; border-top: 1px solid #000; margin-top: 4px; padding-top: 4px; }
+      .section { border-top: 1px dashed #000; margin-top: 6px; padding-top: 6px; }
+      .title { font-weight: bold; }
+    </style>
+  </head>
+  <body>
+    <div class="center header">${escapeHtml(order.branchName || 'RESTAURANT')}</div>
+    <div class="divider"></div>
+    <div><strong>Order: ${escapeHtml(order.orderNumber)}</strong></div>
+    <div>Date: ${escapeHtml(formatReceiptDateTime(order.createdAt))}</div>
+    ${order.orderType ? `<div>Type: ${escapeHtml(order.orderType)}</div>` : ''}
+    ${order.locationName ? `<div>Location: ${escapeHtml(order.locationName)}</div>` : ''}
+    <div class="divider"></div>
+    ${itemsHtml}
+    ${packagesHtml}
+    <div class="divider"></div>
+    ${totalsHtml}
+    ${sections.join('')}
+    <div class="divider"></div>
+    <div class="center">Thank you for your order!<br />Please come again</div>
+  </body>
+</html>`;
+}
+
+// Browsers only show one print dialog at a time, so jobs run one after another
+let printChain: Promise<unknown> = Promise.resolve();
+
+function printHtml(html: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('aria-hidden', 'true');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.style.visibility = 'hidden';
+
+    let timeoutId: ReturnType<typeof setTimeout>;
+    const cleanup = () => {
+      clearTimeout(timeoutId);
+      frame.remove();
+      resolve();
+    };
+
+    frame.onload = () => {
+      const frameWindow = frame.contentWindow;
+      if (!frameWindow) {
+        frame.remove();
+        reject(new Error('Could not open the print preview'));
+        return;
+      }
+      frameWindow.addEventListener('afterprint', cleanup, { once: true });
+      timeoutId = setTimeout(cleanup, PRINT_FRAME_TIMEOUT_MS);
+      frameWindow.focus();
+      frameWindow.print();
+    };
+
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+}
+
+/**
+ * Prints an order receipt through the browser print dialog (printer or Save as PDF)
+ * Used when Web Bluetooth is unavailable or no Bluetooth printer is connected
+ */
+export async function printBrowserReceipt(
+  orderData: DetailedOrder
+): Promise<{ success: boolean; error?: string }> {
+  return printBrowserDocument(buildReceiptHtml(orderData, getBrowserPrintSettings().paperWidth), 'Receipt');
+}
+
+/**
+ * Opens any self-contained HTML document in the browser print dialog (printer or Save as PDF)
+ * @param html - Complete HTML document with its own @page rules
+ * @param label - Document name used in logs
+ */
+export async function printBrowserDocument(
+  html: string,
+  label: string = 'Document'
+): Promise<{ success: boolean; error?: string }> {
+  const job = printChain.then(() => printHtml(html));
+  printChain = job.catch(() => undefined);
+
+  try {
+    await job;
+    return { success: true };
+  } catch (error: any) {
+    console.error(`[Browser Print] ❌ ${label} print error:`, error);
+    return { success: false, error: error.message || 'Failed to open print dialog' };
+  }
+}
@@ -0,0 +1,137 @@
+import { CustomerSearchMenuResponse, DetailedOrder } from '@/types/schema';
+import { apiRepository } from '@/lib/apiRepository';
+import { bluetoothPrinterService } from '@/services/bluetoothPrinterService';
+import { formatReceiptDateTime } from './dateTimeUtils';
+import {
+  KitchenTicket,
+  getKitchenTicketSettings,
+  splitOrderByStation,
+} from './kitchenStations';
+
+// Menu item -> category lookups, cached per branch for the session
+const categoryLookupCache = new Map<number, Promise<Map<number, string>>>();
+
+/**
+ * Builds a menu item id to category name lookup from the branch menu
+ */
+async function getCategoryLookup(branchId: number): Promise<Map<number, string>> {
+  const cached = categoryLookupCache.get(branchId);
+  if (cached) return cached;
+
+  const lookup = (async () => {
+    const response = await apiRepository.call<CustomerSearchMenuResponse>(
+      'getCustomerSearchMenu',
+      'GET',
+      undefined,
+      {},
+      true,
+      { branchId }
+    );
+    if (response.error || !response.data) {
+      throw new Error(response.error || 'Failed to load menu categories');
+    }
+    return new Map(response.data.menuItems.map(item => [item.menuItemId, item.categoryName]));
+  })();
+
+  categoryLookupCache.set(branchId, lookup);
+  // Don't cache failures so the next ticket tries again
+  lookup.catch(() => categoryLookupCache.delete(branchId));
+  return lookup;
+}
+
+function toPrintableTicket(
+  order: DetailedOrder,
+  ticket: KitchenTicket,
+  index: number,
+  count: number,
+  banner?: string
+) {
+  return {
+    orderNumber: order.orderNumber,
+    banner,
+    date: formatReceiptDateTime(order.createdAt),
+    stationName: ticket.station.name,
+    ticketIndex: index + 1,
+    ticketCount: count,
+    orderType: order.orderType,
+    locationName: order.locationName,
+    items: [
+      ...ticket.orderItems.map(item => ({
+        name: item.itemName + (item.variantName ? ` (${item.variantName})` : ''),
+        quantity: item.quantity,
+        modifiers: (item.orderItemModifiers || []).map(modifier => ({
+          modifierName: modifier.modifierName,
+          quantity: modifier.quantity
+        })),
+        customizations: item.orderItemCustomizations || []
+      })),
+      ...ticket.orderPackages.map(pkg => ({
+        name: `[DEAL] ${pkg.packageName}`,
+        quantity: pkg.quantity,
+        packageItems: (pkg.orderPackageItems || []).map(pkgItem => ({
+          itemName: pkgItem.itemName + (pkgItem.variantName ? ` (${pkgItem.variantName})` : ''),
+          quantity: pkgItem.quantity
+        })),
+        packageSubItems: (pkg.orderPackageSubItems || []).map(subItem => ({
+          subItemName: subItem.subItemName,
+          quantity: subItem.quantity
+        }))
+      }))
+    ],
+    allergens: order.allergens,
+    specialInstruction: order.specialInstruction
+  };
+}
+
+/**
+ * Prints price-free kitchen tickets for an order, one per configured station
+ * @param orderData - Order to print
+ * @param stationIds - Only print these stations (used when retrying a partial failure)
+ * @param options - banner: printed large under the station header, e.g. MODIFIED
+ * @returns Overall result plus the stations that still need printing
+ */
+export async function printKitchenTickets(
+  orderData: DetailedOrder,
+  stationIds?: string[],
+  options: { banner?: string } = {}
+): Promise<{ success: boolean; error?: string; failedStationIds: string[] }> {
+  const { stations } = getKitchenTicketSettings();
+
+  let categoryLookup = new Map<number, string>();
+  if (stations.length > 0) {
+    try {
+      categoryLookup = await getCategoryLookup(orderData.branchId);
+    } catch (error) {
+      // Without categories everything lands on the default station, which still gets food cooked
+      console.warn('[Kitchen Ticket] ⚠️ Could not load menu categories, using default station:', error);
+    }
+  }
+
+  const tickets = splitOrderByStation(orderData, stations, categoryLookup)
+    .filter(ticket => !stationIds || stationIds.includes(ticket.station.id));
+
+  const failedStationIds: string[] = [];
+  let lastError: string | undefined;
+
+  // Stations without their own printer follow the kitchen ticket routing rules
+  const routedProfile = bluetoothPrinterService.resolveProfile('kitchen-ticket', orderData.orderType);
+
+  for (let i = 0; i < tickets.length; i++) {
+    const profileId = tickets[i].station.printerProfileId || routedProfile?.id;
+    const result = await bluetoothPrinterService.printKitchenTicket(
+      toPrintableTicket(orderData, tickets[i], i, tickets.length, options.banner),
+      { profileId }
+    );
+    if (!result.success) {
+      failedStationIds.push(tickets[i].station.id);
+      lastError = result.error;
+      console.error(`[Kitchen Ticket] ❌ Failed to print ${tickets[i].station.name} ticket:`, result.error);
+    }
+  }
+
+  if (failedStationIds.length === 0) {
+    return { success: true, failedStationIds };
+  }
+
+  return { success: false, error: lastError || 'Failed to print kitchen ticket', failedStationIds };
+}
@@ -1,6 +1,7 @@
 import { DetailedOrder } from '@/types/schema';
 import { bluetoothPrinterService } from '@/services/bluetoothPrinterService';
 import { formatReceiptDateTime } from './dateTimeUtils';
+import { getReceiptTemplate } from './receiptLayout';
 
 /**
  * Shared function to print order receipt via Bluetooth printer
@@ -63,6 +64,9 @@ export async function printOrderReceipt(
     allergens: orderData.allergens?.length || 0
   });
 
+  // Route to the printer configured for receipts of this order type
+  const profile = bluetoothPrinterService.resolveProfile('receipt', orderData.orderType);
+
   // Print receipt with actual order data
   const printResult = await bluetoothPrinterService.printReceipt({
     orderNumber: orderData.orderNumber,
@@ -92,7 +96,7 @@ export async function printOrderReceipt(
       phoneNumber: orderData.orderPickupDetails.phoneNumber,
       pickupInstruction: orderData.orderPickupDetails.pickupInstruction
     } : undefined
-  });
+  }, { profileId: profile?.id, template: getReceiptTemplate(orderData.branchId) });
 
   if (printResult.success) {
     console.log('[Print Receipt] ✅ Receipt printed successfully!');
@@ -0,0 +1,150 @@
+/**
+ * Purchase order receiving
+ * Status labels, back-ordered quantities and the supplier discrepancy report
+ * built from delivered quantities and invoiced prices
+ */
+import type { PurchaseOrderItem, PurchaseOrderReceiptLine } from '@/types/schema';
+
+// Price differences below this are rounding on the invoice
+const PRICE_TOLERANCE = 0.005;
+
+const roundQuantity = (value: number) => Math.round(value * 1000) / 1000;
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+export const PURCHASE_ORDER_STATUS = {
+  draft: 0,
+  ordered: 1,
+  received: 2,
+  cancelled: 3,
+  partiallyReceived: 4,
+} as const;
+
+export const purchaseOrderStatusMap: {
+  [key: number]: {
+    label: string;
+    variant: 'default' | 'secondary' | 'outline' | 'destructive';
+  };
+} = {
+  [PURCHASE_ORDER_STATUS.draft]: { label: 'Draft', variant: 'secondary' },
+  [PURCHASE_ORDER_STATUS.ordered]: { label: 'Ordered', variant: 'default' },
+  [PURCHASE_ORDER_STATUS.received]: { label: 'Received', variant: 'outline' },
+  [PURCHASE_ORDER_STATUS.cancelled]: { label: 'Cancelled', variant: 'destructive' },
+  [PURCHASE_ORDER_STATUS.partiallyReceived]: { label: 'Partially Received', variant: 'default' },
+};
+
+/**
+ * Orders still waiting on stock: not yet received, or back-ordered after a partial delivery
+ */
+export const canReceivePurchaseOrder = (status: number): boolean =>
+  status === PURCHASE_ORDER_STATUS.draft ||
+  status === PURCHASE_ORDER_STATUS.ordered ||
+  status === PURCHASE_ORDER_STATUS.partiallyReceived;
+
+/**
+ * Quantity still expected on a line
+ */
+export const getOutstandingQuantity = (item: PurchaseOrderItem): number =>
+  item.backOrderedQuantity ?? Math.max(0, roundQuantity(item.quantity - item.receivedQuantity));
+
+export interface SupplierDiscrepancy extends PurchaseOrderReceiptLine {
+  // What the line still lacks after its last delivery of the period; zero on earlier deliveries
+  shortQuantity: number;
+  shortValue: number;
+  // Invoiced minus ordered unit price
+  priceDifference: number;
+  priceVarianceValue: number;
+}
+
+export interface SupplierDiscrepancySummary {
+  supplierId: number;
+  supplierName: string;
+  deliveries: number;
+  // Order lines still short after their last delivery
+  shortShipments: number;
+  shortValue: number;
+  priceChanges: number;
+  // Extra paid over ordered prices; negative when invoices came in cheaper
+  priceVarianceValue: number;
+  // Share of the ordered quantity that arrived, in percent
+  fillRate: number;
+}
+
+export interface SupplierDiscrepancyReport {
+  suppliers: SupplierDiscrepancySummary[];
+  // Deliveries that were short or invoiced at a different price, newest first
+  discrepancies: SupplierDiscrepancy[];
+}
+
+const toDiscrepancy = (line: PurchaseOrderReceiptLine, shortQuantity: number): SupplierDiscrepancy => {
+  const rawDifference = line.actualUnitPrice - line.orderedUnitPrice;
+  const priceDifference = Math.abs(rawDifference) < PRICE_TOLERANCE ? 0 : roundAmount(rawDifference);
+  return {
+    ...line,
+    shortQuantity,
+    shortValue: roundAmount(shortQuantity * line.orderedUnitPrice),
+    priceDifference,
+    priceVarianceValue: roundAmount(priceDifference * line.receivedQuantity),
+  };
+};
+
+/**
+ * Deliveries of one order line, oldest first, with the line's shortfall on the last one
+ * expectedQuantity is what was outstanding at each delivery, so only the first
+ * one holds the quantity the period started with
+ */
+const toLineDiscrepancies = (deliveries: PurchaseOrderReceiptLine[]) => {
+  const sorted = [...deliveries].sort((a, b) => a.receivedAt.localeCompare(b.receivedAt));
+  const ordered = sorted[0].expectedQuantity;
+  const received = roundQuantity(sorted.reduce((sum, line) => sum + line.receivedQuantity, 0));
+  const shortQuantity = Math.max(0, roundQuantity(ordered - received));
+  return {
+    ordered,
+    received: Math.min(received, ordered),
+    discrepancies: sorted.map((line, index) => toDiscrepancy(line, index === sorted.length - 1 ? shortQuantity : 0)),
+  };
+};
+
+/**
+ * Short-shipments and price changes per supplier for a period's deliveries
+ * A line delivered in several parts is only short by what never arrived.
+ * Suppliers are ordered by the value of their discrepancies, worst first
+ */
+export function buildDiscrepancyReport(lines: PurchaseOrderReceiptLine[]): SupplierDiscrepancyReport {
+  const byOrderLine = new Map<number, PurchaseOrderReceiptLine[]>();
+  lines.forEach(line =>
+    byOrderLine.set(line.purchaseOrderItemId, [...(byOrderLine.get(line.purchaseOrderItemId) || []), line]),
+  );
+  const orderLines = Array.from(byOrderLine.values()).map(toLineDiscrepancies);
+  const all = orderLines.flatMap(orderLine => orderLine.discrepancies);
+
+  const bySupplier = new Map<number, typeof orderLines>();
+  orderLines.forEach(orderLine => {
+    const supplierId = orderLine.discrepancies[0].supplierId;
+    bySupplier.set(supplierId, [...(bySupplier.get(supplierId) || []), orderLine]);
+  });
+
+  const suppliers = Array.from(bySupplier.values())
+    .map(supplierOrderLines => {
+      const supplierLines = supplierOrderLines.flatMap(orderLine => orderLine.discrepancies);
+      const ordered = supplierOrderLines.reduce((sum, orderLine) => sum + orderLine.ordered, 0);
+      const received = supplierOrderLines.reduce((sum, orderLine) => sum + orderLine.received, 0);
+      return {
+        supplierId: supplierLines[0].supplierId,
+        supplierName: supplierLines[0].supplierName,
+        deliveries: new Set(supplierLines.map(line => `${line.purchaseOrderId}-${line.receivedAt}`)).size,
+        shortShipments: supplierLines.filter(line => line.shortQuantity > 0).length,
+        shortValue: roundAmount(supplierLines.reduce((sum, line) => sum + line.shortValue, 0)),
+        priceChanges: supplierLines.filter(line => line.priceDifference !== 0).length,
+        priceVarianceValue: roundAmount(supplierLines.reduce((sum, line) => sum + line.priceVarianceValue, 0)),
+        fillRate: ordered > 0 ? Math.round((received / ordered) * 1000) / 10 : 100,
+      };
+    })
+    .sort((a, b) => b.shortValue + b.priceVarianceValue - (a.shortValue + a.priceVarianceValue));
+
+  return {
+    suppliers,
+    discrepancies: all
+      .filter(line => line.shortQuantity > 0 || line.priceDifference !== 0)
+      .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt)),
+  };
+}
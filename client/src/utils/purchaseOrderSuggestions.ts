@@ -0,0 +1,143 @@
+/**
+ * Purchase order suggestions
+ * Tops low-stock items back up to their par level, less what open purchase
+ * orders will still bring, grouped into one draft purchase order per default supplier
+ */
+import type { InventoryItemSimple } from '@/types/schema';
+import { inventoryApi } from '@/lib/apiRepository';
+import type { IngredientCost } from './recipeCosting';
+import { fetchAllPages } from './tableExport';
+import { canReceivePurchaseOrder, getOutstandingQuantity } from './purchaseOrderReceiving';
+
+// Without a par level, items are topped up to this multiple of the reorder level
+const DEFAULT_PAR_MULTIPLIER = 2;
+// Open orders are listed without their lines, so they are loaded a few at a time
+const PURCHASE_ORDER_FETCH_BATCH = 10;
+
+const sameName = (a: string = '', b: string = '') => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export interface LowStockEntry {
+  inventoryItemId: number;
+  itemName: string;
+  currentStock: number;
+  unit: string;
+}
+
+export interface SupplierOption {
+  id: number;
+  name: string;
+}
+
+export interface SuggestedPurchaseLine {
+  inventoryItemId: number;
+  itemName: string;
+  unit: string;
+  currentStock: number;
+  reorderLevel: number;
+  parLevel: number;
+  // Still expected on draft, ordered and back-ordered purchase orders
+  onOrderQuantity: number;
+  // Whole units needed to reach the par level once open orders arrive
+  quantity: number;
+  // Last purchase price, null when the item has never been received
+  unitPrice: number | null;
+  // null when the item has no default supplier
+  supplierId: number | null;
+}
+
+export interface SuggestedPurchaseOrder {
+  supplierId: number;
+  supplierName: string;
+  lines: SuggestedPurchaseLine[];
+  total: number;
+}
+
+export const getParLevel = (item: Pick<InventoryItemSimple, 'reorderLevel' | 'parLevel'>): number =>
+  item.parLevel ?? item.reorderLevel * DEFAULT_PAR_MULTIPLIER;
+
+/**
+ * Quantity per inventory item still expected on the branch's open purchase orders
+ */
+export async function fetchOnOrderQuantities(branchId: number): Promise<Map<number, number>> {
+  const orders = await fetchAllPages((pageNumber, pageSize) =>
+    inventoryApi.getPurchaseOrdersByBranch(branchId, { PageNumber: pageNumber, PageSize: pageSize }),
+  );
+  const openOrders = orders.filter(order => canReceivePurchaseOrder(order.status));
+
+  const quantities = new Map<number, number>();
+  for (let i = 0; i < openOrders.length; i += PURCHASE_ORDER_FETCH_BATCH) {
+    const batch = openOrders.slice(i, i + PURCHASE_ORDER_FETCH_BATCH);
+    const details = await Promise.all(batch.map(order => inventoryApi.getPurchaseOrderById(order.id)));
+    details.forEach(detail =>
+      (detail?.items || []).forEach(item =>
+        quantities.set(item.inventoryItemId, (quantities.get(item.inventoryItemId) || 0) + getOutstandingQuantity(item)),
+      ),
+    );
+  }
+  return quantities;
+}
+
+/**
+ * One line per low-stock item still below its par level once open orders arrive
+ * Supplier comes from the item's default supplier, matched on name
+ * @param onOrder - Quantity per inventory item on open purchase orders, see fetchOnOrderQuantities
+ */
+export function buildPurchaseSuggestions(
+  lowStock: LowStockEntry[],
+  items: InventoryItemSimple[],
+  suppliers: SupplierOption[],
+  prices: Map<number, IngredientCost>,
+  onOrder: Map<number, number> = new Map(),
+): SuggestedPurchaseLine[] {
+  const itemsById = new Map(items.map(item => [item.id, item]));
+
+  return lowStock.flatMap(entry => {
+    const item = itemsById.get(entry.inventoryItemId);
+    if (!item) return [];
+
+    const parLevel = getParLevel(item);
+    const onOrderQuantity = onOrder.get(entry.inventoryItemId) || 0;
+    const quantity = Math.ceil(parLevel - entry.currentStock - onOrderQuantity);
+    if (quantity <= 0) return [];
+
+    const supplier = item.defaultSupplierName
+      ? suppliers.find(option => sameName(option.name, item.defaultSupplierName || ''))
+      : undefined;
+
+    return [{
+      inventoryItemId: entry.inventoryItemId,
+      itemName: entry.itemName,
+      unit: entry.unit,
+      currentStock: entry.currentStock,
+      reorderLevel: item.reorderLevel,
+      parLevel,
+      onOrderQuantity,
+      quantity,
+      unitPrice: prices.get(entry.inventoryItemId)?.latest ?? null,
+      supplierId: supplier ? supplier.id : null,
+    }];
+  });
+}
+
+/**
+ * Group lines into one order per supplier; lines without a supplier are left out
+ */
+export function groupPurchaseSuggestions(
+  lines: SuggestedPurchaseLine[],
+  suppliers: SupplierOption[],
+): SuggestedPurchaseOrder[] {
+  const orders = new Map<number, SuggestedPurchaseOrder>();
+  lines.forEach(line => {
+    if (line.supplierId === null) return;
+    const order = orders.get(line.supplierId) || {
+      supplierId: line.supplierId,
+      supplierName: suppliers.find(supplier => supplier.id === line.supplierId)?.name || `Supplier ${line.supplierId}`,
+      lines: [],
+      total: 0,
+    };
+    order.lines.push(line);
+    order.total = Math.round((order.total + line.quantity * (line.unitPrice || 0)) * 100) / 100;
+    orders.set(line.supplierId, order);
+  });
+  return Array.from(orders.values()).sort((a, b) => a.supplierName.localeCompare(b.supplierName));
+}
@@ -0,0 +1,694 @@
+/**
+ * Receipt layout engine
+ * Builds receipts from a declarative template into a printer-neutral line model,
+ * which is then encoded to ESC/POS bytes or rendered as an HTML preview
+ */
+import { formatCurrencyForPrinter } from '@/lib/currencyUtils';
+
+const RECEIPT_TEMPLATES_KEY = 'receipt_templates';
+const DEFAULT_TEMPLATE_KEY = 'default';
+
+export type ReceiptColumns = 32 | 42 | 48;
+
+export const RECEIPT_COLUMN_OPTIONS: ReceiptColumns[] = [32, 42, 48];
+
+// Printable raster width in dots for each line width
+const RASTER_WIDTH_DOTS: Record<ReceiptColumns, number> = {
+  32: 384,
+  42: 576,
+  48: 576,
+};
+
+// Logos taller than this are scaled down so they don't waste paper
+const MAX_LOGO_HEIGHT_DOTS = 160;
+
+export type ReceiptAlign = 'left' | 'center' | 'right';
+
+export type ReceiptBlock =
+  | { id: string; type: 'logo'; imageDataUrl?: string }
+  | { id: string; type: 'header'; text?: string; large: boolean }
+  | { id: string; type: 'text'; text: string; align: ReceiptAlign; bold: boolean }
+  | { id: string; type: 'divider'; char: '=' | '-' }
+  | { id: string; type: 'orderInfo'; showDate: boolean; showOrderType: boolean; showLocation: boolean }
+  | { id: string; type: 'items'; showModifiers: boolean; showCustomizations: boolean; showPackageItems: boolean }
+  | { id: string; type: 'totals' }
+  | { id: string; type: 'notes' }
+  | { id: string; type: 'customerDetails' }
+  | { id: string; type: 'qrCode'; size: number }
+  | { id: string; type: 'footer'; text: string };
+
+export type ReceiptBlockType = ReceiptBlock['type'];
+
+export interface ReceiptTemplate {
+  name: string;
+  blocks: ReceiptBlock[];
+}
+
+export interface ReceiptData {
+  orderNumber: string;
+  date: string;
+  items: Array<{
+    name: string;
+    quantity: number;
+    price: number;
+    modifiers?: Array<{ modifierName: string; price: number; quantity: number }>;
+    customizations?: Array<{ customizationName: string; optionName: string }>;
+    packageItems?: Array<{ itemName: string; quantity: number }>;
+    packageSubItems?: Array<{ subItemName: string; quantity: number }>;
+  }>;
+  subtotal: number;
+  tax: number;
+  total: number;
+  branchName?: string;
+  locationName?: string;
+  orderType?: string;
+  deliveryCharges?: number;
+  serviceCharges?: number;
+  discountAmount?: number;
+  tipAmount?: number;
+  allergens?: string[];
+  specialInstruction?: string;
+  currency?: string;
+  deliveryDetails?: {
+    fullName?: string;
+    phoneNumber?: string;
+    deliveryAddress?: string;
+    deliveryInstruction?: string;
+  };
+  pickupDetails?: {
+    name?: string;
+    phoneNumber?: string;
+    pickupInstruction?: string;
+  };
+}
+
+// Price-free ticket for one kitchen station
+export interface KitchenTicketData {
+  orderNumber: string;
+  // e.g. MODIFIED when only the changes to an order are printed
+  banner?: string;
+  date: string;
+  stationName?: string;
+  ticketIndex?: number;
+  ticketCount?: number;
+  orderType?: string;
+  locationName?: string;
+  items: Array<{
+    name: string;
+    quantity: number;
+    modifiers?: Array<{ modifierName: string; quantity: number }>;
+    customizations?: Array<{ customizationName: string; optionName: string }>;
+    packageItems?: Array<{ itemName: string; quantity: number }>;
+    packageSubItems?: Array<{ subItemName: string; quantity: number }>;
+  }>;
+  allergens?: string[];
+  specialInstruction?: string;
+}
+
+export type ReceiptLine =
+  // tall: double height only, so the full line width still fits; reverse: white on black
+  | { kind: 'text'; text: string; align: ReceiptAlign; bold: boolean; large: boolean; tall?: boolean; reverse?: boolean }
+  | { kind: 'image'; dataUrl: string }
+  | { kind: 'qr'; content: string; size: number };
+
+export const RECEIPT_BLOCK_LABELS: Record<ReceiptBlockType, string> = {
+  logo: 'Logo',
+  header: 'Header',
+  text: 'Text',
+  divider: 'Divider',
+  orderInfo: 'Order info',
+  items: 'Items',
+  totals: 'Totals',
+  notes: 'Allergens & instructions',
+  customerDetails: 'Delivery / pickup details',
+  qrCode: 'QR code (order number)',
+  footer: 'Footer',
+};
+
+export const createReceiptBlockId = (): string =>
+  `block-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Creates a block of the given type with sensible default options
+ */
+export const createReceiptBlock = (type: ReceiptBlockType): ReceiptBlock => {
+  const id = createReceiptBlockId();
+  switch (type) {
+    case 'logo':
+      return { id, type };
+    case 'header':
+      return { id, type, large: true };
+    case 'text':
+      return { id, type, text: '', align: 'left', bold: false };
+    case 'divider':
+      return { id, type, char: '=' };
+    case 'orderInfo':
+      return { id, type, showDate: true, showOrderType: true, showLocation: true };
+    case 'items':
+      return { id, type, showModifiers: true, showCustomizations: true, showPackageItems: true };
+    case 'qrCode':
+      return { id, type, size: 6 };
+    case 'footer':
+      return { id, type, text: 'Thank you for your order!' };
+    default:
+      return { id, type };
+  }
+};
+
+// Mirrors the original hand-built receipt
+export const DEFAULT_RECEIPT_TEMPLATE: ReceiptTemplate = {
+  name: 'Standard receipt',
+  blocks: [
+    { id: 'header', type: 'header', large: true },
+    { id: 'divider-1', type: 'divider', char: '=' },
+    { id: 'order-info', type: 'orderInfo', showDate: true, showOrderType: true, showLocation: true },
+    { id: 'divider-2', type: 'divider', char: '=' },
+    { id: 'items', type: 'items', showModifiers: true, showCustomizations: true, showPackageItems: true },
+    { id: 'divider-3', type: 'divider', char: '=' },
+    { id: 'totals', type: 'totals' },
+    { id: 'divider-4', type: 'divider', char: '=' },
+    { id: 'notes', type: 'notes' },
+    { id: 'customer', type: 'customerDetails' },
+    { id: 'footer', type: 'footer', text: 'Thank you for your order!\nPlease come again' },
+  ],
+};
+
+// Example order used to preview templates on the Printer page
+export const SAMPLE_RECEIPT_DATA: ReceiptData = {
+  orderNumber: 'ORD-1042',
+  date: '19/10/2026 12:45 PM',
+  branchName: 'Main Street Branch',
+  locationName: 'Table 7',
+  orderType: 'DineIn',
+  currency: 'USD',
+  items: [
+    {
+      name: 'Classic Burger (Large)',
+      quantity: 2,
+      price: 25.98,
+      modifiers: [{ modifierName: 'Extra Cheese', price: 1.5, quantity: 1 }],
+      customizations: [{ customizationName: 'Cooking', optionName: 'Medium well' }],
+    },
+    {
+      name: '[DEAL] Family Meal with Sides and Soft Drinks',
+      quantity: 1,
+      price: 39.99,
+      packageItems: [{ itemName: 'Chicken Wings (12 pcs)', quantity: 1 }, { itemName: 'Fries', quantity: 2 }],
+    },
+  ],
+  subtotal: 67.47,
+  serviceCharges: 3.37,
+  tax: 5.4,
+  tipAmount: 5,
+  total: 81.24,
+  allergens: ['Gluten', 'Dairy'],
+  specialInstruction: 'Please bring the fries first.',
+};
+
+/**
+ * Loads the receipt template for a branch, falling back to the device default
+ */
+export const getReceiptTemplate = (branchId?: number): ReceiptTemplate => {
+  try {
+    const templates: Record<string, ReceiptTemplate> = JSON.parse(localStorage.getItem(RECEIPT_TEMPLATES_KEY) || '{}');
+    return (branchId !== undefined && templates[String(branchId)])
+      || templates[DEFAULT_TEMPLATE_KEY]
+      || DEFAULT_RECEIPT_TEMPLATE;
+  } catch (error) {
+    console.warn('[Receipt Layout] Could not read saved templates:', error);
+    return DEFAULT_RECEIPT_TEMPLATE;
+  }
+};
+
+/**
+ * Saves a receipt template for a branch, or as the default when no branch is given
+ */
+export const saveReceiptTemplate = (template: ReceiptTemplate, branchId?: number): void => {
+  const templates: Record<string, ReceiptTemplate> = JSON.parse(localStorage.getItem(RECEIPT_TEMPLATES_KEY) || '{}');
+  templates[branchId !== undefined ? String(branchId) : DEFAULT_TEMPLATE_KEY] = template;
+  localStorage.setItem(RECEIPT_TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+/**
+ * Removes a branch override (or the saved default) so the fallback applies again
+ */
+export const resetReceiptTemplate = (branchId?: number): void => {
+  const templates: Record<string, ReceiptTemplate> = JSON.parse(localStorage.getItem(RECEIPT_TEMPLATES_KEY) || '{}');
+  delete templates[branchId !== undefined ? String(branchId) : DEFAULT_TEMPLATE_KEY];
+  localStorage.setItem(RECEIPT_TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+/**
+ * Word-wraps text to a line width, hard-breaking words that are too long
+ */
+export const wrapText = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let current = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      while (word.length > width) {
+        if (current) {
+          lines.push(current);
+          current = '';
+        }
+        lines.push(word.slice(0, width));
+        word = word.slice(width);
+      }
+      if (!current) {
+        current = word;
+      } else if (current.length + 1 + word.length <= width) {
+        current += ' ' + word;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    });
+    lines.push(current);
+  });
+  return lines;
+};
+
+/**
+ * Lays out a left label and a right value on one line, wrapping the label when needed
+ * Continuation lines are indented by `indent` spaces
+ */
+export const formatColumns = (left: string, right: string, width: number, indent: number = 0): string[] => {
+  const leftWidth = Math.max(width - right.length - 1, 1);
+  const [first, ...rest] = wrapText(left, leftWidth);
+  const firstLine = first + ' '.repeat(Math.max(width - first.length - right.length, 1)) + right;
+  const continuation = rest.flatMap(line => wrapText(line, width - indent).map(part => ' '.repeat(indent) + part));
+  return [firstLine, ...continuation];
+};
+
+/**
+ * Builds the printer-neutral line model for a receipt
+ * @param template - Declarative receipt template
+ * @param data - Receipt content
+ * @param columns - Characters per line in the normal font
+ */
+export const layoutReceipt = (
+  template: ReceiptTemplate,
+  data: ReceiptData,
+  columns: ReceiptColumns,
+): ReceiptLine[] => {
+  const lines: ReceiptLine[] = [];
+  const formatPrice = (amount: number) => formatCurrencyForPrinter(amount, data.currency || 'USD');
+
+  const text = (value: string, options: Partial<Omit<Extract<ReceiptLine, { kind: 'text' }>, 'kind' | 'text'>> = {}) => {
+    lines.push({ kind: 'text', text: value, align: 'left', bold: false, large: false, ...options });
+  };
+  const wrapped = (value: string, options: Partial<Omit<Extract<ReceiptLine, { kind: 'text' }>, 'kind' | 'text'>> = {}) => {
+    // Large text is double width, so half as many characters fit
+    const width = options.large ? Math.floor(columns / 2) : columns;
+    wrapText(value, width).forEach(line => text(line, options));
+  };
+  const amountLine = (label: string, amount: string, options: { bold?: boolean; large?: boolean } = {}) => {
+    const width = options.large ? Math.floor(columns / 2) : columns;
+    formatColumns(label, amount, width).forEach(line => text(line, options));
+  };
+  const section = (title: string, body: string[]) => {
+    text('');
+    text(title, { bold: true });
+    body.forEach(line => wrapped(line));
+    text('='.repeat(columns));
+  };
+
+  template.blocks.forEach(block => {
+    switch (block.type) {
+      case 'logo':
+        if (block.imageDataUrl) {
+          lines.push({ kind: 'image', dataUrl: block.imageDataUrl });
+        }
+        break;
+
+      case 'header':
+        wrapped(block.text || data.branchName || 'RESTAURANT', { align: 'center', large: block.large, bold: block.large });
+        break;
+
+      case 'text':
+        if (block.text.trim()) {
+          wrapped(block.text, { align: block.align, bold: block.bold });
+        }
+        break;
+
+      case 'divider':
+        text(block.char.repeat(columns));
+        break;
+
+      case 'orderInfo':
+        text(`Order: ${data.orderNumber}`, { bold: true });
+        if (block.showDate) wrapped(`Date: ${data.date}`);
+        if (block.showOrderType && data.orderType) wrapped(`Type: ${data.orderType}`);
+        if (block.showLocation && data.locationName) wrapped(`Location: ${data.locationName}`);
+        break;
+
+      case 'items':
+        text('ITEMS:');
+        text('-'.repeat(columns));
+        data.items.forEach(item => {
+          formatColumns(`${item.quantity}x ${item.name}`, formatPrice(item.price), columns, 3).forEach(line => text(line));
+
+          if (block.showPackageItems) {
+            item.packageItems?.forEach(pkgItem => {
+              const qty = pkgItem.quantity > 1 ? ` (x${pkgItem.quantity})` : '';
+              wrapText(`  - ${pkgItem.itemName}${qty}`, columns).forEach(line => text(line));
+            });
+            item.packageSubItems?.forEach(subItem => {
+              const qty = subItem.quantity > 1 ? ` (x${subItem.quantity})` : '';
+              wrapText(`  - ${subItem.subItemName}${qty}`, columns).forEach(line => text(line));
+            });
+          }
+
+          if (block.showModifiers) {
+            item.modifiers?.forEach(modifier => {
+              const qty = modifier.quantity > 1 ? ` (x${modifier.quantity})` : '';
+              formatColumns(`  + ${modifier.modifierName}${qty}`, formatPrice(modifier.price * modifier.quantity), columns, 4)
+                .forEach(line => text(line));
+            });
+          }
+
+          if (block.showCustomizations) {
+            item.customizations?.forEach(custom => {
+              wrapText(`  * ${custom.customizationName}: ${custom.optionName}`, columns).forEach(line => text(line));
+            });
+          }
+        });
+        break;
+
+      case 'totals':
+        amountLine('Subtotal:', formatPrice(data.subtotal));
+        if (data.deliveryCharges && data.deliveryCharges > 0) amountLine('Delivery:', formatPrice(data.deliveryCharges));
+        if (data.serviceCharges && data.serviceCharges > 0) amountLine('Service:', formatPrice(data.serviceCharges));
+        if (data.tax && data.tax > 0) amountLine('Tax:', formatPrice(data.tax));
+        if (data.tipAmount && data.tipAmount > 0) amountLine('Tip:', formatPrice(data.tipAmount));
+        if (data.discountAmount && data.discountAmount > 0) amountLine('Discount:', '-' + formatPrice(data.discountAmount));
+        text('-'.repeat(columns));
+        amountLine('TOTAL:', formatPrice(data.total), { bold: true });
+        break;
+
+      case 'notes':
+        if (data.allergens && data.allergens.length > 0) {
+          section('ALLERGENS:', [data.allergens.join(', ')]);
+        }
+        if (data.specialInstruction && data.specialInstruction.trim() !== '') {
+          section('SPECIAL INSTRUCTIONS:', [data.specialInstruction]);
+        }
+        break;
+
+      case 'customerDetails': {
+        const dd = data.deliveryDetails;
+        if (dd && (dd.fullName || dd.phoneNumber || dd.deliveryAddress)) {
+          section('DELIVERY DETAILS:', [
+            dd.fullName ? `Name: ${dd.fullName}` : '',
+            dd.phoneNumber ? `Phone: ${dd.phoneNumber}` : '',
+            dd.deliveryAddress ? `Address: ${dd.deliveryAddress}` : '',
+            dd.deliveryInstruction ? `Instructions: ${dd.deliveryInstruction}` : '',
+          ].filter(Boolean));
+        }
+        const pd = data.pickupDetails;
+        if (pd && (pd.name || pd.phoneNumber)) {
+          section('PICKUP DETAILS:', [
+            pd.name ? `Name: ${pd.name}` : '',
+            pd.phoneNumber ? `Phone: ${pd.phoneNumber}` : '',
+            pd.pickupInstruction ? `Instructions: ${pd.pickupInstruction}` : '',
+          ].filter(Boolean));
+        }
+        break;
+      }
+
+      case 'qrCode':
+        lines.push({ kind: 'qr', content: data.orderNumber, size: block.size });
+        break;
+
+      case 'footer':
+        if (block.text.trim()) {
+          text('');
+          wrapped(block.text, { align: 'center' });
+        }
+        break;
+    }
+  });
+
+  return lines;
+};
+
+/**
+ * Builds the line model for a kitchen ticket: large type, no prices,
+ * station and allergens reversed so they stand out on the pass
+ * @param data - Ticket content for one station
+ * @param columns - Characters per line in the normal font
+ */
+export const layoutKitchenTicket = (data: KitchenTicketData, columns: ReceiptColumns): ReceiptLine[] => {
+  const lines: ReceiptLine[] = [];
+  const half = Math.floor(columns / 2);
+
+  const text = (value: string, options: Partial<Omit<Extract<ReceiptLine, { kind: 'text' }>, 'kind' | 'text'>> = {}) => {
+    lines.push({ kind: 'text', text: value, align: 'left', bold: false, large: false, ...options });
+  };
+  // Reversed lines get a space either side; sub-lines are indented under their item
+  const wrapped = (
+    value: string,
+    options: Partial<Omit<Extract<ReceiptLine, { kind: 'text' }>, 'kind' | 'text'>> = {},
+    indent: number = 0,
+  ) => {
+    const padding = options.reverse ? 2 : indent;
+    wrapText(value, (options.large ? half : columns) - padding)
+      .forEach(line => text(options.reverse ? ` ${line} ` : ' '.repeat(indent) + line, options));
+  };
+  const divider = (char: '=' | '-' = '=') => text(char.repeat(columns));
+
+  // Station header and order number - centered, double size
+  wrapped((data.stationName || 'KITCHEN').toUpperCase(), { align: 'center', bold: true, large: true, reverse: true });
+  wrapped(`#${data.orderNumber}`, { align: 'center', bold: true, large: true });
+  if (data.banner) {
+    wrapped(data.banner.toUpperCase(), { align: 'center', bold: true, large: true, reverse: true });
+  }
+  if (data.ticketCount && data.ticketCount > 1) {
+    text(`Ticket ${data.ticketIndex || 1} of ${data.ticketCount}`, { align: 'center' });
+  }
+  divider();
+
+  // Order context
+  if (data.orderType) wrapped(data.orderType.toUpperCase(), { bold: true });
+  if (data.locationName) wrapped(`Location: ${data.locationName}`);
+  wrapped(`Time: ${data.date}`);
+  divider();
+
+  // Items - quantity first, in tall type
+  data.items.forEach(item => {
+    wrapped(`${item.quantity} x ${item.name}`, { bold: true, tall: true });
+    item.packageItems?.forEach(pkgItem => wrapped(`${pkgItem.quantity} x ${pkgItem.itemName}`, { bold: true }, 3));
+    item.packageSubItems?.forEach(subItem => wrapped(`${subItem.quantity} x ${subItem.subItemName}`, { bold: true }, 3));
+    item.modifiers?.forEach(modifier => {
+      const qty = modifier.quantity > 1 ? ` x${modifier.quantity}` : '';
+      wrapped(`+ ${modifier.modifierName}${qty}`, { bold: true }, 3);
+    });
+    item.customizations?.forEach(custom => wrapped(`* ${custom.customizationName}: ${custom.optionName}`, { bold: true }, 3));
+    divider('-');
+  });
+
+  if (data.allergens && data.allergens.length > 0) {
+    wrapped('ALLERGENS', { bold: true, tall: true, reverse: true });
+    wrapped(data.allergens.join(', '), { bold: true, tall: true });
+    divider();
+  }
+
+  if (data.specialInstruction && data.specialInstruction.trim() !== '') {
+    text('SPECIAL INSTRUCTIONS:', { bold: true });
+    wrapped(data.specialInstruction, { bold: true, tall: true });
+    divider();
+  }
+
+  return lines;
+};
+
+export type EscPosCodePage = 0 | 2 | 16;
+
+// Bytes 0x80-0xFF of each supported ESC t table; NUL marks unassigned bytes
+const CODE_PAGE_UPPER_HALVES: Record<EscPosCodePage, string> = {
+  0:
+    'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒ' +
+    'áíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+    '└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀' +
+    'αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00A0',
+  2:
+    'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒ' +
+    'áíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐' +
+    '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀' +
+    'ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00AD±‗¾¶§÷¸°¨·¹³²■\u00A0',
+  16:
+    '€\0‚ƒ„…†‡ˆ‰Š‹Œ\0Ž\0\0‘’“”•–—˜™š›œ\0žŸ' +
+    Array.from({ length: 96 }, (_, i) => String.fromCharCode(0xA0 + i)).join(''),
+};
+
+export const ESC_POS_CODE_PAGES: Array<{ value: EscPosCodePage; label: string }> = [
+  { value: 0, label: 'PC437 (USA)' },
+  { value: 2, label: 'PC850 (Multilingual)' },
+  { value: 16, label: 'WPC1252 (Western)' },
+];
+
+const CODE_PAGE_MAPS = Object.fromEntries(
+  Object.entries(CODE_PAGE_UPPER_HALVES).map(([page, upperHalf]) => {
+    const map = new Map<string, number>();
+    Array.from(upperHalf).forEach((char, index) => {
+      if (char !== '\0') map.set(char, 0x80 + index);
+    });
+    return [page, map];
+  }),
+) as Record<EscPosCodePage, Map<string, number>>;
+
+/**
+ * Falls back to PC437, the power-on table of most printers, for profiles
+ * saved with a table we have no byte mapping for
+ */
+export const resolveEscPosCodePage = (codePage: number): EscPosCodePage =>
+  codePage in CODE_PAGE_UPPER_HALVES ? (codePage as EscPosCodePage) : 0;
+
+/**
+ * Encodes text as single-byte characters of the given ESC t code page
+ * Characters the table doesn't contain print as '?'
+ */
+export const encodeEscPosText = (value: string, codePage: EscPosCodePage): number[] =>
+  Array.from(value).map(char => {
+    const code = char.charCodeAt(0);
+    if (code < 0x80) return code;
+    return CODE_PAGE_MAPS[codePage].get(char) ?? 0x3F;
+  });
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load logo image'));
+    image.src = dataUrl;
+  });
+
+/**
+ * Converts an image to a 1-bit GS v 0 raster command
+ */
+const rasterizeImage = async (dataUrl: string, maxWidthDots: number): Promise<number[]> => {
+  const image = await loadImage(dataUrl);
+  const scale = Math.min(1, maxWidthDots / image.width, MAX_LOGO_HEIGHT_DOTS / image.height);
+  // Raster rows are packed 8 dots per byte
+  const width = Math.max(8, Math.floor((image.width * scale) / 8) * 8);
+  const height = Math.max(1, Math.round(image.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas not available for logo rendering');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+  const pixels = context.getImageData(0, 0, width, height).data;
+
+  const bytesPerRow = width / 8;
+  const raster: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let byteIndex = 0; byteIndex < bytesPerRow; byteIndex++) {
+      let byte = 0;
+      for (let bit = 0; bit < 8; bit++) {
+        const offset = (y * width + byteIndex * 8 + bit) * 4;
+        const luminance = 0.299 * pixels[offset] + 0.587 * pixels[offset + 1] + 0.114 * pixels[offset + 2];
+        if (luminance < 128) byte |= 0x80 >> bit;
+      }
+      raster.push(byte);
+    }
+  }
+
+  return [
+    0x1D, 0x76, 0x30, 0x00,
+    bytesPerRow & 0xFF, (bytesPerRow >> 8) & 0xFF,
+    height & 0xFF, (height >> 8) & 0xFF,
+    ...raster,
+  ];
+};
+
+/**
+ * Native QR code (model 2) via GS ( k
+ */
+const encodeQrCode = (content: string, size: number): number[] => {
+  // Scanners read the payload as Latin-1, whatever table the printer uses for text
+  const data = encodeEscPosText(content, 16);
+  const storeLength = data.length + 3;
+  const moduleSize = Math.min(16, Math.max(1, Math.round(size)));
+  return [
+    0x1D, 0x28, 0x6B, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+    0x1D, 0x28, 0x6B, 0x03, 0x00, 0x31, 0x43, moduleSize,
+    0x1D, 0x28, 0x6B, 0x03, 0x00, 0x31, 0x45, 0x31,
+    0x1D, 0x28, 0x6B, storeLength & 0xFF, (storeLength >> 8) & 0xFF, 0x31, 0x50, 0x30, ...data,
+    0x1D, 0x28, 0x6B, 0x03, 0x00, 0x31, 0x51, 0x30,
+  ];
+};
+
+const ALIGN_CODES: Record<ReceiptAlign, number> = { left: 0, center: 1, right: 2 };
+
+/**
+ * Encodes a laid-out receipt as ESC/POS bytes
+ * @param lines - Output of layoutReceipt
+ * @param options - Line width (for logo scaling) and ESC t code page, see ESC_POS_CODE_PAGES
+ */
+export const encodeEscPos = async (
+  lines: ReceiptLine[],
+  options: { columns: ReceiptColumns; codePage: number },
+): Promise<Uint8Array> => {
+  const ESC = 0x1B;
+  const GS = 0x1D;
+  const codePage = resolveEscPosCodePage(options.codePage);
+  const bytes: number[] = [ESC, 0x40, ESC, 0x74, codePage];
+
+  for (const line of lines) {
+    switch (line.kind) {
+      case 'text': {
+        // ESC ! bit 3 = bold, bits 4/5 = double height/width; GS B toggles reverse printing
+        const mode = (line.bold ? 0x08 : 0) | (line.large ? 0x30 : 0) | (line.tall ? 0x10 : 0);
+        bytes.push(ESC, 0x61, ALIGN_CODES[line.align], ESC, 0x21, mode);
+        if (line.reverse) bytes.push(GS, 0x42, 1);
+        bytes.push(...encodeEscPosText(line.text, codePage));
+        if (line.reverse) bytes.push(GS, 0x42, 0);
+        bytes.push(0x0A);
+        break;
+      }
+      case 'image':
+        try {
+          bytes.push(ESC, 0x61, 1, ...(await rasterizeImage(line.dataUrl, RASTER_WIDTH_DOTS[options.columns])), 0x0A);
+        } catch (error) {
+          // A broken logo should never stop the receipt itself from printing
+          console.warn('[Receipt Layout] Skipping logo:', error);
+        }
+        break;
+      case 'qr':
+        bytes.push(ESC, 0x61, 1, ...encodeQrCode(line.content, line.size), 0x0A);
+        break;
+    }
+  }
+
+  // Reset, feed and cut
+  bytes.push(ESC, 0x21, 0x00, ESC, 0x61, 0x00, 0x0A, 0x0A, GS, 0x56, 0x00);
+  return new Uint8Array(bytes);
+};
+
+/**
+ * Shrinks an uploaded logo so it fits the widest paper and stays small in localStorage
+ */
+export const prepareLogoDataUrl = async (file: File): Promise<string> => {
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Could not read logo file'));
+    reader.readAsDataURL(file);
+  });
+
+  const image = await loadImage(dataUrl);
+  const scale = Math.min(1, RASTER_WIDTH_DOTS[48] / image.width, MAX_LOGO_HEIGHT_DOTS / image.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) return dataUrl;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
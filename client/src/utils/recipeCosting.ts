@@ -0,0 +1,210 @@
+/**
+ * Recipe costing
+ * Food cost of each recipe from purchase prices, cost percentage against the
+ * menu price and menu engineering (stars, plowhorses, puzzles, dogs) from
+ * contribution margin and sales volume
+ */
+import type {
+  CustomerSearchMenuResponse,
+  DetailedOrder,
+  InventoryStockMovement,
+  RecipeDetail,
+} from '@/types/schema';
+import { getOrderLifecycleState } from './orderLifecycle';
+import { OrderStatusType } from './kitchenDisplay';
+
+// An item is popular when it sells at least 70% of its fair share of the mix
+const POPULARITY_FACTOR = 0.7;
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+const sameName = (a: string = '', b: string = '') => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export type CostingMethod = 'latest' | 'average';
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  latest: 'Latest purchase price',
+  average: 'Weighted average price',
+};
+
+export type MenuEngineeringClass = 'star' | 'plowhorse' | 'puzzle' | 'dog';
+
+export const MENU_ENGINEERING_LABELS: Record<MenuEngineeringClass, { label: string; hint: string }> = {
+  star: { label: 'Star', hint: 'Popular and profitable: keep visible, protect quality' },
+  plowhorse: { label: 'Plowhorse', hint: 'Popular, low margin: review portion or price' },
+  puzzle: { label: 'Puzzle', hint: 'Profitable, rarely ordered: promote or reposition' },
+  dog: { label: 'Dog', hint: 'Unpopular and low margin: rework or remove' },
+};
+
+export interface IngredientCost {
+  latest: number;
+  average: number;
+}
+
+export interface RecipeCostLine {
+  inventoryItemId: number;
+  name: string;
+  quantity: number;
+  unit: string;
+  // null when the ingredient has no purchase price yet
+  unitCost: number | null;
+  cost: number;
+}
+
+export interface RecipeCostingRow {
+  recipeId: number;
+  name: string;
+  type: 'variant' | 'subMenuItem';
+  cost: number;
+  lines: RecipeCostLine[];
+  // Ingredients without a purchase price, costed at zero
+  missingCosts: string[];
+  // Menu price, null when the item isn't on the current menu
+  price: number | null;
+  costPercent: number | null;
+  margin: number | null;
+  quantitySold: number;
+  totalMargin: number | null;
+  engineeringClass: MenuEngineeringClass | null;
+}
+
+export interface RecipeCostingReport {
+  rows: RecipeCostingRow[];
+  // Thresholds used for the menu engineering classes
+  averageMargin: number;
+  popularityThreshold: number;
+  totalSold: number;
+}
+
+/**
+ * Latest and quantity-weighted average purchase price per inventory item
+ */
+export function buildIngredientCosts(movements: InventoryStockMovement[]): Map<number, IngredientCost> {
+  const purchases = movements
+    .filter(movement => movement.movementType === 'Purchase' && movement.unitCost !== null && movement.quantity > 0)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const totals = new Map<number, { quantity: number; value: number; latest: number }>();
+  purchases.forEach(movement => {
+    const total = totals.get(movement.inventoryItemId) || { quantity: 0, value: 0, latest: 0 };
+    total.quantity += movement.quantity;
+    total.value += movement.quantity * (movement.unitCost || 0);
+    total.latest = movement.unitCost || 0;
+    totals.set(movement.inventoryItemId, total);
+  });
+
+  return new Map(
+    Array.from(totals.entries()).map(([id, total]) => [id, { latest: total.latest, average: total.value / total.quantity }]),
+  );
+}
+
+/**
+ * Units sold per menu variant, from menu items and the items inside deals
+ * Cancelled orders are left out
+ * @param statusTypes - Resolves orders that carry their status as a status type id
+ */
+export function countVariantSales(orders: DetailedOrder[], statusTypes: OrderStatusType[]): Map<number, number> {
+  const sales = new Map<number, number>();
+  const add = (variantId: number, quantity: number) => sales.set(variantId, (sales.get(variantId) || 0) + quantity);
+
+  orders
+    .filter(order => getOrderLifecycleState(order, statusTypes) !== 'cancelled')
+    .forEach(order => {
+      (order.orderItems || []).forEach(item => add(item.variantId, item.quantity));
+      (order.orderPackages || []).forEach(pkg =>
+        (pkg.orderPackageItems || []).forEach(pkgItem => add(pkgItem.menuPackageItemVariantId, pkgItem.quantity * pkg.quantity)),
+      );
+    });
+  return sales;
+}
+
+const getRecipeName = (recipe: RecipeDetail): string =>
+  recipe.subMenuItemId
+    ? recipe.subMenuItemName || `Sub item ${recipe.subMenuItemId}`
+    : [recipe.menuItemName, recipe.variantName].filter(Boolean).join(' - ') || `Recipe ${recipe.id}`;
+
+/**
+ * Menu price of a recipe: its variant's price, or a modifier's price for sub-menu items
+ */
+const getMenuPrice = (recipe: RecipeDetail, menu?: CustomerSearchMenuResponse): number | null => {
+  if (!menu) return null;
+  if (recipe.subMenuItemId) {
+    const modifier = menu.menuItems
+      ?.flatMap(item => item.modifiers)
+      .find(entry => sameName(entry.name, recipe.subMenuItemName));
+    return modifier ? modifier.price : null;
+  }
+  const variation = menu.menuItems
+    ?.flatMap(item => item.variations)
+    .find(entry => entry.id === recipe.variantId);
+  return variation ? variation.price : null;
+};
+
+/**
+ * Cost, cost percentage and menu engineering class for every recipe
+ * Only menu variants with a price are classified; thresholds are the average
+ * contribution margin and 70% of an equal share of units sold
+ */
+export function buildRecipeCostingReport(
+  recipes: RecipeDetail[],
+  ingredientCosts: Map<number, IngredientCost>,
+  method: CostingMethod,
+  sales: Map<number, number>,
+  menu?: CustomerSearchMenuResponse,
+): RecipeCostingReport {
+  const rows: RecipeCostingRow[] = recipes.map(recipe => {
+    const lines: RecipeCostLine[] = recipe.items.map(item => {
+      const cost = ingredientCosts.get(item.inventoryItemId);
+      const unitCost = cost ? cost[method] : null;
+      return {
+        inventoryItemId: item.inventoryItemId,
+        name: item.inventoryItemName || `Item ${item.inventoryItemId}`,
+        quantity: item.quantity,
+        unit: item.unit,
+        unitCost,
+        cost: (unitCost || 0) * item.quantity,
+      };
+    });
+    const cost = roundAmount(lines.reduce((sum, line) => sum + line.cost, 0));
+    const price = getMenuPrice(recipe, menu);
+    const margin = price === null ? null : roundAmount(price - cost);
+    const quantitySold = !recipe.subMenuItemId && recipe.variantId ? sales.get(recipe.variantId) || 0 : 0;
+
+    return {
+      recipeId: recipe.id,
+      name: getRecipeName(recipe),
+      type: recipe.subMenuItemId ? 'subMenuItem' : 'variant',
+      cost,
+      lines,
+      missingCosts: lines.filter(line => line.unitCost === null).map(line => line.name),
+      price,
+      costPercent: price ? Math.round((cost / price) * 1000) / 10 : null,
+      margin,
+      quantitySold,
+      totalMargin: margin === null ? null : roundAmount(margin * quantitySold),
+      engineeringClass: null,
+    };
+  });
+
+  const classified = rows.filter(row => row.type === 'variant' && row.margin !== null);
+  const totalSold = classified.reduce((sum, row) => sum + row.quantitySold, 0);
+  const averageMargin =
+    totalSold > 0 ? classified.reduce((sum, row) => sum + (row.totalMargin || 0), 0) / totalSold : 0;
+  const popularityThreshold = classified.length > 0 ? (totalSold / classified.length) * POPULARITY_FACTOR : 0;
+
+  if (totalSold > 0) {
+    classified.forEach(row => {
+      const popular = row.quantitySold >= popularityThreshold;
+      const profitable = (row.margin || 0) >= averageMargin;
+      row.engineeringClass = popular
+        ? profitable ? 'star' : 'plowhorse'
+        : profitable ? 'puzzle' : 'dog';
+    });
+  }
+
+  return {
+    rows,
+    averageMargin: roundAmount(averageMargin),
+    popularityThreshold: Math.round(popularityThreshold * 10) / 10,
+    totalSold,
+  };
+}
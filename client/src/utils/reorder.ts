@@ -0,0 +1,193 @@
+/**
+ * Reorder
+ * Rebuilds the cart of a past order against the current menu so it can be
+ * placed again, flagging lines that are no longer available or changed price
+ */
+import type {
+  CreateOrderItemCustomization,
+  CreateOrderItemModifier,
+  CustomerSearchMenuResponse,
+  DetailedOrder,
+} from '@/types/schema';
+import { OrderType } from '@/types/schema';
+import { OrderItemSelection, calculateItemPrice } from './orderCart';
+
+// Price changes below half a cent are rounding
+const PRICE_TOLERANCE = 0.005;
+
+export type ReorderIssueType = 'unavailable' | 'expired' | 'variant-unavailable' | 'option-unavailable' | 'repriced';
+
+export interface ReorderIssue {
+  type: ReorderIssueType;
+  name: string;
+  message: string;
+  previousPrice?: number;
+  currentPrice?: number;
+}
+
+export interface ReorderDraft {
+  items: OrderItemSelection[];
+  issues: ReorderIssue[];
+  // OrderType value for CreateOrderRequest
+  orderType: number;
+  locationId: number | null;
+  specialInstruction: string;
+  allergenNames: string[];
+  customerName: string;
+  customerPhone: string;
+  deliveryAddress: string;
+  deliveryInstruction: string;
+  pickupInstruction: string;
+}
+
+export const REORDER_ISSUE_LABELS: Record<ReorderIssueType, string> = {
+  unavailable: 'Unavailable',
+  expired: 'Deal ended',
+  'variant-unavailable': 'Size unavailable',
+  'option-unavailable': 'Option removed',
+  repriced: 'Price changed',
+};
+
+const sameName = (a: string = '', b: string = '') => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Order types come back as enum names, e.g. "DineIn"
+const toOrderTypeValue = (orderType: string = ''): number => {
+  const key = Object.keys(OrderType)
+    .filter(name => isNaN(Number(name)))
+    .find(name => sameName(name, orderType.replace(/\s/g, '')));
+  return key ? OrderType[key as keyof typeof OrderType] : OrderType.DineIn;
+};
+
+/**
+ * Maps an order's items and deals onto the current menu
+ * Items missing from the menu are left out: the customer menu only lists what
+ * is active and in stock. Lines that remain are priced at today's prices
+ * @param options.keepPrices - Keep the prices the lines were ordered at, for modifying the order itself
+ */
+export function buildReorder(
+  order: DetailedOrder,
+  menu: CustomerSearchMenuResponse,
+  options: { keepPrices?: boolean } = {},
+): ReorderDraft {
+  const items: OrderItemSelection[] = [];
+  const issues: ReorderIssue[] = [];
+
+  const checkPrice = (name: string, previousPrice: number, currentPrice: number) => {
+    if (!options.keepPrices && Math.abs(currentPrice - previousPrice) >= PRICE_TOLERANCE) {
+      issues.push({
+        type: 'repriced',
+        name,
+        message: currentPrice > previousPrice ? 'Price went up since the last order' : 'Price went down since the last order',
+        previousPrice,
+        currentPrice,
+      });
+    }
+  };
+
+  (order.orderItems || []).forEach(orderItem => {
+    const name = orderItem.itemName + (orderItem.variantName ? ` (${orderItem.variantName})` : '');
+    const menuItem = menu.menuItems?.find(item => item.menuItemId === orderItem.menuItemId);
+    if (!menuItem) {
+      issues.push({ type: 'unavailable', name, message: 'No longer on the menu or out of stock' });
+      return;
+    }
+
+    // Variants can be recreated with new ids, so fall back to the name
+    const variation =
+      menuItem.variations.find(entry => entry.id === orderItem.variantId) ||
+      menuItem.variations.find(entry => sameName(entry.name, orderItem.variantName));
+    if (!variation) {
+      issues.push({
+        type: 'variant-unavailable',
+        name,
+        message: `${orderItem.variantName || 'This size'} is no longer offered`,
+      });
+      return;
+    }
+
+    const selectedModifiers: CreateOrderItemModifier[] = [];
+    (orderItem.orderItemModifiers || []).forEach(modifier => {
+      const current =
+        menuItem.modifiers.find(entry => entry.id === modifier.modifierId) ||
+        menuItem.modifiers.find(entry => sameName(entry.name, modifier.modifierName));
+      if (current) {
+        selectedModifiers.push({ modifierId: current.id, quantity: modifier.quantity });
+      } else {
+        issues.push({ type: 'option-unavailable', name, message: `${modifier.modifierName} was removed` });
+      }
+    });
+
+    // Customizations are only recorded by name on past orders
+    const selectedCustomizations: CreateOrderItemCustomization[] = [];
+    (orderItem.orderItemCustomizations || []).forEach(customization => {
+      const current = menuItem.customizations.find(entry => sameName(entry.name, customization.customizationName));
+      const option = current?.options.find(entry => sameName(entry.name, customization.optionName));
+      if (current && option) {
+        selectedCustomizations.push({ customizationId: current.id, optionId: option.id });
+      } else {
+        issues.push({
+          type: 'option-unavailable',
+          name,
+          message: `${customization.customizationName}: ${customization.optionName} was removed`,
+        });
+      }
+    });
+
+    const price = calculateItemPrice(menuItem, 'menuItem', variation.id, selectedModifiers, selectedCustomizations);
+    const previousPrice = orderItem.quantity > 0 ? (orderItem.totalPrice || 0) / orderItem.quantity : orderItem.unitPrice;
+    checkPrice(name, previousPrice, price);
+
+    items.push({
+      type: 'menuItem',
+      item: menuItem,
+      quantity: orderItem.quantity,
+      selectedVariation: variation.id,
+      selectedModifiers,
+      selectedCustomizations,
+      price: options.keepPrices ? previousPrice : price,
+    });
+  });
+
+  (order.orderPackages || []).forEach(orderPackage => {
+    const name = `[DEAL] ${orderPackage.packageName}`;
+    const deal = menu.deals?.find(entry => entry.dealId === orderPackage.menuPackageId);
+    if (!deal) {
+      issues.push({ type: 'unavailable', name, message: 'Deal is no longer available' });
+      return;
+    }
+    if (deal.dealEndDate && new Date(deal.dealEndDate).getTime() < Date.now()) {
+      issues.push({ type: 'expired', name, message: 'Deal has ended' });
+      return;
+    }
+
+    const price = calculateItemPrice(deal, 'deal');
+    const previousPrice =
+      orderPackage.quantity > 0 ? (orderPackage.totalPrice || 0) / orderPackage.quantity : orderPackage.unitPrice;
+    checkPrice(name, previousPrice, price);
+
+    items.push({
+      type: 'deal',
+      item: deal,
+      quantity: orderPackage.quantity,
+      selectedModifiers: [],
+      selectedCustomizations: [],
+      price: options.keepPrices ? previousPrice : price,
+    });
+  });
+
+  const orderType = toOrderTypeValue(order.orderType);
+
+  return {
+    items,
+    issues,
+    orderType,
+    locationId: orderType === OrderType.DineIn ? order.locationId || null : null,
+    specialInstruction: order.specialInstruction || '',
+    allergenNames: order.allergens || [],
+    customerName: order.orderDeliveryDetails?.fullName || order.orderPickupDetails?.name || '',
+    customerPhone: order.orderDeliveryDetails?.phoneNumber || order.orderPickupDetails?.phoneNumber || '',
+    deliveryAddress: order.orderDeliveryDetails?.deliveryAddress || '',
+    deliveryInstruction: order.orderDeliveryDetails?.deliveryInstruction || '',
+    pickupInstruction: order.orderPickupDetails?.pickupInstruction || '',
+  };
+}
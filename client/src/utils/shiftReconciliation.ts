@@ -0,0 +1,148 @@
+/**
+ * Cash shift reconciliation
+ * Works out the cash that should be in the drawer at close from the shift's
+ * orders and cash movements, and flags the counted amount as over or short
+ */
+import { DetailedOrder, Shift, ShiftCashMovementType } from '@/types/schema';
+import { ordersApi } from '@/lib/apiRepository';
+import { EMPTY_ORDER_FILTERS } from '@/types/orderFilters';
+import { parseUtcDate } from './dateTimeUtils';
+import { fetchAllPages } from './tableExport';
+import { getLifecycleState } from './orderLifecycle';
+import { OrderStatusType, getOrderStatusName } from './kitchenDisplay';
+import { getBranchDay } from './zReport';
+import { getRefundedTotal } from './orderRefunds';
+
+export const CASH_MOVEMENT_LABELS: Record<ShiftCashMovementType, string> = {
+  Drop: 'Cash drop',
+  Payout: 'Payout',
+  PayIn: 'Pay-in',
+};
+
+// Whether a movement adds cash to the drawer or takes it out
+const CASH_MOVEMENT_SIGN: Record<ShiftCashMovementType, 1 | -1> = {
+  Drop: -1,
+  Payout: -1,
+  PayIn: 1,
+};
+
+// Differences below half a cent are rounding, not a miscount
+const VARIANCE_TOLERANCE = 0.005;
+
+export type ShiftVarianceState = 'balanced' | 'over' | 'short';
+
+export const VARIANCE_STATE_LABELS: Record<ShiftVarianceState, string> = {
+  balanced: 'Balanced',
+  over: 'Over',
+  short: 'Short',
+};
+
+export interface ShiftReconciliation {
+  openingFloat: number;
+  orderCount: number;
+  salesTotal: number;
+  // Card and other non-cash takings, entered from the payment terminal at close
+  nonCashTotal: number;
+  cashSales: number;
+  drops: number;
+  payouts: number;
+  payIns: number;
+  expectedCash: number;
+  countedCash?: number;
+  variance?: number;
+  varianceState?: ShiftVarianceState;
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const getVarianceState = (variance: number): ShiftVarianceState =>
+  Math.abs(variance) < VARIANCE_TOLERANCE ? 'balanced' : variance > 0 ? 'over' : 'short';
+
+/**
+ * Orders that count towards a shift: created while it was open and not cancelled
+ * @param statusTypes - Resolves orders that carry their status as a status type id
+ * @param until - End of the window for a shift that is still open
+ */
+export const getShiftOrders = (
+  orders: DetailedOrder[],
+  shift: Shift,
+  statusTypes: OrderStatusType[],
+  until: Date = new Date(),
+): DetailedOrder[] => {
+  const start = parseUtcDate(shift.openedAt).getTime();
+  const end = shift.closedAt ? parseUtcDate(shift.closedAt).getTime() : until.getTime();
+  return orders.filter(order => {
+    const createdAt = parseUtcDate(order.createdAt).getTime();
+    return createdAt >= start && createdAt <= end && getLifecycleState(getOrderStatusName(order, statusTypes)) !== 'cancelled';
+  });
+};
+
+/**
+ * Loads the orders created while a shift was open
+ * @param timeZone - Branch timezone, used to query the branch days the shift spans
+ */
+export async function fetchShiftOrders(
+  branchId: number,
+  shift: Shift,
+  timeZone: string = 'UTC',
+): Promise<DetailedOrder[]> {
+  const filters = {
+    ...EMPTY_ORDER_FILTERS,
+    createdFrom: getBranchDay(shift.openedAt, timeZone),
+    createdTo: getBranchDay(shift.closedAt || new Date().toISOString(), timeZone),
+  };
+  const [orders, statusTypes] = await Promise.all([
+    fetchAllPages<DetailedOrder>((pageNumber, pageSize) =>
+      ordersApi.getOrdersByBranch(branchId, pageNumber, pageSize, 'createdAt', true, filters, timeZone),
+    ),
+    ordersApi.getOrderStatusTypes(),
+  ]);
+  return getShiftOrders(orders, shift, statusTypes);
+}
+
+/**
+ * Expected drawer cash: float + cash sales + pay-ins - drops - payouts
+ * Orders carry no tender type, so cash sales are the shift's sales less the
+ * non-cash takings the cashier reads off the payment terminal
+ * @param orders - Orders of the shift, see getShiftOrders
+ * @param options.countedCash - Cash counted at close; adds the variance when set
+ */
+export function reconcileShift(
+  shift: Shift,
+  orders: DetailedOrder[],
+  options: { nonCashTotal?: number; countedCash?: number } = {},
+): ShiftReconciliation {
+  const movementTotal = (type: ShiftCashMovementType) =>
+    (shift.cashMovements || [])
+      .filter(movement => movement.type === type)
+      .reduce((sum, movement) => sum + (movement.amount || 0), 0);
+
+  // Refunds come back out of the takings they were paid from
+  const salesTotal = orders.reduce((sum, order) => sum + (order.totalAmount || 0) - getRefundedTotal(order), 0);
+  const nonCashTotal = options.nonCashTotal || 0;
+  const cashSales = salesTotal - nonCashTotal;
+  const movements = (shift.cashMovements || []).reduce(
+    (sum, movement) => sum + CASH_MOVEMENT_SIGN[movement.type] * (movement.amount || 0),
+    0,
+  );
+
+  const reconciliation: ShiftReconciliation = {
+    openingFloat: roundAmount(shift.openingFloat || 0),
+    orderCount: orders.length,
+    salesTotal: roundAmount(salesTotal),
+    nonCashTotal: roundAmount(nonCashTotal),
+    cashSales: roundAmount(cashSales),
+    drops: roundAmount(movementTotal('Drop')),
+    payouts: roundAmount(movementTotal('Payout')),
+    payIns: roundAmount(movementTotal('PayIn')),
+    expectedCash: roundAmount((shift.openingFloat || 0) + cashSales + movements),
+  };
+
+  if (options.countedCash !== undefined) {
+    reconciliation.countedCash = roundAmount(options.countedCash);
+    reconciliation.variance = roundAmount(options.countedCash - reconciliation.expectedCash);
+    reconciliation.varianceState = getVarianceState(reconciliation.variance);
+  }
+
+  return reconciliation;
+}
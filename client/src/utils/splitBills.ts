@@ -0,0 +1,196 @@
+/**
+ * Split bills
+ * Divides an order's total into SplitBill records evenly, by item or by custom
+ * amounts, always summing to totalAmount, and prints a receipt per split
+ */
+import { DetailedOrder, SplitBill } from '@/types/schema';
+import { bluetoothPrinterService } from '@/services/bluetoothPrinterService';
+
+export type SplitMode = 'even' | 'item' | 'custom';
+
+export const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  even: 'Split evenly',
+  item: 'Split by item',
+  custom: 'Custom amounts',
+};
+
+// splitType stored on the SplitBill records for each mode
+export const SPLIT_TYPE_BY_MODE: Record<SplitMode, string> = {
+  even: 'Equal',
+  item: 'Item',
+  custom: 'Custom',
+};
+
+export const MIN_SPLIT_COUNT = 2;
+export const MAX_SPLIT_COUNT = 20;
+
+// Sums within half a cent of the total are rounding, not a mismatch
+const SPLIT_TOLERANCE = 0.005;
+
+export type SplitBillInput = Omit<SplitBill, 'id'>;
+
+export interface SplittableItem {
+  key: string;
+  name: string;
+  quantity: number;
+  amount: number;
+}
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+/**
+ * Mode for splits saved earlier; unknown split types open as custom amounts
+ */
+export const getSplitMode = (splitType: string = ''): SplitMode => {
+  const type = splitType.toLowerCase();
+  if (type.includes('item')) return 'item';
+  if (type.includes('equal') || type.includes('even')) return 'even';
+  return 'custom';
+};
+
+/**
+ * Order lines that can be assigned to a split, deals included
+ */
+export const getSplittableItems = (order: DetailedOrder): SplittableItem[] => [
+  ...(order.orderItems || []).map(item => ({
+    key: `item-${item.id}`,
+    name: item.itemName + (item.variantName ? ` (${item.variantName})` : ''),
+    quantity: item.quantity,
+    amount: item.totalPrice || 0,
+  })),
+  ...(order.orderPackages || []).map(pkg => ({
+    key: `package-${pkg.id}`,
+    name: `[DEAL] ${pkg.packageName}`,
+    quantity: pkg.quantity,
+    amount: pkg.totalPrice || 0,
+  })),
+];
+
+/**
+ * Splits a total into equal shares; leftover cents go to the first shares
+ */
+export const splitEvenly = (total: number, count: number): number[] => {
+  const cents = toCents(total);
+  const share = Math.floor(cents / count);
+  const remainder = cents - share * count;
+  return Array.from({ length: count }, (_, index) => (share + (index < remainder ? 1 : 0)) / 100);
+};
+
+/**
+ * Prices each split from its items plus a proportional share of tax, charges,
+ * tips and discounts, so the splits add up to the order total
+ * @param assignments - Split index for each item key
+ */
+export const allocateItemSplits = (
+  order: DetailedOrder,
+  assignments: Record<string, number>,
+  count: number,
+): number[] => {
+  const items = getSplittableItems(order);
+  const itemsTotal = items.reduce((sum, item) => sum + item.amount, 0);
+  if (itemsTotal <= 0) return splitEvenly(order.totalAmount || 0, count);
+
+  const subtotals = Array.from({ length: count }, (_, index) =>
+    items.filter(item => (assignments[item.key] ?? 0) === index).reduce((sum, item) => sum + item.amount, 0),
+  );
+
+  // Scale in cents and hand the rounding difference to the largest split
+  const totalCents = toCents(order.totalAmount || 0);
+  const cents = subtotals.map(subtotal => Math.round((subtotal / itemsTotal) * totalCents));
+  const difference = totalCents - cents.reduce((sum, value) => sum + value, 0);
+  if (difference !== 0) {
+    const largest = cents.indexOf(Math.max(...cents));
+    cents[largest] += difference;
+  }
+  return cents.map(value => value / 100);
+};
+
+/**
+ * Label saved in SplitBill.itemName for an item split, e.g. "2x Burger, 1x Fries"
+ */
+export const describeItemSplit = (
+  order: DetailedOrder,
+  assignments: Record<string, number>,
+  index: number,
+): string =>
+  getSplittableItems(order)
+    .filter(item => (assignments[item.key] ?? 0) === index)
+    .map(item => `${item.quantity}x ${item.name}`)
+    .join(', ');
+
+/**
+ * Checks a set of split amounts against the order total
+ * @returns Error message, or null when the splits are valid
+ */
+export const validateSplitBills = (amounts: number[], total: number): string | null => {
+  if (amounts.length < MIN_SPLIT_COUNT) {
+    return `A split bill needs at least ${MIN_SPLIT_COUNT} splits`;
+  }
+  if (amounts.some(amount => !(amount > 0))) {
+    return 'Every split must have an amount greater than zero';
+  }
+  const difference = amounts.reduce((sum, amount) => sum + amount, 0) - total;
+  if (Math.abs(difference) >= SPLIT_TOLERANCE) {
+    return difference > 0
+      ? `Splits are ${Math.abs(difference).toFixed(2)} over the order total`
+      : `Splits are ${Math.abs(difference).toFixed(2)} short of the order total`;
+  }
+  return null;
+};
+
+/**
+ * Order view of a single split, printed through the regular receipt paths
+ * The split shows as one line so its total matches the amount to collect
+ */
+export const toSplitReceiptOrder = (
+  order: DetailedOrder,
+  split: SplitBillInput,
+  index: number,
+  count: number,
+): DetailedOrder => ({
+  ...order,
+  orderNumber: `${order.orderNumber} (${index + 1}/${count})`,
+  orderItems: [
+    {
+      id: 0,
+      menuItemId: 0,
+      variantId: 0,
+      itemName: `Split ${index + 1} of ${count}${split.itemName ? ` - ${split.itemName}` : ''}`,
+      unitPrice: split.price,
+      quantity: 1,
+      totalPrice: split.price,
+      variantName: '',
+      personServing: '',
+      orderItemModifiers: [],
+      orderItemCustomizations: [],
+    },
+  ],
+  orderPackages: [],
+  subTotal: split.price,
+  orderAmount: split.price,
+  totalAmount: split.price,
+  taxAmount: 0,
+  serviceCharges: 0,
+  deliveryCharges: 0,
+  tipAmount: 0,
+  discountAmount: 0,
+  allergens: [],
+  specialInstruction: split.mobileNumber ? `Mobile: ${split.mobileNumber}` : '',
+  splitBills: [],
+});
+
+/**
+ * Prints the receipt for one split on the Bluetooth printer, or the browser dialog when none is connected
+ */
+export async function printSplitBillReceipt(
+  order: DetailedOrder,
+  split: SplitBillInput,
+  index: number,
+  count: number,
+): Promise<{ success: boolean; error?: string }> {
+  const splitOrder = toSplitReceiptOrder(order, split, index, count);
+
+  return bluetoothPrinterService.getConnectionStatus()
+    ? (await import('./printOrderReceipt')).printOrderReceipt(splitOrder)
+    : (await import('./printBrowserReceipt')).printBrowserReceipt(splitOrder);
+}
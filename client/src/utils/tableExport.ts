@@ -0,0 +1,237 @@
+/**
+ * Table export
+ * Walks every page of a paginated API and writes the rows as CSV or XLSX,
+ * with amounts as numbers and timestamps in the branch timezone
+ */
+import { PaginationResponse } from '@/types/pagination';
+import { parseUtcDate } from './dateTimeUtils';
+import { XlsxCell, buildXlsx } from './xlsxWriter';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+// datetime values are UTC timestamps from the API; date values are calendar days and are not shifted
+export type ExportColumnType = 'text' | 'number' | 'currency' | 'datetime' | 'date';
+
+export interface ExportColumn<T> {
+  header: string;
+  type?: ExportColumnType;
+  value: (row: T) => string | number | null | undefined;
+}
+
+export interface ExportContext {
+  // Added to currency column headers, e.g. "Total (PKR)"
+  currency?: string;
+  timeZone?: string;
+}
+
+export type PageFetcher<T> = (
+  pageNumber: number,
+  pageSize: number,
+) => Promise<PaginationResponse<T> | T[] | undefined>;
+
+export const EXPORT_PAGE_SIZE = 100;
+// Safety stop for APIs that never report hasNext = false
+const MAX_EXPORT_PAGES = 500;
+
+// Cells starting with these run as a formula when the file is opened in a spreadsheet
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV (.csv)',
+  xlsx: 'Excel (.xlsx)',
+};
+
+/**
+ * Fetches every page from a paginated API
+ * @param fetchPage - Loads one page; the active filters are captured by the caller
+ * @param onProgress - Called after each page with rows fetched so far and the API's total
+ * @throws When there are more than MAX_EXPORT_PAGES pages, rather than returning part of the rows
+ */
+export async function fetchAllPages<T>(
+  fetchPage: PageFetcher<T>,
+  onProgress?: (fetched: number, total?: number) => void,
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let pageNumber = 1; ; pageNumber++) {
+    if (pageNumber > MAX_EXPORT_PAGES) {
+      throw new Error(
+        `More than ${MAX_EXPORT_PAGES * EXPORT_PAGE_SIZE} rows to load. Narrow the filters and try again.`,
+      );
+    }
+
+    const response = await fetchPage(pageNumber, EXPORT_PAGE_SIZE);
+
+    // Some endpoints return a plain array instead of a page
+    if (Array.isArray(response)) {
+      rows.push(...response);
+      onProgress?.(rows.length, rows.length);
+      break;
+    }
+
+    const items = response?.items || [];
+    rows.push(...items);
+    onProgress?.(rows.length, response?.totalCount);
+
+    if (!response?.hasNext || items.length === 0) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Formats a UTC timestamp as "YYYY-MM-DD HH:mm" in the given timezone
+ */
+export const formatExportDateTime = (utcDateString: string, timeZone: string = 'UTC'): string => {
+  const date = parseUtcDate(utcDateString);
+  if (isNaN(date.getTime())) return utcDateString;
+
+  try {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      })
+        .formatToParts(date)
+        .map(part => [part.type, part.value]),
+    );
+    return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}`;
+  } catch (error) {
+    console.error('[Export] Invalid timezone:', timeZone, error);
+    return date.toISOString();
+  }
+};
+
+const formatHeader = <T>(column: ExportColumn<T>, context: ExportContext): string =>
+  column.type === 'currency' && context.currency ? `${column.header} (${context.currency})` : column.header;
+
+const toCellValue = <T>(
+  column: ExportColumn<T>,
+  row: T,
+  context: ExportContext,
+): string | number | null => {
+  const value = column.value(row);
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (column.type) {
+    case 'currency': {
+      const amount = Number(value);
+      return isNaN(amount) ? String(value) : Math.round(amount * 100) / 100;
+    }
+    case 'number': {
+      const number = Number(value);
+      return isNaN(number) ? String(value) : number;
+    }
+    case 'datetime':
+      return formatExportDateTime(String(value), context.timeZone);
+    case 'date': {
+      const text = String(value);
+      return /^\d{4}-\d{2}-\d{2}/.test(text) ? text.slice(0, 10) : text;
+    }
+    default:
+      return String(value);
+  }
+};
+
+// Prefixing a quote makes the spreadsheet show the text as typed
+const neutralizeFormula = (text: string): string => (FORMULA_PREFIX.test(text) ? `'${text}` : text);
+
+const formatValue = <T>(
+  column: ExportColumn<T>,
+  row: T,
+  context: ExportContext,
+): string | number | null => {
+  const value = toCellValue(column, row, context);
+  // Names, addresses and instructions are typed in by customers
+  return typeof value === 'string' ? neutralizeFormula(value) : value;
+};
+
+const escapeCsvCell = (value: string | number | null): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds a CSV document
+ */
+export const buildCsv = <T>(rows: T[], columns: ExportColumn<T>[], context: ExportContext = {}): string => {
+  const header = columns.map(column => escapeCsvCell(formatHeader(column, context))).join(',');
+  const body = rows.map(row =>
+    columns
+      .map(column => {
+        const value = formatValue(column, row, context);
+        // Fixed two decimals so amounts line up in spreadsheets
+        return escapeCsvCell(column.type === 'currency' && typeof value === 'number' ? value.toFixed(2) : value);
+      })
+      .join(','),
+  );
+  return [header, ...body].join('\r\n');
+};
+
+/**
+ * Builds an XLSX workbook with a bold header row and numeric amount cells
+ */
+export const buildXlsxExport = <T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  sheetName: string,
+  context: ExportContext = {},
+): Uint8Array<ArrayBuffer> => {
+  const header: XlsxCell[] = columns.map(column => ({ value: formatHeader(column, context), style: 'header' }));
+  const body: XlsxCell[][] = rows.map(row =>
+    columns.map(column => {
+      const value = formatValue(column, row, context);
+      return {
+        value,
+        style: column.type === 'currency' && typeof value === 'number' ? 'amount' : 'text',
+      };
+    }),
+  );
+  return buildXlsx(sheetName, [header, ...body]);
+};
+
+/**
+ * Triggers a browser download for generated content
+ */
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Writes rows to a CSV or XLSX file and downloads it
+ * @param options.fileName - Base name; the date and extension are appended
+ */
+export function exportRows<T>(options: {
+  rows: T[];
+  columns: ExportColumn<T>[];
+  format: ExportFormat;
+  fileName: string;
+  sheetName?: string;
+  context?: ExportContext;
+}): void {
+  const { rows, columns, format, fileName, sheetName = fileName, context = {} } = options;
+  const fullName = `${fileName}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  if (format === 'xlsx') {
+    downloadFile(
+      buildXlsxExport(rows, columns, sheetName, context),
+      fullName,
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    );
+  } else {
+    // The BOM keeps Excel from mangling non-ASCII names
+    downloadFile('\uFEFF' + buildCsv(rows, columns, context), fullName, 'text/csv;charset=utf-8');
+  }
+}
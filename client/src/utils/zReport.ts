@@ -0,0 +1,422 @@
+/**
+ * End-of-day Z-report
+ * Totals one branch day of orders for the shift close-out, laid out for the
+ * screen, the thermal printer and a printable PDF page
+ */
+import { CreateZReportCloseoutRequest, DetailedOrder, OrderRefund, ZReportCloseout } from '@/types/schema';
+import { ordersApi, zReportApi } from '@/lib/apiRepository';
+import { EMPTY_ORDER_FILTERS } from '@/types/orderFilters';
+import { convertBranchDateToUTC, formatCurrency, formatCurrencyForPrinter } from '@/lib/currencyUtils';
+import { ReceiptColumns, ReceiptLine, formatColumns } from './receiptLayout';
+import { fetchAllPages, formatExportDateTime } from './tableExport';
+import { CANCELLATION_REASONS, getLifecycleState, getOrderLifecycleState } from './orderLifecycle';
+import { OrderStatusType, getOrderStatusName, getStatusName } from './kitchenDisplay';
+import { escapeHtml } from './printBrowserReceipt';
+
+// Number of best sellers listed on the report
+const TOP_ITEM_COUNT = 10;
+
+export interface ZReportBreakdown {
+  label: string;
+  count: number;
+  total: number;
+}
+
+export interface ZReportItem {
+  name: string;
+  quantity: number;
+  total: number;
+}
+
+export interface ZReport {
+  branchName: string;
+  // Calendar day at the branch, YYYY-MM-DD
+  businessDate: string;
+  timeZone: string;
+  currency: string;
+  generatedAt: string;
+  orderCount: number;
+  // Sales figures leave out cancelled orders
+  grossSales: number;
+  discounts: number;
+  tax: number;
+  serviceCharges: number;
+  deliveryCharges: number;
+  tips: number;
+  // Refunds issued on the day, whatever day the order was placed; already deducted from netSales
+  refunds: { count: number; total: number };
+  netSales: number;
+  averageOrder: number;
+  // Orders neither completed nor cancelled when the report was built
+  openOrderCount: number;
+  byOrderType: ZReportBreakdown[];
+  byStatus: ZReportBreakdown[];
+  cancellations: ZReportBreakdown & { byReason: ZReportBreakdown[] };
+  splitBills: { orderCount: number; billCount: number; total: number; byType: ZReportBreakdown[] };
+  topItems: ZReportItem[];
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) a UTC timestamp falls on in the branch timezone
+ */
+export const getBranchDay = (utcDateString: string, timeZone: string = 'UTC'): string =>
+  formatExportDateTime(utcDateString, timeZone).slice(0, 10);
+
+/**
+ * Today's date at the branch
+ */
+export const getBranchToday = (timeZone: string = 'UTC'): string =>
+  getBranchDay(new Date().toISOString(), timeZone);
+
+const addToBreakdown = (breakdown: Map<string, ZReportBreakdown>, label: string, amount: number) => {
+  const entry = breakdown.get(label) || { label, count: 0, total: 0 };
+  entry.count += 1;
+  entry.total += amount;
+  breakdown.set(label, entry);
+};
+
+const sortBreakdown = (breakdown: Map<string, ZReportBreakdown>): ZReportBreakdown[] =>
+  Array.from(breakdown.values()).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+
+// Cancellation comments lead with the reason code, see buildStatusComment
+const getCancellationReason = (order: DetailedOrder, statusTypes: OrderStatusType[]): string => {
+  const entry = [...(order.orderStatusHistory || [])]
+    .reverse()
+    .find(history => getLifecycleState(getStatusName(history.orderStatus, statusTypes)) === 'cancelled');
+  const code = entry?.statusComment?.match(/^([A-Z_]+):/)?.[1];
+  return CANCELLATION_REASONS.find(reason => reason.code === code)?.label || 'Unspecified';
+};
+
+/**
+ * Totals a day of orders into a Z-report
+ * @param orders - Orders of the branch; anything outside businessDate is ignored
+ * @param options.businessDate - Branch calendar day, YYYY-MM-DD
+ * @param options.timeZone - Branch timezone used to assign orders to the day
+ * @param options.statusTypes - Order status types, for orders whose status arrives as an id
+ * @param options.refunds - Refunds of the branch; those not issued on businessDate are ignored
+ */
+export function buildZReport(
+  orders: DetailedOrder[],
+  options: {
+    businessDate: string;
+    timeZone?: string;
+    branchName?: string;
+    currency?: string;
+    statusTypes?: OrderStatusType[];
+    refunds?: OrderRefund[];
+  },
+): ZReport {
+  const timeZone = options.timeZone || 'UTC';
+  const statusTypes = options.statusTypes || [];
+  const dayOrders = orders.filter(order => getBranchDay(order.createdAt, timeZone) === options.businessDate);
+
+  const byOrderType = new Map<string, ZReportBreakdown>();
+  const byStatus = new Map<string, ZReportBreakdown>();
+  const byReason = new Map<string, ZReportBreakdown>();
+  const bySplitType = new Map<string, ZReportBreakdown>();
+  const items = new Map<string, ZReportItem>();
+
+  const report: ZReport = {
+    branchName: options.branchName || dayOrders[0]?.branchName || '',
+    businessDate: options.businessDate,
+    timeZone,
+    currency: options.currency || dayOrders[0]?.currency || 'USD',
+    generatedAt: new Date().toISOString(),
+    orderCount: 0,
+    grossSales: 0,
+    discounts: 0,
+    tax: 0,
+    serviceCharges: 0,
+    deliveryCharges: 0,
+    tips: 0,
+    refunds: { count: 0, total: 0 },
+    netSales: 0,
+    averageOrder: 0,
+    openOrderCount: 0,
+    byOrderType: [],
+    byStatus: [],
+    cancellations: { label: 'Cancelled', count: 0, total: 0, byReason: [] },
+    splitBills: { orderCount: 0, billCount: 0, total: 0, byType: [] },
+    topItems: [],
+  };
+
+  const addItem = (name: string, quantity: number, total: number) => {
+    const entry = items.get(name) || { name, quantity: 0, total: 0 };
+    entry.quantity += quantity || 0;
+    entry.total += total || 0;
+    items.set(name, entry);
+  };
+
+  dayOrders.forEach(order => {
+    const state = getOrderLifecycleState(order, statusTypes);
+    addToBreakdown(byStatus, getOrderStatusName(order, statusTypes) || 'Unknown', order.totalAmount || 0);
+
+    if (state === 'cancelled') {
+      report.cancellations.count += 1;
+      report.cancellations.total += order.totalAmount || 0;
+      addToBreakdown(byReason, getCancellationReason(order, statusTypes), order.totalAmount || 0);
+      return;
+    }
+
+    if (state !== 'delivered') report.openOrderCount += 1;
+
+    report.orderCount += 1;
+    report.grossSales += order.subTotal || 0;
+    report.discounts += order.discountAmount || 0;
+    report.tax += order.taxAmount || 0;
+    report.serviceCharges += order.serviceCharges || 0;
+    report.deliveryCharges += order.deliveryCharges || 0;
+    report.tips += order.tipAmount || 0;
+    report.netSales += order.totalAmount || 0;
+    addToBreakdown(byOrderType, order.orderType || 'Unknown', order.totalAmount || 0);
+
+    if (order.splitBills && order.splitBills.length > 0) {
+      report.splitBills.orderCount += 1;
+      order.splitBills.forEach(bill => {
+        report.splitBills.billCount += 1;
+        report.splitBills.total += bill.price || 0;
+        addToBreakdown(bySplitType, bill.splitType || 'Unknown', bill.price || 0);
+      });
+    }
+
+    (order.orderItems || []).forEach(item =>
+      addItem(item.itemName + (item.variantName ? ` (${item.variantName})` : ''), item.quantity, item.totalPrice),
+    );
+    (order.orderPackages || []).forEach(pkg => addItem(`[DEAL] ${pkg.packageName}`, pkg.quantity, pkg.totalPrice));
+  });
+
+  // A refund belongs to the day it was paid out, so closed days keep their totals
+  (options.refunds || [])
+    .filter(refund => getBranchDay(refund.createdAt, timeZone) === options.businessDate)
+    .forEach(refund => {
+      report.refunds.count += 1;
+      report.refunds.total += refund.totalAmount || 0;
+      report.netSales -= refund.totalAmount || 0;
+    });
+
+  report.averageOrder = report.orderCount > 0 ? report.netSales / report.orderCount : 0;
+  report.byOrderType = sortBreakdown(byOrderType);
+  report.byStatus = sortBreakdown(byStatus);
+  report.cancellations.byReason = sortBreakdown(byReason);
+  report.splitBills.byType = sortBreakdown(bySplitType);
+  report.topItems = Array.from(items.values())
+    .sort((a, b) => b.quantity - a.quantity || b.total - a.total)
+    .slice(0, TOP_ITEM_COUNT);
+
+  return report;
+}
+
+/**
+ * Loads every order created on a branch day
+ * @param businessDate - Branch calendar day, YYYY-MM-DD
+ * @param timeZone - Branch timezone
+ */
+export async function fetchZReportOrders(
+  branchId: number,
+  businessDate: string,
+  timeZone: string = 'UTC',
+  onProgress?: (fetched: number, total?: number) => void,
+): Promise<DetailedOrder[]> {
+  const filters = { ...EMPTY_ORDER_FILTERS, createdFrom: businessDate, createdTo: businessDate };
+  return fetchAllPages<DetailedOrder>(
+    (pageNumber, pageSize) =>
+      ordersApi.getOrdersByBranch(branchId, pageNumber, pageSize, 'createdAt', true, filters, timeZone),
+    onProgress,
+  );
+}
+
+/**
+ * Loads the refunds issued on a branch day, including those on orders of earlier days
+ * @param businessDate - Branch calendar day, YYYY-MM-DD
+ * @param timeZone - Branch timezone
+ */
+export const fetchZReportRefunds = (
+  branchId: number,
+  businessDate: string,
+  timeZone: string = 'UTC',
+): Promise<OrderRefund[]> =>
+  ordersApi.getRefundsByBranch(
+    branchId,
+    convertBranchDateToUTC(businessDate, timeZone),
+    convertBranchDateToUTC(businessDate, timeZone, true),
+  );
+
+/**
+ * Close-out recorded for a branch day, or null while the shift is still open
+ */
+export const getZReportCloseout = (branchId: number, businessDate: string): Promise<ZReportCloseout | null> =>
+  zReportApi.getCloseout(branchId, businessDate);
+
+/**
+ * Closes the shift for a branch day
+ * The API assigns the next Z number of the branch, so every till shares one
+ * sequence, and rejects a day that another till already closed
+ */
+export const closeZReportShift = (branchId: number, report: ZReport): Promise<ZReportCloseout> => {
+  const closeoutData: CreateZReportCloseoutRequest = {
+    branchId,
+    businessDate: report.businessDate,
+    orderCount: report.orderCount,
+    grossSales: report.grossSales,
+    netSales: report.netSales,
+    currency: report.currency,
+  };
+  return zReportApi.createCloseout(closeoutData);
+};
+
+// Title shown on every output: a Z-report once closed, otherwise a mid-shift X-report
+export const getZReportTitle = (closeout?: ZReportCloseout | null): string =>
+  closeout ? `Z-REPORT #${closeout.zNumber}` : 'X-REPORT (SHIFT OPEN)';
+
+/**
+ * Builds the printer-neutral line model for the thermal printer
+ * @param columns - Characters per line in the normal font
+ */
+export const layoutZReport = (
+  report: ZReport,
+  columns: ReceiptColumns,
+  closeout?: ZReportCloseout | null,
+): ReceiptLine[] => {
+  const lines: ReceiptLine[] = [];
+  const price = (amount: number) => formatCurrencyForPrinter(amount, report.currency);
+  const text = (value: string, options: { align?: 'left' | 'center'; bold?: boolean; large?: boolean } = {}) =>
+    lines.push({ kind: 'text', text: value, align: options.align || 'left', bold: !!options.bold, large: !!options.large });
+  const row = (label: string, value: string, bold = false) =>
+    formatColumns(label, value, columns, 2).forEach(line => text(line, { bold }));
+  const divider = (char = '-') => text(char.repeat(columns));
+  const section = (title: string, entries: ZReportBreakdown[]) => {
+    divider();
+    text(title, { bold: true });
+    if (entries.length === 0) text('None');
+    entries.forEach(entry => row(`${entry.label} (${entry.count})`, price(entry.total)));
+  };
+
+  text(report.branchName || 'RESTAURANT', { align: 'center', bold: true, large: true });
+  text(getZReportTitle(closeout), { align: 'center', bold: true });
+  text(`Business day: ${report.businessDate}`, { align: 'center' });
+  text(`Printed: ${formatExportDateTime(new Date().toISOString(), report.timeZone)}`, { align: 'center' });
+  if (closeout) {
+    text(`Closed: ${formatExportDateTime(closeout.closedAt, report.timeZone)}`, { align: 'center' });
+  }
+  divider('=');
+
+  text('SALES', { bold: true });
+  row('Gross sales', price(report.grossSales));
+  row('Discounts', `-${price(report.discounts)}`);
+  row('Tax', price(report.tax));
+  row('Service charges', price(report.serviceCharges));
+  row('Delivery charges', price(report.deliveryCharges));
+  row('Tips', price(report.tips));
+  if (report.refunds.count > 0) row(`Refunds (${report.refunds.count})`, `-${price(report.refunds.total)}`);
+  row('NET SALES', price(report.netSales), true);
+  row('Orders', String(report.orderCount));
+  row('Average order', price(report.averageOrder));
+  if (report.openOrderCount > 0) row('Still open', String(report.openOrderCount));
+
+  section('ORDER TYPES', report.byOrderType);
+  section('STATUSES', report.byStatus);
+  section(`CANCELLATIONS (${report.cancellations.count})`, report.cancellations.byReason);
+
+  divider();
+  text('SPLIT BILLS', { bold: true });
+  row('Orders split', String(report.splitBills.orderCount));
+  row(`Bills (${report.splitBills.billCount})`, price(report.splitBills.total));
+  report.splitBills.byType.forEach(entry => row(`${entry.label} (${entry.count})`, price(entry.total)));
+
+  divider();
+  text('TOP ITEMS', { bold: true });
+  if (report.topItems.length === 0) text('None');
+  report.topItems.forEach((item, index) => row(`${index + 1}. ${item.quantity}x ${item.name}`, price(item.total)));
+
+  divider('=');
+  text(closeout ? 'END OF SHIFT' : 'Shift still open', { align: 'center', bold: true });
+  return lines;
+};
+
+/**
+ * Builds a print-optimized A4 HTML document, saved as PDF from the print dialog
+ */
+export function buildZReportHtml(report: ZReport, closeout?: ZReportCloseout | null): string {
+  const price = (amount: number) => escapeHtml(formatCurrency(amount, report.currency));
+  const row = (label: string, value: string, className = '') =>
+    `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="num">${value}</td></tr>`;
+  const breakdown = (title: string, entries: ZReportBreakdown[]) => `
+    <h2>${escapeHtml(title)}</h2>
+    <table>
+      <tr><th>Name</th><th class="num">Orders</th><th class="num">Total</th></tr>
+      ${entries.length === 0 ? '<tr><td colspan="3">None</td></tr>' : ''}
+      ${entries.map(entry =>
+        `<tr><td>${escapeHtml(entry.label)}</td><td class="num">${entry.count}</td><td class="num">${price(entry.total)}</td></tr>`
+      ).join('')}
+    </table>`;
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(`${getZReportTitle(closeout)} - ${report.branchName} - ${report.businessDate}`)}</title>
+    <style>
+      @page { size: A4; margin: 15mm; }
+      * { box-sizing: border-box; }
+      body { font-family: Arial, sans-serif; color: #000; background: #fff; margin: 0; font-size: 12px; }
+      h1 { font-size: 20px; margin: 0 0 4px; }
+      h2 { font-size: 14px; margin: 18px 0 6px; border-bottom: 1px solid #000; padding-bottom: 2px; }
+      .meta { color: #444; }
+      .columns { display: flex; gap: 24px; }
+      .columns > div { flex: 1; }
+      table { width: 100%; border-collapse: collapse; }
+      th { text-align: left; border-bottom: 1px solid #999; }
+      td, th { padding: 3px 4px; }
+      .num { text-align: right; white-space: nowrap; }
+      .total td { font-weight: bold; border-top: 1px solid #000; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(report.branchName || 'Restaurant')} - ${escapeHtml(getZReportTitle(closeout))}</h1>
+    <div class="meta">Business day ${escapeHtml(report.businessDate)} (${escapeHtml(report.timeZone)})</div>
+    <div class="meta">Generated ${escapeHtml(formatExportDateTime(report.generatedAt, report.timeZone))}${
+      closeout ? ` - closed ${escapeHtml(formatExportDateTime(closeout.closedAt, report.timeZone))}` : ''
+    }</div>
+
+    <div class="columns">
+      <div>
+        <h2>Sales</h2>
+        <table>
+          ${row('Gross sales', price(report.grossSales))}
+          ${row('Discounts', `-${price(report.discounts)}`)}
+          ${row('Tax', price(report.tax))}
+          ${row('Service charges', price(report.serviceCharges))}
+          ${row('Delivery charges', price(report.deliveryCharges))}
+          ${row('Tips', price(report.tips))}
+          ${report.refunds.count > 0 ? row(`Refunds (${report.refunds.count})`, `-${price(report.refunds.total)}`) : ''}
+          ${row('Net sales', price(report.netSales), 'total')}
+          ${row('Orders', String(report.orderCount))}
+          ${row('Average order', price(report.averageOrder))}
+          ${report.openOrderCount > 0 ? row('Still open', String(report.openOrderCount)) : ''}
+        </table>
+
+        <h2>Split Bills</h2>
+        <table>
+          ${row('Orders split', String(report.splitBills.orderCount))}
+          ${row(`Bills (${report.splitBills.billCount})`, price(report.splitBills.total))}
+          ${report.splitBills.byType.map(entry => row(`${entry.label} (${entry.count})`, price(entry.total))).join('')}
+        </table>
+      </div>
+      <div>
+        ${breakdown('Order Types', report.byOrderType)}
+        ${breakdown('Statuses', report.byStatus)}
+        ${breakdown(`Cancellations (${report.cancellations.count})`, report.cancellations.byReason)}
+      </div>
+    </div>
+
+    <h2>Top Items</h2>
+    <table>
+      <tr><th>#</th><th>Item</th><th class="num">Qty</th><th class="num">Sales</th></tr>
+      ${report.topItems.length === 0 ? '<tr><td colspan="4">None</td></tr>' : ''}
+      ${report.topItems.map((item, index) =>
+        `<tr><td>${index + 1}</td><td>${escapeHtml(item.name)}</td><td class="num">${item.quantity}</td><td class="num">${price(item.total)}</td></tr>`
+      ).join('')}
+    </table>
+  </body>
+</html>`;
+}
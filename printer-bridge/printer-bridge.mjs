@@ -0,0 +1,229 @@
+#!/usr/bin/env node
+/**
+ * Printer bridge - relays ESC/POS jobs from the browser to LAN thermal printers
+ *
+ * Browsers can't open raw TCP sockets, so the web app sends print jobs over a
+ * WebSocket to this bridge, which writes them to the printer's raw port (9100).
+ * Uses only Node built-ins: run it with `node printer-bridge/printer-bridge.mjs`.
+ *
+ * Protocol (JSON text frames, one result per request):
+ *   -> { "type": "probe", "id": "...", "host": "192.168.1.50", "port": 9100 }
+ *   -> { "type": "print", "id": "...", "host": "192.168.1.50", "port": 9100, "data": "<base64 ESC/POS>" }
+ *   <- { "type": "result", "id": "...", "success": true }
+ *   <- { "type": "result", "id": "...", "success": false, "error": "..." }
+ *
+ * Environment:
+ *   BRIDGE_HOST             Interface to listen on (default 127.0.0.1)
+ *   BRIDGE_PORT             WebSocket port (default 9180)
+ *   BRIDGE_ALLOWED_ORIGINS  Comma separated web app origins allowed to connect (required;
+ *                           connections are refused until it is set)
+ *   BRIDGE_ALLOWED_PORTS    Comma separated printer ports jobs may target (default 9100)
+ */
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import net from 'node:net';
+
+const BRIDGE_HOST = process.env.BRIDGE_HOST || '127.0.0.1';
+const BRIDGE_PORT = Number(process.env.BRIDGE_PORT || 9180);
+const ALLOWED_ORIGINS = (process.env.BRIDGE_ALLOWED_ORIGINS || '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+const ALLOWED_PORTS = (process.env.BRIDGE_ALLOWED_PORTS || '9100')
+  .split(',')
+  .map(port => Number(port.trim()))
+  .filter(Boolean);
+
+const PRINTER_TIMEOUT_MS = 10000;
+const MAX_FRAME_BYTES = 4 * 1024 * 1024;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const log = (...args) => console.log(`[Printer Bridge] ${new Date().toISOString()}`, ...args);
+
+// Open a TCP connection to the printer, optionally write a job, then close it
+function sendToPrinter(host, port, data) {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(PRINTER_TIMEOUT_MS);
+
+    socket.once('connect', () => {
+      if (data) {
+        socket.end(data);
+      } else {
+        socket.end();
+      }
+    });
+    socket.once('timeout', () => socket.destroy(new Error(`Printer ${host}:${port} timed out`)));
+    socket.once('error', reject);
+    socket.once('close', hadError => {
+      if (!hadError) resolve();
+    });
+  });
+}
+
+async function handleRequest(message) {
+  if (!message || typeof message.id !== 'string') {
+    throw new Error('Request id missing');
+  }
+  if (typeof message.host !== 'string' || !message.host.trim()) {
+    throw new Error('Printer host missing');
+  }
+  const port = Number(message.port);
+  if (!ALLOWED_PORTS.includes(port)) {
+    throw new Error(`Port ${message.port} is not allowed (allowed: ${ALLOWED_PORTS.join(', ')})`);
+  }
+
+  switch (message.type) {
+    case 'probe':
+      await sendToPrinter(message.host, port);
+      return;
+    case 'print': {
+      const data = Buffer.from(String(message.data || ''), 'base64');
+      if (data.length === 0) throw new Error('Print job is empty');
+      await sendToPrinter(message.host, port, data);
+      log(`Printed ${data.length} bytes to ${message.host}:${port}`);
+      return;
+    }
+    default:
+      throw new Error(`Unknown request type: ${message.type}`);
+  }
+}
+
+// Minimal RFC 6455 framing: text frames out, masked text/close/ping frames in
+function encodeFrame(payload, opcode = 0x1) {
+  const body = Buffer.from(payload);
+  let header;
+  if (body.length < 126) {
+    header = Buffer.from([0x80 | opcode, body.length]);
+  } else if (body.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(body.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(body.length), 2);
+  }
+  return Buffer.concat([header, body]);
+}
+
+function attachClient(socket) {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+
+  const send = result => socket.write(encodeFrame(JSON.stringify({ type: 'result', ...result })));
+
+  const handleText = text => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return;
+    }
+    handleRequest(message)
+      .then(() => send({ id: message.id, success: true }))
+      .catch(error => {
+        log(`Request ${message?.id} failed:`, error.message);
+        send({ id: message?.id, success: false, error: error.message });
+      });
+  };
+
+  socket.on('data', chunk => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+
+      if (length > MAX_FRAME_BYTES) {
+        socket.destroy();
+        return;
+      }
+
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (buffer.length < offset + length) return;
+
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= buffer[maskOffset + (i % 4)];
+        }
+      }
+      buffer = buffer.subarray(offset + length);
+
+      if (opcode === 0x8) {
+        socket.end(encodeFrame(Buffer.alloc(0), 0x8));
+        return;
+      }
+      if (opcode === 0x9) {
+        socket.write(encodeFrame(payload, 0xa));
+        continue;
+      }
+      if (opcode === 0x1 || opcode === 0x0) {
+        fragments.push(payload);
+        if (fin) {
+          handleText(Buffer.concat(fragments).toString('utf8'));
+          fragments = [];
+        }
+      }
+    }
+  });
+
+  socket.on('error', error => log('Client socket error:', error.message));
+}
+
+const server = createServer((_req, res) => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ service: 'printer-bridge', allowedPorts: ALLOWED_PORTS }));
+});
+
+server.on('upgrade', (req, socket) => {
+  const origin = req.headers.origin || '';
+  // No allowlist means no clients: otherwise any web page could print through the bridge
+  if (!ALLOWED_ORIGINS.includes(origin)) {
+    log(`Rejected connection from origin ${origin || '(none)'}`);
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+
+  const key = req.headers['sec-websocket-key'];
+  if (!key || (req.headers.upgrade || '').toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  log(`Client connected from ${origin || req.socket.remoteAddress}`);
+  attachClient(socket);
+});
+
+server.listen(BRIDGE_PORT, BRIDGE_HOST, () => {
+  log(`Listening on ws://${BRIDGE_HOST}:${BRIDGE_PORT}`);
+  log(`Allowed printer ports: ${ALLOWED_PORTS.join(', ')}`);
+  if (ALLOWED_ORIGINS.length === 0) {
+    log('Warning: BRIDGE_ALLOWED_ORIGINS is not set, so every connection will be refused.');
+    log('Set it to the web app origin, e.g. BRIDGE_ALLOWED_ORIGINS=https://pos.example.com');
+  }
+});